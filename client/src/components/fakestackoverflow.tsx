@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Routes, Route, Navigate } from 'react-router-dom';
 import Layout from './layout';
 import Login from './login';
@@ -11,7 +11,20 @@ import NewQuestionPage from './main/newQuestion';
 import NewAnswerPage from './main/newAnswer';
 import AnswerPage from './main/answerPage';
 import MessagingPage from './main/messagingPage';
+import EditQuestionPage from './main/editQuestion';
+import QuestionRevisionsPage from './main/questionRevisionsPage';
+import TagDetailPage from './main/tagDetailPage';
+import EditTagWikiPage from './main/editTagWiki';
+import TagRevisionsPage from './main/tagRevisionsPage';
+import SettingsPage from './main/settingsPage';
+import ProfilePage from './main/profilePage';
+import UsersPage from './main/usersPage';
 
+/**
+ * Route wrapper that only renders its children for a user the server has authenticated.
+ * The user is only ever set by the login and signup flows after the server accepts
+ * their credentials, so any visitor without one is sent back to the login page.
+ */
 const ProtectedRoute = ({
   user,
   socket,
@@ -30,11 +43,24 @@ const ProtectedRoute = ({
 
 /**
  * Represents the main component of the application.
- * It manages the state for search terms and the main title.
+ * It manages the state for search terms and the main title, and opens the socket connection
+ * once a user has logged in.
  */
 const FakeStackOverflow = ({ socket }: { socket: FakeSOSocket | null }) => {
   const [user, setUser] = useState<User | null>(null);
 
+  useEffect(() => {
+    if (!socket) {
+      return;
+    }
+
+    if (user && socket.disconnected) {
+      socket.connect();
+    } else if (!user && socket.connected) {
+      socket.disconnect();
+    }
+  }, [user, socket]);
+
   return (
     <LoginContext.Provider value={{ setUser }}>
       <Routes>
@@ -51,9 +77,17 @@ const FakeStackOverflow = ({ socket }: { socket: FakeSOSocket | null }) => {
             }>
             <Route path='/home' element={<QuestionPage />} />
             <Route path='tags' element={<TagPage />} />
+            <Route path='/tags/:name' element={<TagDetailPage />} />
+            <Route path='/tags/:name/edit' element={<EditTagWikiPage />} />
+            <Route path='/tags/:name/revisions' element={<TagRevisionsPage />} />
             <Route path='/messaging' element={<MessagingPage />} />
+            <Route path='/settings' element={<SettingsPage />} />
+            <Route path='/users' element={<UsersPage />} />
+            <Route path='/user/:username' element={<ProfilePage />} />
             <Route path='/question/:qid' element={<AnswerPage />} />
+            <Route path='/question/:qid/revisions' element={<QuestionRevisionsPage />} />
             <Route path='/new/question' element={<NewQuestionPage />} />
+            <Route path='/edit/question/:qid' element={<EditQuestionPage />} />
             <Route path='/new/answer/:qid' element={<NewAnswerPage />} />
           </Route>
         }
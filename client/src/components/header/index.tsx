@@ -2,26 +2,82 @@ import React from 'react';
 import useHeader from '../../hooks/useHeader';
 import './index.css';
 
+/**
+ * The label shown next to each kind of search suggestion.
+ */
+const suggestionTypeLabel = {
+  question: 'Question',
+  tag: 'Tag',
+  user: 'User',
+} as const;
+
 /**
  * Header component that renders the main title and a search bar.
  * The search bar allows the user to input a query and navigate to the search results page
- * when they press Enter.
+ * when they press Enter. Errors in the query are shown below the search bar. While typing,
+ * a dropdown below the search bar suggests questions, tags and users.
  */
 const Header = () => {
-  const { val, handleInputChange, handleKeyDown } = useHeader();
+  const {
+    val,
+    searchErrors,
+    suggestions,
+    activeIndex,
+    handleInputChange,
+    handleKeyDown,
+    handleSelectSuggestion,
+    closeSuggestions,
+  } = useHeader();
 
   return (
     <div id='header' className='header'>
       <div></div>
       <div className='title'>Fake Stack Overflow</div>
-      <input
-        id='searchBar'
-        placeholder='Search ...'
-        type='text'
-        value={val}
-        onChange={handleInputChange}
-        onKeyDown={handleKeyDown}
-      />
+      <div className='search_container'>
+        <input
+          id='searchBar'
+          placeholder='Search ...'
+          type='text'
+          value={val}
+          onChange={handleInputChange}
+          onKeyDown={handleKeyDown}
+          onBlur={closeSuggestions}
+          autoComplete='off'
+          role='combobox'
+          aria-expanded={suggestions.length > 0}
+          aria-controls='searchSuggestions'
+        />
+        {searchErrors.length === 0 && suggestions.length > 0 && (
+          <ul id='searchSuggestions' className='search_suggestions' role='listbox'>
+            {suggestions.map((suggestion, idx) => (
+              <li
+                key={`${suggestion.type}-${suggestion.value}`}
+                role='option'
+                aria-selected={idx === activeIndex}
+                className={`search_suggestion ${idx === activeIndex ? 'search_suggestion_active' : ''}`}
+                onMouseDown={e => {
+                  // Keep the focus in the search bar, so that it does not close the dropdown
+                  e.preventDefault();
+                  handleSelectSuggestion(suggestion);
+                }}>
+                <span className='search_suggestion_type'>
+                  {suggestionTypeLabel[suggestion.type]}
+                </span>
+                {suggestion.label}
+              </li>
+            ))}
+          </ul>
+        )}
+        {searchErrors.length > 0 && (
+          <ul id='searchErrors' className='search_errors'>
+            {searchErrors.map((err, idx) => (
+              <li key={idx}>
+                <span className='search_error_token'>{err.token}</span>: {err.message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
     </div>
   );
 };
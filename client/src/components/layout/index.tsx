@@ -3,9 +3,11 @@ import './index.css';
 import { Outlet } from 'react-router-dom';
 import SideBarNav from '../main/sideBarNav';
 import Header from '../header';
+import BadgeNotifications from '../main/badgeNotifications';
 
 /**
- * Main component represents the layout of the main page, including a sidebar and the main content area.
+ * Main component represents the layout of the main page, including a sidebar, the main content area
+ * and the notifications for the badges the user earns.
  */
 const Layout = () => (
   <>
@@ -16,6 +18,7 @@ const Layout = () => (
         <Outlet />
       </div>
     </div>
+    <BadgeNotifications />
   </>
 );
 
@@ -3,30 +3,64 @@ import './index.css';
 import useLogin from '../../hooks/useLogin';
 
 /**
- * Login Component contains a form that allows the user to input their username, which is then submitted
- * to the application's context through the useLoginContext hook.
+ * Login Component contains a form that allows the user to log in with their username and password,
+ * or to sign up for a new account. Once the server authenticates the user, they are stored in
+ * the application's context through the useLoginContext hook.
  */
 const Login = () => {
-  const { username, handleSubmit, handleInputChange } = useLogin();
+  const {
+    username,
+    password,
+    passwordConfirmation,
+    isSignup,
+    err,
+    handleSubmit,
+    handleInputChange,
+    toggleSignup,
+  } = useLogin();
 
   return (
     <div className='container'>
       <h2>Welcome to FakeStackOverflow!</h2>
-      <h4>Please enter your username.</h4>
+      <h4>{isSignup ? 'Please create an account.' : 'Please log in to continue.'}</h4>
       <form onSubmit={handleSubmit}>
         <input
           type='text'
           value={username}
-          onChange={handleInputChange}
+          onChange={e => handleInputChange(e, 'username')}
           placeholder='Enter your username'
           required
           className='input-text'
           id={'usernameInput'}
         />
+        <input
+          type='password'
+          value={password}
+          onChange={e => handleInputChange(e, 'password')}
+          placeholder='Enter your password'
+          required
+          className='input-text'
+          id={'passwordInput'}
+        />
+        {isSignup && (
+          <input
+            type='password'
+            value={passwordConfirmation}
+            onChange={e => handleInputChange(e, 'passwordConfirmation')}
+            placeholder='Confirm your password'
+            required
+            className='input-text'
+            id={'passwordConfirmationInput'}
+          />
+        )}
         <button type='submit' className='login-button'>
           Submit
         </button>
       </form>
+      {err && <p className='login-error'>{err}</p>}
+      <button type='button' className='toggle-auth-button' onClick={toggleSignup}>
+        {isSignup ? 'Already have an account? Log in' : "Don't have an account? Sign up"}
+      </button>
     </div>
   );
 };
@@ -1,47 +1,108 @@
 import React from 'react';
 import { handleHyperlink } from '../../../../tool';
 import CommentSection from '../../commentSection';
+import UserLink from '../../baseComponents/userLink';
 import './index.css';
-import { Comment } from '../../../../types';
+import { Comment, Privilege } from '../../../../types';
+import useUserContext from '../../../../hooks/useUserContext';
 
 /**
  * Interface representing the props for the AnswerView component.
  *
  * - text The content of the answer.
  * - ansBy The username of the user who wrote the answer.
+ * - reputation The reputation of the user who wrote the answer. Optional.
  * - meta Additional metadata related to the answer.
  * - comments An array of comments associated with the answer.
  * - handleAddComment Callback function to handle adding a new comment.
+ * - handleDelete Callback function to delete the answer.
+ * - handleDeleteComment Callback function to delete one of the answer's comments.
+ * - isAccepted Whether the answer is the accepted answer of its question.
+ * - canAccept Whether the current user is allowed to accept the answer.
+ * - handleToggleAccept Callback function to accept the answer, or un-accept it.
+ * - missingPrivilege Function that says why the current user lacks a privilege, if they do.
  */
 interface AnswerProps {
   text: string;
   ansBy: string;
+  reputation?: number;
   meta: string;
   comments: Comment[];
   handleAddComment: (comment: Comment) => void;
+  handleDelete: () => void;
+  handleDeleteComment: (cid: string | undefined) => void;
+  isAccepted: boolean;
+  canAccept: boolean;
+  handleToggleAccept: () => void;
+  missingPrivilege: (privilege: Privilege) => string;
 }
 
 /**
  * AnswerView component that displays the content of an answer with the author's name and metadata.
  * The answer text is processed to handle hyperlinks, and a comment section is included.
+ * The author of the answer is also given the option to delete it, and the author of the question
+ * the option to accept it. The accepted answer is highlighted.
  *
  * @param text The content of the answer.
  * @param ansBy The username of the answer's author.
+ * @param reputation The reputation of the answer's author.
  * @param meta Additional metadata related to the answer.
  * @param comments An array of comments associated with the answer.
  * @param handleAddComment Function to handle adding a new comment.
+ * @param handleDelete Function to delete the answer.
+ * @param handleDeleteComment Function to delete one of the answer's comments.
+ * @param isAccepted Whether the answer is the accepted answer of its question.
+ * @param canAccept Whether the current user is allowed to accept the answer.
+ * @param handleToggleAccept Function to accept the answer, or un-accept it.
+ * @param missingPrivilege Function that says why the current user lacks a privilege, if they do.
  */
-const AnswerView = ({ text, ansBy, meta, comments, handleAddComment }: AnswerProps) => (
-  <div className='answer right_padding'>
-    <div id='answerText' className='answerText'>
-      {handleHyperlink(text)}
-    </div>
-    <div className='answerAuthor'>
-      <div className='answer_author'>{ansBy}</div>
-      <div className='answer_question_meta'>{meta}</div>
+const AnswerView = ({
+  text,
+  ansBy,
+  reputation,
+  meta,
+  comments,
+  handleAddComment,
+  handleDelete,
+  handleDeleteComment,
+  isAccepted,
+  canAccept,
+  handleToggleAccept,
+  missingPrivilege,
+}: AnswerProps) => {
+  const { user } = useUserContext();
+
+  return (
+    <div className={`answer right_padding ${isAccepted ? 'answer_accepted' : ''}`}>
+      <div id='answerText' className='answerText'>
+        {handleHyperlink(text)}
+      </div>
+      <div className='answerAuthor'>
+        {isAccepted && <div className='accepted_label'>&#10003; Accepted</div>}
+        <div className='answer_author'>
+          <UserLink username={ansBy} reputation={reputation} />
+        </div>
+        <div className='answer_question_meta'>{meta}</div>
+        {user.username === ansBy && (
+          <button className='answer_delete_btn' onClick={handleDelete}>
+            delete
+          </button>
+        )}
+        {canAccept && (
+          <button className='answer_accept_btn' onClick={handleToggleAccept}>
+            {isAccepted ? 'unaccept' : 'accept'}
+          </button>
+        )}
+      </div>
+      <CommentSection
+        comments={comments}
+        handleAddComment={handleAddComment}
+        handleDeleteComment={handleDeleteComment}
+        postAuthor={ansBy}
+        missingPrivilege={missingPrivilege}
+      />
     </div>
-    <CommentSection comments={comments} handleAddComment={handleAddComment} />
-  </div>
-);
+  );
+};
 
 export default AnswerView;
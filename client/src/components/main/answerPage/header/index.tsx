@@ -1,28 +1,48 @@
 import React from 'react';
 import './index.css';
 import AskQuestionButton from '../../askQuestionButton';
+import { AnswerOrderType, answerOrderTypeDisplayName } from '../../../../types';
 
 /**
  * Interface representing the props for the AnswerHeader component.
  *
  * - ansCount - The number of answers to display in the header.
  * - title - The title of the question or discussion thread.
+ * - answerOrder - The order in which the answers are shown.
+ * - setAnswerOrder - A function that sets the order in which the answers are shown.
  */
 interface AnswerHeaderProps {
   ansCount: number;
   title: string;
+  answerOrder: AnswerOrderType;
+  setAnswerOrder: (order: AnswerOrderType) => void;
 }
 
 /**
  * AnswerHeader component that displays a header section for the answer page.
- * It includes the number of answers, the title of the question, and a button to ask a new question.
+ * It includes the number of answers, the title of the question, a button to ask a new question,
+ * and buttons to set the order of the answers.
  *
  * @param ansCount The number of answers to display.
  * @param title The title of the question or discussion thread.
+ * @param answerOrder The order in which the answers are shown.
+ * @param setAnswerOrder Function to set the order in which the answers are shown.
  */
-const AnswerHeader = ({ ansCount, title }: AnswerHeaderProps) => (
+const AnswerHeader = ({ ansCount, title, answerOrder, setAnswerOrder }: AnswerHeaderProps) => (
   <div id='answersHeader' className='space_between right_padding'>
-    <div className='bold_title'>{ansCount} answers</div>
+    <div>
+      <div className='bold_title'>{ansCount} answers</div>
+      <div className='answer_order_btns'>
+        {Object.keys(answerOrderTypeDisplayName).map(order => (
+          <button
+            key={order}
+            className={`answer_order_btn ${order === answerOrder ? 'answer_order_selected' : ''}`}
+            onClick={() => setAnswerOrder(order as AnswerOrderType)}>
+            {answerOrderTypeDisplayName[order as AnswerOrderType]}
+          </button>
+        ))}
+      </div>
+    </div>
     <div className='bold_title answer_question_title'>{title}</div>
     <AskQuestionButton />
   </div>
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { Fragment } from 'react';
 import { getMetaData } from '../../../tool';
 import AnswerView from './answer';
 import AnswerHeader from './header';
@@ -11,10 +11,28 @@ import useAnswerPage from '../../../hooks/useAnswerPage';
 
 /**
  * AnswerPage component that displays the full content of a question along with its answers.
- * It also includes the functionality to vote, ask a new question, and post a new answer.
+ * It also includes the functionality to vote on the question and its answers, ask a new question,
+ * and post a new answer.
  */
 const AnswerPage = () => {
-  const { questionID, question, handleNewComment, handleNewAnswer } = useAnswerPage();
+  const {
+    questionID,
+    question,
+    reputations,
+    answerOrder,
+    setAnswerOrder,
+    handleNewComment,
+    handleNewAnswer,
+    isQuestionAuthor,
+    canEditQuestion,
+    missingPrivilege,
+    handleEditQuestion,
+    handleShowRevisions,
+    handleDeleteQuestion,
+    handleDeleteAnswer,
+    handleDeleteComment,
+    handleToggleAcceptedAnswer,
+  } = useAnswerPage();
 
   if (!question) {
     return null;
@@ -22,27 +40,50 @@ const AnswerPage = () => {
 
   return (
     <>
-      <VoteComponent question={question} />
-      <AnswerHeader ansCount={question.answers.length} title={question.title} />
+      <VoteComponent post={question} type='question' missingPrivilege={missingPrivilege} />
+      <AnswerHeader
+        ansCount={question.answers.length}
+        title={question.title}
+        answerOrder={answerOrder}
+        setAnswerOrder={setAnswerOrder}
+      />
       <QuestionBody
         views={question.views.length}
         text={question.text}
         askby={question.askedBy}
+        reputation={reputations[question.askedBy]}
         meta={getMetaData(new Date(question.askDateTime))}
+        canEdit={canEditQuestion}
+        canDelete={isQuestionAuthor}
+        handleEdit={handleEditQuestion}
+        handleShowRevisions={handleShowRevisions}
+        handleDelete={handleDeleteQuestion}
       />
       <CommentSection
         comments={question.comments}
         handleAddComment={(comment: Comment) => handleNewComment(comment, 'question', questionID)}
+        handleDeleteComment={handleDeleteComment}
+        postAuthor={question.askedBy}
+        missingPrivilege={missingPrivilege}
       />
       {question.answers.map((a, idx) => (
-        <AnswerView
-          key={idx}
-          text={a.text}
-          ansBy={a.ansBy}
-          meta={getMetaData(new Date(a.ansDateTime))}
-          comments={a.comments}
-          handleAddComment={(comment: Comment) => handleNewComment(comment, 'answer', a._id)}
-        />
+        <Fragment key={a._id ?? idx}>
+          <VoteComponent post={a} type='answer' missingPrivilege={missingPrivilege} />
+          <AnswerView
+            text={a.text}
+            ansBy={a.ansBy}
+            reputation={reputations[a.ansBy]}
+            meta={getMetaData(new Date(a.ansDateTime))}
+            comments={a.comments}
+            handleAddComment={(comment: Comment) => handleNewComment(comment, 'answer', a._id)}
+            handleDelete={() => handleDeleteAnswer(a._id)}
+            handleDeleteComment={handleDeleteComment}
+            isAccepted={a._id === question.acceptedAnswer}
+            canAccept={isQuestionAuthor}
+            handleToggleAccept={() => handleToggleAcceptedAnswer(a._id)}
+            missingPrivilege={missingPrivilege}
+          />
+        </Fragment>
       ))}
       <button
         className='bluebtn ansButton'
@@ -1,6 +1,7 @@
 import React from 'react';
 import './index.css';
 import { handleHyperlink } from '../../../../tool';
+import UserLink from '../../baseComponents/userLink';
 
 /**
  * Interface representing the props for the QuestionBody component.
@@ -8,32 +9,79 @@ import { handleHyperlink } from '../../../../tool';
  * - views - The number of views the question has received.
  * - text - The content of the question, which may contain hyperlinks.
  * - askby - The username of the user who asked the question.
+ * - reputation - The reputation of the user who asked the question. Optional.
  * - meta - Additional metadata related to the question, such as the date and time it was asked.
+ * - canEdit - Whether the current user is allowed to edit the question.
+ * - canDelete - Whether the current user is allowed to delete the question.
+ * - handleEdit - Function to open the edit form for the question.
+ * - handleShowRevisions - Function to open the revision history of the question.
+ * - handleDelete - Function to delete the question.
  */
 interface QuestionBodyProps {
   views: number;
   text: string;
   askby: string;
+  reputation?: number;
   meta: string;
+  canEdit: boolean;
+  canDelete: boolean;
+  handleEdit: () => void;
+  handleShowRevisions: () => void;
+  handleDelete: () => void;
 }
 
 /**
  * QuestionBody component that displays the body of a question.
  * It includes the number of views, the question content (with hyperlink handling),
- * the username of the author, and additional metadata.
+ * the username of the author, additional metadata, and actions to edit or delete the
+ * question or view its revision history.
  *
  * @param views The number of views the question has received.
  * @param text The content of the question.
  * @param askby The username of the question's author.
+ * @param reputation The reputation of the question's author.
  * @param meta Additional metadata related to the question.
+ * @param canEdit Whether the current user is allowed to edit the question.
+ * @param canDelete Whether the current user is allowed to delete the question.
+ * @param handleEdit Function to open the edit form for the question.
+ * @param handleShowRevisions Function to open the revision history of the question.
+ * @param handleDelete Function to delete the question.
  */
-const QuestionBody = ({ views, text, askby, meta }: QuestionBodyProps) => (
+const QuestionBody = ({
+  views,
+  text,
+  askby,
+  reputation,
+  meta,
+  canEdit,
+  canDelete,
+  handleEdit,
+  handleShowRevisions,
+  handleDelete,
+}: QuestionBodyProps) => (
   <div id='questionBody' className='questionBody right_padding'>
     <div className='bold_title answer_question_view'>{views} views</div>
     <div className='answer_question_text'>{handleHyperlink(text)}</div>
     <div className='answer_question_right'>
-      <div className='question_author'>{askby}</div>
+      <div className='question_author'>
+        <UserLink username={askby} reputation={reputation} />
+      </div>
       <div className='answer_question_meta'>asked {meta}</div>
+      <div className='question_actions'>
+        {canEdit && (
+          <button className='question_action_btn' onClick={handleEdit}>
+            edit
+          </button>
+        )}
+        {canDelete && (
+          <button className='question_action_btn' onClick={handleDelete}>
+            delete
+          </button>
+        )}
+        <button className='question_action_btn' onClick={handleShowRevisions}>
+          history
+        </button>
+      </div>
     </div>
   </div>
 );
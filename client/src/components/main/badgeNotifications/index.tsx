@@ -0,0 +1,42 @@
+import React from 'react';
+import './index.css';
+import useBadgeNotifications from '../../../hooks/useBadgeNotifications';
+
+/**
+ * BadgeNotifications component shows a notification in the corner of the screen whenever the
+ * logged-in user earns a badge. Clicking a notification opens the user's profile.
+ */
+const BadgeNotifications = () => {
+  const { awards, dismiss, openProfile } = useBadgeNotifications();
+
+  if (awards.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className='badge_notifications' role='status'>
+      {awards.map(award => (
+        <div
+          key={`${award.badge.key}-${award.awardedAt}`}
+          className='badge_notification'
+          onClick={() => openProfile(award)}>
+          <div className='badge_notification_body'>
+            <div className='badge_notification_title'>You earned the {award.badge.name} badge</div>
+            <div className='badge_notification_text'>{award.badge.description}</div>
+          </div>
+          <button
+            className='badge_notification_close'
+            aria-label='Dismiss'
+            onClick={e => {
+              e.stopPropagation();
+              dismiss(award);
+            }}>
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BadgeNotifications;
@@ -0,0 +1,130 @@
+import React, { Dispatch, SetStateAction } from 'react';
+import './index.css';
+import useTagPicker from '../../../../hooks/useTagPicker';
+import { SelectedTag } from '../../../../types';
+
+/**
+ * Interface representing the props for the TagPicker component.
+ *
+ * - title - The label to display.
+ * - hint - An optional hint or description displayed below the title.
+ * - id - The unique identifier for the tag name input field.
+ * - tags - The tags chosen so far.
+ * - setTags - Callback function to update the chosen tags.
+ * - input - The tag name being typed.
+ * - setInput - Callback function to update the tag name being typed.
+ * - err - An optional error message to display if there is an error with the tags.
+ */
+interface TagPickerProps {
+  title: string;
+  hint?: string;
+  id: string;
+  tags: SelectedTag[];
+  setTags: Dispatch<SetStateAction<SelectedTag[]>>;
+  input: string;
+  setInput: (input: string) => void;
+  err?: string;
+}
+
+/**
+ * TagPicker component that renders the chosen tags and an input field that suggests existing
+ * tags, with their number of questions, while typing. Tags that do not exist yet are flagged
+ * with a warning, along with a field to describe them.
+ *
+ * @param title The label for the tag picker.
+ * @param hint Optional hint or description for the tag picker.
+ * @param id The unique identifier for the tag name input field.
+ * @param tags The tags chosen so far.
+ * @param setTags Callback function to update the chosen tags.
+ * @param input The tag name being typed.
+ * @param setInput Callback function to update the tag name being typed.
+ * @param err Optional error message to display below the tag picker.
+ */
+const TagPicker = ({ title, hint, id, tags, setTags, input, setInput, err }: TagPickerProps) => {
+  const {
+    suggestions,
+    activeIndex,
+    newTags,
+    handleInputChange,
+    handleKeyDown,
+    handleSelectSuggestion,
+    removeTag,
+    setTagDescription,
+    openSuggestions,
+    closeSuggestions,
+  } = useTagPicker(tags, setTags, input, setInput);
+
+  return (
+    <>
+      <div className='input_title'>{title}*</div>
+      {hint && <div className='input_hint'>{hint}</div>}
+      <div className='tag_picker'>
+        <div className='tag_picker_field'>
+          {tags.map(tag => (
+            <span key={tag.name} className={`tag_picker_tag${tag.isNew ? ' new_tag' : ''}`}>
+              {tag.name}
+              <button
+                type='button'
+                className='tag_picker_remove'
+                aria-label={`Remove tag ${tag.name}`}
+                onClick={() => removeTag(tag.name)}>
+                ×
+              </button>
+            </span>
+          ))}
+          <input
+            id={id}
+            className='tag_picker_input'
+            type='text'
+            autoComplete='off'
+            value={input}
+            onChange={e => handleInputChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onFocus={openSuggestions}
+            onBlur={closeSuggestions}
+          />
+        </div>
+        {suggestions.length > 0 && (
+          <ul id='tagSuggestions' className='tag_picker_suggestions' role='listbox'>
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.name}
+                role='option'
+                aria-selected={index === activeIndex}
+                className={`tag_picker_suggestion${
+                  index === activeIndex ? ' tag_picker_suggestion_active' : ''
+                }`}
+                onMouseDown={e => {
+                  e.preventDefault();
+                  handleSelectSuggestion(suggestion);
+                }}>
+                <span className='tag_picker_suggestion_name'>{suggestion.name}</span>
+                <span className='tag_picker_suggestion_count'>
+                  {suggestion.qcnt} question{suggestion.qcnt === 1 ? '' : 's'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {newTags.map(tag => (
+        <div key={tag.name} className='tag_picker_new'>
+          <div className='tag_picker_warning'>
+            &quot;{tag.name}&quot; is a new tag. Check its spelling, and describe it so that others
+            know when to use it.
+          </div>
+          <input
+            className='tag_picker_description'
+            type='text'
+            placeholder={`Description of ${tag.name}`}
+            value={tag.description}
+            onChange={e => setTagDescription(tag.name, e.target.value)}
+          />
+        </div>
+      ))}
+      {err && <div className='input_error'>{err}</div>}
+    </>
+  );
+};
+
+export default TagPicker;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import './index.css';
+
+/**
+ * Interface representing the props for the UserLink component.
+ *
+ * - username - The username of the user to link to.
+ * - reputation - The reputation of the user, shown next to their username. Optional.
+ */
+interface UserLinkProps {
+  username: string;
+  reputation?: number;
+}
+
+/**
+ * UserLink component renders a username that navigates to the user's profile when clicked,
+ * followed by the user's reputation when it is known.
+ * The click does not reach enclosing elements, so it can be placed inside clickable rows.
+ *
+ * @param username The username of the user to link to.
+ * @param reputation The reputation of the user, if known.
+ */
+const UserLink = ({ username, reputation }: UserLinkProps) => {
+  const navigate = useNavigate();
+
+  return (
+    <>
+      <span
+        className='user_link'
+        onClick={e => {
+          e.stopPropagation();
+          navigate(`/user/${encodeURIComponent(username)}`);
+        }}>
+        {username}
+      </span>
+      {reputation !== undefined && (
+        <span className='user_reputation' title='reputation'>
+          {' '}
+          {reputation}
+        </span>
+      )}
+    </>
+  );
+};
+
+export default UserLink;
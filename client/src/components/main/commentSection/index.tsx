@@ -1,28 +1,50 @@
 import { useState } from 'react';
 import { getMetaData } from '../../../tool';
-import { Comment } from '../../../types';
+import { Comment, Privilege } from '../../../types';
 import './index.css';
 import useUserContext from '../../../hooks/useUserContext';
+import { upvoteComment } from '../../../services/commentService';
+import UserLink from '../baseComponents/userLink';
 
 /**
  * Interface representing the props for the Comment Section component.
  *
  * - comments - list of the comment components
  * - handleAddComment - a function that handles adding a new comment, taking a Comment object as an argument
+ * - handleDeleteComment - a function that handles deleting a comment, taking the comment's ID as an argument
+ * - postAuthor - the username of the author of the question or answer the comments are posted on
+ * - missingPrivilege - a function that says how much reputation a privilege needs if the current
+ *   user lacks it, or returns an empty string if they hold it
  */
 interface CommentSectionProps {
   comments: Comment[];
   handleAddComment: (comment: Comment) => void;
+  handleDeleteComment: (cid: string | undefined) => void;
+  postAuthor: string;
+  missingPrivilege: (privilege: Privilege) => string;
 }
 
 /**
- * CommentSection component shows the users all the comments and allows the users add more comments.
+ * CommentSection component shows the users all the comments and allows the users add more comments
+ * and upvote existing ones. Users can always comment on their own posts, but need the privilege
+ * to comment on posts by other users and to upvote comments.
  *
  * @param comments: an array of Comment objects
  * @param handleAddComment: function to handle the addition of a new comment
+ * @param handleDeleteComment: function to handle the deletion of one of the user's comments
+ * @param postAuthor: the username of the author of the post the comments are posted on
+ * @param missingPrivilege: function that says why the current user lacks a privilege, if they do
  */
-const CommentSection = ({ comments, handleAddComment }: CommentSectionProps) => {
+const CommentSection = ({
+  comments,
+  handleAddComment,
+  handleDeleteComment,
+  postAuthor,
+  missingPrivilege,
+}: CommentSectionProps) => {
   const { user } = useUserContext();
+  const commentErr = postAuthor === user.username ? '' : missingPrivilege('comment');
+  const upvoteErr = missingPrivilege('upvote');
   const [text, setText] = useState<string>('');
   const [textErr, setTextErr] = useState<string>('');
   const [showComments, setShowComments] = useState<boolean>(false);
@@ -40,6 +62,7 @@ const CommentSection = ({ comments, handleAddComment }: CommentSectionProps) =>
       text,
       commentBy: user.username,
       commentDateTime: new Date(),
+      upVotes: [],
     };
 
     handleAddComment(newComment);
@@ -47,6 +70,22 @@ const CommentSection = ({ comments, handleAddComment }: CommentSectionProps) =>
     setTextErr('');
   };
 
+  /**
+   * Function to upvote a comment, or cancel the upvote if the user has already upvoted it.
+   *
+   * @param cid - The ID of the comment to upvote.
+   */
+  const handleUpvoteComment = async (cid: string | undefined) => {
+    try {
+      if (cid) {
+        await upvoteComment(cid);
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error upvoting comment:', error);
+    }
+  };
+
   return (
     <div className='comment-section'>
       <button className='toggle-button' onClick={() => setShowComments(!showComments)}>
@@ -61,8 +100,25 @@ const CommentSection = ({ comments, handleAddComment }: CommentSectionProps) =>
                 <li key={index} className='comment-item'>
                   <p className='comment-text'>{comment.text}</p>
                   <small className='comment-meta'>
-                    {comment.commentBy}, {getMetaData(new Date(comment.commentDateTime))}
+                    <UserLink username={comment.commentBy} />,{' '}
+                    {getMetaData(new Date(comment.commentDateTime))}
                   </small>
+                  <button
+                    className={`upvote-comment-button ${
+                      (comment.upVotes || []).includes(user.username) ? 'comment-upvoted' : ''
+                    }`}
+                    disabled={!!upvoteErr}
+                    title={upvoteErr}
+                    onClick={() => handleUpvoteComment(comment._id)}>
+                    &#9650; {(comment.upVotes || []).length}
+                  </button>
+                  {comment.commentBy === user.username && (
+                    <button
+                      className='delete-comment-button'
+                      onClick={() => handleDeleteComment(comment._id)}>
+                      delete
+                    </button>
+                  )}
                 </li>
               ))
             ) : (
@@ -70,20 +126,24 @@ const CommentSection = ({ comments, handleAddComment }: CommentSectionProps) =>
             )}
           </ul>
 
-          <div className='add-comment'>
-            <div className='input-row'>
-              <textarea
-                placeholder='Comment'
-                value={text}
-                onChange={e => setText(e.target.value)}
-                className='comment-textarea'
-              />
-              <button className='add-comment-button' onClick={handleAddCommentClick}>
-                Add Comment
-              </button>
+          {commentErr ? (
+            <small className='comment-privilege'>{commentErr}</small>
+          ) : (
+            <div className='add-comment'>
+              <div className='input-row'>
+                <textarea
+                  placeholder='Comment'
+                  value={text}
+                  onChange={e => setText(e.target.value)}
+                  className='comment-textarea'
+                />
+                <button className='add-comment-button' onClick={handleAddCommentClick}>
+                  Add Comment
+                </button>
+              </div>
+              {textErr && <small className='error'>{textErr}</small>}
             </div>
-            {textErr && <small className='error'>{textErr}</small>}
-          </div>
+          )}
         </div>
       )}
     </div>
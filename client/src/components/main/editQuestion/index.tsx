@@ -0,0 +1,68 @@
+import React from 'react';
+import useEditQuestion from '../../../hooks/useEditQuestion';
+import Form from '../baseComponents/form';
+import Input from '../baseComponents/input';
+import TextArea from '../baseComponents/textarea';
+import './index.css';
+
+/**
+ * EditQuestionPage component allows the author of a question to change its title,
+ * description and tags. The previous version is kept in the question's revision history.
+ */
+const EditQuestionPage = () => {
+  const {
+    title,
+    setTitle,
+    text,
+    setText,
+    tagNames,
+    setTagNames,
+    titleErr,
+    textErr,
+    tagErr,
+    err,
+    saveQuestion,
+  } = useEditQuestion();
+
+  return (
+    <Form>
+      <Input
+        title={'Question Title'}
+        hint={'Limit title to 100 characters or less'}
+        id={'formTitleInput'}
+        val={title}
+        setState={setTitle}
+        err={titleErr}
+      />
+      <TextArea
+        title={'Question Text'}
+        hint={'Add details'}
+        id={'formTextInput'}
+        val={text}
+        setState={setText}
+        err={textErr}
+      />
+      <Input
+        title={'Tags'}
+        hint={'Add keywords separated by whitespace'}
+        id={'formTagInput'}
+        val={tagNames}
+        setState={setTagNames}
+        err={tagErr}
+      />
+      {err && <div className='edit_question_error'>{err}</div>}
+      <div className='btn_indicator_container'>
+        <button
+          className='form_postBtn'
+          onClick={() => {
+            saveQuestion();
+          }}>
+          Save Edits
+        </button>
+        <div className='mandatory_indicator'>* indicates mandatory fields</div>
+      </div>
+    </Form>
+  );
+};
+
+export default EditQuestionPage;
@@ -0,0 +1,49 @@
+import React from 'react';
+import useEditTagWiki from '../../../hooks/useEditTagWiki';
+import Form from '../baseComponents/form';
+import TextArea from '../baseComponents/textarea';
+import './index.css';
+
+/**
+ * EditTagWikiPage component allows users to change the excerpt and wiki of a tag.
+ * The previous version is kept in the tag's revision history.
+ */
+const EditTagWikiPage = () => {
+  const { description, setDescription, wiki, setWiki, descriptionErr, wikiErr, err, saveWiki } =
+    useEditTagWiki();
+
+  return (
+    <Form>
+      <TextArea
+        title={'Excerpt'}
+        hint={'A short summary of when to use the tag, in 500 characters or less'}
+        id={'formExcerptInput'}
+        val={description}
+        setState={setDescription}
+        err={descriptionErr}
+      />
+      <TextArea
+        title={'Wiki'}
+        mandatory={false}
+        hint={'Describe the tag in detail, with links to useful resources'}
+        id={'formWikiInput'}
+        val={wiki}
+        setState={setWiki}
+        err={wikiErr}
+      />
+      {err && <div className='edit_tag_wiki_error'>{err}</div>}
+      <div className='btn_indicator_container'>
+        <button
+          className='form_postBtn'
+          onClick={() => {
+            saveWiki();
+          }}>
+          Save Edits
+        </button>
+        <div className='mandatory_indicator'>* indicates mandatory fields</div>
+      </div>
+    </Form>
+  );
+};
+
+export default EditTagWikiPage;
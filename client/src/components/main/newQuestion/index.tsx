@@ -3,6 +3,7 @@ import useNewQuestion from '../../../hooks/useNewQuestion';
 import Form from '../baseComponents/form';
 import Input from '../baseComponents/input';
 import TextArea from '../baseComponents/textarea';
+import TagPicker from '../baseComponents/tagPicker';
 import './index.css';
 
 /**
@@ -15,8 +16,10 @@ const NewQuestionPage = () => {
     setTitle,
     text,
     setText,
-    tagNames,
-    setTagNames,
+    tags,
+    setTags,
+    tagInput,
+    setTagInput,
     titleErr,
     textErr,
     tagErr,
@@ -41,12 +44,14 @@ const NewQuestionPage = () => {
         setState={setText}
         err={textErr}
       />
-      <Input
+      <TagPicker
         title={'Tags'}
-        hint={'Add keywords separated by whitespace'}
+        hint={'Add up to 5 tags separated by whitespace, choosing existing tags where possible'}
         id={'formTagInput'}
-        val={tagNames}
-        setState={setTagNames}
+        tags={tags}
+        setTags={setTags}
+        input={tagInput}
+        setInput={setTagInput}
         err={tagErr}
       />
       <div className='btn_indicator_container'>
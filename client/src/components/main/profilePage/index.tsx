@@ -0,0 +1,234 @@
+import React from 'react';
+import './index.css';
+import useProfilePage from '../../../hooks/useProfilePage';
+import { getMetaData } from '../../../tool';
+import { UserRole, userRoleDisplayName } from '../../../types';
+
+/**
+ * Interface representing the props for the ActivityItem component.
+ *
+ * score - The score of the post.
+ * title - The title of the question the post belongs to.
+ * text - The content of the post, if it is not the question itself.
+ * date - The date and time when the post was written.
+ * onClick - Function to navigate to the question the post belongs to.
+ */
+interface ActivityItemProps {
+  score: number;
+  title: string;
+  text?: string;
+  date: Date;
+  onClick: () => void;
+}
+
+/**
+ * ActivityItem component renders one question, answer or comment on a profile, with its
+ * score and the question it belongs to.
+ *
+ * @param score - The score of the post.
+ * @param title - The title of the question the post belongs to.
+ * @param text - The content of the post, if it is not the question itself.
+ * @param date - The date and time when the post was written.
+ * @param onClick - Function to navigate to the question the post belongs to.
+ */
+const ActivityItem = ({ score, title, text, date, onClick }: ActivityItemProps) => (
+  <div className='profile_item' onClick={onClick}>
+    <div className='profile_item_score'>{score}</div>
+    <div className='profile_item_body'>
+      <div className='profile_item_title'>{title}</div>
+      {text && <div className='profile_item_text'>{text}</div>}
+    </div>
+    <div className='profile_item_date'>{getMetaData(new Date(date))}</div>
+  </div>
+);
+
+/**
+ * ProfilePage component renders the profile of a user: when they joined, their bio, their
+ * reputation, the badges they earned, the votes they received and the questions, answers and
+ * comments they wrote. Users can edit the bio on their own profile, and admins can change the
+ * role of other users and delete their accounts.
+ */
+const ProfilePage = () => {
+  const {
+    profile,
+    err,
+    isOwnProfile,
+    questions,
+    questionCount,
+    answers,
+    comments,
+    votes,
+    badges,
+    editingBio,
+    bioInput,
+    setBioInput,
+    bioErr,
+    startEditBio,
+    cancelEditBio,
+    saveBio,
+    canManageUser,
+    changeRole,
+    confirmingDelete,
+    setConfirmingDelete,
+    removeUser,
+    manageErr,
+    clickQuestion,
+  } = useProfilePage();
+
+  const role = profile?.role ?? 'user';
+
+  if (err) {
+    return <div className='profile_page_error right_padding'>{err}</div>;
+  }
+
+  if (!profile) {
+    return null;
+  }
+
+  return (
+    <div className='profile_page right_padding'>
+      <div className='bold_title'>
+        {profile.username}
+        {role !== 'user' && <span className='profile_role'>{userRoleDisplayName[role]}</span>}
+      </div>
+      <div className='profile_joined'>
+        Member since {new Date(profile.dateJoined).toLocaleDateString()}
+      </div>
+      <div className='profile_stats'>
+        <span className='profile_reputation'>{profile.reputation} reputation</span>
+        <span>{questionCount} questions</span>
+        <span>{answers.length} answers</span>
+        <span>{comments.length} comments</span>
+        <span>
+          {votes.upVotes} upvotes, {votes.downVotes} downvotes received
+        </span>
+      </div>
+      <div className='profile_section'>
+        <div className='profile_section_title'>About</div>
+        {editingBio ? (
+          <div>
+            <textarea
+              id='bioInput'
+              className='profile_bio_input'
+              placeholder='Tell others about yourself'
+              value={bioInput}
+              onChange={e => setBioInput(e.target.value)}
+            />
+            <div className='profile_bio_actions'>
+              <button className='bluebtn' onClick={saveBio}>
+                Save
+              </button>
+              <button className='profile_link' onClick={cancelEditBio}>
+                Cancel
+              </button>
+            </div>
+            {bioErr && <div className='profile_error'>{bioErr}</div>}
+          </div>
+        ) : (
+          <div>
+            {profile.bio ? (
+              <div className='profile_bio'>{profile.bio}</div>
+            ) : (
+              <div className='profile_empty'>This user has not written a bio yet.</div>
+            )}
+            {isOwnProfile && (
+              <button className='profile_link' onClick={startEditBio}>
+                Edit Bio
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      {canManageUser && (
+        <div className='profile_section'>
+          <div className='profile_section_title'>Moderation</div>
+          <div className='profile_manage'>
+            <label htmlFor='roleSelect'>Role</label>
+            <select
+              id='roleSelect'
+              value={role}
+              onChange={e => changeRole(e.target.value as UserRole)}>
+              {Object.keys(userRoleDisplayName).map(option => (
+                <option key={option} value={option}>
+                  {userRoleDisplayName[option as UserRole]}
+                </option>
+              ))}
+            </select>
+            {confirmingDelete ? (
+              <>
+                <button className='profile_delete' onClick={removeUser}>
+                  Confirm Delete
+                </button>
+                <button className='profile_link' onClick={() => setConfirmingDelete(false)}>
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <button className='profile_delete' onClick={() => setConfirmingDelete(true)}>
+                Delete User
+              </button>
+            )}
+          </div>
+          {manageErr && <div className='profile_error'>{manageErr}</div>}
+        </div>
+      )}
+      <div className='profile_section'>
+        <div className='profile_section_title'>Badges</div>
+        {badges.length === 0 && <div className='profile_empty'>No badges yet.</div>}
+        <div className='profile_badges'>
+          {badges.map(b => (
+            <span
+              key={b.badge.key}
+              className='profile_badge'
+              title={`${b.badge.description}, awarded ${new Date(b.awardedAt).toLocaleDateString()}`}>
+              {b.badge.name}
+            </span>
+          ))}
+        </div>
+      </div>
+      <div className='profile_section'>
+        <div className='profile_section_title'>Questions</div>
+        {questions.length === 0 && <div className='profile_empty'>No questions yet.</div>}
+        {questions.map(q => (
+          <ActivityItem
+            key={q._id}
+            score={q.upVotes.length - q.downVotes.length}
+            title={q.title}
+            date={q.askDateTime}
+            onClick={() => clickQuestion(q._id!)}
+          />
+        ))}
+      </div>
+      <div className='profile_section'>
+        <div className='profile_section_title'>Answers</div>
+        {answers.length === 0 && <div className='profile_empty'>No answers yet.</div>}
+        {answers.map(a => (
+          <ActivityItem
+            key={a._id}
+            score={a.score}
+            title={a.question.title}
+            text={a.text}
+            date={a.ansDateTime}
+            onClick={() => clickQuestion(a.question._id)}
+          />
+        ))}
+      </div>
+      <div className='profile_section'>
+        <div className='profile_section_title'>Comments</div>
+        {comments.length === 0 && <div className='profile_empty'>No comments yet.</div>}
+        {comments.map(c => (
+          <ActivityItem
+            key={c._id}
+            score={c.score}
+            title={c.question.title}
+            text={c.text}
+            date={c.commentDateTime}
+            onClick={() => clickQuestion(c.question._id)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePage;
@@ -10,23 +10,35 @@ import AskQuestionButton from '../../askQuestionButton';
  * titleText - The title text displayed at the top of the header.
  * qcnt - The number of questions to be displayed in the header.
  * setQuestionOrder - A function that sets the order of questions based on the selected message.
+ * showRelevance - Whether the questions can be ordered by relevance to the search term.
+ * showFeed - A function that shows the user's feed instead of all questions.
  */
 interface QuestionHeaderProps {
   titleText: string;
   qcnt: number;
   setQuestionOrder: (order: OrderType) => void;
+  showRelevance: boolean;
+  showFeed: () => void;
 }
 
 /**
  * QuestionHeader component displays the header section for a list of questions.
  * It includes the title, a button to ask a new question, the number of the quesions,
- * and buttons to set the order of questions.
+ * buttons to set the order of questions, and a button to show the user's feed.
  *
  * @param titleText - The title text to display in the header.
  * @param qcnt - The number of questions displayed in the header.
  * @param setQuestionOrder - Function to set the order of questions based on input message.
+ * @param showRelevance - Whether to show the button to order the questions by relevance.
+ * @param showFeed - Function to show the user's feed.
  */
-const QuestionHeader = ({ titleText, qcnt, setQuestionOrder }: QuestionHeaderProps) => (
+const QuestionHeader = ({
+  titleText,
+  qcnt,
+  setQuestionOrder,
+  showRelevance,
+  showFeed,
+}: QuestionHeaderProps) => (
   <div>
     <div className='space_between right_padding'>
       <div className='bold_title'>{titleText}</div>
@@ -35,13 +47,18 @@ const QuestionHeader = ({ titleText, qcnt, setQuestionOrder }: QuestionHeaderPro
     <div className='space_between right_padding'>
       <div id='question_count'>{qcnt} questions</div>
       <div className='btns'>
-        {Object.keys(orderTypeDisplayName).map((order, idx) => (
-          <OrderButton
-            key={idx}
-            orderType={order as OrderType}
-            setQuestionOrder={setQuestionOrder}
-          />
-        ))}
+        <button id='feedButton' className='btn' onClick={showFeed}>
+          My Feed
+        </button>
+        {Object.keys(orderTypeDisplayName)
+          .filter(order => showRelevance || order !== 'relevance')
+          .map((order, idx) => (
+            <OrderButton
+              key={idx}
+              orderType={order as OrderType}
+              setQuestionOrder={setQuestionOrder}
+            />
+          ))}
       </div>
     </div>
   </div>
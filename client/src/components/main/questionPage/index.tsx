@@ -2,31 +2,62 @@ import React from 'react';
 import './index.css';
 import QuestionHeader from './header';
 import QuestionView from './question';
+import Pagination from './pagination';
+import RelatedTags from './relatedTags';
 import useQuestionPage from '../../../hooks/useQuestionPage';
 
 /**
  * QuestionPage component renders a page displaying a list of questions
- * based on filters such as order and search terms.
- * It includes a header with order buttons and a button to ask a new question.
+ * based on filters such as order and search terms, one page at a time.
+ * It includes a header with order buttons and a button to ask a new question,
+ * and buttons to move between pages. When the questions are filtered by a tag, the tags most
+ * often used alongside it are shown in a sidebar. The user can switch to their own feed, and
+ * the tags they watch are highlighted.
  */
 const QuestionPage = () => {
-  const { titleText, qlist, setQuestionOrder } = useQuestionPage();
+  const {
+    titleText,
+    showFeed,
+    watchedTags,
+    reputations,
+    tagName,
+    qlist,
+    total,
+    page,
+    pageCount,
+    setPage,
+    setQuestionOrder,
+    canOrderByRelevance,
+  } = useQuestionPage();
 
   return (
     <>
       <QuestionHeader
         titleText={titleText}
-        qcnt={qlist.length}
+        qcnt={total}
         setQuestionOrder={setQuestionOrder}
+        showRelevance={canOrderByRelevance}
+        showFeed={showFeed}
       />
-      <div id='question_list' className='question_list'>
-        {qlist.map((q, idx) => (
-          <QuestionView q={q} key={idx} />
-        ))}
+      <div className='question_page_body'>
+        <div className='question_page_main'>
+          <div id='question_list' className='question_list'>
+            {qlist.map((q, idx) => (
+              <QuestionView
+                q={q}
+                key={idx}
+                watchedTags={watchedTags}
+                reputation={reputations[q.askedBy]}
+              />
+            ))}
+          </div>
+          <Pagination page={page} pageCount={pageCount} setPage={setPage} />
+          {titleText === 'Search Results' && !qlist.length && (
+            <div className='bold_title right_padding'>No Questions Found</div>
+          )}
+        </div>
+        {tagName && <RelatedTags tagName={tagName} />}
       </div>
-      {titleText === 'Search Results' && !qlist.length && (
-        <div className='bold_title right_padding'>No Questions Found</div>
-      )}
     </>
   );
 };
@@ -0,0 +1,45 @@
+import React from 'react';
+import './index.css';
+
+/**
+ * Interface representing the props for the Pagination component.
+ *
+ * page - The 1-based number of the current page.
+ * pageCount - The number of pages.
+ * setPage - A function that changes the current page.
+ */
+interface PaginationProps {
+  page: number;
+  pageCount: number;
+  setPage: (page: number) => void;
+}
+
+/**
+ * Pagination component renders buttons to move to the previous and next page of a list, such
+ * as the question list, along with the current page number. Nothing is rendered if there is only one page.
+ *
+ * @param page - The 1-based number of the current page.
+ * @param pageCount - The number of pages.
+ * @param setPage - Function to change the current page.
+ */
+const Pagination = ({ page, pageCount, setPage }: PaginationProps) => {
+  if (pageCount <= 1) {
+    return null;
+  }
+
+  return (
+    <div className='pagination'>
+      <button className='btn' disabled={page <= 1} onClick={() => setPage(page - 1)}>
+        Previous
+      </button>
+      <span className='pagination_status'>
+        Page {page} of {pageCount}
+      </span>
+      <button className='btn' disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+        Next
+      </button>
+    </div>
+  );
+};
+
+export default Pagination;
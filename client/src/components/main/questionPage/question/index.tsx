@@ -3,24 +3,33 @@ import { useNavigate } from 'react-router-dom';
 import './index.css';
 import { getMetaData } from '../../../../tool';
 import { Question } from '../../../../types';
+import UserLink from '../../baseComponents/userLink';
 
 /**
  * Interface representing the props for the Question component.
  *
  * q - The question object containing details about the question.
+ * watchedTags - The names of the tags the user watches, which are highlighted. Optional.
+ * reputation - The reputation of the author of the question. Optional.
  */
 interface QuestionProps {
   q: Question;
+  watchedTags?: string[];
+  reputation?: number;
 }
 
 /**
  * Question component renders the details of a question including its title, tags, author, answers, and views.
+ * Questions with an accepted answer are flagged next to their answer count, and tags the user
+ * watches are highlighted.
  * Clicking on the component triggers the handleAnswer function,
  * and clicking on a tag triggers the clickTag function.
  *
  * @param q - The question object containing question details.
+ * @param watchedTags - The names of the tags the user watches.
+ * @param reputation - The reputation of the author of the question.
  */
-const QuestionView = ({ q }: QuestionProps) => {
+const QuestionView = ({ q, watchedTags = [], reputation }: QuestionProps) => {
   const navigate = useNavigate();
 
   /**
@@ -53,7 +62,10 @@ const QuestionView = ({ q }: QuestionProps) => {
         }
       }}>
       <div className='postStats'>
-        <div>{q.answers.length || 0} answers</div>
+        <div className={q.acceptedAnswer ? 'answers_accepted' : ''}>
+          {q.acceptedAnswer && <span>&#10003; </span>}
+          {q.answers.length || 0} answers
+        </div>
         <div>{q.views.length} views</div>
       </div>
       <div className='question_mid'>
@@ -62,7 +74,9 @@ const QuestionView = ({ q }: QuestionProps) => {
           {q.tags.map((tag, idx) => (
             <button
               key={idx}
-              className='question_tag_button'
+              className={`question_tag_button ${
+                watchedTags.includes(tag.name) ? 'question_tag_watched' : ''
+              }`}
               onClick={e => {
                 e.stopPropagation();
                 clickTag(tag.name);
@@ -73,7 +87,9 @@ const QuestionView = ({ q }: QuestionProps) => {
         </div>
       </div>
       <div className='lastActivity'>
-        <div className='question_author'>{q.askedBy}</div>
+        <div className='question_author'>
+          <UserLink username={q.askedBy} reputation={reputation} />
+        </div>
         <div>&nbsp;</div>
         <div className='question_meta'>asked {getMetaData(new Date(q.askDateTime))}</div>
       </div>
@@ -0,0 +1,42 @@
+import React from 'react';
+import './index.css';
+import useRelatedTags from '../../../../hooks/useRelatedTags';
+
+/**
+ * Interface representing the props for the RelatedTags component.
+ *
+ * tagName - The name of the tag the question list is filtered by.
+ */
+interface RelatedTagsProps {
+  tagName: string;
+}
+
+/**
+ * RelatedTags component renders a sidebar with the tags most often used alongside a tag, and
+ * the number of questions that have both tags. Nothing is rendered if there are none.
+ *
+ * @param tagName - The name of the tag the question list is filtered by.
+ */
+const RelatedTags = ({ tagName }: RelatedTagsProps) => {
+  const { related, clickTag } = useRelatedTags(tagName);
+
+  if (related.length === 0) {
+    return null;
+  }
+
+  return (
+    <div id='related_tags' className='related_tags'>
+      <div className='related_tags_title'>Related Tags</div>
+      {related.map(tag => (
+        <div key={tag.name} className='related_tag'>
+          <button className='question_tag_button' onClick={() => clickTag(tag.name)}>
+            {tag.name}
+          </button>
+          <span className='related_tag_count'>× {tag.count}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RelatedTags;
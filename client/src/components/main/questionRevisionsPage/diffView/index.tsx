@@ -0,0 +1,50 @@
+import React from 'react';
+import './index.css';
+import { DiffRow } from '../../../../types';
+
+/**
+ * Interface representing the props for the DiffView component.
+ *
+ * - label - The name of the field being compared.
+ * - rows - The rows of the line diff between the two versions of the field.
+ */
+interface DiffViewProps {
+  label: string;
+  rows: DiffRow[];
+}
+
+/**
+ * DiffView component that shows two versions of a field side by side, with the old version on
+ * the left and the new version on the right. Removed and added lines are highlighted.
+ * Nothing is rendered if the field did not change.
+ *
+ * @param label The name of the field being compared.
+ * @param rows The rows of the line diff between the two versions.
+ */
+const DiffView = ({ label, rows }: DiffViewProps) => {
+  if (rows.every(row => row.type === 'unchanged')) {
+    return null;
+  }
+
+  return (
+    <div className='diff_view'>
+      <div className='diff_label'>{label}</div>
+      <table className='diff_table'>
+        <tbody>
+          {rows.map((row, idx) => (
+            <tr key={idx}>
+              <td className={row.type === 'removed' ? 'diff_cell diff_removed' : 'diff_cell'}>
+                {row.before}
+              </td>
+              <td className={row.type === 'added' ? 'diff_cell diff_added' : 'diff_cell'}>
+                {row.after}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default DiffView;
@@ -0,0 +1,45 @@
+import React from 'react';
+import './index.css';
+import DiffView from './diffView';
+import useQuestionRevisions from '../../../hooks/useQuestionRevisions';
+import { getMetaData } from '../../../tool';
+
+/**
+ * QuestionRevisionsPage component that displays the revision history of a question.
+ * Each edit is shown as a side-by-side diff of the question before and after the edit,
+ * newest edit first.
+ */
+const QuestionRevisionsPage = () => {
+  const { question, edits, handleBack } = useQuestionRevisions();
+
+  if (!question) {
+    return null;
+  }
+
+  return (
+    <div className='revisions_page right_padding'>
+      <div className='space_between'>
+        <div className='bold_title'>Revisions of &quot;{question.title}&quot;</div>
+        <button className='bluebtn' onClick={handleBack}>
+          Back to Question
+        </button>
+      </div>
+      {edits.length === 0 && (
+        <div className='revisions_empty'>This question has not been edited.</div>
+      )}
+      {edits.map((edit, idx) => (
+        <div key={idx} className='revision'>
+          <div className='revision_meta'>
+            <span className='revision_editor'>{edit.editedBy}</span> edited{' '}
+            {getMetaData(new Date(edit.editDateTime))}
+          </div>
+          <DiffView label='Title' rows={edit.title} />
+          <DiffView label='Text' rows={edit.text} />
+          <DiffView label='Tags' rows={edit.tags} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default QuestionRevisionsPage;
@@ -0,0 +1,84 @@
+import React from 'react';
+import './index.css';
+import useSettingsPage from '../../../hooks/useSettingsPage';
+
+/**
+ * Interface representing the props for the TagList component.
+ *
+ * title - The title of the list.
+ * tags - The names of the tags in the list.
+ * removeTag - Function to remove a tag from the list.
+ */
+interface TagListProps {
+  title: string;
+  tags: string[];
+  removeTag: (tag: string) => void;
+}
+
+/**
+ * TagList component renders a titled list of tags, each with a button to remove it.
+ *
+ * @param title - The title of the list.
+ * @param tags - The names of the tags in the list.
+ * @param removeTag - Function to remove a tag from the list.
+ */
+const TagList = ({ title, tags, removeTag }: TagListProps) => (
+  <div className='settings_tag_list'>
+    <div className='settings_tag_list_title'>{title}</div>
+    {tags.length === 0 && <div className='settings_empty'>None yet.</div>}
+    {tags.map(tag => (
+      <span key={tag} className='settings_tag'>
+        {tag}
+        <button
+          className='settings_tag_remove'
+          aria-label={`Remove ${tag}`}
+          onClick={() => removeTag(tag)}>
+          &times;
+        </button>
+      </span>
+    ))}
+  </div>
+);
+
+/**
+ * SettingsPage component renders the settings of the logged-in user. Its tag preferences
+ * section lists the tags the user watches and ignores, which shape their question feed, and
+ * lets them add or remove tags from either list.
+ */
+const SettingsPage = () => {
+  const { preferences, tagInput, setTagInput, err, addTag, removeTag } = useSettingsPage();
+
+  return (
+    <div className='settings_page right_padding'>
+      <div className='bold_title'>Settings</div>
+      <div className='settings_section'>
+        <div className='settings_section_title'>Tag Preferences</div>
+        <div className='settings_hint'>
+          Questions with watched tags come first in your feed and their tags are highlighted.
+          Questions with ignored tags are left out of your feed.
+        </div>
+        <div className='settings_tag_form'>
+          <input
+            id='tagPreferenceInput'
+            className='settings_tag_input'
+            placeholder='Tag name'
+            type='text'
+            value={tagInput}
+            onChange={e => setTagInput(e.target.value)}
+          />
+          <button className='bluebtn' onClick={() => addTag('watched')}>
+            Watch
+          </button>
+          <button className='bluebtn' onClick={() => addTag('ignored')}>
+            Ignore
+          </button>
+        </div>
+        {err && <div className='settings_error'>{err}</div>}
+        <TagList title='Watched Tags' tags={preferences.watchedTags} removeTag={removeTag} />
+        <TagList title='Ignored Tags' tags={preferences.ignoredTags} removeTag={removeTag} />
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -3,7 +3,8 @@ import './index.css';
 import { NavLink } from 'react-router-dom';
 
 /**
- * The SideBarNav component has three menu items: "Questions", "Tags", and "Messaging".
+ * The SideBarNav component has five menu items: "Questions", "Tags", "Users", "Messaging" and
+ * "Settings".
  * It highlights the currently selected item based on the active page and
  * triggers corresponding functions when the menu items are clicked.
  */
@@ -21,12 +22,24 @@ const SideBarNav = () => (
       className={({ isActive }) => `menu_button ${isActive ? 'menu_selected' : ''}`}>
       Tags
     </NavLink>
+    <NavLink
+      to='/users'
+      id='menu_users'
+      className={({ isActive }) => `menu_button ${isActive ? 'menu_selected' : ''}`}>
+      Users
+    </NavLink>
     <NavLink
       to='/messaging'
       id='menu_messaging'
       className={({ isActive }) => `menu_button ${isActive ? 'menu_selected' : ''}`}>
       Messaging
     </NavLink>
+    <NavLink
+      to='/settings'
+      id='menu_settings'
+      className={({ isActive }) => `menu_button ${isActive ? 'menu_selected' : ''}`}>
+      Settings
+    </NavLink>
   </div>
 );
 
@@ -0,0 +1,96 @@
+import React from 'react';
+import './index.css';
+import useTagDetailPage from '../../../hooks/useTagDetailPage';
+import AskQuestionButton from '../askQuestionButton';
+import { getMetaData, handleHyperlink } from '../../../tool';
+
+/**
+ * TagDetailPage component that displays the page of a tag: its excerpt and wiki, who last
+ * edited them, its number of questions and its top questions, with a link to the leaderboard
+ * of the users who answer its questions. Users with the privilege to edit posts by other users
+ * can edit the wiki.
+ */
+const TagDetailPage = () => {
+  const {
+    detail,
+    err,
+    viewQuestions,
+    viewTopAnswerers,
+    clickQuestion,
+    canEditWiki,
+    editWiki,
+    viewRevisions,
+  } = useTagDetailPage();
+
+  if (err) {
+    return <div className='tag_detail_error right_padding'>{err}</div>;
+  }
+
+  if (!detail) {
+    return null;
+  }
+
+  const { tag, qcnt, topQuestions } = detail;
+
+  return (
+    <div className='tag_detail right_padding'>
+      <div className='space_between'>
+        <div className='bold_title'>[{tag.name}]</div>
+        <AskQuestionButton />
+      </div>
+      <div className='tag_detail_excerpt'>{tag.description}</div>
+      <div className='tag_detail_stats'>
+        <span>
+          {qcnt} question{qcnt === 1 ? '' : 's'}
+        </span>
+        <button className='bluebtn' onClick={viewQuestions}>
+          View Questions
+        </button>
+        <button className='tag_detail_link' onClick={viewTopAnswerers}>
+          Top Answerers
+        </button>
+      </div>
+      <div className='tag_detail_section'>
+        <div className='tag_detail_section_title'>About</div>
+        {tag.wiki ? (
+          <div className='tag_detail_wiki'>{handleHyperlink(tag.wiki)}</div>
+        ) : (
+          <div className='tag_detail_empty'>This tag does not have a wiki yet.</div>
+        )}
+        <div className='tag_detail_actions'>
+          {tag.lastEditedBy && tag.lastEditDateTime && (
+            <span className='tag_detail_attribution'>
+              Last edited by <span className='tag_detail_editor'>{tag.lastEditedBy}</span>{' '}
+              {getMetaData(new Date(tag.lastEditDateTime))}
+            </span>
+          )}
+          {canEditWiki && (
+            <button className='tag_detail_link' onClick={editWiki}>
+              Edit Wiki
+            </button>
+          )}
+          <button className='tag_detail_link' onClick={viewRevisions}>
+            History
+          </button>
+        </div>
+      </div>
+      <div className='tag_detail_section'>
+        <div className='tag_detail_section_title'>Top Questions</div>
+        {topQuestions.length === 0 && (
+          <div className='tag_detail_empty'>There are no questions with this tag yet.</div>
+        )}
+        {topQuestions.map(q => (
+          <div key={q._id} className='tag_detail_question' onClick={() => clickQuestion(q._id)}>
+            <div className='tag_detail_question_stats'>
+              <div>{q.score} votes</div>
+              <div>{q.answerCount} answers</div>
+            </div>
+            <div className='tag_detail_question_title'>{q.title}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TagDetailPage;
@@ -3,13 +3,15 @@ import './index.css';
 import TagView from './tag';
 import useTagPage from '../../../hooks/useTagPage';
 import AskQuestionButton from '../askQuestionButton';
+import { TagOrderType, tagOrderTypeDisplayName } from '../../../types';
 
 /**
- * Represents the TagPage component which displays a list of tags
- * and provides functionality to handle tag clicks and ask a new question.
+ * Represents the TagPage component which displays a list of tags with their statistics,
+ * and provides functionality to sort and filter the tags, handle tag clicks and ask a new question.
  */
 const TagPage = () => {
-  const { tlist, clickTag } = useTagPage();
+  const { tlist, tagOrder, setTagOrder, filter, handleFilterChange, clickTag, viewTag } =
+    useTagPage();
 
   return (
     <>
@@ -18,9 +20,29 @@ const TagPage = () => {
         <div className='bold_title'>All Tags</div>
         <AskQuestionButton />
       </div>
+      <div className='tag_list_controls right_padding'>
+        <input
+          id='tagFilterInput'
+          className='tag_filter_input'
+          placeholder='Filter by tag name'
+          type='text'
+          value={filter}
+          onChange={handleFilterChange}
+        />
+        <div className='tag_order_btns'>
+          {Object.keys(tagOrderTypeDisplayName).map(order => (
+            <button
+              key={order}
+              className={`tag_order_btn ${order === tagOrder ? 'tag_order_selected' : ''}`}
+              onClick={() => setTagOrder(order as TagOrderType)}>
+              {tagOrderTypeDisplayName[order as TagOrderType]}
+            </button>
+          ))}
+        </div>
+      </div>
       <div className='tag_list right_padding'>
-        {tlist.map((t, idx) => (
-          <TagView key={idx} t={t} clickTag={clickTag} />
+        {tlist.map(t => (
+          <TagView key={t.name} t={t} clickTag={clickTag} viewTag={viewTag} />
         ))}
       </div>
     </>
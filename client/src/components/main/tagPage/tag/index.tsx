@@ -1,41 +1,56 @@
 import React from 'react';
 import './index.css';
-import { TagData } from '../../../../types';
-import useTagSelected from '../../../../hooks/useTagSelected';
+import { TagStats } from '../../../../types';
+import { getMetaData } from '../../../../tool';
 
 /**
  * Props for the Tag component.
  *
- * t - The tag object.
+ * t - The tag, with its statistics.
  * clickTag - Function to handle the tag click event.
+ * viewTag - Function to open the page of the tag.
  */
 interface TagProps {
-  t: TagData;
+  t: TagStats;
   clickTag: (tagName: string) => void;
+  viewTag: (tagName: string) => void;
 }
 
 /**
  * Tag component that displays information about a specific tag.
- * The component displays the tag's name, description, and the number of associated questions.
+ * The component displays the tag's name, description, the number of associated questions, how
+ * many were asked recently or are unanswered, and when the tag last saw activity.
  * It also triggers a click event to handle tag selection.
  *
- * @param t - The tag object .
+ * @param t - The tag, with its statistics.
  * @param clickTag - Function to handle tag clicks.
+ * @param viewTag - Function to open the page of the tag.
  */
-const TagView = ({ t, clickTag }: TagProps) => {
-  const { tag } = useTagSelected(t);
-
-  return (
-    <div
-      className='tagNode'
-      onClick={() => {
-        clickTag(t.name);
-      }}>
-      <div className='tagName'>{tag.name}</div>
-      <div className='tagDescription'>{tag.description}</div>
-      <div>{t.qcnt} questions</div>
+const TagView = ({ t, clickTag, viewTag }: TagProps) => (
+  <div
+    className='tagNode'
+    onClick={() => {
+      clickTag(t.name);
+    }}>
+    <div className='tagName'>{t.name}</div>
+    <div className='tagDescription'>{t.description}</div>
+    <div>{t.qcnt} questions</div>
+    <div className='tagStats'>
+      {t.askedThisWeek} asked this week, {t.askedThisMonth} this month
     </div>
-  );
-};
+    <div className='tagStats'>{t.unansweredCount} unanswered</div>
+    <div className='tagStats'>
+      {t.lastActivity ? `active ${getMetaData(new Date(t.lastActivity))}` : 'no activity yet'}
+    </div>
+    <button
+      className='tagAbout'
+      onClick={e => {
+        e.stopPropagation();
+        viewTag(t.name);
+      }}>
+      About
+    </button>
+  </div>
+);
 
 export default TagView;
@@ -0,0 +1,44 @@
+import React from 'react';
+import './index.css';
+import DiffView from '../questionRevisionsPage/diffView';
+import useTagRevisions from '../../../hooks/useTagRevisions';
+import { getMetaData } from '../../../tool';
+
+/**
+ * TagRevisionsPage component that displays the revision history of a tag wiki.
+ * Each edit is shown as a side-by-side diff of the excerpt and wiki before and after the edit,
+ * newest edit first.
+ */
+const TagRevisionsPage = () => {
+  const { tag, edits, handleBack } = useTagRevisions();
+
+  if (!tag) {
+    return null;
+  }
+
+  return (
+    <div className='tag_revisions_page right_padding'>
+      <div className='space_between'>
+        <div className='bold_title'>Revisions of [{tag.name}]</div>
+        <button className='bluebtn' onClick={handleBack}>
+          Back to Tag
+        </button>
+      </div>
+      {edits.length === 0 && (
+        <div className='tag_revisions_empty'>This tag wiki has not been edited.</div>
+      )}
+      {edits.map((edit, idx) => (
+        <div key={idx} className='tag_revision'>
+          <div className='tag_revision_meta'>
+            <span className='tag_revision_editor'>{edit.editedBy}</span> edited{' '}
+            {getMetaData(new Date(edit.editDateTime))}
+          </div>
+          <DiffView label='Excerpt' rows={edit.description} />
+          <DiffView label='Wiki' rows={edit.wiki} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TagRevisionsPage;
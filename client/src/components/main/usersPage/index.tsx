@@ -0,0 +1,126 @@
+import React from 'react';
+import './index.css';
+import Pagination from '../questionPage/pagination';
+import useUsersPage from '../../../hooks/useUsersPage';
+import {
+  LeaderboardEntry,
+  LeaderboardPeriod,
+  leaderboardPeriodDisplayName,
+  LeaderboardSortType,
+  leaderboardSortTypeDisplayName,
+} from '../../../types';
+
+/**
+ * Describes what a user is ranked by on the leaderboard.
+ *
+ * @param entry - The user on the leaderboard.
+ * @param sort - How the users are ranked.
+ */
+const describeScore = (entry: LeaderboardEntry, sort: LeaderboardSortType): string => {
+  switch (sort) {
+    case 'answers':
+      return `${entry.score} answer${entry.score === 1 ? '' : 's'}`;
+    case 'accepted':
+      return `${entry.score} accepted answer${entry.score === 1 ? '' : 's'}`;
+    case 'newest':
+      return `joined ${new Date(entry.dateJoined).toLocaleDateString()}`;
+    default:
+      return `${entry.score} reputation earned`;
+  }
+};
+
+/**
+ * UsersPage component renders the leaderboard of the users, which can be ranked by reputation,
+ * answers, accepted answers or when they joined, over the last week, the last month or all
+ * time, and narrowed to the questions of one tag. Clicking a user opens their profile.
+ */
+const UsersPage = () => {
+  const {
+    board,
+    err,
+    sort,
+    setSort,
+    period,
+    setPeriod,
+    tag,
+    tagInput,
+    handleTagInputChange,
+    handleTagInputKeyDown,
+    clearTag,
+    page,
+    pageCount,
+    setPage,
+    clickUser,
+  } = useUsersPage();
+
+  // Over all time and without a tag, users are ranked by the reputation already shown
+  const showScore = sort !== 'reputation' || !!tag || period !== 'all';
+
+  return (
+    <div className='users_page right_padding'>
+      <div className='bold_title'>{tag ? `Top Users in [${tag}]` : 'Users'}</div>
+      <div className='users_controls'>
+        <div className='users_tag_filter'>
+          <input
+            id='usersTagInput'
+            className='users_tag_input'
+            placeholder='Filter by tag, then press Enter'
+            type='text'
+            value={tagInput}
+            onChange={handleTagInputChange}
+            onKeyDown={handleTagInputKeyDown}
+          />
+          {tag && (
+            <button className='users_link' onClick={clearTag}>
+              All tags
+            </button>
+          )}
+        </div>
+        <div className='users_btns'>
+          {Object.keys(leaderboardSortTypeDisplayName)
+            .filter(option => !tag || option !== 'newest')
+            .map(option => (
+              <button
+                key={option}
+                className={`users_btn ${option === sort ? 'users_btn_selected' : ''}`}
+                onClick={() => setSort(option as LeaderboardSortType)}>
+                {leaderboardSortTypeDisplayName[option as LeaderboardSortType]}
+              </button>
+            ))}
+        </div>
+        <div className='users_btns'>
+          {Object.keys(leaderboardPeriodDisplayName).map(option => (
+            <button
+              key={option}
+              className={`users_btn ${option === period ? 'users_btn_selected' : ''}`}
+              onClick={() => setPeriod(option as LeaderboardPeriod)}>
+              {leaderboardPeriodDisplayName[option as LeaderboardPeriod]}
+            </button>
+          ))}
+        </div>
+      </div>
+      {err && <div className='users_error'>{err}</div>}
+      {board && board.users.length === 0 && (
+        <div className='users_empty'>No users to show for this period.</div>
+      )}
+      {board && (
+        <div id='users_list' className='users_list'>
+          {board.users.map((entry, idx) => (
+            <div
+              key={entry.username}
+              className='users_entry'
+              onClick={() => clickUser(entry.username)}>
+              <div className='users_rank'>{(board.page - 1) * board.limit + idx + 1}</div>
+              <div className='users_name'>{entry.username}</div>
+              <div className='users_reputation'>{entry.reputation} reputation</div>
+              {showScore && <div className='users_score'>{describeScore(entry, sort)}</div>}
+            </div>
+          ))}
+        </div>
+      )}
+      <Pagination page={page} pageCount={pageCount} setPage={setPage} />
+    </div>
+  );
+};
+
+export default UsersPage;
@@ -1,39 +1,55 @@
 import { downvoteQuestion, upvoteQuestion } from '../../../services/questionService';
+import { downvoteAnswer, upvoteAnswer } from '../../../services/answerService';
 import './index.css';
-import useUserContext from '../../../hooks/useUserContext';
-import { Question } from '../../../types';
+import { Answer, Privilege, Question } from '../../../types';
 import useVoteStatus from '../../../hooks/useVoteStatus';
 
 /**
  * Interface represents the props for the VoteComponent.
  *
- * question - The question object containing voting information.
+ * post - The question or answer object containing voting information.
+ * type - The type of the post, either 'question' or 'answer'.
+ * missingPrivilege - Function that says how much reputation a privilege needs if the current
+ *   user lacks it, or returns an empty string if they hold it.
  */
 interface VoteComponentProps {
-  question: Question;
+  post: Question | Answer;
+  type: 'question' | 'answer';
+  missingPrivilege: (privilege: Privilege) => string;
 }
 
 /**
- * A Vote component that allows users to upvote or downvote a question.
+ * A Vote component that allows users to upvote or downvote a question or an answer. The
+ * buttons are disabled for users without the privilege to vote that way, and say how much
+ * reputation they need.
  *
- * @param question - The question object containing voting information.
+ * @param post - The question or answer object containing voting information.
+ * @param type - The type of the post, either 'question' or 'answer'.
+ * @param missingPrivilege - Function that says why the current user lacks a privilege, if they do.
  */
-const VoteComponent = ({ question }: VoteComponentProps) => {
-  const { user } = useUserContext();
-  const { count, voted } = useVoteStatus({ question });
+const VoteComponent = ({ post, type, missingPrivilege }: VoteComponentProps) => {
+  const { count, voted } = useVoteStatus({ post });
+  const upvoteErr = missingPrivilege('upvote');
+  const downvoteErr = missingPrivilege('downvote');
 
   /**
-   * Function to handle upvoting or downvoting a question.
+   * Function to handle upvoting or downvoting the post.
    *
-   * @param type - The type of vote, either 'upvote' or 'downvote'.
+   * @param vote - The type of vote, either 'upvote' or 'downvote'.
    */
-  const handleVote = async (type: string) => {
+  const handleVote = async (vote: string) => {
     try {
-      if (question._id) {
-        if (type === 'upvote') {
-          await upvoteQuestion(question._id, user.username);
-        } else if (type === 'downvote') {
-          await downvoteQuestion(question._id, user.username);
+      if (post._id) {
+        if (type === 'question') {
+          if (vote === 'upvote') {
+            await upvoteQuestion(post._id);
+          } else if (vote === 'downvote') {
+            await downvoteQuestion(post._id);
+          }
+        } else if (vote === 'upvote') {
+          await upvoteAnswer(post._id);
+        } else if (vote === 'downvote') {
+          await downvoteAnswer(post._id);
         }
       }
     } catch (error) {
@@ -45,11 +61,15 @@ const VoteComponent = ({ question }: VoteComponentProps) => {
     <div className='vote-container'>
       <button
         className={`vote-button ${voted === 1 ? 'vote-button-upvoted' : ''}`}
+        disabled={!!upvoteErr}
+        title={upvoteErr}
         onClick={() => handleVote('upvote')}>
         Upvote
       </button>
       <button
         className={`vote-button ${voted === -1 ? 'vote-button-downvoted' : ''}`}
+        disabled={!!downvoteErr}
+        title={downvoteErr}
         onClick={() => handleVote('downvote')}>
         Downvote
       </button>
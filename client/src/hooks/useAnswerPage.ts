@@ -1,17 +1,47 @@
 import { useNavigate, useParams } from 'react-router-dom';
 import { useEffect, useState } from 'react';
-import { Comment, Answer, Question, VoteData } from '../types';
+import {
+  AnswerOrderType,
+  Comment,
+  Answer,
+  Question,
+  VoteUpdatePayload,
+  QuestionDeletePayload,
+  AnswerDeletePayload,
+  CommentDeletePayload,
+} from '../types';
 import useUserContext from './useUserContext';
-import addComment from '../services/commentService';
-import { getQuestionById } from '../services/questionService';
+import useReputations from './useReputations';
+import usePrivileges from './usePrivileges';
+import { addComment, deleteComment } from '../services/commentService';
+import { deleteAnswer } from '../services/answerService';
+import {
+  acceptAnswer,
+  deleteQuestion,
+  getQuestionById,
+  unacceptAnswer,
+} from '../services/questionService';
+import { sortAnswers } from '../tool';
 
 /**
  * Custom hook for managing the answer page's state, navigation, and real-time updates.
  *
  * @returns questionID - The current question ID retrieved from the URL parameters.
  * @returns question - The current question object with its answers, comments, and votes.
+ * @returns reputations - The reputation of the authors of the question and its answers, by username.
+ * @returns answerOrder - The order in which the answers are shown.
+ * @returns setAnswerOrder - Function to change the order in which the answers are shown.
  * @returns handleNewComment - Function to handle the submission of a new comment to a question or answer.
  * @returns handleNewAnswer - Function to navigate to the "New Answer" page
+ * @returns isQuestionAuthor - Whether the current user asked the question, and so may delete it and accept answers.
+ * @returns canEditQuestion - Whether the current user is allowed to edit the question.
+ * @returns missingPrivilege - Function that says how much reputation a privilege needs if the current user lacks it.
+ * @returns handleEditQuestion - Function to navigate to the "Edit Question" page.
+ * @returns handleShowRevisions - Function to navigate to the question's revision history.
+ * @returns handleDeleteQuestion - Function to delete the question and return to the home page.
+ * @returns handleDeleteAnswer - Function to delete an answer to the question.
+ * @returns handleDeleteComment - Function to delete a comment on the question or an answer.
+ * @returns handleToggleAcceptedAnswer - Function to accept an answer, or un-accept it if it is already accepted.
  */
 const useAnswerPage = () => {
   const { qid } = useParams();
@@ -20,6 +50,11 @@ const useAnswerPage = () => {
   const { user, socket } = useUserContext();
   const [questionID, setQuestionID] = useState<string>(qid || '');
   const [question, setQuestion] = useState<Question | null>(null);
+  const reputations = useReputations(
+    question ? [question.askedBy, ...question.answers.map(a => a.ansBy)] : [],
+  );
+  const [answerOrder, setAnswerOrder] = useState<AnswerOrderType>('newest');
+  const { hasPrivilege, missingPrivilege } = usePrivileges();
 
   /**
    * Function to handle navigation to the "New Answer" page.
@@ -28,6 +63,95 @@ const useAnswerPage = () => {
     navigate(`/new/answer/${questionID}`);
   };
 
+  /**
+   * Function to handle navigation to the "Edit Question" page.
+   */
+  const handleEditQuestion = () => {
+    navigate(`/edit/question/${questionID}`);
+  };
+
+  /**
+   * Function to handle navigation to the revision history of the question.
+   */
+  const handleShowRevisions = () => {
+    navigate(`/question/${questionID}/revisions`);
+  };
+
+  const isQuestionAuthor = question?.askedBy === user.username;
+  const canEditQuestion = isQuestionAuthor || hasPrivilege('editPosts');
+
+  /**
+   * Function to delete the question, along with its answers and comments.
+   */
+  const handleDeleteQuestion = async () => {
+    try {
+      await deleteQuestion(questionID);
+      navigate('/home');
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error deleting question:', error);
+    }
+  };
+
+  /**
+   * Function to delete an answer to the question, along with its comments.
+   *
+   * @param aid - The ID of the answer to delete.
+   */
+  const handleDeleteAnswer = async (aid: string | undefined) => {
+    try {
+      if (aid === undefined) {
+        throw new Error('No answer ID provided.');
+      }
+
+      await deleteAnswer(aid);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error deleting answer:', error);
+    }
+  };
+
+  /**
+   * Function to delete a comment on the question or one of its answers.
+   *
+   * @param cid - The ID of the comment to delete.
+   */
+  const handleDeleteComment = async (cid: string | undefined) => {
+    try {
+      if (cid === undefined) {
+        throw new Error('No comment ID provided.');
+      }
+
+      await deleteComment(cid);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error deleting comment:', error);
+    }
+  };
+
+  /**
+   * Function to mark an answer as the accepted answer of the question, or to remove it
+   * if it is already the accepted answer.
+   *
+   * @param aid - The ID of the answer to accept or un-accept.
+   */
+  const handleToggleAcceptedAnswer = async (aid: string | undefined) => {
+    try {
+      if (aid === undefined) {
+        throw new Error('No answer ID provided.');
+      }
+
+      if (question?.acceptedAnswer === aid) {
+        await unacceptAnswer(questionID);
+      } else {
+        await acceptAnswer(questionID, aid);
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error updating the accepted answer:', error);
+    }
+  };
+
   useEffect(() => {
     if (!qid) {
       navigate('/home');
@@ -67,7 +191,7 @@ const useAnswerPage = () => {
      */
     const fetchData = async () => {
       try {
-        const res = await getQuestionById(questionID, user.username);
+        const res = await getQuestionById(questionID, user.username, answerOrder);
         setQuestion(res || null);
       } catch (error) {
         // eslint-disable-next-line no-console
@@ -77,9 +201,20 @@ const useAnswerPage = () => {
 
     // eslint-disable-next-line no-console
     fetchData().catch(e => console.log(e));
-  }, [questionID, user.username]);
+  }, [questionID, user.username, answerOrder]);
 
   useEffect(() => {
+    /**
+     * Function to sort the answers of a question received from the server in the chosen order,
+     * as other clients may have requested a different one.
+     *
+     * @param q - The question received from the server.
+     */
+    const withSortedAnswers = (q: Question): Question => ({
+      ...q,
+      answers: sortAnswers(q.answers, answerOrder, q.acceptedAnswer),
+    });
+
     /**
      * Function to handle updates to the answers of a question.
      *
@@ -89,8 +224,8 @@ const useAnswerPage = () => {
       if (id === questionID) {
         setQuestion(prevQuestion =>
           prevQuestion
-            ? // Creates a new Question object with the new answer appended to the end
-              { ...prevQuestion, answers: [...prevQuestion.answers, answer] }
+            ? // Creates a new Question object with the new answer in its place in the chosen order
+              withSortedAnswers({ ...prevQuestion, answers: [...prevQuestion.answers, answer] })
             : prevQuestion,
         );
       }
@@ -113,7 +248,7 @@ const useAnswerPage = () => {
         const questionResult = result as Question;
 
         if (questionResult._id === questionID) {
-          setQuestion(questionResult);
+          setQuestion(withSortedAnswers(questionResult));
         }
       } else if (type === 'answer') {
         setQuestion(prevQuestion =>
@@ -130,6 +265,17 @@ const useAnswerPage = () => {
       }
     };
 
+    /**
+     * Function to handle updates to a question, such as an edit by its author.
+     *
+     * @param q The updated question object.
+     */
+    const handleQuestionUpdate = (q: Question) => {
+      if (q._id === questionID) {
+        setQuestion(withSortedAnswers(q));
+      }
+    };
+
     /**
      * Function to handle updates to the views of a question.
      *
@@ -137,47 +283,150 @@ const useAnswerPage = () => {
      */
     const handleViewsUpdate = (q: Question) => {
       if (q._id === questionID) {
-        setQuestion(q);
+        setQuestion(withSortedAnswers(q));
+      }
+    };
+
+    /**
+     * Function to handle vote updates for the question, one of its answers, or a comment.
+     *
+     * @param voteData - The updated vote data, and the document it belongs to
+     */
+    const handleVoteUpdate = (voteData: VoteUpdatePayload) => {
+      const { id, type, upVotes } = voteData;
+      const downVotes = voteData.downVotes || [];
+
+      /**
+       * Function to update the votes of a comment, if it is the one that was voted on.
+       *
+       * @param c - The comment to update.
+       */
+      const updateComment = (c: Comment) => (c._id === id ? { ...c, upVotes: [...upVotes] } : c);
+
+      setQuestion(prevQuestion => {
+        if (!prevQuestion) {
+          return prevQuestion;
+        }
+
+        if (type === 'question') {
+          return prevQuestion._id === id
+            ? { ...prevQuestion, upVotes: [...upVotes], downVotes: [...downVotes] }
+            : prevQuestion;
+        }
+
+        if (type === 'answer') {
+          return {
+            ...prevQuestion,
+            answers: prevQuestion.answers.map(a =>
+              a._id === id ? { ...a, upVotes: [...upVotes], downVotes: [...downVotes] } : a,
+            ),
+          };
+        }
+
+        return {
+          ...prevQuestion,
+          comments: prevQuestion.comments.map(updateComment),
+          answers: prevQuestion.answers.map(a => ({
+            ...a,
+            comments: a.comments.map(updateComment),
+          })),
+        };
+      });
+    };
+
+    /**
+     * Function to handle the deletion of a question, leaving the page if it is the current one.
+     *
+     * @param qid - The ID of the deleted question.
+     */
+    const handleQuestionDelete = ({ qid: id }: QuestionDeletePayload) => {
+      if (id === questionID) {
+        navigate('/home');
       }
     };
 
     /**
-     * Function to handle vote updates for a question.
+     * Function to handle the deletion of an answer to the question.
      *
-     * @param voteData - The updated vote data for a question
+     * @param qid - The ID of the question the answer belonged to.
+     * @param aid - The ID of the deleted answer.
      */
-    const handleVoteUpdate = (voteData: VoteData) => {
-      if (voteData.qid === questionID) {
+    const handleAnswerDelete = ({ qid: id, aid }: AnswerDeletePayload) => {
+      if (id === questionID) {
         setQuestion(prevQuestion =>
           prevQuestion
-            ? {
-                ...prevQuestion,
-                upVotes: [...voteData.upVotes],
-                downVotes: [...voteData.downVotes],
-              }
+            ? { ...prevQuestion, answers: prevQuestion.answers.filter(a => a._id !== aid) }
             : prevQuestion,
         );
       }
     };
 
+    /**
+     * Function to handle the deletion of a comment on the question or one of its answers.
+     *
+     * @param cid - The ID of the deleted comment.
+     * @param parentId - The ID of the question or answer the comment belonged to.
+     * @param type - The type of the parent, either 'question' or 'answer'.
+     */
+    const handleCommentDelete = ({ cid, parentId, type }: CommentDeletePayload) => {
+      setQuestion(prevQuestion => {
+        if (!prevQuestion) {
+          return prevQuestion;
+        }
+
+        if (type === 'question') {
+          return prevQuestion._id === parentId
+            ? { ...prevQuestion, comments: prevQuestion.comments.filter(c => c._id !== cid) }
+            : prevQuestion;
+        }
+
+        return {
+          ...prevQuestion,
+          answers: prevQuestion.answers.map(a =>
+            a._id === parentId ? { ...a, comments: a.comments.filter(c => c._id !== cid) } : a,
+          ),
+        };
+      });
+    };
+
+    socket.on('questionUpdate', handleQuestionUpdate);
     socket.on('answerUpdate', handleAnswerUpdate);
     socket.on('viewsUpdate', handleViewsUpdate);
     socket.on('commentUpdate', handleCommentUpdate);
     socket.on('voteUpdate', handleVoteUpdate);
+    socket.on('questionDelete', handleQuestionDelete);
+    socket.on('answerDelete', handleAnswerDelete);
+    socket.on('commentDelete', handleCommentDelete);
 
     return () => {
+      socket.off('questionUpdate', handleQuestionUpdate);
       socket.off('answerUpdate', handleAnswerUpdate);
       socket.off('viewsUpdate', handleViewsUpdate);
       socket.off('commentUpdate', handleCommentUpdate);
       socket.off('voteUpdate', handleVoteUpdate);
+      socket.off('questionDelete', handleQuestionDelete);
+      socket.off('answerDelete', handleAnswerDelete);
+      socket.off('commentDelete', handleCommentDelete);
     };
-  }, [questionID, socket]);
+  }, [questionID, socket, navigate, answerOrder]);
 
   return {
     questionID,
     question,
+    reputations,
+    answerOrder,
+    setAnswerOrder,
     handleNewComment,
     handleNewAnswer,
+    isQuestionAuthor,
+    canEditQuestion,
+    missingPrivilege,
+    handleEditQuestion,
+    handleShowRevisions,
+    handleDeleteQuestion,
+    handleDeleteAnswer,
+    handleDeleteComment,
+    handleToggleAcceptedAnswer,
   };
 };
 
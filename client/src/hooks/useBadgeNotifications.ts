@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BadgeAward } from '../types';
+import useUserContext from './useUserContext';
+
+/**
+ * How long, in milliseconds, a badge notification stays on screen.
+ */
+const NOTIFICATION_DURATION = 8000;
+
+/**
+ * Custom hook that listens for the badges the logged-in user earns and keeps the
+ * notifications to show for them. Each notification disappears on its own after a while,
+ * oldest first.
+ *
+ * @returns awards - The badges the user has just earned, oldest first.
+ * @returns dismiss - Function to close the notification for a badge.
+ * @returns openProfile - Function to close a notification and open the user's profile.
+ */
+const useBadgeNotifications = () => {
+  const { user, socket } = useUserContext();
+  const navigate = useNavigate();
+  const [awards, setAwards] = useState<BadgeAward[]>([]);
+
+  useEffect(() => {
+    /**
+     * Function to add a notification for a badge the user has just earned.
+     *
+     * @param award - The badge award.
+     */
+    const handleBadgeAwarded = (award: BadgeAward) => {
+      setAwards(prevAwards => [...prevAwards, award]);
+    };
+
+    socket.on('badgeAwarded', handleBadgeAwarded);
+
+    return () => {
+      socket.off('badgeAwarded', handleBadgeAwarded);
+    };
+  }, [socket]);
+
+  const [oldest] = awards;
+
+  useEffect(() => {
+    if (!oldest) {
+      return undefined;
+    }
+
+    const timeout = setTimeout(
+      () => setAwards(prevAwards => prevAwards.filter(a => a !== oldest)),
+      NOTIFICATION_DURATION,
+    );
+
+    return () => {
+      clearTimeout(timeout);
+    };
+  }, [oldest]);
+
+  /**
+   * Function to close the notification for a badge.
+   *
+   * @param award - The badge award.
+   */
+  const dismiss = (award: BadgeAward) => {
+    setAwards(prevAwards => prevAwards.filter(a => a !== award));
+  };
+
+  /**
+   * Function to close a notification and open the user's profile, where their badges are listed.
+   *
+   * @param award - The badge award.
+   */
+  const openProfile = (award: BadgeAward) => {
+    dismiss(award);
+    navigate(`/user/${encodeURIComponent(user.username)}`);
+  };
+
+  return { awards, dismiss, openProfile };
+};
+
+export default useBadgeNotifications;
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { isAxiosError } from 'axios';
+import { getQuestionFormErrors, parseTagNames } from '../tool';
+import { editQuestion, getQuestionById } from '../services/questionService';
+import { getPrivileges } from '../services/userService';
+import useUserContext from './useUserContext';
+import { Tag } from '../types';
+
+/**
+ * Custom hook to handle editing an existing question and validating the edit form.
+ * The form is filled in with the current version of the question once it has been fetched.
+ * Only the author of the question and users with the privilege to edit posts by other users
+ * can edit it.
+ *
+ * @returns title - The current value of the title input.
+ * @returns text - The current value of the text input.
+ * @returns tagNames - The current value of the tags input.
+ * @returns titleErr - Error message for the title field, if any.
+ * @returns textErr - Error message for the text field, if any.
+ * @returns tagErr - Error message for the tag field, if any.
+ * @returns err - Error message for the edit as a whole, if any.
+ * @returns saveQuestion - Function to validate the form and save the edit.
+ */
+const useEditQuestion = () => {
+  const { qid } = useParams();
+  const navigate = useNavigate();
+  const { user } = useUserContext();
+  const [title, setTitle] = useState<string>('');
+  const [text, setText] = useState<string>('');
+  const [tagNames, setTagNames] = useState<string>('');
+  const [currentTags, setCurrentTags] = useState<Tag[]>([]);
+
+  const [titleErr, setTitleErr] = useState<string>('');
+  const [textErr, setTextErr] = useState<string>('');
+  const [tagErr, setTagErr] = useState<string>('');
+  const [err, setErr] = useState<string>('');
+
+  useEffect(() => {
+    if (!qid) {
+      navigate('/home');
+      return;
+    }
+
+    /**
+     * Function to fetch the question being edited and fill in the form with it.
+     */
+    const fetchData = async () => {
+      try {
+        const [question, privileges] = await Promise.all([
+          getQuestionById(qid, user.username),
+          getPrivileges(),
+        ]);
+
+        if (question.askedBy !== user.username && !privileges.privileges.editPosts) {
+          navigate(`/question/${qid}`);
+          return;
+        }
+
+        setTitle(question.title);
+        setText(question.text);
+        setTagNames(question.tags.map(tag => tag.name).join(' '));
+        setCurrentTags(question.tags);
+      } catch (error) {
+        setErr('Could not load the question');
+      }
+    };
+
+    // eslint-disable-next-line no-console
+    fetchData().catch(e => console.log(e));
+  }, [qid, user.username, navigate]);
+
+  /**
+   * Function to validate the form before saving the edit.
+   *
+   * @returns boolean - True if the form is valid, false otherwise.
+   */
+  const validateForm = (): boolean => {
+    const errors = getQuestionFormErrors(title, text, parseTagNames(tagNames));
+
+    setTitleErr(errors.titleErr);
+    setTextErr(errors.textErr);
+    setTagErr(errors.tagErr);
+
+    return !errors.titleErr && !errors.textErr && !errors.tagErr;
+  };
+
+  /**
+   * Function to save the edited question to the server, and return to the question page.
+   */
+  const saveQuestion = async () => {
+    if (!qid || !validateForm()) return;
+
+    // Tags the question already had keep their description
+    const tags = parseTagNames(tagNames).map(
+      tagName =>
+        currentTags.find(tag => tag.name === tagName) || {
+          name: tagName,
+          description: 'user added tag',
+        },
+    );
+
+    try {
+      await editQuestion(qid, { title, text, tags });
+      navigate(`/question/${qid}`);
+    } catch (error) {
+      // Users lacking a privilege for the edit, such as creating new tags, are told which one
+      setErr(
+        isAxiosError(error) && error.response?.status === 403
+          ? error.response.data
+          : 'Could not save the edit. Please try again later',
+      );
+    }
+  };
+
+  return {
+    title,
+    setTitle,
+    text,
+    setText,
+    tagNames,
+    setTagNames,
+    titleErr,
+    textErr,
+    tagErr,
+    err,
+    saveQuestion,
+  };
+};
+
+export default useEditQuestion;
@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { validateHyperlink } from '../tool';
+import { editTagWiki, getTagByName } from '../services/tagService';
+import { getPrivileges } from '../services/userService';
+
+/**
+ * The maximum length of the excerpt of a tag.
+ */
+const MAX_EXCERPT_LENGTH = 500;
+
+/**
+ * Custom hook to handle editing the excerpt and wiki of a tag and validating the edit form.
+ * The form is filled in with the current version of the tag once it has been fetched. Only users
+ * with the privilege to edit posts by other users can edit it.
+ *
+ * @returns description - The current value of the excerpt input.
+ * @returns wiki - The current value of the wiki input.
+ * @returns descriptionErr - Error message for the excerpt field, if any.
+ * @returns wikiErr - Error message for the wiki field, if any.
+ * @returns err - Error message for the edit as a whole, if any.
+ * @returns saveWiki - Function to validate the form and save the edit.
+ */
+const useEditTagWiki = () => {
+  const { name } = useParams();
+  const navigate = useNavigate();
+  const [description, setDescription] = useState<string>('');
+  const [wiki, setWiki] = useState<string>('');
+
+  const [descriptionErr, setDescriptionErr] = useState<string>('');
+  const [wikiErr, setWikiErr] = useState<string>('');
+  const [err, setErr] = useState<string>('');
+
+  useEffect(() => {
+    if (!name) {
+      navigate('/tags');
+      return;
+    }
+
+    /**
+     * Function to fetch the tag being edited and fill in the form with it.
+     */
+    const fetchData = async () => {
+      try {
+        const [tag, privileges] = await Promise.all([getTagByName(name), getPrivileges()]);
+
+        if (!privileges.privileges.editPosts) {
+          navigate(`/tags/${encodeURIComponent(name)}`);
+          return;
+        }
+
+        setDescription(tag.description);
+        setWiki(tag.wiki ?? '');
+      } catch (error) {
+        setErr('Could not load the tag');
+      }
+    };
+
+    // eslint-disable-next-line no-console
+    fetchData().catch(e => console.log(e));
+  }, [name, navigate]);
+
+  /**
+   * Function to validate the form before saving the edit.
+   *
+   * @returns boolean - True if the form is valid, false otherwise.
+   */
+  const validateForm = (): boolean => {
+    let isValid = true;
+
+    setDescriptionErr('');
+    setWikiErr('');
+
+    if (!description.trim()) {
+      setDescriptionErr('Excerpt cannot be empty');
+      isValid = false;
+    } else if (description.length > MAX_EXCERPT_LENGTH) {
+      setDescriptionErr(`Excerpt cannot be more than ${MAX_EXCERPT_LENGTH} characters`);
+      isValid = false;
+    }
+
+    if (!validateHyperlink(wiki)) {
+      setWikiErr('Invalid hyperlink format.');
+      isValid = false;
+    }
+
+    return isValid;
+  };
+
+  /**
+   * Function to save the edited wiki to the server, and return to the page of the tag.
+   */
+  const saveWiki = async () => {
+    if (!name || !validateForm()) return;
+
+    try {
+      await editTagWiki(name, { description, wiki });
+      navigate(`/tags/${encodeURIComponent(name)}`);
+    } catch (error) {
+      setErr('Could not save the edit. Please try again later');
+    }
+  };
+
+  return {
+    description,
+    setDescription,
+    wiki,
+    setWiki,
+    descriptionErr,
+    wikiErr,
+    err,
+    saveWiki,
+  };
+};
+
+export default useEditTagWiki;
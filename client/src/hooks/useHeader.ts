@@ -1,19 +1,93 @@
-import { ChangeEvent, useState, KeyboardEvent } from 'react';
+import { ChangeEvent, useEffect, useState, KeyboardEvent } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { checkSearch, getSearchSuggestions } from '../services/questionService';
+import { SearchParseError, SearchSuggestion } from '../types';
+
+/**
+ * The delay, in milliseconds, between the last keystroke and fetching suggestions.
+ */
+const SUGGESTION_DELAY = 250;
 
 /**
  * Custom hook to manage the state and logic for a header search input.
- * It handles input changes and triggers a search action on 'Enter' key press.
+ * It handles input changes and triggers a search action on 'Enter' key press,
+ * unless the search string has errors. While the user types, it fetches suggestions
+ * of questions, tags and users, which can be chosen with the arrow keys and 'Enter'.
  *
  * @returns val - the current value of the input.
  * @returns setVal - function to update the value of the input.
+ * @returns searchErrors - the errors found in the search string the last time it was submitted.
+ * @returns suggestions - the suggestions for the current value, empty if the dropdown is closed.
+ * @returns activeIndex - the index of the highlighted suggestion, or -1 if there is none.
  * @returns handleInputChange - function to handle changes in the input field.
- * @returns handleKeyDown - function to handle 'Enter' key press and trigger the search.
+ * @returns handleKeyDown - function to handle key presses: moving through the suggestions,
+ *          choosing one, or triggering the search.
+ * @returns handleSelectSuggestion - function to go to the page of a suggestion.
+ * @returns closeSuggestions - function to close the suggestions dropdown.
  */
 const useHeader = () => {
   const navigate = useNavigate();
 
   const [val, setVal] = useState<string>('');
+  const [searchErrors, setSearchErrors] = useState<SearchParseError[]>([]);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState<number>(-1);
+  const [showSuggestions, setShowSuggestions] = useState<boolean>(false);
+
+  useEffect(() => {
+    const text = val.trim();
+
+    if (!showSuggestions || !text) {
+      setSuggestions([]);
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    /**
+     * Function to fetch the suggestions for the typed text, and flatten them into one list.
+     */
+    const fetchSuggestions = async () => {
+      try {
+        const res = await getSearchSuggestions(text);
+
+        if (!cancelled) {
+          setSuggestions([
+            ...res.questions.map(q => ({
+              type: 'question' as const,
+              value: q._id,
+              label: q.title,
+            })),
+            ...res.tags.map(name => ({ type: 'tag' as const, value: name, label: name })),
+            ...res.users.map(username => ({
+              type: 'user' as const,
+              value: username,
+              label: username,
+            })),
+          ]);
+          setActiveIndex(-1);
+        }
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.log(error);
+      }
+    };
+
+    const timeout = setTimeout(fetchSuggestions, SUGGESTION_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [val, showSuggestions]);
+
+  /**
+   * Function to close the suggestions dropdown.
+   */
+  const closeSuggestions = () => {
+    setShowSuggestions(false);
+    setActiveIndex(-1);
+  };
 
   /**
    * Function to handle changes in the input field.
@@ -22,29 +96,100 @@ const useHeader = () => {
    */
   const handleInputChange = (e: ChangeEvent<HTMLInputElement>) => {
     setVal(e.target.value);
+    setSearchErrors([]);
+    setShowSuggestions(true);
   };
 
   /**
-   * Function to handle 'Enter' key press and trigger the search.
+   * Function to go to the page of a suggestion: the question, the questions with the tag, or
+   * the questions asked by the user.
+   *
+   * @param suggestion - the chosen suggestion.
+   */
+  const handleSelectSuggestion = (suggestion: SearchSuggestion) => {
+    closeSuggestions();
+
+    if (suggestion.type === 'question') {
+      navigate(`/question/${suggestion.value}`);
+      return;
+    }
+
+    const searchParams = new URLSearchParams();
+
+    if (suggestion.type === 'tag') {
+      searchParams.set('tag', suggestion.value);
+    } else {
+      setVal(`user:${suggestion.value}`);
+      searchParams.set('search', `user:${suggestion.value}`);
+    }
+
+    navigate(`/home?${searchParams.toString()}`);
+  };
+
+  /**
+   * Function to run the search. The search string is checked first, and the search is not run
+   * if it has errors.
+   *
+   * @param search - the search string.
+   */
+  const submitSearch = async (search: string) => {
+    closeSuggestions();
+
+    try {
+      const errors = await checkSearch(search);
+      setSearchErrors(errors);
+
+      if (errors.length > 0) {
+        return;
+      }
+    } catch (error) {
+      // The server reports the errors again when searching
+      setSearchErrors([]);
+    }
+
+    const searchParams = new URLSearchParams();
+    searchParams.set('search', search);
+
+    navigate(`/home?${searchParams.toString()}`);
+  };
+
+  /**
+   * Function to handle key presses in the input field. The arrow keys move through the
+   * suggestions, 'Escape' closes them, and 'Enter' chooses the highlighted suggestion or
+   * triggers the search.
    *
    * @param e - the event object.
    */
   const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex(prevIndex => (prevIndex + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex(prevIndex => (prevIndex <= 0 ? suggestions.length - 1 : prevIndex - 1));
+    } else if (e.key === 'Escape') {
+      closeSuggestions();
+    } else if (e.key === 'Enter') {
       e.preventDefault();
 
-      const searchParams = new URLSearchParams();
-      searchParams.set('search', e.currentTarget.value);
-
-      navigate(`/home?${searchParams.toString()}`);
+      if (activeIndex >= 0 && activeIndex < suggestions.length) {
+        handleSelectSuggestion(suggestions[activeIndex]);
+      } else {
+        submitSearch(e.currentTarget.value);
+      }
     }
   };
 
   return {
     val,
     setVal,
+    searchErrors,
+    suggestions: showSuggestions ? suggestions : [],
+    activeIndex,
     handleInputChange,
     handleKeyDown,
+    handleSelectSuggestion,
+    closeSuggestions,
   };
 };
 
@@ -1,16 +1,32 @@
 import { useNavigate } from 'react-router-dom';
 import { ChangeEvent, useState } from 'react';
+import { isAxiosError } from 'axios';
 import useLoginContext from './useLoginContext';
+import { createUser, loginUser } from '../services/userService';
 
 /**
- * Custom hook to handle login input and submission.
+ * Type representing the fields of the login and signup forms.
+ */
+type AuthField = 'username' | 'password' | 'passwordConfirmation';
+
+/**
+ * Custom hook to handle login and signup input and submission.
  *
  * @returns username - The current value of the username input.
- * @returns handleInputChange - Function to handle changes in the input field.
- * @returns handleSubmit - Function to handle login submission
+ * @returns password - The current value of the password input.
+ * @returns passwordConfirmation - The current value of the password confirmation input (signup only).
+ * @returns isSignup - Whether the form is in signup mode rather than login mode.
+ * @returns err - The error message to display, if any.
+ * @returns handleInputChange - Function to handle changes in the input fields.
+ * @returns handleSubmit - Function to handle login or signup submission.
+ * @returns toggleSignup - Function to switch between login and signup mode.
  */
 const useLogin = () => {
   const [username, setUsername] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [passwordConfirmation, setPasswordConfirmation] = useState<string>('');
+  const [isSignup, setIsSignup] = useState<boolean>(false);
+  const [err, setErr] = useState<string>('');
   const { setUser } = useLoginContext();
   const navigate = useNavigate();
 
@@ -18,23 +34,106 @@ const useLogin = () => {
    * Function to handle the input change event.
    *
    * @param e - the event object.
+   * @param field - the form field being edited.
+   */
+  const handleInputChange = (e: ChangeEvent<HTMLInputElement>, field: AuthField) => {
+    if (field === 'username') {
+      setUsername(e.target.value);
+    } else if (field === 'password') {
+      setPassword(e.target.value);
+    } else {
+      setPasswordConfirmation(e.target.value);
+    }
+  };
+
+  /**
+   * Function to switch between the login and signup forms, clearing any previous error.
+   */
+  const toggleSignup = () => {
+    setIsSignup(!isSignup);
+    setPassword('');
+    setPasswordConfirmation('');
+    setErr('');
+  };
+
+  /**
+   * Function to validate the form before submitting it to the server.
+   *
+   * @returns boolean - True if the form is valid, false otherwise.
    */
-  const handleInputChange = (e: ChangeEvent<HTMLInputElement>) => {
-    setUsername(e.target.value);
+  const validateForm = (): boolean => {
+    if (username.trim() === '' || password === '') {
+      setErr('Please enter a username and password');
+      return false;
+    }
+
+    if (isSignup && password !== passwordConfirmation) {
+      setErr('Passwords do not match');
+      return false;
+    }
+
+    return true;
+  };
+
+  /**
+   * Function to translate a failed login or signup request into a message for the user.
+   *
+   * @param error - the error thrown by the request.
+   */
+  const getErrorMessage = (error: unknown): string => {
+    if (!isAxiosError(error) || !error.response) {
+      return 'Unable to reach the server. Please try again later';
+    }
+
+    switch (error.response.status) {
+      case 400:
+        return 'Please enter a username and password';
+      case 401:
+        return 'Invalid username or password';
+      case 500:
+        return isSignup
+          ? 'Could not create the account. The username may already be taken'
+          : 'Something went wrong on the server. Please try again later';
+      default:
+        return 'Something went wrong. Please try again later';
+    }
   };
 
   /**
-   * Function to handle the form submission event.
+   * Function to handle the form submission event. The user is only stored in the
+   * application's context once the server has accepted their credentials.
    *
    * @param event - the form event object.
    */
-  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    setUser({ username });
-    navigate('/home');
+
+    if (!validateForm()) {
+      return;
+    }
+
+    try {
+      const credentials = { username: username.trim(), password };
+      const user = isSignup ? await createUser(credentials) : await loginUser(credentials);
+
+      setErr('');
+      setUser(user);
+      navigate('/home');
+    } catch (error) {
+      setErr(getErrorMessage(error));
+    }
   };
 
-  return { username, handleInputChange, handleSubmit };
+  return {
+    username,
+    password,
+    passwordConfirmation,
+    isSignup,
+    err,
+    handleInputChange,
+    handleSubmit,
+    toggleSignup,
+  };
 };
 
 export default useLogin;
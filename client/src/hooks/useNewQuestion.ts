@@ -1,16 +1,23 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { validateHyperlink } from '../tool';
+import { isAxiosError } from 'axios';
+import { getQuestionFormErrors, parseTagNames } from '../tool';
 import { addQuestion } from '../services/questionService';
 import useUserContext from './useUserContext';
-import { Question } from '../types';
+import { Question, SelectedTag } from '../types';
+
+/**
+ * The description given to a new tag when the user does not describe it.
+ */
+const DEFAULT_TAG_DESCRIPTION = 'user added tag';
 
 /**
  * Custom hook to handle question submission and form validation
  *
  * @returns title - The current value of the title input.
  * @returns text - The current value of the text input.
- * @returns tagNames - The current value of the tags input.
+ * @returns tags - The tags chosen so far.
+ * @returns tagInput - The tag name being typed, which is added to the tags when posting.
  * @returns titleErr - Error message for the title field, if any.
  * @returns textErr - Error message for the text field, if any.
  * @returns tagErr - Error message for the tag field, if any.
@@ -21,60 +28,44 @@ const useNewQuestion = () => {
   const { user } = useUserContext();
   const [title, setTitle] = useState<string>('');
   const [text, setText] = useState<string>('');
-  const [tagNames, setTagNames] = useState<string>('');
+  const [tags, setTags] = useState<SelectedTag[]>([]);
+  const [tagInput, setTagInput] = useState<string>('');
 
   const [titleErr, setTitleErr] = useState<string>('');
   const [textErr, setTextErr] = useState<string>('');
   const [tagErr, setTagErr] = useState<string>('');
 
+  /**
+   * Function to get the tags of the question: the chosen tags, followed by the tag names
+   * still being typed.
+   *
+   * @returns SelectedTag[] - The tags of the question.
+   */
+  const getQuestionTags = (): SelectedTag[] => [
+    ...tags,
+    ...parseTagNames(tagInput)
+      .filter(name => !tags.some(tag => tag.name === name))
+      .map(name => ({ name, description: '' })),
+  ];
+
   /**
    * Function to validate the form before submitting the question.
    *
+   * @param questionTags - The tags of the question.
    * @returns boolean - True if the form is valid, false otherwise.
    */
-  const validateForm = (): boolean => {
-    let isValid = true;
-
-    if (!title) {
-      setTitleErr('Title cannot be empty');
-      isValid = false;
-    } else if (title.length > 100) {
-      setTitleErr('Title cannot be more than 100 characters');
-      isValid = false;
-    } else {
-      setTitleErr('');
-    }
-
-    if (!text) {
-      setTextErr('Question text cannot be empty');
-      isValid = false;
-    } else if (!validateHyperlink(text)) {
-      setTextErr('Invalid hyperlink format.');
-      isValid = false;
-    } else {
-      setTextErr('');
-    }
+  const validateForm = (questionTags: SelectedTag[]): boolean => {
+    const errors = getQuestionFormErrors(
+      title,
+      text,
+      questionTags.map(tag => tag.name),
+    );
 
-    const tagnames = tagNames.split(' ').filter(tagName => tagName.trim() !== '');
-    if (tagnames.length === 0) {
-      setTagErr('Should have at least 1 tag');
-      isValid = false;
-    } else if (tagnames.length > 5) {
-      setTagErr('Cannot have more than 5 tags');
-      isValid = false;
-    } else {
-      setTagErr('');
-    }
+    setTitleErr(errors.titleErr);
+    setTextErr(errors.textErr);
+    setTagErr(errors.tagErr);
 
-    for (const tagName of tagnames) {
-      if (tagName.length > 20) {
-        setTagErr('New tag length cannot be more than 20');
-        isValid = false;
-        break;
-      }
-    }
-
-    return isValid;
+    return !errors.titleErr && !errors.textErr && !errors.tagErr;
   };
 
   /**
@@ -83,18 +74,17 @@ const useNewQuestion = () => {
    * @returns title - The current value of the title input.
    */
   const postQuestion = async () => {
-    if (!validateForm()) return;
+    const questionTags = getQuestionTags();
 
-    const tagnames = tagNames.split(' ').filter(tagName => tagName.trim() !== '');
-    const tags = tagnames.map(tagName => ({
-      name: tagName,
-      description: 'user added tag',
-    }));
+    if (!validateForm(questionTags)) return;
 
     const question: Question = {
       title,
       text,
-      tags,
+      tags: questionTags.map(tag => ({
+        name: tag.name,
+        description: tag.description.trim() || DEFAULT_TAG_DESCRIPTION,
+      })),
       askedBy: user.username,
       askDateTime: new Date(),
       answers: [],
@@ -104,10 +94,19 @@ const useNewQuestion = () => {
       comments: [],
     };
 
-    const res = await addQuestion(question);
+    try {
+      const res = await addQuestion(question);
 
-    if (res && res._id) {
-      navigate('/home');
+      if (res && res._id) {
+        navigate('/home');
+      }
+    } catch (error) {
+      // Users without the privilege to create tags can only use existing ones
+      if (isAxiosError(error) && error.response?.status === 403) {
+        setTagErr(error.response.data);
+      } else {
+        throw error;
+      }
     }
   };
 
@@ -116,8 +115,10 @@ const useNewQuestion = () => {
     setTitle,
     text,
     setText,
-    tagNames,
-    setTagNames,
+    tags,
+    setTags,
+    tagInput,
+    setTagInput,
     titleErr,
     textErr,
     tagErr,
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { getPrivileges } from '../services/userService';
+import { Privilege, UserPrivileges } from '../types';
+import useUserContext from './useUserContext';
+
+/**
+ * What each privilege lets users do, as shown to users who lack it.
+ */
+const privilegeActions: Record<Privilege, string> = {
+  comment: 'comment on posts by other users',
+  upvote: 'upvote',
+  downvote: 'downvote',
+  createTag: 'create new tags',
+  editPosts: 'edit posts by other users',
+};
+
+/**
+ * Custom hook for fetching what the logged-in user is allowed to do with their reputation,
+ * so that controls for actions they lack the privilege for can be disabled or hidden.
+ *
+ * @returns hasPrivilege - Function that takes a privilege and returns whether the user is known
+ *          to hold it, which is never the case until the privileges have been fetched.
+ * @returns missingPrivilege - Function that takes a privilege and returns a message saying how
+ *          much reputation it needs if the user is known to lack it, or an empty string
+ *          otherwise. Until the privileges have been fetched, it is left to the server to check.
+ */
+const usePrivileges = () => {
+  const { user } = useUserContext();
+  const [privileges, setPrivileges] = useState<UserPrivileges | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    /**
+     * Function to fetch the privileges of the logged-in user.
+     */
+    const fetchData = async () => {
+      try {
+        const res = await getPrivileges();
+
+        if (!cancelled) {
+          setPrivileges(res);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setPrivileges(null);
+        }
+      }
+    };
+
+    // eslint-disable-next-line no-console
+    fetchData().catch(e => console.log(e));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user.username]);
+
+  /**
+   * Function to check whether the user holds a privilege.
+   *
+   * @param privilege - The privilege.
+   * @returns boolean - True if the user holds the privilege, false otherwise.
+   */
+  const hasPrivilege = (privilege: Privilege): boolean => !!privileges?.privileges[privilege];
+
+  /**
+   * Function to check whether the user lacks a privilege.
+   *
+   * @param privilege - The privilege.
+   * @returns string - How much reputation the privilege needs, or an empty string if the user holds it.
+   */
+  const missingPrivilege = (privilege: Privilege): string =>
+    !privileges || privileges.privileges[privilege]
+      ? ''
+      : `You need ${privileges.thresholds[privilege]} reputation to ${privilegeActions[privilege]}`;
+
+  return { hasPrivilege, missingPrivilege };
+};
+
+export default usePrivileges;
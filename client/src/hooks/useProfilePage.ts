@@ -0,0 +1,246 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { isAxiosError } from 'axios';
+import {
+  deleteUser,
+  getBadges,
+  getUserByUsername,
+  getVotesReceived,
+  setRole,
+  updateBio,
+} from '../services/userService';
+import { getQuestionsByFilter } from '../services/questionService';
+import { getAnswersByAuthor } from '../services/answerService';
+import { getCommentsByAuthor } from '../services/commentService';
+import {
+  AuthoredAnswer,
+  AuthoredComment,
+  BadgeAward,
+  Question,
+  User,
+  UserRole,
+  VotesReceived,
+} from '../types';
+import useUserContext from './useUserContext';
+
+/**
+ * The largest number of questions the server returns in one page, which is as many as the
+ * profile lists.
+ */
+const PROFILE_QUESTION_LIMIT = 100;
+
+/**
+ * Custom hook for managing the profile page of a user, which shows when they joined, their
+ * bio, the badges they earned, the questions they asked, the answers and comments they wrote
+ * and the votes they received. Users can edit the bio on their own profile, and admins can change
+ * the role of other users and delete their accounts.
+ *
+ * @returns profile - The user whose profile is shown, or null until it has been fetched.
+ * @returns err - Error message if the profile could not be loaded.
+ * @returns isOwnProfile - Whether the profile belongs to the logged-in user.
+ * @returns questions - The questions the user asked, newest first.
+ * @returns questionCount - The total number of questions the user asked.
+ * @returns answers - The answers the user wrote, newest first.
+ * @returns comments - The comments the user wrote, newest first.
+ * @returns votes - The numbers of upvotes and downvotes the user received.
+ * @returns badges - The badges the user earned, most recent first.
+ * @returns editingBio - Whether the bio is being edited.
+ * @returns bioInput - The bio typed in the editor.
+ * @returns setBioInput - Function to update the bio typed in the editor.
+ * @returns bioErr - Error message if the bio could not be saved.
+ * @returns startEditBio - Function to start editing the bio.
+ * @returns cancelEditBio - Function to stop editing the bio without saving it.
+ * @returns saveBio - Function to save the bio typed in the editor.
+ * @returns canManageUser - Whether the logged-in user is an admin looking at another user's profile.
+ * @returns changeRole - Function to change the role of the user.
+ * @returns confirmingDelete - Whether the admin is asked to confirm deleting the user.
+ * @returns setConfirmingDelete - Function to ask for or cancel the confirmation.
+ * @returns removeUser - Function to delete the user's account.
+ * @returns manageErr - Error message if the role could not be changed or the user deleted.
+ * @returns clickQuestion - Function to navigate to a question.
+ */
+const useProfilePage = () => {
+  const { username } = useParams();
+  const navigate = useNavigate();
+  const { user } = useUserContext();
+  const [profile, setProfile] = useState<User | null>(null);
+  const [err, setErr] = useState<string>('');
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [questionCount, setQuestionCount] = useState<number>(0);
+  const [answers, setAnswers] = useState<AuthoredAnswer[]>([]);
+  const [comments, setComments] = useState<AuthoredComment[]>([]);
+  const [votes, setVotes] = useState<VotesReceived>({ upVotes: 0, downVotes: 0 });
+  const [badges, setBadges] = useState<BadgeAward[]>([]);
+  const [editingBio, setEditingBio] = useState<boolean>(false);
+  const [bioInput, setBioInput] = useState<string>('');
+  const [bioErr, setBioErr] = useState<string>('');
+  const [confirmingDelete, setConfirmingDelete] = useState<boolean>(false);
+  const [manageErr, setManageErr] = useState<string>('');
+
+  useEffect(() => {
+    if (!username) {
+      navigate('/home');
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    /**
+     * Function to fetch the user and everything they have written.
+     */
+    const fetchData = async () => {
+      try {
+        const [u, questionPage, a, c, v, b] = await Promise.all([
+          getUserByUsername(username),
+          getQuestionsByFilter('newest', '', 1, PROFILE_QUESTION_LIMIT, username),
+          getAnswersByAuthor(username),
+          getCommentsByAuthor(username),
+          getVotesReceived(username),
+          getBadges(username),
+        ]);
+
+        if (cancelled) {
+          return;
+        }
+
+        setProfile(u);
+        setQuestions(questionPage.questions);
+        setQuestionCount(questionPage.total);
+        setAnswers(a);
+        setComments(c);
+        setVotes(v);
+        setBadges(b);
+        setErr('');
+      } catch (error) {
+        if (!cancelled) {
+          setProfile(null);
+          setErr(`Could not load the profile of "${username}"`);
+        }
+      }
+    };
+
+    setEditingBio(false);
+    setBioErr('');
+    setConfirmingDelete(false);
+    setManageErr('');
+    // eslint-disable-next-line no-console
+    fetchData().catch(e => console.log(e));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [username, navigate]);
+
+  const isOwnProfile = !!profile && profile.username === user.username;
+  const canManageUser = !!profile && !isOwnProfile && user.role === 'admin';
+
+  /**
+   * Function to start editing the bio, starting from the current one.
+   */
+  const startEditBio = () => {
+    setBioInput(profile?.bio ?? '');
+    setBioErr('');
+    setEditingBio(true);
+  };
+
+  /**
+   * Function to stop editing the bio without saving it.
+   */
+  const cancelEditBio = () => {
+    setEditingBio(false);
+    setBioErr('');
+  };
+
+  /**
+   * Function to save the bio typed in the editor.
+   */
+  const saveBio = async () => {
+    try {
+      setProfile(await updateBio(bioInput));
+      setEditingBio(false);
+      setBioErr('');
+    } catch (error) {
+      setBioErr('Could not save your bio. It must be at most 500 characters long.');
+    }
+  };
+
+  /**
+   * Function to change the role of the user whose profile is shown.
+   *
+   * @param role - The new role.
+   */
+  const changeRole = async (role: UserRole) => {
+    if (!profile) {
+      return;
+    }
+
+    try {
+      setProfile(await setRole(profile.username, role));
+      setManageErr('');
+    } catch (error) {
+      setManageErr(
+        isAxiosError(error) && error.response?.status === 403
+          ? error.response.data
+          : 'Could not change the role of the user',
+      );
+    }
+  };
+
+  /**
+   * Function to delete the account of the user whose profile is shown, then go to the users page.
+   */
+  const removeUser = async () => {
+    if (!profile) {
+      return;
+    }
+
+    try {
+      await deleteUser(profile.username);
+      navigate('/users');
+    } catch (error) {
+      setConfirmingDelete(false);
+      setManageErr(
+        isAxiosError(error) && error.response?.status === 403
+          ? error.response.data
+          : 'Could not delete the user',
+      );
+    }
+  };
+
+  /**
+   * Function to navigate to a question.
+   *
+   * @param qid - The ID of the question.
+   */
+  const clickQuestion = (qid: string) => {
+    navigate(`/question/${qid}`);
+  };
+
+  return {
+    profile,
+    err,
+    isOwnProfile,
+    questions,
+    questionCount,
+    answers,
+    comments,
+    votes,
+    badges,
+    editingBio,
+    bioInput,
+    setBioInput,
+    bioErr,
+    startEditBio,
+    cancelEditBio,
+    saveBio,
+    canManageUser,
+    changeRole,
+    confirmingDelete,
+    setConfirmingDelete,
+    removeUser,
+    manageErr,
+    clickQuestion,
+  };
+};
+
+export default useProfilePage;
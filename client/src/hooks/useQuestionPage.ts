@@ -1,15 +1,34 @@
 import { useSearchParams } from 'react-router-dom';
 import { useEffect, useState } from 'react';
 import useUserContext from './useUserContext';
-import { Answer, OrderType, Question } from '../types';
-import { getQuestionsByFilter } from '../services/questionService';
+import useReputations from './useReputations';
+import { Answer, AnswerDeletePayload, OrderType, Question, QuestionDeletePayload } from '../types';
+import { getQuestionFeed, getQuestionsByFilter } from '../services/questionService';
+import { getTagPreferences } from '../services/userService';
 
 /**
- * Custom hook for managing the question page state, filtering, and real-time updates.
+ * The number of questions shown on each page of the question list.
+ */
+const QUESTIONS_PER_PAGE = 20;
+
+/**
+ * Custom hook for managing the question page state, filtering, pagination and real-time updates.
  *
  * @returns titleText - The current title of the question page
- * @returns qlist - The list of questions to display
- * @returns setQuestionOrder - Function to set the sorting order of questions (e.g., newest, oldest).
+ * @returns feed - Whether the user's personal feed is shown instead of all questions
+ * @returns showFeed - Function to show the user's feed, which goes back to the first page.
+ * @returns watchedTags - The names of the tags the user watches, to highlight them
+ * @returns reputations - The reputation of the authors of the questions, by username
+ * @returns tagName - The tag the questions are filtered by, or null if they are not
+ * @returns qlist - The list of questions on the current page
+ * @returns total - The total number of questions matching the filter, across all pages
+ * @returns page - The 1-based number of the current page
+ * @returns pageCount - The number of pages
+ * @returns setPage - Function to change the current page
+ * @returns canOrderByRelevance - Whether a search term is active, so the questions can be
+ *          ordered by relevance
+ * @returns setQuestionOrder - Function to set the sorting order of questions (e.g., newest, oldest),
+ *          which goes back to the first page.
  */
 const useQuestionPage = () => {
   const { socket } = useUserContext();
@@ -19,6 +38,28 @@ const useQuestionPage = () => {
   const [search, setSearch] = useState<string>('');
   const [questionOrder, setQuestionOrder] = useState<OrderType>('newest');
   const [qlist, setQlist] = useState<Question[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [page, setPage] = useState<number>(1);
+  const [feed, setFeed] = useState<boolean>(false);
+  const [watchedTags, setWatchedTags] = useState<string[]>([]);
+  const reputations = useReputations(qlist.map(q => q.askedBy));
+
+  useEffect(() => {
+    /**
+     * Function to fetch the tags the user watches.
+     */
+    const fetchPreferences = async () => {
+      try {
+        const res = await getTagPreferences();
+        setWatchedTags(res.watchedTags);
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.log(error);
+      }
+    };
+
+    fetchPreferences();
+  }, []);
 
   useEffect(() => {
     let pageTitle = 'All Questions';
@@ -35,8 +76,14 @@ const useQuestionPage = () => {
       searchString = `[${tagQuery}]`;
     }
 
+    if (!searchQuery) {
+      setQuestionOrder(prevOrder => (prevOrder === 'relevance' ? 'newest' : prevOrder));
+    }
+
     setTitleText(pageTitle);
     setSearch(searchString);
+    setFeed(false);
+    setPage(1);
   }, [searchParams]);
 
   useEffect(() => {
@@ -45,8 +92,11 @@ const useQuestionPage = () => {
      */
     const fetchData = async () => {
       try {
-        const res = await getQuestionsByFilter(questionOrder, search);
-        setQlist(res || []);
+        const res = feed
+          ? await getQuestionFeed(page, QUESTIONS_PER_PAGE)
+          : await getQuestionsByFilter(questionOrder, search, page, QUESTIONS_PER_PAGE);
+        setQlist(res.questions || []);
+        setTotal(res.total);
       } catch (error) {
         // eslint-disable-next-line no-console
         console.log(error);
@@ -54,21 +104,17 @@ const useQuestionPage = () => {
     };
 
     /**
-     * Function to handle question updates from the socket.
+     * Function to handle question updates from the socket. The first page is fetched again,
+     * so that new questions matching the filter show up on it.
      *
      * @param question - the updated question object.
      */
     const handleQuestionUpdate = (question: Question) => {
-      setQlist(prevQlist => {
-        const questionExists = prevQlist.some(q => q._id === question._id);
-
-        if (questionExists) {
-          // Update the existing question
-          return prevQlist.map(q => (q._id === question._id ? question : q));
-        }
+      setQlist(prevQlist => prevQlist.map(q => (q._id === question._id ? question : q)));
 
-        return [question, ...prevQlist];
-      });
+      if (page === 1) {
+        fetchData();
+      }
     };
 
     /**
@@ -92,20 +138,85 @@ const useQuestionPage = () => {
       setQlist(prevQlist => prevQlist.map(q => (q._id === question._id ? question : q)));
     };
 
+    /**
+     * Function to handle question deletions from the socket. The page is fetched again, so
+     * that it is filled up with the next question and the total stays correct.
+     *
+     * @param qid - The ID of the deleted question.
+     */
+    const handleQuestionDelete = ({ qid }: QuestionDeletePayload) => {
+      setQlist(prevQlist => prevQlist.filter(q => q._id !== qid));
+      fetchData();
+    };
+
+    /**
+     * Function to handle answer deletions from the socket.
+     *
+     * @param qid - The ID of the question the answer belonged to.
+     * @param aid - The ID of the deleted answer.
+     */
+    const handleAnswerDelete = ({ qid, aid }: AnswerDeletePayload) => {
+      setQlist(prevQlist =>
+        prevQlist.map(q =>
+          q._id === qid ? { ...q, answers: q.answers.filter(a => a._id !== aid) } : q,
+        ),
+      );
+    };
+
     fetchData();
 
     socket.on('questionUpdate', handleQuestionUpdate);
     socket.on('answerUpdate', handleAnswerUpdate);
     socket.on('viewsUpdate', handleViewsUpdate);
+    socket.on('questionDelete', handleQuestionDelete);
+    socket.on('answerDelete', handleAnswerDelete);
 
     return () => {
       socket.off('questionUpdate', handleQuestionUpdate);
       socket.off('answerUpdate', handleAnswerUpdate);
       socket.off('viewsUpdate', handleViewsUpdate);
+      socket.off('questionDelete', handleQuestionDelete);
+      socket.off('answerDelete', handleAnswerDelete);
     };
-  }, [questionOrder, search, socket]);
-
-  return { titleText, qlist, setQuestionOrder };
+  }, [feed, questionOrder, search, page, socket]);
+
+  /**
+   * Function to change the order of the questions, going back to the first page. This leaves
+   * the user's feed.
+   *
+   * @param order - The new order of the questions.
+   */
+  const handleSetQuestionOrder = (order: OrderType) => {
+    setQuestionOrder(order);
+    setFeed(false);
+    setPage(1);
+  };
+
+  /**
+   * Function to show the user's feed, going back to the first page.
+   */
+  const showFeed = () => {
+    setFeed(true);
+    setPage(1);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / QUESTIONS_PER_PAGE));
+
+  return {
+    titleText: feed ? 'My Feed' : titleText,
+    feed,
+    showFeed,
+    watchedTags,
+    reputations,
+    tagName: feed || searchParams.get('search') ? null : searchParams.get('tag'),
+    qlist,
+    total,
+    page,
+    pageCount,
+    setPage,
+    setQuestionOrder: handleSetQuestionOrder,
+    canOrderByRelevance: !!searchParams.get('search'),
+  };
 };
 
 export default useQuestionPage;
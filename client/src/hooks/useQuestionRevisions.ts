@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { diffLines } from '../tool';
+import { getQuestionById, getQuestionRevisions } from '../services/questionService';
+import useUserContext from './useUserContext';
+import { Question, QuestionEditDiff } from '../types';
+
+/**
+ * Type representing the fields of a question that are tracked by its revisions.
+ */
+type QuestionSnapshot = { title: string; text: string; tags: string[] };
+
+/**
+ * Custom hook for managing the revision history page of a question. Each revision is a snapshot
+ * of the question before an edit, so every edit is diffed against the version that followed it,
+ * ending with the current version of the question.
+ *
+ * @returns question - The current version of the question.
+ * @returns edits - The changes made by each edit, newest first.
+ * @returns handleBack - Function to navigate back to the question.
+ */
+const useQuestionRevisions = () => {
+  const { qid } = useParams();
+  const navigate = useNavigate();
+  const { user, socket } = useUserContext();
+  const [question, setQuestion] = useState<Question | null>(null);
+  const [edits, setEdits] = useState<QuestionEditDiff[]>([]);
+
+  /**
+   * Function to navigate back to the question.
+   */
+  const handleBack = () => {
+    navigate(`/question/${qid}`);
+  };
+
+  useEffect(() => {
+    if (!qid) {
+      navigate('/home');
+      return undefined;
+    }
+
+    /**
+     * Function to fetch the current question and its revisions, and diff each edit.
+     */
+    const fetchData = async () => {
+      try {
+        const [current, revisions] = await Promise.all([
+          getQuestionById(qid, user.username),
+          getQuestionRevisions(qid),
+        ]);
+
+        const versions: QuestionSnapshot[] = [
+          ...revisions,
+          { ...current, tags: current.tags.map(tag => tag.name) },
+        ];
+
+        const diffs = revisions.map((revision, idx) => {
+          const before = versions[idx];
+          const after = versions[idx + 1];
+
+          return {
+            editedBy: revision.editedBy,
+            editDateTime: revision.editDateTime,
+            title: diffLines(before.title, after.title),
+            text: diffLines(before.text, after.text),
+            tags: diffLines(before.tags.join('\n'), after.tags.join('\n')),
+          };
+        });
+
+        setQuestion(current);
+        setEdits(diffs.reverse());
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error('Error fetching question revisions:', error);
+      }
+    };
+
+    /**
+     * Function to refresh the history when the question is edited.
+     *
+     * @param q The updated question object.
+     */
+    const handleQuestionUpdate = (q: Question) => {
+      if (q._id === qid) {
+        // eslint-disable-next-line no-console
+        fetchData().catch(e => console.log(e));
+      }
+    };
+
+    // eslint-disable-next-line no-console
+    fetchData().catch(e => console.log(e));
+
+    socket.on('questionUpdate', handleQuestionUpdate);
+
+    return () => {
+      socket.off('questionUpdate', handleQuestionUpdate);
+    };
+  }, [qid, user.username, socket, navigate]);
+
+  return { question, edits, handleBack };
+};
+
+export default useQuestionRevisions;
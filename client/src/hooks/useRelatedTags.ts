@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { getRelatedTags } from '../services/tagService';
+import { RelatedTag } from '../types';
+
+/**
+ * Custom hook for fetching the tags most often used alongside a tag.
+ *
+ * @param tagName - The name of the tag.
+ *
+ * @returns related - The related tags, most used first.
+ * @returns clickTag - Function to navigate to the home page filtered by a related tag.
+ */
+const useRelatedTags = (tagName: string) => {
+  const navigate = useNavigate();
+  const [related, setRelated] = useState<RelatedTag[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    /**
+     * Function to fetch the related tags of the tag.
+     */
+    const fetchData = async () => {
+      try {
+        const res = await getRelatedTags(tagName);
+
+        if (!cancelled) {
+          setRelated(res);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setRelated([]);
+        }
+      }
+    };
+
+    // eslint-disable-next-line no-console
+    fetchData().catch(e => console.log(e));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tagName]);
+
+  /**
+   * Function to navigate to the home page with the specified tag as a search parameter.
+   *
+   * @param name - The name of the related tag.
+   */
+  const clickTag = (name: string) => {
+    const searchParams = new URLSearchParams();
+    searchParams.set('tag', name);
+
+    navigate(`/home?${searchParams.toString()}`);
+  };
+
+  return { related, clickTag };
+};
+
+export default useRelatedTags;
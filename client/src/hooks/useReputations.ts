@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { getReputations } from '../services/userService';
+
+/**
+ * Custom hook for fetching the reputation of the users shown on a page, such as the authors
+ * of a list of questions. The reputations are fetched again whenever the set of users changes.
+ *
+ * @param usernames - The usernames of the users, which may contain duplicates.
+ *
+ * @returns reputations - The reputation of each user by username. Users whose reputation has
+ *          not been fetched yet are missing.
+ */
+const useReputations = (usernames: string[]) => {
+  const [reputations, setReputations] = useState<Record<string, number>>({});
+  const key = [...new Set(usernames)].sort().join(',');
+
+  useEffect(() => {
+    if (!key) {
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    /**
+     * Function to fetch the reputation of the users.
+     */
+    const fetchData = async () => {
+      try {
+        const res = await getReputations(key.split(','));
+
+        if (!cancelled) {
+          setReputations(res);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setReputations({});
+        }
+      }
+    };
+
+    // eslint-disable-next-line no-console
+    fetchData().catch(e => console.log(e));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return reputations;
+};
+
+export default useReputations;
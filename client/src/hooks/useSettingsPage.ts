@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { getTagPreferences, setTagPreference } from '../services/userService';
+import { TagPreference, TagPreferences } from '../types';
+
+/**
+ * Custom hook for managing the settings page, where the user chooses the tags they watch and
+ * ignore.
+ *
+ * @returns preferences - The tags the user watches and ignores.
+ * @returns tagInput - The name of the tag typed in the input.
+ * @returns setTagInput - Function to update the name of the tag typed in the input.
+ * @returns err - Error message if the preferences could not be loaded or updated.
+ * @returns addTag - Function to watch or ignore the typed tag.
+ * @returns removeTag - Function to stop watching or ignoring a tag.
+ */
+const useSettingsPage = () => {
+  const [preferences, setPreferences] = useState<TagPreferences>({
+    watchedTags: [],
+    ignoredTags: [],
+  });
+  const [tagInput, setTagInput] = useState<string>('');
+  const [err, setErr] = useState<string>('');
+
+  useEffect(() => {
+    /**
+     * Function to fetch the tags the user watches and ignores.
+     */
+    const fetchData = async () => {
+      try {
+        setPreferences(await getTagPreferences());
+      } catch (error) {
+        setErr('Could not load your tag preferences');
+      }
+    };
+
+    // eslint-disable-next-line no-console
+    fetchData().catch(e => console.log(e));
+  }, []);
+
+  /**
+   * Function to update how the user feels about a tag.
+   *
+   * @param tag - The name of the tag.
+   * @param preference - Whether to watch the tag, ignore it, or do neither.
+   *
+   * @returns `true` if the preferences were updated, otherwise `false`.
+   */
+  const updatePreference = async (tag: string, preference: TagPreference): Promise<boolean> => {
+    try {
+      setPreferences(await setTagPreference(tag, preference));
+      setErr('');
+      return true;
+    } catch (error) {
+      setErr(
+        preference === 'none'
+          ? `Could not remove the tag "${tag}"`
+          : `The tag "${tag}" does not exist`,
+      );
+      return false;
+    }
+  };
+
+  /**
+   * Function to watch or ignore the tag typed in the input, and clear the input.
+   *
+   * @param preference - Whether to watch or ignore the tag.
+   */
+  const addTag = async (preference: 'watched' | 'ignored') => {
+    const tag = tagInput.trim();
+
+    if (!tag) {
+      setErr('Enter the name of a tag');
+      return;
+    }
+
+    if (await updatePreference(tag, preference)) {
+      setTagInput('');
+    }
+  };
+
+  /**
+   * Function to stop watching or ignoring a tag.
+   *
+   * @param tag - The name of the tag.
+   */
+  const removeTag = async (tag: string) => {
+    await updatePreference(tag, 'none');
+  };
+
+  return { preferences, tagInput, setTagInput, err, addTag, removeTag };
+};
+
+export default useSettingsPage;
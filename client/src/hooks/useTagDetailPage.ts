@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { getTagDetail } from '../services/tagService';
+import { TagDetail } from '../types';
+import usePrivileges from './usePrivileges';
+
+/**
+ * Custom hook for managing the page of a tag, which shows its wiki, its number of questions
+ * and its top questions.
+ *
+ * @returns detail - The details of the tag, or null until they have been fetched.
+ * @returns err - Error message if the tag could not be loaded.
+ * @returns viewQuestions - Function to navigate to the list of questions with the tag.
+ * @returns viewTopAnswerers - Function to navigate to the leaderboard of the answerers in the tag.
+ * @returns clickQuestion - Function to navigate to one of the top questions.
+ * @returns canEditWiki - Whether the user holds the privilege to edit the tag wiki.
+ * @returns editWiki - Function to navigate to the page for editing the tag wiki.
+ * @returns viewRevisions - Function to navigate to the revision history of the tag wiki.
+ */
+const useTagDetailPage = () => {
+  const { name } = useParams();
+  const navigate = useNavigate();
+  const [detail, setDetail] = useState<TagDetail | null>(null);
+  const [err, setErr] = useState<string>('');
+  const { hasPrivilege } = usePrivileges();
+
+  useEffect(() => {
+    if (!name) {
+      navigate('/tags');
+      return;
+    }
+
+    /**
+     * Function to fetch the details of the tag.
+     */
+    const fetchData = async () => {
+      try {
+        setDetail(await getTagDetail(name));
+        setErr('');
+      } catch (error) {
+        setDetail(null);
+        setErr(`Could not load the tag "${name}"`);
+      }
+    };
+
+    // eslint-disable-next-line no-console
+    fetchData().catch(e => console.log(e));
+  }, [name, navigate]);
+
+  /**
+   * Function to navigate to the home page with the tag as a search parameter.
+   */
+  const viewQuestions = () => {
+    const searchParams = new URLSearchParams();
+    searchParams.set('tag', name ?? '');
+
+    navigate(`/home?${searchParams.toString()}`);
+  };
+
+  /**
+   * Function to navigate to the leaderboard of the users who answered the most questions
+   * with the tag.
+   */
+  const viewTopAnswerers = () => {
+    const searchParams = new URLSearchParams();
+    searchParams.set('tag', name ?? '');
+    searchParams.set('sort', 'answers');
+
+    navigate(`/users?${searchParams.toString()}`);
+  };
+
+  /**
+   * Function to navigate to a question.
+   *
+   * @param qid - The ID of the question.
+   */
+  const clickQuestion = (qid: string) => {
+    navigate(`/question/${qid}`);
+  };
+
+  /**
+   * Function to navigate to the page for editing the tag wiki.
+   */
+  const editWiki = () => {
+    navigate(`/tags/${encodeURIComponent(name ?? '')}/edit`);
+  };
+
+  /**
+   * Function to navigate to the revision history of the tag wiki.
+   */
+  const viewRevisions = () => {
+    navigate(`/tags/${encodeURIComponent(name ?? '')}/revisions`);
+  };
+
+  const canEditWiki = hasPrivilege('editPosts');
+
+  return {
+    detail,
+    err,
+    viewQuestions,
+    viewTopAnswerers,
+    clickQuestion,
+    canEditWiki,
+    editWiki,
+    viewRevisions,
+  };
+};
+
+export default useTagDetailPage;
@@ -1,17 +1,33 @@
-import { useEffect, useState } from 'react';
+import { ChangeEvent, useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { getTagsWithQuestionNumber } from '../services/tagService';
-import { TagData } from '../types';
+import { TagOrderType, TagStats } from '../types';
 
 /**
  * Custom hook for managing the tag page's state and navigation.
  *
- * @returns tlist - An array of tag data retrieved from the server
+ * @returns tlist - An array of tag statistics retrieved from the server
+ * @returns tagOrder - The current order of the tags.
+ * @returns setTagOrder - Function to change the order of the tags.
+ * @returns filter - The text the tag names are filtered by.
+ * @returns handleFilterChange - Function to update the filter as the user types.
  * @returns clickTag - Function to navigate to the home page with the selected tag as a URL parameter.
+ * @returns viewTag - Function to navigate to the page of a tag, with its wiki and top questions.
  */
 const useTagPage = () => {
   const navigate = useNavigate();
-  const [tlist, setTlist] = useState<TagData[]>([]);
+  const [tlist, setTlist] = useState<TagStats[]>([]);
+  const [tagOrder, setTagOrder] = useState<TagOrderType>('popular');
+  const [filter, setFilter] = useState<string>('');
+
+  /**
+   * Function to update the filter of the tag names.
+   *
+   * @param e - The change event of the filter input.
+   */
+  const handleFilterChange = (e: ChangeEvent<HTMLInputElement>) => {
+    setFilter(e.target.value);
+  };
 
   /**
    * Function to navigate to the home page with the specified tag as a search parameter.
@@ -25,11 +41,24 @@ const useTagPage = () => {
     navigate(`/home?${searchParams.toString()}`);
   };
 
+  /**
+   * Function to navigate to the page of the specified tag.
+   *
+   * @param tagName - The name of the tag.
+   */
+  const viewTag = (tagName: string) => {
+    navigate(`/tags/${encodeURIComponent(tagName)}`);
+  };
+
   useEffect(() => {
+    let cancelled = false;
+
     const fetchData = async () => {
       try {
-        const res = await getTagsWithQuestionNumber();
-        setTlist(res || []);
+        const res = await getTagsWithQuestionNumber(tagOrder, filter.trim());
+        if (!cancelled) {
+          setTlist(res || []);
+        }
       } catch (e) {
         // eslint-disable-next-line no-console
         console.log(e);
@@ -37,9 +66,13 @@ const useTagPage = () => {
     };
 
     fetchData();
-  }, []);
 
-  return { tlist, clickTag };
+    return () => {
+      cancelled = true;
+    };
+  }, [tagOrder, filter]);
+
+  return { tlist, tagOrder, setTagOrder, filter, handleFilterChange, clickTag, viewTag };
 };
 
 export default useTagPage;
@@ -0,0 +1,244 @@
+import { Dispatch, KeyboardEvent, SetStateAction, useEffect, useState } from 'react';
+import { getTagSuggestions, resolveTag } from '../services/tagService';
+import { SelectedTag, Tag, TagSuggestion } from '../types';
+
+/**
+ * The delay, in milliseconds, between the last keystroke and fetching suggestions.
+ */
+const SUGGESTION_DELAY = 250;
+
+/**
+ * Custom hook to manage the state and logic for picking the tags of a question.
+ * Typed tag names are added when followed by whitespace or 'Enter', and are resolved the way the
+ * server resolves them, ignoring case and through synonyms, to find out whether they are new. While the user types, it fetches the existing tags starting with
+ * the typed text, which can be chosen with the arrow keys and 'Enter'.
+ *
+ * @param tags - the tags chosen so far.
+ * @param setTags - function to update the chosen tags.
+ * @param input - the tag name being typed.
+ * @param setInput - function to update the tag name being typed.
+ *
+ * @returns suggestions - the suggested tags, empty if the dropdown is closed.
+ * @returns activeIndex - the index of the highlighted suggestion, or -1 if there is none.
+ * @returns newTags - the chosen tags that do not exist yet.
+ * @returns handleInputChange - function to handle changes in the input field.
+ * @returns handleKeyDown - function to handle key presses: moving through the suggestions,
+ *          choosing one, adding the typed tag, or removing the last tag.
+ * @returns handleSelectSuggestion - function to add a suggested tag.
+ * @returns removeTag - function to remove a chosen tag.
+ * @returns setTagDescription - function to update the description of a new tag.
+ * @returns openSuggestions - function to open the suggestions dropdown.
+ * @returns closeSuggestions - function to close the suggestions dropdown.
+ */
+const useTagPicker = (
+  tags: SelectedTag[],
+  setTags: Dispatch<SetStateAction<SelectedTag[]>>,
+  input: string,
+  setInput: (input: string) => void,
+) => {
+  const [suggestions, setSuggestions] = useState<TagSuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState<number>(-1);
+  const [showSuggestions, setShowSuggestions] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!showSuggestions) {
+      setSuggestions([]);
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    /**
+     * Function to fetch the tags starting with the typed text.
+     */
+    const fetchSuggestions = async () => {
+      try {
+        const res = await getTagSuggestions(input.trim());
+
+        if (!cancelled) {
+          setSuggestions(res);
+          setActiveIndex(-1);
+        }
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.log(error);
+      }
+    };
+
+    const timeout = setTimeout(fetchSuggestions, SUGGESTION_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [input, showSuggestions]);
+
+  const visibleSuggestions = showSuggestions
+    ? suggestions.filter(suggestion => !tags.some(tag => tag.name === suggestion.name))
+    : [];
+
+  /**
+   * Function to open the suggestions dropdown.
+   */
+  const openSuggestions = () => {
+    setShowSuggestions(true);
+  };
+
+  /**
+   * Function to close the suggestions dropdown.
+   */
+  const closeSuggestions = () => {
+    setShowSuggestions(false);
+    setActiveIndex(-1);
+  };
+
+  /**
+   * Function to update one of the chosen tags.
+   *
+   * @param name - the name of the tag to update.
+   * @param update - the fields to change.
+   */
+  const updateTag = (name: string, update: Partial<SelectedTag>) => {
+    setTags(prevTags => prevTags.map(tag => (tag.name === name ? { ...tag, ...update } : tag)));
+  };
+
+  /**
+   * Function to append a tag to the chosen tags, unless a tag with the same name was chosen.
+   *
+   * @param tag - the tag to append.
+   */
+  const appendTag = (tag: SelectedTag) => {
+    setTags(prevTags => (prevTags.some(t => t.name === tag.name) ? prevTags : [...prevTags, tag]));
+  };
+
+  /**
+   * Function to replace a chosen tag name by the existing tag it refers to, such as a
+   * differently cased name or a synonym. If that tag was already chosen, the name is dropped.
+   *
+   * @param name - the chosen tag name.
+   * @param tag - the existing tag the name refers to.
+   */
+  const resolveChosenTag = (name: string, tag: Tag) => {
+    setTags(prevTags =>
+      tag.name !== name && prevTags.some(t => t.name === tag.name)
+        ? prevTags.filter(t => t.name !== name)
+        : prevTags.map(t =>
+            t.name === name ? { name: tag.name, description: tag.description, isNew: false } : t,
+          ),
+    );
+  };
+
+  /**
+   * Function to add a tag, unless it was already chosen. Tags that are not among the
+   * suggestions are resolved to find out whether they are new.
+   *
+   * @param name - the name of the tag to add.
+   */
+  const addTag = (name: string) => {
+    if (!name || tags.some(tag => tag.name === name)) {
+      return;
+    }
+
+    const suggestion = suggestions.find(s => s.name === name);
+
+    if (suggestion) {
+      appendTag({ name, description: suggestion.description, isNew: false });
+      return;
+    }
+
+    appendTag({ name, description: '' });
+    resolveTag(name)
+      .then(tag => resolveChosenTag(name, tag))
+      .catch(() => updateTag(name, { isNew: true }));
+  };
+
+  /**
+   * Function to handle changes in the input field. Every tag name followed by whitespace is
+   * added, and the rest is kept as the tag name being typed.
+   *
+   * @param value - the new value of the input field.
+   */
+  const handleInputChange = (value: string) => {
+    const names = value.split(/\s+/);
+    const rest = names.pop() ?? '';
+
+    names.forEach(addTag);
+    setInput(rest);
+    openSuggestions();
+  };
+
+  /**
+   * Function to add a suggested tag.
+   *
+   * @param suggestion - the chosen suggestion.
+   */
+  const handleSelectSuggestion = (suggestion: TagSuggestion) => {
+    addTag(suggestion.name);
+    setInput('');
+    setActiveIndex(-1);
+  };
+
+  /**
+   * Function to remove a chosen tag.
+   *
+   * @param name - the name of the tag to remove.
+   */
+  const removeTag = (name: string) => {
+    setTags(prevTags => prevTags.filter(tag => tag.name !== name));
+  };
+
+  /**
+   * Function to update the description of a new tag.
+   *
+   * @param name - the name of the tag.
+   * @param description - the description entered by the user.
+   */
+  const setTagDescription = (name: string, description: string) => {
+    updateTag(name, { description });
+  };
+
+  /**
+   * Function to handle key presses in the input field. The arrow keys move through the
+   * suggestions, 'Escape' closes them, 'Enter' adds the highlighted suggestion or the typed
+   * tag, and 'Backspace' in an empty field removes the last tag.
+   *
+   * @param e - the event object.
+   */
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && visibleSuggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex(prevIndex => (prevIndex + 1) % visibleSuggestions.length);
+    } else if (e.key === 'ArrowUp' && visibleSuggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex(prevIndex => (prevIndex <= 0 ? visibleSuggestions.length - 1 : prevIndex - 1));
+    } else if (e.key === 'Escape') {
+      closeSuggestions();
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+
+      if (activeIndex >= 0 && activeIndex < visibleSuggestions.length) {
+        handleSelectSuggestion(visibleSuggestions[activeIndex]);
+      } else {
+        addTag(input.trim());
+        setInput('');
+      }
+    } else if (e.key === 'Backspace' && input === '' && tags.length > 0) {
+      removeTag(tags[tags.length - 1].name);
+    }
+  };
+
+  return {
+    suggestions: visibleSuggestions,
+    activeIndex,
+    newTags: tags.filter(tag => tag.isNew),
+    handleInputChange,
+    handleKeyDown,
+    handleSelectSuggestion,
+    removeTag,
+    setTagDescription,
+    openSuggestions,
+    closeSuggestions,
+  };
+};
+
+export default useTagPicker;
@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { diffLines } from '../tool';
+import { getTagByName, getTagRevisions } from '../services/tagService';
+import { Tag, TagWikiEditDiff } from '../types';
+
+/**
+ * Custom hook for managing the revision history page of a tag wiki. Each revision is a snapshot
+ * of the excerpt and wiki before an edit, so every edit is diffed against the version that
+ * followed it, ending with the current version of the tag.
+ *
+ * @returns tag - The current version of the tag.
+ * @returns edits - The changes made by each edit, newest first.
+ * @returns handleBack - Function to navigate back to the page of the tag.
+ */
+const useTagRevisions = () => {
+  const { name } = useParams();
+  const navigate = useNavigate();
+  const [tag, setTag] = useState<Tag | null>(null);
+  const [edits, setEdits] = useState<TagWikiEditDiff[]>([]);
+
+  /**
+   * Function to navigate back to the page of the tag.
+   */
+  const handleBack = () => {
+    navigate(`/tags/${encodeURIComponent(name ?? '')}`);
+  };
+
+  useEffect(() => {
+    if (!name) {
+      navigate('/tags');
+      return;
+    }
+
+    /**
+     * Function to fetch the current tag and its revisions, and diff each edit.
+     */
+    const fetchData = async () => {
+      try {
+        const [current, revisions] = await Promise.all([getTagByName(name), getTagRevisions(name)]);
+
+        const versions = [
+          ...revisions,
+          { description: current.description, wiki: current.wiki ?? '' },
+        ];
+
+        const diffs = revisions.map((revision, idx) => ({
+          editedBy: revision.editedBy,
+          editDateTime: revision.editDateTime,
+          description: diffLines(versions[idx].description, versions[idx + 1].description),
+          wiki: diffLines(versions[idx].wiki, versions[idx + 1].wiki),
+        }));
+
+        setTag(current);
+        setEdits(diffs.reverse());
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error('Error fetching tag revisions:', error);
+      }
+    };
+
+    // eslint-disable-next-line no-console
+    fetchData().catch(e => console.log(e));
+  }, [name, navigate]);
+
+  return { tag, edits, handleBack };
+};
+
+export default useTagRevisions;
@@ -0,0 +1,180 @@
+import { ChangeEvent, KeyboardEvent, useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { isAxiosError } from 'axios';
+import { getLeaderboard } from '../services/userService';
+import {
+  LeaderboardPage,
+  LeaderboardPeriod,
+  LeaderboardSortType,
+  leaderboardSortTypeDisplayName,
+} from '../types';
+
+/**
+ * The number of users shown on each page of the leaderboard.
+ */
+const USERS_PER_PAGE = 20;
+
+/**
+ * Custom hook for managing the users page, a leaderboard of the users ranked by reputation,
+ * answers, accepted answers or when they joined, over a period. The leaderboard can cover the
+ * questions of one tag, given by the `tag` URL parameter, in which case the newest members
+ * cannot be listed. The `sort` URL parameter sets the initial ranking.
+ *
+ * @returns board - The current page of the leaderboard, or null until it has been fetched.
+ * @returns err - Error message if the leaderboard could not be loaded.
+ * @returns sort - How the users are ranked.
+ * @returns setSort - Function to change how the users are ranked, which goes back to the first page.
+ * @returns period - The period the leaderboard covers.
+ * @returns setPeriod - Function to change the period, which goes back to the first page.
+ * @returns tag - The name of the tag the leaderboard covers, or '' for all questions.
+ * @returns tagInput - The tag name typed in the tag filter.
+ * @returns handleTagInputChange - Function to update the tag name as the user types.
+ * @returns handleTagInputKeyDown - Function to show the leaderboard of the typed tag on 'Enter'.
+ * @returns clearTag - Function to show the leaderboard of all questions again.
+ * @returns page - The 1-based number of the current page.
+ * @returns pageCount - The number of pages.
+ * @returns setPage - Function to change the current page.
+ * @returns clickUser - Function to navigate to the profile of a user.
+ */
+const useUsersPage = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tag = searchParams.get('tag') ?? '';
+  const [board, setBoard] = useState<LeaderboardPage | null>(null);
+  const [err, setErr] = useState<string>('');
+  const [sort, setSortState] = useState<LeaderboardSortType>(() => {
+    const initialSort = searchParams.get('sort') ?? '';
+    return initialSort in leaderboardSortTypeDisplayName
+      ? (initialSort as LeaderboardSortType)
+      : 'reputation';
+  });
+  const [period, setPeriodState] = useState<LeaderboardPeriod>('all');
+  const [page, setPage] = useState<number>(1);
+  const [tagInput, setTagInput] = useState<string>(tag);
+
+  useEffect(() => {
+    setTagInput(tag);
+    setPage(1);
+    if (tag) {
+      setSortState(prevSort => (prevSort === 'newest' ? 'answers' : prevSort));
+    }
+  }, [tag]);
+
+  useEffect(() => {
+    if (tag && sort === 'newest') {
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    /**
+     * Function to fetch the current page of the leaderboard.
+     */
+    const fetchData = async () => {
+      try {
+        const res = await getLeaderboard(sort, period, tag, page, USERS_PER_PAGE);
+
+        if (!cancelled) {
+          setBoard(res);
+          setErr('');
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setBoard(null);
+          setErr(
+            isAxiosError(error) && error.response?.status === 404
+              ? error.response.data
+              : 'Could not load the leaderboard',
+          );
+        }
+      }
+    };
+
+    fetchData();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sort, period, tag, page]);
+
+  /**
+   * Function to change how the users are ranked, going back to the first page.
+   *
+   * @param newSort - How the users are ranked.
+   */
+  const setSort = (newSort: LeaderboardSortType) => {
+    setSortState(newSort);
+    setPage(1);
+  };
+
+  /**
+   * Function to change the period the leaderboard covers, going back to the first page.
+   *
+   * @param newPeriod - The period.
+   */
+  const setPeriod = (newPeriod: LeaderboardPeriod) => {
+    setPeriodState(newPeriod);
+    setPage(1);
+  };
+
+  /**
+   * Function to update the tag name typed in the tag filter.
+   *
+   * @param e - The change event of the tag input.
+   */
+  const handleTagInputChange = (e: ChangeEvent<HTMLInputElement>) => {
+    setTagInput(e.target.value);
+  };
+
+  /**
+   * Function to show the leaderboard of the typed tag when the user presses 'Enter'.
+   *
+   * @param e - The keyboard event of the tag input.
+   */
+  const handleTagInputKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') {
+      return;
+    }
+
+    const name = tagInput.trim();
+    setSearchParams(name ? { tag: name } : {});
+  };
+
+  /**
+   * Function to show the leaderboard of all questions again.
+   */
+  const clearTag = () => {
+    setSearchParams({});
+  };
+
+  /**
+   * Function to navigate to the profile of a user.
+   *
+   * @param username - The username of the user.
+   */
+  const clickUser = (username: string) => {
+    navigate(`/user/${encodeURIComponent(username)}`);
+  };
+
+  const pageCount = board ? Math.ceil(board.total / USERS_PER_PAGE) : 0;
+
+  return {
+    board,
+    err,
+    sort,
+    setSort,
+    period,
+    setPeriod,
+    tag,
+    tagInput,
+    handleTagInputChange,
+    handleTagInputKeyDown,
+    clearTag,
+    page,
+    pageCount,
+    setPage,
+    clickUser,
+  };
+};
+
+export default useUsersPage;
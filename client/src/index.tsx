@@ -19,7 +19,9 @@ const App = () => {
 
   useEffect(() => {
     if (!socket) {
-      setSocket(io(serverURL));
+      // The connection is authenticated with the session cookie, so it is only opened once the
+      // user has logged in
+      setSocket(io(serverURL, { withCredentials: true, autoConnect: false }));
     }
 
     return () => {
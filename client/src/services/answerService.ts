@@ -1,4 +1,4 @@
-import { Answer } from '../types';
+import { Answer, AnswerDeletePayload, AuthoredAnswer } from '../types';
 import api from './config';
 
 const ANSWER_API_URL = `${process.env.REACT_APP_SERVER_URL}/answer`;
@@ -20,4 +20,61 @@ const addAnswer = async (qid: string, ans: Answer): Promise<Answer> => {
   return res.data;
 };
 
-export default addAnswer;
+/**
+ * Deletes an answer, along with its comments.
+ *
+ * @param aid - The ID of the answer to delete.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const deleteAnswer = async (aid: string): Promise<AnswerDeletePayload> => {
+  const res = await api.delete(`${ANSWER_API_URL}/deleteAnswer/${aid}`);
+  if (res.status !== 200) {
+    throw new Error('Error while deleting the answer');
+  }
+  return res.data;
+};
+
+/**
+ * Upvotes an answer, or cancels the upvote if the user has already upvoted it.
+ *
+ * @param aid - The ID of the answer to upvote.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const upvoteAnswer = async (aid: string) => {
+  const res = await api.post(`${ANSWER_API_URL}/upvoteAnswer`, { aid });
+  if (res.status !== 200) {
+    throw new Error('Error while upvoting the answer');
+  }
+  return res.data;
+};
+
+/**
+ * Downvotes an answer, or cancels the downvote if the user has already downvoted it.
+ *
+ * @param aid - The ID of the answer to downvote.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const downvoteAnswer = async (aid: string) => {
+  const res = await api.post(`${ANSWER_API_URL}/downvoteAnswer`, { aid });
+  if (res.status !== 200) {
+    throw new Error('Error while downvoting the answer');
+  }
+  return res.data;
+};
+
+/**
+ * Gets the answers written by a user, newest first, with the title of the question each one
+ * answers.
+ *
+ * @param username - The username of the author.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const getAnswersByAuthor = async (username: string): Promise<AuthoredAnswer[]> => {
+  const res = await api.get(`${ANSWER_API_URL}/getAnswersByAuthor/${encodeURIComponent(username)}`);
+  if (res.status !== 200) {
+    throw new Error('Error while fetching answers by author');
+  }
+  return res.data;
+};
+
+export { addAnswer, deleteAnswer, upvoteAnswer, downvoteAnswer, getAnswersByAuthor };
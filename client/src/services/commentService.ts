@@ -1,5 +1,5 @@
 import api from './config';
-import { Comment } from '../types';
+import { AuthoredComment, Comment, CommentDeletePayload } from '../types';
 
 const COMMENT_API_URL = `${process.env.REACT_APP_SERVER_URL}/comment`;
 
@@ -40,4 +40,49 @@ const addComment = async (
   return res.data;
 };
 
-export default addComment;
+/**
+ * Deletes a comment from the question or answer it belongs to.
+ *
+ * @param cid - The ID of the comment to delete.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const deleteComment = async (cid: string): Promise<CommentDeletePayload> => {
+  const res = await api.delete(`${COMMENT_API_URL}/deleteComment/${cid}`);
+  if (res.status !== 200) {
+    throw new Error('Error while deleting the comment');
+  }
+  return res.data;
+};
+
+/**
+ * Upvotes a comment, or cancels the upvote if the user has already upvoted it.
+ *
+ * @param cid - The ID of the comment to upvote.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const upvoteComment = async (cid: string) => {
+  const res = await api.post(`${COMMENT_API_URL}/upvoteComment`, { cid });
+  if (res.status !== 200) {
+    throw new Error('Error while upvoting the comment');
+  }
+  return res.data;
+};
+
+/**
+ * Gets the comments written by a user, newest first, with the title of the question each one
+ * belongs to.
+ *
+ * @param username - The username of the author.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const getCommentsByAuthor = async (username: string): Promise<AuthoredComment[]> => {
+  const res = await api.get(
+    `${COMMENT_API_URL}/getCommentsByAuthor/${encodeURIComponent(username)}`,
+  );
+  if (res.status !== 200) {
+    throw new Error('Error while fetching comments by author');
+  }
+  return res.data;
+};
+
+export { addComment, deleteComment, upvoteComment, getCommentsByAuthor };
@@ -1,35 +1,103 @@
-import { Question } from '../types';
+import {
+  AnswerOrderType,
+  Question,
+  QuestionEdit,
+  QuestionPage,
+  QuestionRevision,
+  SearchParseError,
+  SearchSuggestions,
+} from '../types';
 import api from './config';
 
 const QUESTION_API_URL = `${process.env.REACT_APP_SERVER_URL}/question`;
 
 /**
- * Function to get questions by filter.
+ * Function to get one page of questions by filter.
  *
  * @param order - The order in which to fetch questions. Default is 'newest'.
  * @param search - The search term to filter questions. Default is an empty string.
+ * @param page - The 1-based number of the page to fetch. Default is 1.
+ * @param limit - The maximum number of questions per page. Default is 20.
+ * @param askedBy - The username to only fetch the questions of. Default is every user.
  * @throws Error if there is an issue fetching or filtering questions.
  */
 const getQuestionsByFilter = async (
   order: string = 'newest',
   search: string = '',
-): Promise<Question[]> => {
-  const res = await api.get(`${QUESTION_API_URL}/getQuestion?order=${order}&search=${search}`);
+  page: number = 1,
+  limit: number = 20,
+  askedBy?: string,
+): Promise<QuestionPage> => {
+  const author = askedBy ? `&askedBy=${encodeURIComponent(askedBy)}` : '';
+  const res = await api.get(
+    `${QUESTION_API_URL}/getQuestion?order=${order}&search=${encodeURIComponent(search)}&page=${page}&limit=${limit}${author}`,
+  );
   if (res.status !== 200) {
     throw new Error('Error when fetching or filtering questions');
   }
   return res.data;
 };
 
+/**
+ * Function to get one page of the logged-in user's feed, where questions with watched tags
+ * come first and questions with ignored tags are left out.
+ *
+ * @param page - The 1-based number of the page to fetch. Default is 1.
+ * @param limit - The maximum number of questions per page. Default is 20.
+ * @throws Error if there is an issue fetching the feed.
+ */
+const getQuestionFeed = async (page: number = 1, limit: number = 20): Promise<QuestionPage> => {
+  const res = await api.get(`${QUESTION_API_URL}/getFeed?page=${page}&limit=${limit}`);
+  if (res.status !== 200) {
+    throw new Error('Error when fetching the question feed');
+  }
+  return res.data;
+};
+
+/**
+ * Function to check a search string for errors before searching.
+ *
+ * @param search - The search string to check.
+ * @throws Error if there is an issue checking the search string.
+ */
+const checkSearch = async (search: string): Promise<SearchParseError[]> => {
+  const res = await api.get(`${QUESTION_API_URL}/checkSearch?search=${encodeURIComponent(search)}`);
+  if (res.status !== 200) {
+    throw new Error('Error when checking the search string');
+  }
+  return res.data.errors;
+};
+
+/**
+ * Function to get suggestions of questions, tags and users for text typed in the search bar.
+ *
+ * @param text - The text typed so far.
+ * @throws Error if there is an issue fetching the suggestions.
+ */
+const getSearchSuggestions = async (text: string): Promise<SearchSuggestions> => {
+  const res = await api.get(`${QUESTION_API_URL}/suggest?q=${encodeURIComponent(text)}`);
+  if (res.status !== 200) {
+    throw new Error('Error when fetching search suggestions');
+  }
+  return res.data;
+};
+
 /**
  * Function to get a question by its ID.
  *
  * @param qid - The ID of the question to retrieve.
  * @param username - The username of the user requesting the question.
+ * @param sort - The order of the answers. Default is 'newest'.
  * @throws Error if there is an issue fetching the question by ID.
  */
-const getQuestionById = async (qid: string, username: string): Promise<Question> => {
-  const res = await api.get(`${QUESTION_API_URL}/getQuestionById/${qid}?username=${username}`);
+const getQuestionById = async (
+  qid: string,
+  username: string,
+  sort: AnswerOrderType = 'newest',
+): Promise<Question> => {
+  const res = await api.get(
+    `${QUESTION_API_URL}/getQuestionById/${qid}?username=${username}&sort=${sort}`,
+  );
   if (res.status !== 200) {
     throw new Error('Error when fetching question by id');
   }
@@ -53,15 +121,14 @@ const addQuestion = async (q: Question): Promise<Question> => {
 };
 
 /**
- * Function to upvote a question.
+ * Function to upvote a question as the logged-in user, or cancel their upvote if they have
+ * already upvoted it.
  *
  * @param qid - The ID of the question to upvote.
- * @param username - The username of the person upvoting the question.
  * @throws Error if there is an issue upvoting the question.
  */
-const upvoteQuestion = async (qid: string, username: string) => {
-  const data = { qid, username };
-  const res = await api.post(`${QUESTION_API_URL}/upvoteQuestion`, data);
+const upvoteQuestion = async (qid: string) => {
+  const res = await api.post(`${QUESTION_API_URL}/upvoteQuestion`, { qid });
   if (res.status !== 200) {
     throw new Error('Error while upvoting the question');
   }
@@ -69,19 +136,104 @@ const upvoteQuestion = async (qid: string, username: string) => {
 };
 
 /**
- * Function to downvote a question.
+ * Function to downvote a question as the logged-in user, or cancel their downvote if they have
+ * already downvoted it.
  *
  * @param qid - The ID of the question to downvote.
- * @param username - The username of the person downvoting the question.
  * @throws Error if there is an issue downvoting the question.
  */
-const downvoteQuestion = async (qid: string, username: string) => {
-  const data = { qid, username };
-  const res = await api.post(`${QUESTION_API_URL}/downvoteQuestion`, data);
+const downvoteQuestion = async (qid: string) => {
+  const res = await api.post(`${QUESTION_API_URL}/downvoteQuestion`, { qid });
   if (res.status !== 200) {
     throw new Error('Error while downvoting the question');
   }
   return res.data;
 };
 
-export { getQuestionsByFilter, getQuestionById, addQuestion, upvoteQuestion, downvoteQuestion };
+/**
+ * Function to edit the title, text and tags of a question.
+ *
+ * @param qid - The ID of the question to edit.
+ * @param edit - The new title, text and tags of the question.
+ * @throws Error if there is an issue editing the question.
+ */
+const editQuestion = async (qid: string, edit: QuestionEdit): Promise<Question> => {
+  const res = await api.patch(`${QUESTION_API_URL}/editQuestion/${qid}`, edit);
+  if (res.status !== 200) {
+    throw new Error('Error while editing the question');
+  }
+  return res.data;
+};
+
+/**
+ * Function to get the revisions of a question, oldest first.
+ *
+ * @param qid - The ID of the question.
+ * @throws Error if there is an issue fetching the revisions.
+ */
+const getQuestionRevisions = async (qid: string): Promise<QuestionRevision[]> => {
+  const res = await api.get(`${QUESTION_API_URL}/getQuestionRevisions/${qid}`);
+  if (res.status !== 200) {
+    throw new Error('Error when fetching question revisions');
+  }
+  return res.data;
+};
+
+/**
+ * Function to delete a question, along with its answers and comments.
+ *
+ * @param qid - The ID of the question to delete.
+ * @throws Error if there is an issue deleting the question.
+ */
+const deleteQuestion = async (qid: string): Promise<Question> => {
+  const res = await api.delete(`${QUESTION_API_URL}/deleteQuestion/${qid}`);
+  if (res.status !== 200) {
+    throw new Error('Error while deleting the question');
+  }
+  return res.data;
+};
+
+/**
+ * Function to mark an answer as the accepted answer of a question.
+ *
+ * @param qid - The ID of the question.
+ * @param aid - The ID of the answer to accept.
+ * @throws Error if there is an issue accepting the answer.
+ */
+const acceptAnswer = async (qid: string, aid: string): Promise<Question> => {
+  const res = await api.patch(`${QUESTION_API_URL}/acceptAnswer/${qid}`, { aid });
+  if (res.status !== 200) {
+    throw new Error('Error while accepting the answer');
+  }
+  return res.data;
+};
+
+/**
+ * Function to remove the accepted answer from a question.
+ *
+ * @param qid - The ID of the question.
+ * @throws Error if there is an issue removing the accepted answer.
+ */
+const unacceptAnswer = async (qid: string): Promise<Question> => {
+  const res = await api.patch(`${QUESTION_API_URL}/unacceptAnswer/${qid}`);
+  if (res.status !== 200) {
+    throw new Error('Error while removing the accepted answer');
+  }
+  return res.data;
+};
+
+export {
+  getQuestionsByFilter,
+  getQuestionFeed,
+  checkSearch,
+  getSearchSuggestions,
+  getQuestionById,
+  addQuestion,
+  upvoteQuestion,
+  downvoteQuestion,
+  editQuestion,
+  getQuestionRevisions,
+  deleteQuestion,
+  acceptAnswer,
+  unacceptAnswer,
+};
@@ -1,15 +1,31 @@
-import { Tag, TagData } from '../types';
+import {
+  RelatedTag,
+  Tag,
+  TagDetail,
+  TagOrderType,
+  TagRevision,
+  TagStats,
+  TagSuggestion,
+  TagWikiEdit,
+} from '../types';
 import api from './config';
 
 const TAG_API_URL = `${process.env.REACT_APP_SERVER_URL}/tag`;
 
 /**
- * Function to get tags with the number of associated questions.
+ * Function to get the tags with the number of associated questions and their other statistics.
  *
+ * @param sort - The order of the tags. Default is 'popular'.
+ * @param filter - Only tags whose name contains this text are returned. Default is an empty string.
  * @throws Error if there is an issue fetching tags with the question number.
  */
-const getTagsWithQuestionNumber = async (): Promise<TagData[]> => {
-  const res = await api.get(`${TAG_API_URL}/getTagsWithQuestionNumber`);
+const getTagsWithQuestionNumber = async (
+  sort: TagOrderType = 'popular',
+  filter: string = '',
+): Promise<TagStats[]> => {
+  const res = await api.get(
+    `${TAG_API_URL}/getTagsWithQuestionNumber?sort=${sort}&filter=${encodeURIComponent(filter)}`,
+  );
   if (res.status !== 200) {
     throw new Error('Error when fetching tags with question number');
   }
@@ -23,11 +39,108 @@ const getTagsWithQuestionNumber = async (): Promise<TagData[]> => {
  * @throws Error if there is an issue fetching the tag by name.
  */
 const getTagByName = async (name: string): Promise<Tag> => {
-  const res = await api.get(`${TAG_API_URL}/getTagByName/${name}`);
+  const res = await api.get(`${TAG_API_URL}/getTagByName/${encodeURIComponent(name)}`);
   if (res.status !== 200) {
     throw new Error(`Error when fetching tag: ${name}`);
   }
   return res.data;
 };
 
-export { getTagsWithQuestionNumber, getTagByName };
+/**
+ * Function to find the tag a name refers to, the same way the server resolves the tags of a
+ * question: by exact name, by name ignoring case, or through a synonym.
+ *
+ * @param name - The tag name.
+ * @throws Error if the name refers to no tag or the request fails.
+ */
+const resolveTag = async (name: string): Promise<Tag> => {
+  const res = await api.get(`${TAG_API_URL}/resolve/${encodeURIComponent(name)}`);
+  if (res.status !== 200) {
+    throw new Error(`Error when resolving tag: ${name}`);
+  }
+  return res.data;
+};
+
+/**
+ * Function to get the tags starting with the given prefix, along with the number of questions
+ * associated with each tag.
+ *
+ * @param prefix - The start of the tag name typed so far.
+ * @throws Error if there is an issue fetching the tag suggestions.
+ */
+const getTagSuggestions = async (prefix: string): Promise<TagSuggestion[]> => {
+  const res = await api.get(`${TAG_API_URL}/suggest?prefix=${encodeURIComponent(prefix)}`);
+  if (res.status !== 200) {
+    throw new Error('Error when fetching tag suggestions');
+  }
+  return res.data;
+};
+
+/**
+ * Function to get the details shown on the page of a tag: the tag with its wiki, the number of
+ * questions with the tag, and its top questions.
+ *
+ * @param name - The name of the tag.
+ * @throws Error if there is an issue fetching the tag details.
+ */
+const getTagDetail = async (name: string): Promise<TagDetail> => {
+  const res = await api.get(`${TAG_API_URL}/getTagDetail/${encodeURIComponent(name)}`);
+  if (res.status !== 200) {
+    throw new Error(`Error when fetching tag details: ${name}`);
+  }
+  return res.data;
+};
+
+/**
+ * Function to edit the excerpt and wiki of a tag.
+ *
+ * @param name - The name of the tag.
+ * @param edit - The new excerpt and wiki.
+ * @throws Error if there is an issue editing the tag wiki.
+ */
+const editTagWiki = async (name: string, edit: TagWikiEdit): Promise<Tag> => {
+  const res = await api.patch(`${TAG_API_URL}/editTagWiki/${encodeURIComponent(name)}`, edit);
+  if (res.status !== 200) {
+    throw new Error('Error while editing the tag wiki');
+  }
+  return res.data;
+};
+
+/**
+ * Function to get the revisions of the wiki of a tag, oldest first.
+ *
+ * @param name - The name of the tag.
+ * @throws Error if there is an issue fetching the revisions.
+ */
+const getTagRevisions = async (name: string): Promise<TagRevision[]> => {
+  const res = await api.get(`${TAG_API_URL}/getTagRevisions/${encodeURIComponent(name)}`);
+  if (res.status !== 200) {
+    throw new Error('Error when fetching tag revisions');
+  }
+  return res.data;
+};
+
+/**
+ * Function to get the tags most often used alongside a tag.
+ *
+ * @param name - The name of the tag.
+ * @throws Error if there is an issue fetching the related tags.
+ */
+const getRelatedTags = async (name: string): Promise<RelatedTag[]> => {
+  const res = await api.get(`${TAG_API_URL}/related/${encodeURIComponent(name)}`);
+  if (res.status !== 200) {
+    throw new Error(`Error when fetching related tags: ${name}`);
+  }
+  return res.data;
+};
+
+export {
+  getTagsWithQuestionNumber,
+  getRelatedTags,
+  getTagByName,
+  resolveTag,
+  getTagSuggestions,
+  getTagDetail,
+  editTagWiki,
+  getTagRevisions,
+};
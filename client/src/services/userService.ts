@@ -0,0 +1,233 @@
+import {
+  BadgeAward,
+  LeaderboardPage,
+  LeaderboardPeriod,
+  LeaderboardSortType,
+  TagPreference,
+  TagPreferences,
+  User,
+  UserCredentials,
+  UserPrivileges,
+  UserRole,
+  VotesReceived,
+} from '../types';
+import api from './config';
+
+const USER_API_URL = `${process.env.REACT_APP_SERVER_URL}/user`;
+
+/**
+ * Function to create a new user account.
+ *
+ * @param user - The credentials of the user to create.
+ * @throws Error if there is an issue creating the new user.
+ */
+const createUser = async (user: UserCredentials): Promise<User> => {
+  const res = await api.post(`${USER_API_URL}/signup`, user);
+  if (res.status !== 200) {
+    throw new Error('Error while signing up a new user');
+  }
+  return res.data;
+};
+
+/**
+ * Function to log in a user with their username and password.
+ *
+ * @param user - The credentials of the user logging in.
+ * @throws Error if the credentials are invalid or the request fails.
+ */
+const loginUser = async (user: UserCredentials): Promise<User> => {
+  const res = await api.post(`${USER_API_URL}/login`, user);
+  if (res.status !== 200) {
+    throw new Error('Error while logging in');
+  }
+  return res.data;
+};
+
+/**
+ * Function to get a user's public profile by their username.
+ *
+ * @param username - The username of the user.
+ * @throws Error if the user does not exist or the request fails.
+ */
+const getUserByUsername = async (username: string): Promise<User> => {
+  const res = await api.get(`${USER_API_URL}/getUser/${encodeURIComponent(username)}`);
+  if (res.status !== 200) {
+    throw new Error('Error while fetching the user');
+  }
+  return res.data;
+};
+
+/**
+ * Function to update the bio of the logged-in user.
+ *
+ * @param bio - The new bio.
+ * @throws Error if the bio is invalid or the request fails.
+ */
+const updateBio = async (bio: string): Promise<User> => {
+  const res = await api.patch(`${USER_API_URL}/updateBio`, { bio });
+  if (res.status !== 200) {
+    throw new Error('Error while updating the bio');
+  }
+  return res.data;
+};
+
+/**
+ * Function to change the role of a user, which only admins can do.
+ *
+ * @param username - The username of the user.
+ * @param role - The new role.
+ * @throws Error if the logged-in user is not an admin or the request fails.
+ */
+const setRole = async (username: string, role: UserRole): Promise<User> => {
+  const res = await api.patch(`${USER_API_URL}/setRole/${encodeURIComponent(username)}`, { role });
+  if (res.status !== 200) {
+    throw new Error('Error while changing the role');
+  }
+  return res.data;
+};
+
+/**
+ * Function to delete a user account. Users can delete their own account, and admins can
+ * delete any account.
+ *
+ * @param username - The username of the user.
+ * @throws Error if the logged-in user is not allowed to or the request fails.
+ */
+const deleteUser = async (username: string): Promise<User> => {
+  const res = await api.delete(`${USER_API_URL}/deleteUser/${encodeURIComponent(username)}`);
+  if (res.status !== 200) {
+    throw new Error('Error while deleting the user');
+  }
+  return res.data;
+};
+
+/**
+ * Function to count the votes cast on everything a user has written.
+ *
+ * @param username - The username of the user.
+ * @throws Error if there is an issue counting the votes.
+ */
+const getVotesReceived = async (username: string): Promise<VotesReceived> => {
+  const res = await api.get(`${USER_API_URL}/getVotesReceived/${encodeURIComponent(username)}`);
+  if (res.status !== 200) {
+    throw new Error('Error while fetching votes received');
+  }
+  return res.data;
+};
+
+/**
+ * Function to get the reputation of several users at once.
+ *
+ * @param usernames - The usernames of the users.
+ * @throws Error if there is an issue fetching the reputations.
+ */
+const getReputations = async (usernames: string[]): Promise<Record<string, number>> => {
+  const res = await api.get(
+    `${USER_API_URL}/getReputations?usernames=${encodeURIComponent(usernames.join(','))}`,
+  );
+  if (res.status !== 200) {
+    throw new Error('Error while fetching reputations');
+  }
+  return res.data;
+};
+
+/**
+ * Function to get one page of the leaderboard.
+ *
+ * @param sort - How the users are ranked.
+ * @param period - The period the leaderboard covers.
+ * @param tag - The name of the tag whose questions the leaderboard covers, or '' for all questions.
+ * @param page - The 1-based number of the page.
+ * @param limit - The maximum number of users on the page.
+ * @throws Error if the tag does not exist or there is an issue fetching the leaderboard.
+ */
+const getLeaderboard = async (
+  sort: LeaderboardSortType = 'reputation',
+  period: LeaderboardPeriod = 'all',
+  tag: string = '',
+  page: number = 1,
+  limit: number = 20,
+): Promise<LeaderboardPage> => {
+  const tagQuery = tag ? `&tag=${encodeURIComponent(tag)}` : '';
+  const res = await api.get(
+    `${USER_API_URL}/leaderboard?sort=${sort}&period=${period}&page=${page}&limit=${limit}${tagQuery}`,
+  );
+  if (res.status !== 200) {
+    throw new Error('Error while fetching the leaderboard');
+  }
+  return res.data;
+};
+
+/**
+ * Function to get the badges a user has earned, most recent first.
+ *
+ * @param username - The username of the user.
+ * @throws Error if there is an issue fetching the badges.
+ */
+const getBadges = async (username: string): Promise<BadgeAward[]> => {
+  const res = await api.get(`${USER_API_URL}/getBadges/${encodeURIComponent(username)}`);
+  if (res.status !== 200) {
+    throw new Error('Error while fetching badges');
+  }
+  return res.data;
+};
+
+/**
+ * Function to get what the logged-in user is allowed to do with their reputation.
+ *
+ * @throws Error if there is an issue fetching the privileges.
+ */
+const getPrivileges = async (): Promise<UserPrivileges> => {
+  const res = await api.get(`${USER_API_URL}/privileges`);
+  if (res.status !== 200) {
+    throw new Error('Error while fetching privileges');
+  }
+  return res.data;
+};
+
+/**
+ * Function to get the tags the logged-in user watches and ignores.
+ *
+ * @throws Error if there is an issue fetching the tag preferences.
+ */
+const getTagPreferences = async (): Promise<TagPreferences> => {
+  const res = await api.get(`${USER_API_URL}/tagPreferences`);
+  if (res.status !== 200) {
+    throw new Error('Error while fetching tag preferences');
+  }
+  return res.data;
+};
+
+/**
+ * Function to watch, ignore or clear a tag for the logged-in user.
+ *
+ * @param tag - The name of the tag.
+ * @param preference - Whether to watch the tag, ignore it, or do neither.
+ * @throws Error if the tag does not exist or the request fails.
+ */
+const setTagPreference = async (
+  tag: string,
+  preference: TagPreference,
+): Promise<TagPreferences> => {
+  const res = await api.patch(`${USER_API_URL}/tagPreferences`, { tag, preference });
+  if (res.status !== 200) {
+    throw new Error('Error while updating tag preferences');
+  }
+  return res.data;
+};
+
+export {
+  createUser,
+  loginUser,
+  getUserByUsername,
+  updateBio,
+  setRole,
+  deleteUser,
+  getVotesReceived,
+  getReputations,
+  getBadges,
+  getLeaderboard,
+  getPrivileges,
+  getTagPreferences,
+  setTagPreference,
+};
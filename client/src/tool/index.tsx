@@ -1,4 +1,5 @@
 import React from 'react';
+import { Answer, AnswerOrderType, DiffRow } from '../types';
 
 /**
  * List of all the months of the year.
@@ -131,4 +132,130 @@ const handleHyperlink = (text: string) => {
   return <div>{content}</div>;
 };
 
-export { getMetaData, handleHyperlink, validateHyperlink };
+/**
+ * Splits the tags entered in a question form into a list of tag names.
+ *
+ * @param tagNames - The tag names, separated by whitespace.
+ * @returns {string[]} - The non-empty tag names.
+ */
+const parseTagNames = (tagNames: string): string[] =>
+  tagNames.split(' ').filter(tagName => tagName.trim() !== '');
+
+/**
+ * Validates the title, text and tags entered in a question form.
+ *
+ * @param title - The title of the question.
+ * @param text - The content of the question.
+ * @param tagNames - The names of the question's tags.
+ * @returns The error message for each field, which is empty if the field is valid.
+ */
+const getQuestionFormErrors = (title: string, text: string, tagNames: string[]) => {
+  let titleErr = '';
+  let textErr = '';
+  let tagErr = '';
+
+  if (!title) {
+    titleErr = 'Title cannot be empty';
+  } else if (title.length > 100) {
+    titleErr = 'Title cannot be more than 100 characters';
+  }
+
+  if (!text) {
+    textErr = 'Question text cannot be empty';
+  } else if (!validateHyperlink(text)) {
+    textErr = 'Invalid hyperlink format.';
+  }
+
+  if (tagNames.length === 0) {
+    tagErr = 'Should have at least 1 tag';
+  } else if (tagNames.some(tagName => tagName.length > 20)) {
+    tagErr = 'New tag length cannot be more than 20';
+  } else if (tagNames.length > 5) {
+    tagErr = 'Cannot have more than 5 tags';
+  }
+
+  return { titleErr, textErr, tagErr };
+};
+
+/**
+ * Computes a line-by-line diff of two versions of a text, using their longest common
+ * subsequence of lines. Unchanged lines are paired up so the result can be shown side by side.
+ *
+ * @param before - The old version of the text.
+ * @param after - The new version of the text.
+ * @returns {DiffRow[]} - The rows of the diff, in order.
+ */
+const diffLines = (before: string, after: string): DiffRow[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j] is the length of the longest common subsequence of a[i:] and b[j:]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      rows.push({ type: 'unchanged', before: a[i], after: b[j] });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      rows.push({ type: 'removed', before: a[i] });
+      i++;
+    } else {
+      rows.push({ type: 'added', after: b[j] });
+      j++;
+    }
+  }
+
+  return rows;
+};
+
+/**
+ * Sorts the answers to a question in the given order, the same way the server does. The accepted
+ * answer, if any, always comes first. Answers with the same score are sorted newest first.
+ *
+ * @param answers - The answers to sort.
+ * @param order - The order to sort the answers in: by score, newest or oldest first.
+ * @param acceptedAnswer - The ID of the accepted answer, if any.
+ * @returns {Answer[]} - A new array with the sorted answers.
+ */
+const sortAnswers = (
+  answers: Answer[],
+  order: AnswerOrderType,
+  acceptedAnswer?: string | null,
+): Answer[] => {
+  const isAccepted = (a: Answer) => !!acceptedAnswer && a._id === acceptedAnswer;
+  const score = (a: Answer) => (a.upVotes || []).length - (a.downVotes || []).length;
+  const time = (a: Answer) => new Date(a.ansDateTime).getTime();
+
+  return [...answers].sort((a, b) => {
+    if (isAccepted(a) !== isAccepted(b)) {
+      return isAccepted(a) ? -1 : 1;
+    }
+
+    if (order === 'votes' && score(a) !== score(b)) {
+      return score(b) - score(a);
+    }
+
+    return order === 'oldest' ? time(a) - time(b) : time(b) - time(a);
+  });
+};
+
+export {
+  getMetaData,
+  handleHyperlink,
+  validateHyperlink,
+  parseTagNames,
+  getQuestionFormErrors,
+  diffLines,
+  sortAnswers,
+};
@@ -1,23 +1,119 @@
 import { Socket } from 'socket.io-client';
 
-export type FakeSOSocket = Socket<ServerToClientEvents>;
+export type FakeSOSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 /**
- * Represents a user in the application.
+ * Interface representing the credentials submitted when logging in or signing up, which contain:
+ * - username - The unique username of the user.
+ * - password - The user's password.
+ */
+export interface UserCredentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * Represents a user in the application, as returned by the server once it has
+ * authenticated them. The password is never included.
+ *
+ * - _id - The unique identifier for the user.
+ * - username - The unique username of the user.
+ * - dateJoined - The date when the user registered.
+ * - bio - The short description the user wrote about themselves, shown on their profile.
+ * - reputation - The reputation the user earned from votes and accepted answers.
  */
 export interface User {
+  _id?: string;
+  username: string;
+  dateJoined: Date;
+  bio?: string;
+  reputation?: number;
+  role?: UserRole;
+}
+
+/**
+ * Interface representing the votes cast on everything a user has written, which contains:
+ * - upVotes - The number of upvotes received.
+ * - downVotes - The number of downvotes received.
+ */
+export interface VotesReceived {
+  upVotes: number;
+  downVotes: number;
+}
+
+/**
+ * Interface representing a badge users can earn, which contains:
+ * - _id - The unique identifier for the badge.
+ * - key - The unique key of the rule that awards the badge.
+ * - name - The name of the badge.
+ * - description - What users do to earn the badge.
+ */
+export interface Badge {
+  _id?: string;
+  key: string;
+  name: string;
+  description: string;
+}
+
+/**
+ * Interface representing a badge awarded to a user, which contains:
+ * - username - The username of the user who earned the badge.
+ * - badge - The badge.
+ * - awardedAt - The date and time when the badge was awarded.
+ */
+export interface BadgeAward {
   username: string;
+  badge: Badge;
+  awardedAt: Date;
+}
+
+/**
+ * Type representing the actions that users can only take once they have enough reputation:
+ * commenting on posts by other users, upvoting, downvoting, creating new tags and editing
+ * questions by other users.
+ */
+export type Privilege = 'comment' | 'upvote' | 'downvote' | 'createTag' | 'editPosts';
+
+/**
+ * Interface representing what the logged-in user is allowed to do, which contains:
+ * - reputation - The reputation of the user.
+ * - privileges - Whether the user holds each privilege.
+ * - thresholds - The reputation needed for each privilege.
+ */
+export interface UserPrivileges {
+  reputation: number;
+  privileges: Record<Privilege, boolean>;
+  thresholds: Record<Privilege, number>;
+}
+
+/**
+ * Type representing how a user feels about a tag: questions with watched tags come first in
+ * their feed, questions with ignored tags are left out of it, and `none` clears either.
+ */
+export type TagPreference = 'watched' | 'ignored' | 'none';
+
+/**
+ * Interface representing the tags a user watches and ignores.
+ *
+ * - watchedTags - The names of the watched tags.
+ * - ignoredTags - The names of the ignored tags.
+ */
+export interface TagPreferences {
+  watchedTags: string[];
+  ignoredTags: string[];
 }
 
 /**
  * Enum representing the possible ordering options for questions.
- * and their display names.
+ * and their display names. Ordering by relevance is only available while searching.
  */
 export const orderTypeDisplayName = {
   newest: 'Newest',
   unanswered: 'Unanswered',
+  unresolved: 'Unresolved',
   active: 'Active',
   mostViewed: 'Most Viewed',
+  relevance: 'Relevance',
 } as const;
 
 /**
@@ -26,29 +122,213 @@ export const orderTypeDisplayName = {
  */
 export type OrderType = keyof typeof orderTypeDisplayName;
 
+/**
+ * Enum representing the possible ordering options for the answers to a question,
+ * and their display names.
+ */
+export const answerOrderTypeDisplayName = {
+  votes: 'Score',
+  newest: 'Newest',
+  oldest: 'Oldest',
+} as const;
+
+/**
+ * Type representing the keys of the answerOrderTypeDisplayName object.
+ */
+export type AnswerOrderType = keyof typeof answerOrderTypeDisplayName;
+
+/**
+ * Enum representing the possible orders of the tag list, and their display names.
+ */
+export const tagOrderTypeDisplayName = {
+  popular: 'Popular',
+  name: 'Name',
+  new: 'New',
+} as const;
+
+/**
+ * Type representing the keys of the tagOrderTypeDisplayName object.
+ */
+export type TagOrderType = keyof typeof tagOrderTypeDisplayName;
+
+/**
+ * Enum representing the roles of users, and their display names.
+ */
+export const userRoleDisplayName = {
+  user: 'User',
+  moderator: 'Moderator',
+  admin: 'Admin',
+} as const;
+
+/**
+ * Type representing the keys of the userRoleDisplayName object.
+ */
+export type UserRole = keyof typeof userRoleDisplayName;
+
+/**
+ * Enum representing the ways users can be ranked on the leaderboard, and their display names.
+ */
+export const leaderboardSortTypeDisplayName = {
+  reputation: 'Reputation',
+  answers: 'Answers',
+  accepted: 'Accepted Answers',
+  newest: 'New Users',
+} as const;
+
+/**
+ * Type representing the keys of the leaderboardSortTypeDisplayName object.
+ */
+export type LeaderboardSortType = keyof typeof leaderboardSortTypeDisplayName;
+
+/**
+ * Enum representing the periods the leaderboard can cover, and their display names.
+ */
+export const leaderboardPeriodDisplayName = {
+  week: 'Week',
+  month: 'Month',
+  all: 'All Time',
+} as const;
+
+/**
+ * Type representing the keys of the leaderboardPeriodDisplayName object.
+ */
+export type LeaderboardPeriod = keyof typeof leaderboardPeriodDisplayName;
+
+/**
+ * Interface representing a user on the leaderboard.
+ *
+ * username - The username of the user.
+ * reputation - The reputation the user holds.
+ * dateJoined - The date when the user registered.
+ * score - What the user is ranked by: the reputation earned, or the number of answers or
+ *         accepted answers, during the period and in the tag.
+ */
+export interface LeaderboardEntry {
+  username: string;
+  reputation: number;
+  dateJoined: Date;
+  score: number;
+}
+
+/**
+ * Interface representing one page of the leaderboard.
+ *
+ * users - The users on the page, best ranked first.
+ * total - The total number of users on the leaderboard, across all pages.
+ * page - The 1-based number of the page.
+ * limit - The maximum number of users per page.
+ */
+export interface LeaderboardPage {
+  users: LeaderboardEntry[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
 /**
  * Interface represents a comment.
  *
+ * _id - The unique identifier for the comment. Optional field.
  * text - The text of the comment.
  * commentBy - Username of the author of the comment.
  * commentDateTime - Time at which the comment was created.
+ * upVotes - Usernames of the users who upvoted the comment.
  */
 export interface Comment {
+  _id?: string;
   text: string;
   commentBy: string;
   commentDateTime: Date;
+  upVotes: string[];
 }
 
 /**
  * Interface representing a tag associated with a question.
  *
  * @property name - The name of the tag.
- * @property description - A description of the tag.
+ * @property description - A short excerpt describing the tag.
+ * @property wiki - The long-form description of the tag, if written.
+ * @property lastEditedBy - The username of the user who last edited the excerpt or wiki.
+ * @property lastEditDateTime - The date and time of the last edit to the excerpt or wiki.
  */
 export interface Tag {
   _id?: string;
   name: string;
   description: string;
+  wiki?: string;
+  lastEditedBy?: string;
+  lastEditDateTime?: Date;
+}
+
+/**
+ * Interface representing an edit to the wiki of a tag, which contains:
+ * - description - The new excerpt of the tag.
+ * - wiki - The new long-form description of the tag.
+ */
+export interface TagWikiEdit {
+  description: string;
+  wiki: string;
+}
+
+/**
+ * Interface representing a snapshot of the wiki of a tag taken right before it was edited,
+ * which contains:
+ * - _id - The unique identifier for the revision.
+ * - tid - The unique identifier of the tag that was edited.
+ * - description - The excerpt of the tag before the edit.
+ * - wiki - The wiki of the tag before the edit.
+ * - editedBy - The username of the user who made the edit.
+ * - editDateTime - The date and time when the edit was made.
+ */
+export interface TagRevision {
+  _id: string;
+  tid: string;
+  description: string;
+  wiki: string;
+  editedBy: string;
+  editDateTime: Date;
+}
+
+/**
+ * Interface representing the changes made by one edit of a tag wiki, which contains:
+ * - editedBy - The username of the user who made the edit.
+ * - editDateTime - The date and time when the edit was made.
+ * - description - The diff of the tag's excerpt.
+ * - wiki - The diff of the tag's wiki.
+ */
+export interface TagWikiEditDiff {
+  editedBy: string;
+  editDateTime: Date;
+  description: DiffRow[];
+  wiki: DiffRow[];
+}
+
+/**
+ * Interface representing one of the top questions of a tag, which contains:
+ * - _id - The unique identifier of the question.
+ * - title - The title of the question.
+ * - score - The number of upvotes minus the number of downvotes.
+ * - answerCount - The number of answers to the question.
+ * - askDateTime - The date and time when the question was asked.
+ */
+export interface TagTopQuestion {
+  _id: string;
+  title: string;
+  score: number;
+  answerCount: number;
+  askDateTime: Date;
+}
+
+/**
+ * Interface representing the details shown on the page of a tag, which contains:
+ * - tag - The tag, with its excerpt and wiki.
+ * - qcnt - The number of questions with the tag.
+ * - topQuestions - The highest scored questions with the tag.
+ */
+export interface TagDetail {
+  tag: Tag;
+  qcnt: number;
+  topQuestions: TagTopQuestion[];
 }
 
 /**
@@ -63,15 +343,58 @@ export interface TagData {
 }
 
 /**
- * Interface representing the voting data for a question, which contains:
- * - qid - The ID of the question being voted on
- * - upVotes - An array of user IDs who upvoted the question
- * - downVotes - An array of user IDs who downvoted the question
+ * Interface represents the statistics of a tag shown in the tag list.
+ *
+ * name - The name of the tag.
+ * qcnt - The number of questions associated with the tag.
+ * description - The description of the tag.
+ * askedThisWeek - The number of questions with the tag asked in the last 7 days.
+ * askedThisMonth - The number of questions with the tag asked in the last 30 days.
+ * unansweredCount - The number of questions with the tag without answers.
+ * lastActivity - When a question with the tag was last asked or answered, `null` if there are none.
  */
-export interface VoteData {
-  qid: string;
-  upVotes: string[];
-  downVotes: string[];
+export interface TagStats extends TagData {
+  description: string;
+  askedThisWeek: number;
+  askedThisMonth: number;
+  unansweredCount: number;
+  lastActivity: Date | null;
+}
+
+/**
+ * Interface representing a tag used alongside another tag.
+ *
+ * name - The name of the related tag.
+ * count - The number of questions with both tags.
+ */
+export interface RelatedTag {
+  name: string;
+  count: number;
+}
+
+/**
+ * Interface representing a tag suggested while typing tags.
+ *
+ * name - The name of the tag.
+ * description - The description of the tag.
+ * qcnt - The number of questions associated with the tag.
+ */
+export interface TagSuggestion extends TagData {
+  description: string;
+}
+
+/**
+ * Interface representing a tag chosen for a question.
+ *
+ * name - The name of the tag.
+ * description - The description of the tag, or the one entered by the user for a new tag.
+ * isNew - Whether the tag does not exist yet and will be created with the question.
+ *         Undefined while the tag is being looked up.
+ */
+export interface SelectedTag {
+  name: string;
+  description: string;
+  isNew?: boolean;
 }
 
 /**
@@ -81,6 +404,8 @@ export interface VoteData {
  * - ansBy - The username of the user who wrote the answer
  * - ansDateTime - The date and time when the answer was created
  * - comments - Comments associated with the answer.
+ * - upVotes - An array of usernames who upvoted the answer.
+ * - downVotes - An array of usernames who downvoted the answer.
  */
 export interface Answer {
   _id?: string;
@@ -88,6 +413,41 @@ export interface Answer {
   ansBy: string;
   ansDateTime: Date;
   comments: Comment[];
+  upVotes: string[];
+  downVotes: string[];
+}
+
+/**
+ * Interface representing an answer listed on its author's profile, which contains:
+ * - _id - The unique identifier of the answer.
+ * - text - The content of the answer.
+ * - ansDateTime - The date and time when the answer was posted.
+ * - score - The number of upvotes minus the number of downvotes.
+ * - question - The ID and title of the question that was answered.
+ */
+export interface AuthoredAnswer {
+  _id: string;
+  text: string;
+  ansDateTime: Date;
+  score: number;
+  question: { _id: string; title: string };
+}
+
+/**
+ * Interface representing a comment listed on its author's profile, which contains:
+ * - _id - The unique identifier of the comment.
+ * - text - The content of the comment.
+ * - commentDateTime - The date and time when the comment was posted.
+ * - score - The number of upvotes.
+ * - question - The ID and title of the question the comment belongs to, directly or through
+ *   one of its answers.
+ */
+export interface AuthoredComment {
+  _id: string;
+  text: string;
+  commentDateTime: Date;
+  score: number;
+  question: { _id: string; title: string };
 }
 
 /**
@@ -104,6 +464,7 @@ export interface Answer {
  * - upVotes - An array of usernames who upvoted the question.
  * - downVotes - An array of usernames who downvoted the question.
  * - comments - Comments associated with the question.
+ * - acceptedAnswer - The ID of the answer accepted by the asker, or null if there is none.
  */
 export interface Question {
   _id?: string;
@@ -117,6 +478,118 @@ export interface Question {
   upVotes: string[];
   downVotes: string[];
   comments: Comment[];
+  acceptedAnswer?: string | null;
+}
+
+/**
+ * Interface representing one page of the question list, which contains:
+ * - questions - The questions on the page.
+ * - total - The total number of questions matching the filter, across all pages.
+ * - page - The 1-based number of the page.
+ * - limit - The maximum number of questions per page.
+ */
+export interface QuestionPage {
+  questions: Question[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Interface representing an error in a search string, which contains:
+ * - message - A description of the error.
+ * - token - The part of the search string the error is about.
+ * - position - The index of the token in the search string.
+ */
+export interface SearchParseError {
+  message: string;
+  token: string;
+  position: number;
+}
+
+/**
+ * Interface representing the suggestions for text typed in the search bar, which contains:
+ * - questions - The IDs and titles of questions whose title contains the text.
+ * - tags - The names of tags starting with the text.
+ * - users - The usernames of users starting with the text.
+ */
+export interface SearchSuggestions {
+  questions: { _id: string; title: string }[];
+  tags: string[];
+  users: string[];
+}
+
+/**
+ * Interface representing one entry of the search suggestions dropdown, which contains:
+ * - type - Whether the entry is a question, a tag or a user.
+ * - value - The ID of the question, or the name of the tag or user.
+ * - label - The text shown for the entry.
+ */
+export interface SearchSuggestion {
+  type: 'question' | 'tag' | 'user';
+  value: string;
+  label: string;
+}
+
+/**
+ * Interface representing the fields of a question that can be edited, which contains:
+ * - title - The new title of the question.
+ * - text - The new content of the question.
+ * - tags - The new tags of the question.
+ */
+export interface QuestionEdit {
+  title: string;
+  text: string;
+  tags: Tag[];
+}
+
+/**
+ * Interface representing a revision of a question, a snapshot of the question taken right
+ * before it was edited, which contains:
+ * - _id - The unique identifier for the revision.
+ * - qid - The ID of the question that was edited.
+ * - title - The title of the question before the edit.
+ * - text - The content of the question before the edit.
+ * - tags - The names of the question's tags before the edit.
+ * - editedBy - The username of the user who made the edit.
+ * - editDateTime - The date and time when the edit was made.
+ */
+export interface QuestionRevision {
+  _id: string;
+  qid: string;
+  title: string;
+  text: string;
+  tags: string[];
+  editedBy: string;
+  editDateTime: Date;
+}
+
+/**
+ * Interface representing one row of a side-by-side line diff, which contains:
+ * - type - Whether the line is unchanged, only in the old version, or only in the new version.
+ * - before - The line in the old version, if any.
+ * - after - The line in the new version, if any.
+ */
+export interface DiffRow {
+  type: 'unchanged' | 'removed' | 'added';
+  before?: string;
+  after?: string;
+}
+
+/**
+ * Interface representing the changes made by one edit of a question, which contains:
+ * - editedBy - The username of the user who made the edit.
+ * - editDateTime - The date and time when the edit was made.
+ * - title - The diff of the question's title.
+ * - text - The diff of the question's content.
+ * - tags - The diff of the question's tags, with one tag per line.
+ */
+export interface QuestionEditDiff {
+  editedBy: string;
+  editDateTime: Date;
+  title: DiffRow[];
+  text: DiffRow[];
+  tags: DiffRow[];
 }
 
 /**
@@ -134,12 +607,17 @@ export interface Message {
 }
 
 /**
- * Interface representing the payload for a vote update socket event.
+ * Interface representing the payload for a vote update socket event, which contains:
+ * - id - The ID of the question, answer or comment that was voted on.
+ * - type - The type of the document that was voted on.
+ * - upVotes - An array of usernames who upvoted the document.
+ * - downVotes - An array of usernames who downvoted the document. Not set for comments.
  */
 export interface VoteUpdatePayload {
-  qid: string;
+  id: string;
+  type: 'question' | 'answer' | 'comment';
   upVotes: string[];
-  downVotes: string[];
+  downVotes?: string[];
 }
 
 export interface AnswerUpdatePayload {
@@ -152,6 +630,36 @@ export interface CommentUpdatePayload {
   type: 'question' | 'answer';
 }
 
+/**
+ * Interface representing the payload for a question delete event, which contains:
+ * - qid - The ID of the deleted question.
+ */
+export interface QuestionDeletePayload {
+  qid: string;
+}
+
+/**
+ * Interface representing the payload for an answer delete event, which contains:
+ * - qid - The ID of the question the answer belonged to.
+ * - aid - The ID of the deleted answer.
+ */
+export interface AnswerDeletePayload {
+  qid: string;
+  aid: string;
+}
+
+/**
+ * Interface representing the payload for a comment delete event, which contains:
+ * - cid - The ID of the deleted comment.
+ * - parentId - The ID of the question or answer the comment belonged to.
+ * - type - The type of the parent, either 'question' or 'answer'.
+ */
+export interface CommentDeletePayload {
+  cid: string;
+  parentId: string;
+  type: 'question' | 'answer';
+}
+
 /**
  * Interface representing the payload for a message update event, which contains:
  * - msg - The updated message.
@@ -170,4 +678,22 @@ export interface ServerToClientEvents {
   voteUpdate: (vote: VoteUpdatePayload) => void;
   commentUpdate: (update: CommentUpdatePayload) => void;
   messageUpdate: (message: MessageUpdatePayload) => void;
+  questionDelete: (payload: QuestionDeletePayload) => void;
+  answerDelete: (payload: AnswerDeletePayload) => void;
+  commentDelete: (payload: CommentDeletePayload) => void;
+  badgeAwarded: (award: BadgeAward) => void;
+}
+
+/**
+ * Interface representing the events that the client can emit to the server.
+ * The client does not emit any events yet; updates are sent through the REST API.
+ */
+export interface ClientToServerEvents {}
+
+/**
+ * Interface representing the data the server attaches to each socket connection, which contains:
+ * - user - The user authenticated during the handshake.
+ */
+export interface SocketData {
+  user: User;
 }
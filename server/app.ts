@@ -16,6 +16,8 @@ import commentController from './controllers/comment.controller';
 import { FakeSOSocket } from './types/types';
 import userController from './controllers/user.controller';
 import messageController from './controllers/message.controller';
+import { authenticateSocket } from './middleware/auth.middleware';
+import { userRoom } from './utils/socket.util';
 
 dotenv.config();
 
@@ -26,7 +28,10 @@ const port = parseInt(process.env.PORT || '8000');
 const app = express();
 const server = http.createServer(app);
 const socket: FakeSOSocket = new Server(server, {
-  cors: { origin: '*' },
+  cors: {
+    credentials: true,
+    origin: [CLIENT_URL],
+  },
 });
 
 function connectDatabase() {
@@ -40,11 +45,14 @@ function startServer() {
   });
 }
 
+socket.use(authenticateSocket);
+
 socket.on('connection', socket => {
-  console.log('A user connected ->', socket.id);
+  console.log(`User ${socket.data.user.username} connected ->`, socket.id);
+  socket.join(userRoom(socket.data.user.username));
 
   socket.on('disconnect', () => {
-    console.log('User disconnected');
+    console.log(`User ${socket.data.user.username} disconnected`);
   });
 });
 
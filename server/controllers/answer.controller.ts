@@ -1,7 +1,27 @@
 import express, { Response } from 'express';
-import { Answer, AnswerRequest, AnswerResponse, FakeSOSocket } from '../types/types';
-import { addAnswerToQuestion, saveAnswer } from '../services/answer.service';
+import { ObjectId } from 'mongodb';
+import {
+  Answer,
+  AnswerRequest,
+  AnswerResponse,
+  AnswerVoteRequest,
+  DeleteAnswerRequest,
+  FakeSOSocket,
+  UserByUsernameRequest,
+} from '../types/types';
+import {
+  addAnswerToQuestion,
+  addVoteToAnswer,
+  deleteAnswerById,
+  fetchAnswerById,
+  getAnswersByAuthor,
+  saveAnswer,
+} from '../services/answer.service';
+import { checkBadges, checkPostBadges } from '../services/badge.service';
 import { populateDocument } from '../utils/database.util';
+import { notifyBadges } from '../utils/socket.util';
+import authenticate from '../middleware/auth.middleware';
+import requirePrivilege from '../middleware/privilege.middleware';
 
 const answerController = (socket: FakeSOSocket) => {
   const router = express.Router();
@@ -18,20 +38,22 @@ const answerController = (socket: FakeSOSocket) => {
   }
 
   /**
-   * Checks if the provided answer contains the required fields.
+   * Checks if the provided answer contains the required fields. The author is not checked,
+   * as it is always taken from the session.
    *
    * @param ans The answer object to validate.
    *
    * @returns `true` if the answer is valid, otherwise `false`.
    */
   function isAnswerValid(ans: Answer): boolean {
-    return !!ans.text && !!ans.ansBy && !!ans.ansDateTime;
+    return !!ans.text && !!ans.ansDateTime;
   }
 
   /**
    * Adds a new answer to a question in the database. The answer request and answer are
-   * validated and then saved. If successful, the answer is associated with the corresponding
-   * question. If there is an error, the HTTP response's status is updated.
+   * validated and then saved, with the logged-in user as its author and no votes. If successful, the answer
+   * is associated with the corresponding question. If there is an error, the HTTP response's
+   * status is updated.
    *
    * @param req The AnswerRequest object containing the question ID and answer data.
    * @param res The HTTP response object used to send back the result of the operation.
@@ -49,7 +71,12 @@ const answerController = (socket: FakeSOSocket) => {
     }
 
     const { qid } = req.body;
-    const ansInfo: Answer = req.body.ans;
+    const ansInfo: Answer = {
+      ...req.body.ans,
+      ansBy: req.user!.username,
+      upVotes: [],
+      downVotes: [],
+    };
 
     try {
       const ansFromDb = await saveAnswer(ansInfo);
@@ -76,13 +103,162 @@ const answerController = (socket: FakeSOSocket) => {
         answer: populatedAns as AnswerResponse,
       });
       res.json(ansFromDb);
+      notifyBadges(socket, checkBadges(ansFromDb.ansBy, 'answer'));
     } catch (err) {
       res.status(500).send(`Error when adding answer: ${(err as Error).message}`);
     }
   };
 
+  /**
+   * Deletes an answer and its comments, and removes it from its question. Only the author of
+   * an answer can delete it. The deletion is emitted to all connected clients.
+   *
+   * @param req The DeleteAnswerRequest object containing the answer ID as a parameter.
+   * @param res The HTTP response object used to send back the IDs of the answer and its question.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const deleteAnswer = async (req: DeleteAnswerRequest, res: Response): Promise<void> => {
+    const { aid } = req.params;
+
+    if (!ObjectId.isValid(aid)) {
+      res.status(400).send('Invalid ID format');
+      return;
+    }
+
+    try {
+      const answer = await fetchAnswerById(aid);
+
+      if (answer && 'error' in answer) {
+        throw new Error(answer.error);
+      }
+
+      if (!answer) {
+        res.status(404).send('Answer not found');
+        return;
+      }
+
+      if (answer.ansBy !== req.user!.username) {
+        res.status(403).send('Only the author of an answer can delete it');
+        return;
+      }
+
+      const result = await deleteAnswerById(aid);
+
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+
+      socket.emit('answerDelete', result);
+      res.json(result);
+    } catch (err) {
+      res.status(500).send(`Error when deleting answer: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Helper function to handle upvoting or downvoting an answer, on behalf of the logged-in user.
+   * The updated votes are emitted to all connected clients.
+   *
+   * @param req The AnswerVoteRequest object containing the answer ID.
+   * @param res The HTTP response object used to send back the result of the operation.
+   * @param type The type of vote to perform (upvote or downvote).
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const voteAnswer = async (
+    req: AnswerVoteRequest,
+    res: Response,
+    type: 'upvote' | 'downvote',
+  ): Promise<void> => {
+    if (!req.body.aid) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const { aid } = req.body;
+
+    if (!ObjectId.isValid(aid)) {
+      res.status(400).send('Invalid ID format');
+      return;
+    }
+
+    try {
+      const status = await addVoteToAnswer(aid, req.user!.username, type);
+
+      if ('error' in status) {
+        throw new Error(status.error);
+      }
+
+      socket.emit('voteUpdate', {
+        id: aid,
+        type: 'answer',
+        upVotes: status.upVotes,
+        downVotes: status.downVotes,
+      });
+      res.json(status);
+      notifyBadges(socket, checkPostBadges('answer', aid, 'vote'));
+    } catch (err) {
+      res.status(500).send(`Error when ${type}ing: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Handles upvoting an answer. The request must contain the answer ID (aid).
+   *
+   * @param req The AnswerVoteRequest object containing the answer ID.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const upvoteAnswer = async (req: AnswerVoteRequest, res: Response): Promise<void> => {
+    await voteAnswer(req, res, 'upvote');
+  };
+
+  /**
+   * Handles downvoting an answer. The request must contain the answer ID (aid).
+   *
+   * @param req The AnswerVoteRequest object containing the answer ID.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const downvoteAnswer = async (req: AnswerVoteRequest, res: Response): Promise<void> => {
+    await voteAnswer(req, res, 'downvote');
+  };
+
+  /**
+   * Retrieves the answers written by a user, newest first, with the question each one
+   * answers. If there is an error, the HTTP response's status is updated.
+   *
+   * @param req The UserByUsernameRequest object containing the username of the author.
+   * @param res The HTTP response object used to send back the answers.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getAnswersByAuthorRoute = async (
+    req: UserByUsernameRequest,
+    res: Response,
+  ): Promise<void> => {
+    try {
+      const answers = await getAnswersByAuthor(req.params.username);
+
+      if ('error' in answers) {
+        throw new Error(answers.error);
+      }
+
+      res.json(answers);
+    } catch (err: unknown) {
+      res.status(500).send(`Error when fetching answers by author: ${(err as Error).message}`);
+    }
+  };
+
   // add appropriate HTTP verbs and their endpoints to the router.
-  router.post('/addAnswer', addAnswer);
+  router.post('/addAnswer', authenticate, addAnswer);
+  router.post('/upvoteAnswer', authenticate, requirePrivilege('upvote'), upvoteAnswer);
+  router.post('/downvoteAnswer', authenticate, requirePrivilege('downvote'), downvoteAnswer);
+  router.delete('/deleteAnswer/:aid', authenticate, deleteAnswer);
+  router.get('/getAnswersByAuthor/:username', getAnswersByAuthorRoute);
 
   return router;
 };
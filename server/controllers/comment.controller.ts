@@ -1,14 +1,34 @@
 import express, { Response } from 'express';
 import { ObjectId } from 'mongodb';
-import { Comment, AddCommentRequest, FakeSOSocket } from '../types/types';
-import { addComment, saveComment } from '../services/comment.service';
+import {
+  Comment,
+  AddCommentRequest,
+  CommentVoteRequest,
+  DeleteCommentRequest,
+  FakeSOSocket,
+  UserByUsernameRequest,
+} from '../types/types';
+import {
+  addComment,
+  addUpvoteToComment,
+  deleteCommentById,
+  fetchCommentById,
+  getCommentsByAuthor,
+  saveComment,
+} from '../services/comment.service';
+import { fetchQuestionById } from '../services/question.service';
+import { fetchAnswerById } from '../services/answer.service';
 import { populateDocument } from '../utils/database.util';
+import { hasPrivilege, privilegeError } from '../utils/privilege.util';
+import authenticate from '../middleware/auth.middleware';
+import requirePrivilege from '../middleware/privilege.middleware';
 
 const commentController = (socket: FakeSOSocket) => {
   const router = express.Router();
 
   /**
    * Checks if the provided answer request contains the required fields.
+   * The author is not checked, as it is always taken from the session.
    *
    * @param req The request object containing the answer data.
    *
@@ -20,7 +40,6 @@ const commentController = (socket: FakeSOSocket) => {
     (req.body.type === 'question' || req.body.type === 'answer') &&
     !!req.body.comment &&
     req.body.comment.text !== undefined &&
-    req.body.comment.commentBy !== undefined &&
     req.body.comment.commentDateTime !== undefined;
 
   /**
@@ -33,13 +52,38 @@ const commentController = (socket: FakeSOSocket) => {
   const isCommentValid = (comment: Comment): boolean =>
     comment.text !== undefined &&
     comment.text !== '' &&
-    comment.commentBy !== undefined &&
-    comment.commentBy !== '' &&
     comment.commentDateTime !== undefined &&
     comment.commentDateTime !== null;
 
   /**
-   * Handles adding a new comment to the specified question or answer. The comment is first validated and then saved.
+   * Finds the author of the question or answer a comment is posted on.
+   *
+   * @param id The ID of the question or answer.
+   * @param type Whether the post is a question or an answer.
+   *
+   * @returns The username of the author, or `null` if the post does not exist.
+   */
+  const fetchPostAuthor = async (
+    id: string,
+    type: 'question' | 'answer',
+  ): Promise<string | null> => {
+    const post = type === 'question' ? await fetchQuestionById(id) : await fetchAnswerById(id);
+
+    if (post && 'error' in post) {
+      throw new Error(post.error);
+    }
+
+    if (!post) {
+      return null;
+    }
+
+    return 'askedBy' in post ? post.askedBy : post.ansBy;
+  };
+
+  /**
+   * Handles adding a new comment to the specified question or answer, with the logged-in user
+   * as its author and no votes. The comment is first validated and then saved. Users can
+   * always comment on their own posts, but need the comment privilege to comment on others'.
    * If the comment is invalid or saving fails, the HTTP response status is updated.
    *
    * @param req The AddCommentRequest object containing the comment data.
@@ -61,7 +105,8 @@ const commentController = (socket: FakeSOSocket) => {
       return;
     }
 
-    const { comment, type } = req.body;
+    const { type } = req.body;
+    const comment: Comment = { ...req.body.comment, commentBy: req.user!.username, upVotes: [] };
 
     if (!isCommentValid(comment)) {
       res.status(400).send('Invalid comment body');
@@ -69,6 +114,15 @@ const commentController = (socket: FakeSOSocket) => {
     }
 
     try {
+      if (!hasPrivilege(req.user!, 'comment')) {
+        const author = await fetchPostAuthor(id, type);
+
+        if (author !== req.user!.username) {
+          res.status(403).send(privilegeError('comment'));
+          return;
+        }
+      }
+
       const comFromDb = await saveComment(comment);
 
       if ('error' in comFromDb) {
@@ -99,7 +153,119 @@ const commentController = (socket: FakeSOSocket) => {
     }
   };
 
-  router.post('/addComment', addCommentRoute);
+  /**
+   * Deletes a comment and removes it from the question or answer it was posted on. Only the
+   * author of a comment can delete it. The deletion is emitted to all connected clients.
+   *
+   * @param req The DeleteCommentRequest object containing the comment ID as a parameter.
+   * @param res The HTTP response object used to send back the IDs of the comment and its parent.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const deleteCommentRoute = async (req: DeleteCommentRequest, res: Response): Promise<void> => {
+    const { cid } = req.params;
+
+    if (!ObjectId.isValid(cid)) {
+      res.status(400).send('Invalid ID format');
+      return;
+    }
+
+    try {
+      const comment = await fetchCommentById(cid);
+
+      if (comment && 'error' in comment) {
+        throw new Error(comment.error);
+      }
+
+      if (!comment) {
+        res.status(404).send('Comment not found');
+        return;
+      }
+
+      if (comment.commentBy !== req.user!.username) {
+        res.status(403).send('Only the author of a comment can delete it');
+        return;
+      }
+
+      const result = await deleteCommentById(cid);
+
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+
+      socket.emit('commentDelete', result);
+      res.json(result);
+    } catch (err: unknown) {
+      res.status(500).send(`Error when deleting comment: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Handles upvoting a comment on behalf of the logged-in user, or cancelling the upvote if
+   * the user has already upvoted it. The updated votes are emitted to all connected clients.
+   *
+   * @param req The CommentVoteRequest object containing the comment ID.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const upvoteCommentRoute = async (req: CommentVoteRequest, res: Response): Promise<void> => {
+    if (!req.body.cid) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const { cid } = req.body;
+
+    if (!ObjectId.isValid(cid)) {
+      res.status(400).send('Invalid ID format');
+      return;
+    }
+
+    try {
+      const status = await addUpvoteToComment(cid, req.user!.username);
+
+      if ('error' in status) {
+        throw new Error(status.error);
+      }
+
+      socket.emit('voteUpdate', { id: cid, type: 'comment', upVotes: status.upVotes });
+      res.json(status);
+    } catch (err: unknown) {
+      res.status(500).send(`Error when upvoting comment: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Retrieves the comments written by a user, newest first, with the question each one was
+   * posted on. If there is an error, the HTTP response's status is updated.
+   *
+   * @param req The UserByUsernameRequest object containing the username of the author.
+   * @param res The HTTP response object used to send back the comments.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getCommentsByAuthorRoute = async (
+    req: UserByUsernameRequest,
+    res: Response,
+  ): Promise<void> => {
+    try {
+      const comments = await getCommentsByAuthor(req.params.username);
+
+      if ('error' in comments) {
+        throw new Error(comments.error);
+      }
+
+      res.json(comments);
+    } catch (err: unknown) {
+      res.status(500).send(`Error when fetching comments by author: ${(err as Error).message}`);
+    }
+  };
+
+  router.post('/addComment', authenticate, addCommentRoute);
+  router.get('/getCommentsByAuthor/:username', getCommentsByAuthorRoute);
+  router.delete('/deleteComment/:cid', authenticate, deleteCommentRoute);
+  router.post('/upvoteComment', authenticate, requirePrivilege('upvote'), upvoteCommentRoute);
 
   return router;
 };
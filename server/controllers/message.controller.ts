@@ -2,12 +2,14 @@ import express, { Response, Request } from 'express';
 import { FakeSOSocket } from '../types/socket';
 import { AddMessageRequest, Message } from '../types/types';
 import { saveMessage, getMessages } from '../services/message.service';
+import authenticate from '../middleware/auth.middleware';
 
 const messageController = (socket: FakeSOSocket) => {
   const router = express.Router();
 
   /**
    * Checks if the provided message request contains the required fields.
+   * The sender is not checked, as it is always taken from the session.
    *
    * @param req The request object containing the message data.
    *
@@ -15,13 +17,7 @@ const messageController = (socket: FakeSOSocket) => {
    */
   const isRequestValid = (req: AddMessageRequest): boolean => {
     const m = req.body?.messageToAdd;
-    return (
-      m !== undefined &&
-      typeof m.msgFrom === 'string' &&
-      typeof m.msg === 'string' &&
-      m.msgFrom.trim().length > 0 &&
-      m.msg.trim().length > 0
-    );
+    return m !== undefined && typeof m.msg === 'string' && m.msg.trim().length > 0;
   };
 
   /**
@@ -34,7 +30,8 @@ const messageController = (socket: FakeSOSocket) => {
     message.msg.trim().length > 0;
 
   /**
-   * Handles adding a new message. The message is first validated and then saved.
+   * Handles adding a new message, sent by the logged-in user. The message is first validated
+   * and then saved.
    * If the message is invalid or saving fails, the HTTP response status is updated.
    *
    * @param req The AddMessageRequest object containing the message and chat data.
@@ -50,6 +47,7 @@ const messageController = (socket: FakeSOSocket) => {
 
     const newMessage: Message = {
       ...req.body.messageToAdd,
+      msgFrom: req.user!.username,
       msgDateTime: new Date(),
     };
 
@@ -85,7 +83,7 @@ const messageController = (socket: FakeSOSocket) => {
   };
 
   // Add appropriate HTTP verbs and their endpoints to the router
-  router.post('/addMessage', addMessageRoute);
+  router.post('/addMessage', authenticate, addMessageRoute);
   router.get('/getMessages', getMessagesRoute);
 
   return router;
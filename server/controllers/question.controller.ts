@@ -1,49 +1,136 @@
 import express, { Response } from 'express';
 import { ObjectId } from 'mongodb';
 import {
+  AnswerOrderType,
+  CheckSearchRequest,
+  OrderType,
   Question,
   FindQuestionRequest,
+  QuestionFeedRequest,
   FindQuestionByIdRequest,
   AddQuestionRequest,
   VoteRequest,
   FakeSOSocket,
+  EditQuestionRequest,
+  QuestionEdit,
+  QuestionRevisionsRequest,
+  SuggestRequest,
+  DeleteQuestionRequest,
+  Tag,
+  AcceptAnswerRequest,
+  UnacceptAnswerRequest,
 } from '../types/types';
 import {
   addVoteToQuestion,
+  deleteQuestionById,
   fetchAndIncrementQuestionViewsById,
-  filterQuestionsByAskedBy,
-  filterQuestionsBySearch,
-  getQuestionsByOrder,
+  fetchQuestionById,
+  getQuestionFeed,
+  getQuestionPage,
+  getQuestionRevisions,
+  getSearchSuggestions,
   saveQuestion,
+  setAcceptedAnswer,
+  updateQuestion,
 } from '../services/question.service';
 import { processTags } from '../services/tag.service';
 import { populateDocument } from '../utils/database.util';
+import { parseSearchQuery } from '../utils/parse.util';
+import authenticate from '../middleware/auth.middleware';
+import requirePrivilege from '../middleware/privilege.middleware';
+import { hasPrivilege, privilegeError } from '../utils/privilege.util';
+import { notifyBadges } from '../utils/socket.util';
+import { checkBadges, checkPostBadges, checkQuestionViewBadges } from '../services/badge.service';
+
+const ANSWER_ORDERS: AnswerOrderType[] = ['votes', 'newest', 'oldest'];
+const QUESTION_ORDERS: OrderType[] = [
+  'newest',
+  'unanswered',
+  'unresolved',
+  'active',
+  'mostViewed',
+  'relevance',
+];
+const DEFAULT_PAGE_LIMIT = 20;
+const MAX_PAGE_LIMIT = 100;
+const MAX_TAGS = 5;
+const MAX_TAG_LENGTH = 20;
+
+/**
+ * Validates the tags of a question: there must be between 1 and 5 of them, and each name must
+ * be a single word of at most 20 characters.
+ *
+ * @param tags The tags to validate.
+ *
+ * @returns `true` if the tags are valid, otherwise `false`.
+ */
+const areTagsValid = (tags: Tag[]): boolean =>
+  Array.isArray(tags) &&
+  tags.length > 0 &&
+  tags.length <= MAX_TAGS &&
+  tags.every(
+    tag =>
+      typeof tag?.name === 'string' &&
+      tag.name !== '' &&
+      tag.name.length <= MAX_TAG_LENGTH &&
+      !/\s/.test(tag.name),
+  );
 
 const questionController = (socket: FakeSOSocket) => {
   const router = express.Router();
 
   /**
-   * Retrieves a list of questions filtered by a search term and ordered by a specified criterion.
-   * If there is an error, the HTTP response's status is updated.
+   * Retrieves one page of questions filtered by a search term and ordered by a specified
+   * criterion, along with the total number of matching questions. If there is an error, the
+   * HTTP response's status is updated.
    *
-   * @param req The FindQuestionRequest object containing the query parameters `order` and `search`.
-   * @param res The HTTP response object used to send back the filtered list of questions.
+   * @param req The FindQuestionRequest object containing the query parameters `order`, `search`,
+   *            `askedBy`, `page` and `limit`. If the search string cannot be parsed, the
+   *            response contains the parse errors.
+   * @param res The HTTP response object used to send back the page of questions.
    *
    * @returns A Promise that resolves to void.
    */
   const getQuestionsByFilter = async (req: FindQuestionRequest, res: Response): Promise<void> => {
-    const { order } = req.query;
-    const { search } = req.query;
-    const { askedBy } = req.query;
+    const { order = 'newest', search, askedBy } = req.query;
+    const page = Number(req.query.page ?? 1);
+    const limit = Number(req.query.limit ?? DEFAULT_PAGE_LIMIT);
+
+    if (!QUESTION_ORDERS.includes(order)) {
+      res.status(400).send('Invalid order');
+      return;
+    }
+
+    if (order === 'relevance' && !search) {
+      res.status(400).send('Ordering by relevance requires a search term');
+      return;
+    }
+
+    if (!Number.isInteger(page) || page < 1) {
+      res.status(400).send('Invalid page');
+      return;
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+      res.status(400).send('Invalid limit');
+      return;
+    }
+
+    const query = parseSearchQuery(search ?? '');
+
+    if ('errors' in query) {
+      res.status(400).json({ errors: query.errors });
+      return;
+    }
+
     try {
-      let qlist: Question[] = await getQuestionsByOrder(order);
-      // Filter by askedBy if provided
-      if (askedBy) {
-        qlist = filterQuestionsByAskedBy(qlist, askedBy);
-      }
-      // Filter by search keyword and tags
-      const resqlist: Question[] = await filterQuestionsBySearch(qlist, search);
-      res.json(resqlist);
+      const result = await getQuestionPage({ order, search: query, askedBy, page, limit });
+
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+
+      res.json(result);
     } catch (err: unknown) {
       if (err instanceof Error) {
         res.status(500).send(`Error when fetching questions by filter: ${err.message}`);
@@ -53,18 +140,106 @@ const questionController = (socket: FakeSOSocket) => {
     }
   };
 
+  /**
+   * Retrieves one page of the logged-in user's feed: questions with watched tags come first,
+   * and questions with ignored tags are left out. If there is an error, the HTTP response's
+   * status is updated.
+   *
+   * @param req The QuestionFeedRequest object containing the query parameters `page` and `limit`.
+   * @param res The HTTP response object used to send back the page of questions.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getQuestionFeedRoute = async (req: QuestionFeedRequest, res: Response): Promise<void> => {
+    const page = Number(req.query.page ?? 1);
+    const limit = Number(req.query.limit ?? DEFAULT_PAGE_LIMIT);
+
+    if (!Number.isInteger(page) || page < 1) {
+      res.status(400).send('Invalid page');
+      return;
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+      res.status(400).send('Invalid limit');
+      return;
+    }
+
+    try {
+      const result = await getQuestionFeed(req.user!.username, page, limit);
+
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+
+      res.json(result);
+    } catch (err: unknown) {
+      res.status(500).send(`Error when fetching the question feed: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Checks a search string for errors, so that they can be shown before searching.
+   *
+   * @param req The CheckSearchRequest object containing the search string as a query parameter.
+   * @param res The HTTP response object used to send back the parse errors, if any.
+   *
+   * @returns void
+   */
+  const checkSearch = (req: CheckSearchRequest, res: Response): void => {
+    const query = parseSearchQuery(req.query.search ?? '');
+
+    res.json({ errors: 'errors' in query ? query.errors : [] });
+  };
+
+  /**
+   * Retrieves a few questions, tags and users matching the text typed so far in the search bar.
+   * If the text is empty, there are no suggestions. If there is an error, the HTTP response's
+   * status is updated.
+   *
+   * @param req The SuggestRequest object containing the typed text as the query parameter `q`.
+   * @param res The HTTP response object used to send back the suggestions.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const suggest = async (req: SuggestRequest, res: Response): Promise<void> => {
+    const text = (req.query.q ?? '').trim();
+
+    if (!text) {
+      res.json({ questions: [], tags: [], users: [] });
+      return;
+    }
+
+    try {
+      const suggestions = await getSearchSuggestions(text);
+
+      if ('error' in suggestions) {
+        throw new Error(suggestions.error);
+      }
+
+      res.json(suggestions);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when fetching search suggestions: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when fetching search suggestions`);
+      }
+    }
+  };
+
   /**
    * Retrieves a question by its unique ID, and increments the view count for that question.
-   * If there is an error, the HTTP response's status is updated.
+   * The answers are sorted in the requested order, newest first by default, with the accepted
+   * answer always first. If there is an error, the HTTP response's status is updated.
    *
-   * @param req The FindQuestionByIdRequest object containing the question ID as a parameter.
+   * @param req The FindQuestionByIdRequest object containing the question ID as a parameter,
+   *            and the username and answer order as query parameters.
    * @param res The HTTP response object used to send back the question details.
    *
    * @returns A Promise that resolves to void.
    */
   const getQuestionById = async (req: FindQuestionByIdRequest, res: Response): Promise<void> => {
     const { qid } = req.params;
-    const { username } = req.query;
+    const { username, sort = 'newest' } = req.query;
 
     if (!ObjectId.isValid(qid)) {
       res.status(400).send('Invalid ID format');
@@ -76,12 +251,18 @@ const questionController = (socket: FakeSOSocket) => {
       return;
     }
 
+    if (!ANSWER_ORDERS.includes(sort)) {
+      res.status(400).send('Invalid answer order');
+      return;
+    }
+
     try {
-      const q = await fetchAndIncrementQuestionViewsById(qid, username);
+      const q = await fetchAndIncrementQuestionViewsById(qid, username, sort);
 
       if (q && !('error' in q)) {
         socket.emit('viewsUpdate', q);
         res.json(q);
+        notifyBadges(socket, checkQuestionViewBadges(q));
         return;
       }
 
@@ -96,7 +277,8 @@ const questionController = (socket: FakeSOSocket) => {
   };
 
   /**
-   * Validates the question object to ensure it contains all the necessary fields.
+   * Validates the question object to ensure it contains all the necessary fields, and that
+   * its tags are within the limits checked by `areTagsValid`. The author is not checked, as it is always taken from the session.
    *
    * @param question The question object to validate.
    *
@@ -107,15 +289,13 @@ const questionController = (socket: FakeSOSocket) => {
     question.title !== '' &&
     question.text !== undefined &&
     question.text !== '' &&
-    question.tags !== undefined &&
-    question.tags.length > 0 &&
-    question.askedBy !== undefined &&
-    question.askedBy !== '' &&
+    areTagsValid(question.tags) &&
     question.askDateTime !== undefined &&
     question.askDateTime !== null;
 
   /**
-   * Adds a new question to the database. The question is first validated and then saved.
+   * Adds a new question to the database. The question is first validated and then saved,
+   * with the logged-in user as its author.
    * If the tags are invalid or saving the question fails, the HTTP response status is updated.
    *
    * @param req The AddQuestionRequest object containing the question data.
@@ -128,12 +308,15 @@ const questionController = (socket: FakeSOSocket) => {
       res.status(400).send('Invalid question body');
       return;
     }
-    const question: Question = req.body;
+    const question: Question = { ...req.body, askedBy: req.user!.username };
     try {
-      const questionswithtags: Question = {
-        ...question,
-        tags: await processTags(question.tags),
-      };
+      const tags = await processTags(question.tags, hasPrivilege(req.user!, 'createTag'));
+      if ('error' in tags) {
+        res.status(403).send(tags.error);
+        return;
+      }
+
+      const questionswithtags: Question = { ...question, tags };
       if (questionswithtags.tags.length === 0) {
         throw new Error('Invalid tags');
       }
@@ -151,6 +334,7 @@ const questionController = (socket: FakeSOSocket) => {
 
       socket.emit('questionUpdate', populatedQuestion as Question);
       res.json(result);
+      notifyBadges(socket, checkBadges(result.askedBy, 'question'));
     } catch (err: unknown) {
       if (err instanceof Error) {
         res.status(500).send(`Error when saving question: ${err.message}`);
@@ -161,9 +345,9 @@ const questionController = (socket: FakeSOSocket) => {
   };
 
   /**
-   * Helper function to handle upvoting or downvoting a question.
+   * Helper function to handle upvoting or downvoting a question as the logged-in user.
    *
-   * @param req The VoteRequest object containing the question ID and the username.
+   * @param req The VoteRequest object containing the question ID.
    * @param res The HTTP response object used to send back the result of the operation.
    * @param type The type of vote to perform (upvote or downvote).
    *
@@ -174,12 +358,13 @@ const questionController = (socket: FakeSOSocket) => {
     res: Response,
     type: 'upvote' | 'downvote',
   ): Promise<void> => {
-    if (!req.body.qid || !req.body.username) {
+    if (!req.body.qid) {
       res.status(400).send('Invalid request');
       return;
     }
 
-    const { qid, username } = req.body;
+    const { qid } = req.body;
+    const { username } = req.user!;
 
     try {
       let status;
@@ -194,18 +379,24 @@ const questionController = (socket: FakeSOSocket) => {
       }
 
       // Emit the updated vote counts to all connected clients
-      socket.emit('voteUpdate', { qid, upVotes: status.upVotes, downVotes: status.downVotes });
+      socket.emit('voteUpdate', {
+        id: qid,
+        type: 'question',
+        upVotes: status.upVotes,
+        downVotes: status.downVotes,
+      });
       res.json({ msg: status.msg, upVotes: status.upVotes, downVotes: status.downVotes });
+      notifyBadges(socket, checkPostBadges('question', qid, 'vote'));
     } catch (err) {
       res.status(500).send(`Error when ${type}ing: ${(err as Error).message}`);
     }
   };
 
   /**
-   * Handles upvoting a question. The request must contain the question ID (qid) and the username.
+   * Handles upvoting a question. The request must contain the question ID (qid).
    * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
    *
-   * @param req The VoteRequest object containing the question ID and the username.
+   * @param req The VoteRequest object containing the question ID.
    * @param res The HTTP response object used to send back the result of the operation.
    *
    * @returns A Promise that resolves to void.
@@ -215,10 +406,10 @@ const questionController = (socket: FakeSOSocket) => {
   };
 
   /**
-   * Handles downvoting a question. The request must contain the question ID (qid) and the username.
+   * Handles downvoting a question. The request must contain the question ID (qid).
    * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
    *
-   * @param req The VoteRequest object containing the question ID and the username.
+   * @param req The VoteRequest object containing the question ID.
    * @param res The HTTP response object used to send back the result of the operation.
    *
    * @returns A Promise that resolves to void.
@@ -227,12 +418,285 @@ const questionController = (socket: FakeSOSocket) => {
     voteQuestion(req, res, 'downvote');
   };
 
+  /**
+   * Validates the fields of a question edit to ensure none of them are missing or empty, and
+   * that its tags are within the limits checked by `areTagsValid`.
+   *
+   * @param edit The question edit to validate.
+   *
+   * @returns `true` if the edit is valid, otherwise `false`.
+   */
+  const isQuestionEditValid = (edit: QuestionEdit): boolean =>
+    typeof edit.title === 'string' &&
+    edit.title.trim() !== '' &&
+    typeof edit.text === 'string' &&
+    edit.text.trim() !== '' &&
+    areTagsValid(edit.tags);
+
+  /**
+   * Edits the title, text and tags of a question. Only the author of a question and users
+   * with the privilege to edit posts by other users can edit it.
+   * The previous version of the question is kept as a revision, and the edited question is
+   * emitted to all connected clients.
+   *
+   * @param req The EditQuestionRequest object containing the question ID and the edit.
+   * @param res The HTTP response object used to send back the edited question.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const editQuestion = async (req: EditQuestionRequest, res: Response): Promise<void> => {
+    const { qid } = req.params;
+
+    if (!ObjectId.isValid(qid)) {
+      res.status(400).send('Invalid ID format');
+      return;
+    }
+
+    if (!isQuestionEditValid(req.body)) {
+      res.status(400).send('Invalid question body');
+      return;
+    }
+
+    try {
+      const question = await fetchQuestionById(qid);
+
+      if (question && 'error' in question) {
+        throw new Error(question.error);
+      }
+
+      if (!question) {
+        res.status(404).send('Question not found');
+        return;
+      }
+
+      if (question.askedBy !== req.user!.username && !hasPrivilege(req.user!, 'editPosts')) {
+        res.status(403).send(privilegeError('editPosts'));
+        return;
+      }
+
+      const tags = await processTags(req.body.tags, hasPrivilege(req.user!, 'createTag'));
+      if ('error' in tags) {
+        res.status(403).send(tags.error);
+        return;
+      }
+
+      if (tags.length === 0) {
+        throw new Error('Invalid tags');
+      }
+
+      const { title, text } = req.body;
+      const result = await updateQuestion(question, { title, text, tags }, req.user!.username);
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+
+      const populatedQuestion = await populateDocument(qid, 'question');
+
+      if (populatedQuestion && 'error' in populatedQuestion) {
+        throw new Error(populatedQuestion.error);
+      }
+
+      socket.emit('questionUpdate', populatedQuestion as Question);
+      res.json(populatedQuestion);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when editing question: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when editing question`);
+      }
+    }
+  };
+
+  /**
+   * Retrieves the revisions of a question, oldest first. Each revision holds the question as it
+   * was before an edit, along with who made the edit and when.
+   *
+   * @param req The QuestionRevisionsRequest object containing the question ID as a parameter.
+   * @param res The HTTP response object used to send back the revisions.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getRevisions = async (req: QuestionRevisionsRequest, res: Response): Promise<void> => {
+    const { qid } = req.params;
+
+    if (!ObjectId.isValid(qid)) {
+      res.status(400).send('Invalid ID format');
+      return;
+    }
+
+    const revisions = await getQuestionRevisions(qid);
+
+    if ('error' in revisions) {
+      res.status(500).send(`Error when fetching question revisions: ${revisions.error}`);
+      return;
+    }
+
+    res.json(revisions);
+  };
+
+  /**
+   * Deletes a question, along with its answers, comments and revisions. Only the author of a
+   * question can delete it. The deletion is emitted to all connected clients.
+   *
+   * @param req The DeleteQuestionRequest object containing the question ID as a parameter.
+   * @param res The HTTP response object used to send back the deleted question.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const deleteQuestion = async (req: DeleteQuestionRequest, res: Response): Promise<void> => {
+    const { qid } = req.params;
+
+    if (!ObjectId.isValid(qid)) {
+      res.status(400).send('Invalid ID format');
+      return;
+    }
+
+    try {
+      const question = await fetchQuestionById(qid);
+
+      if (question && 'error' in question) {
+        throw new Error(question.error);
+      }
+
+      if (!question) {
+        res.status(404).send('Question not found');
+        return;
+      }
+
+      if (question.askedBy !== req.user!.username) {
+        res.status(403).send('Only the author of a question can delete it');
+        return;
+      }
+
+      const result = await deleteQuestionById(qid);
+
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+
+      socket.emit('questionDelete', { qid });
+      res.json(result);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when deleting question: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when deleting question`);
+      }
+    }
+  };
+
+  /**
+   * Helper function to set or clear the accepted answer of a question. Only the author of a
+   * question can change its accepted answer, and only to one of its own answers. The updated
+   * question is emitted to all connected clients.
+   *
+   * @param req The request object containing the question ID as a parameter.
+   * @param res The HTTP response object used to send back the updated question.
+   * @param aid The ID of the answer to accept, or `null` to clear the accepted answer.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const updateAcceptedAnswer = async (
+    req: AcceptAnswerRequest | UnacceptAnswerRequest,
+    res: Response,
+    aid: string | null,
+  ): Promise<void> => {
+    const { qid } = req.params;
+
+    if (!ObjectId.isValid(qid) || (aid !== null && !ObjectId.isValid(aid))) {
+      res.status(400).send('Invalid ID format');
+      return;
+    }
+
+    try {
+      const question = await fetchQuestionById(qid);
+
+      if (question && 'error' in question) {
+        throw new Error(question.error);
+      }
+
+      if (!question) {
+        res.status(404).send('Question not found');
+        return;
+      }
+
+      if (question.askedBy !== req.user!.username) {
+        res.status(403).send('Only the author of a question can accept an answer');
+        return;
+      }
+
+      // The answers of the fetched question are not populated, so they hold IDs
+      if (aid !== null && !(question.answers as ObjectId[]).some(a => a.toString() === aid)) {
+        res.status(400).send('Answer does not belong to this question');
+        return;
+      }
+
+      const result = await setAcceptedAnswer(qid, aid);
+
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+
+      const populatedQuestion = await populateDocument(qid, 'question');
+
+      if (populatedQuestion && 'error' in populatedQuestion) {
+        throw new Error(populatedQuestion.error);
+      }
+
+      socket.emit('questionUpdate', populatedQuestion as Question);
+      res.json(populatedQuestion);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when updating the accepted answer: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when updating the accepted answer`);
+      }
+    }
+  };
+
+  /**
+   * Marks an answer as the accepted answer of a question.
+   *
+   * @param req The AcceptAnswerRequest object containing the question ID and the answer ID.
+   * @param res The HTTP response object used to send back the updated question.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const acceptAnswer = async (req: AcceptAnswerRequest, res: Response): Promise<void> => {
+    if (!req.body.aid) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    await updateAcceptedAnswer(req, res, req.body.aid);
+  };
+
+  /**
+   * Removes the accepted answer from a question, marking it as unresolved again.
+   *
+   * @param req The UnacceptAnswerRequest object containing the question ID as a parameter.
+   * @param res The HTTP response object used to send back the updated question.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const unacceptAnswer = async (req: UnacceptAnswerRequest, res: Response): Promise<void> => {
+    await updateAcceptedAnswer(req, res, null);
+  };
+
   // add appropriate HTTP verbs and their endpoints to the router
   router.get('/getQuestion', getQuestionsByFilter);
+  router.get('/getFeed', authenticate, getQuestionFeedRoute);
+  router.get('/checkSearch', checkSearch);
+  router.get('/suggest', suggest);
   router.get('/getQuestionById/:qid', getQuestionById);
-  router.post('/addQuestion', addQuestion);
-  router.post('/upvoteQuestion', upvoteQuestion);
-  router.post('/downvoteQuestion', downvoteQuestion);
+  router.post('/addQuestion', authenticate, addQuestion);
+  router.post('/upvoteQuestion', authenticate, requirePrivilege('upvote'), upvoteQuestion);
+  router.post('/downvoteQuestion', authenticate, requirePrivilege('downvote'), downvoteQuestion);
+  router.patch('/editQuestion/:qid', authenticate, editQuestion);
+  router.get('/getQuestionRevisions/:qid', getRevisions);
+  router.delete('/deleteQuestion/:qid', authenticate, deleteQuestion);
+  router.patch('/acceptAnswer/:qid', authenticate, acceptAnswer);
+  router.patch('/unacceptAnswer/:qid', authenticate, unacceptAnswer);
 
   return router;
 };
@@ -1,34 +1,63 @@
 import express, { Request, Response, Router } from 'express';
-import { getTagCountMap } from '../services/tag.service';
+import {
+  addTagSynonym,
+  getRelatedTags,
+  getTagDetail,
+  getTagRevisions,
+  getTagStats,
+  getTagSuggestions,
+  mergeTag,
+  resolveTag,
+  updateTagWiki,
+} from '../services/tag.service';
 import TagModel from '../models/tags.model';
+import {
+  AddTagSynonymRequest,
+  EditTagWikiRequest,
+  MergeTagsRequest,
+  TagNameRequest,
+  TagOrderType,
+  TagStatsRequest,
+  TagSuggestRequest,
+  TagWikiEdit,
+} from '../types/types';
+import authenticate from '../middleware/auth.middleware';
+import requirePermission from '../middleware/role.middleware';
+import requirePrivilege from '../middleware/privilege.middleware';
+
+const TAG_ORDERS: TagOrderType[] = ['popular', 'name', 'new'];
+const MAX_EXCERPT_LENGTH = 500;
 
 const tagController = () => {
   const router: Router = express.Router();
 
   /**
-   * Retrieves a list of tags along with the number of questions associated with each tag.
-   * If there is an error, the HTTP response's status is updated.
+   * Retrieves the tags along with their statistics: the number of questions with each tag, how
+   * many were asked this week and month, how many are unanswered, and the last activity.
+   * If the sort order is invalid or there is an error, the HTTP response's status is updated.
    *
-   * @param _ The HTTP request object (not used in this function).
-   * @param res The HTTP response object used to send back the tag count mapping.
+   * @param req The TagStatsRequest object containing the `sort` and `filter` query parameters.
+   * @param res The HTTP response object used to send back the tag statistics.
    *
    * @returns A Promise that resolves to void.
    */
-  const getTagsWithQuestionNumber = async (_: Request, res: Response): Promise<void> => {
+  const getTagsWithQuestionNumber = async (req: TagStatsRequest, res: Response): Promise<void> => {
+    const { sort = 'popular', filter = '' } = req.query;
+
+    if (!TAG_ORDERS.includes(sort)) {
+      res.status(400).send('Invalid sort order');
+      return;
+    }
+
     try {
-      const tagcountmap = await getTagCountMap();
-      if (!(tagcountmap instanceof Map)) {
-        throw new Error('Error while fetching tag count map');
-      } else {
-        res.json(
-          Array.from(tagcountmap, ([name, qcnt]: [string, number]) => ({
-            name,
-            qcnt,
-          })),
-        );
+      const stats = await getTagStats(sort, filter.trim());
+      if ('error' in stats) {
+        throw new Error(stats.error);
       }
+
+      res.json(stats);
     } catch (err) {
-      res.status(500).send(`Error when fetching tag count map: ${(err as Error).message}`);
+      res.status(500).send(`Error when fetching tag statistics: ${(err as Error).message}`);
     }
   };
 
@@ -56,9 +85,302 @@ const tagController = () => {
     }
   };
 
+  /**
+   * Retrieves the tags whose name starts with the prefix in the query, along with the number of
+   * questions with each tag, to suggest while typing tags. If there is an error, the HTTP
+   * response's status is updated.
+   *
+   * @param req The TagSuggestRequest object containing the query parameter `prefix`.
+   * @param res The HTTP response object used to send back the suggested tags.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const suggestTags = async (req: TagSuggestRequest, res: Response): Promise<void> => {
+    try {
+      const suggestions = await getTagSuggestions((req.query.prefix ?? '').trim());
+
+      if ('error' in suggestions) {
+        throw new Error(suggestions.error);
+      }
+
+      res.json(suggestions);
+    } catch (err) {
+      res.status(500).send(`Error when fetching tag suggestions: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Checks that a tag name is a non-empty string without whitespace.
+   *
+   * @param name The tag name to check.
+   *
+   * @returns `true` if the name is valid, otherwise `false`.
+   */
+  const isTagNameValid = (name: unknown): name is string =>
+    typeof name === 'string' && name !== '' && !/\s/.test(name);
+
+  /**
+   * Adds a synonym for a tag, so that questions and searches using the synonym get the tag.
+   * The synonym must not already be a tag, or a synonym of one; such tags are merged instead.
+   * Only moderators and admins can add synonyms.
+   * If the request is invalid or the tag does not exist, the HTTP response status is updated.
+   *
+   * @param req The AddTagSynonymRequest object containing the synonym and the tag name.
+   * @param res The HTTP response object used to send back the saved synonym.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const addSynonym = async (req: AddTagSynonymRequest, res: Response): Promise<void> => {
+    const { synonym, tag } = req.body;
+
+    if (!isTagNameValid(synonym) || !isTagNameValid(tag)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      if (await resolveTag(synonym)) {
+        res.status(400).send(`"${synonym}" is already a tag or a synonym`);
+        return;
+      }
+
+      const saved = await addTagSynonym(synonym, tag);
+
+      if (saved === null) {
+        res.status(404).send(`Tag with name "${tag}" not found`);
+        return;
+      }
+
+      if ('error' in saved) {
+        throw new Error(saved.error);
+      }
+
+      res.json(saved);
+    } catch (err) {
+      res.status(500).send(`Error when adding tag synonym: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Merges the source tag into the target tag: questions with the source tag get the target
+   * tag instead, and the source tag is deleted, its name becoming a synonym of the target tag.
+   * Only moderators and admins can merge tags.
+   * If the request is invalid or either tag does not exist, the HTTP response status is updated.
+   *
+   * @param req The MergeTagsRequest object containing the names of the source and target tags.
+   * @param res The HTTP response object used to send back the target tag.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const mergeTags = async (req: MergeTagsRequest, res: Response): Promise<void> => {
+    const { source, target } = req.body;
+
+    if (!isTagNameValid(source) || !isTagNameValid(target) || source === target) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const merged = await mergeTag(source, target);
+
+      if (merged === null) {
+        res.status(404).send('Tag not found');
+        return;
+      }
+
+      if ('error' in merged) {
+        throw new Error(merged.error);
+      }
+
+      res.json(merged);
+    } catch (err) {
+      res.status(500).send(`Error when merging tags: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Finds the tag a name refers to, the same way the tags of a question are resolved when it is
+   * saved: by exact name, by name ignoring case, or through a synonym. This lets clients tell
+   * whether saving a tag name would create a new tag.
+   * If the name refers to no tag or an error occurs, the HTTP response status is updated.
+   *
+   * @param req The TagNameRequest object containing the tag name in the URL parameters.
+   * @param res The HTTP response object used to send back the tag.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const resolveTagRoute = async (req: TagNameRequest, res: Response): Promise<void> => {
+    const { name } = req.params;
+
+    try {
+      const tag = await resolveTag(name);
+
+      if (!tag) {
+        res.status(404).send(`Tag with name "${name}" not found`);
+        return;
+      }
+
+      res.json(tag);
+    } catch (err) {
+      res.status(500).send(`Error when resolving tag: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Retrieves the details shown on the page of a tag: the tag with its excerpt and wiki, the
+   * number of questions with the tag, and its highest scored questions.
+   * If the tag is not found or an error occurs, the HTTP response status is updated.
+   *
+   * @param req The TagNameRequest object containing the tag name in the URL parameters.
+   * @param res The HTTP response object used to send back the tag details.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getTagDetailRoute = async (req: TagNameRequest, res: Response): Promise<void> => {
+    const { name } = req.params;
+
+    try {
+      const detail = await getTagDetail(name);
+
+      if (detail === null) {
+        res.status(404).send(`Tag with name "${name}" not found`);
+        return;
+      }
+
+      if ('error' in detail) {
+        throw new Error(detail.error);
+      }
+
+      res.json(detail);
+    } catch (err) {
+      res.status(500).send(`Error when fetching tag details: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Retrieves the tags most often used alongside a tag, with the number of questions that have
+   * both tags. If the tag is not found or an error occurs, the HTTP response status is updated.
+   *
+   * @param req The TagNameRequest object containing the tag name in the URL parameters.
+   * @param res The HTTP response object used to send back the related tags.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getRelatedTagsRoute = async (req: TagNameRequest, res: Response): Promise<void> => {
+    const { name } = req.params;
+
+    try {
+      const related = await getRelatedTags(name);
+
+      if (related === null) {
+        res.status(404).send(`Tag with name "${name}" not found`);
+        return;
+      }
+
+      if ('error' in related) {
+        throw new Error(related.error);
+      }
+
+      res.json(related);
+    } catch (err) {
+      res.status(500).send(`Error when fetching related tags: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Validates an edit to the wiki of a tag: the excerpt must be a non-empty string of at most
+   * 500 characters, and the wiki must be a string, which may be empty.
+   *
+   * @param edit The edit to validate.
+   *
+   * @returns `true` if the edit is valid, otherwise `false`.
+   */
+  const isTagWikiEditValid = (edit: TagWikiEdit): boolean =>
+    typeof edit.description === 'string' &&
+    edit.description.trim() !== '' &&
+    edit.description.length <= MAX_EXCERPT_LENGTH &&
+    typeof edit.wiki === 'string';
+
+  /**
+   * Edits the excerpt and wiki of a tag. Only users with the privilege to edit posts by other
+   * users can edit a tag wiki; the previous version is kept as a revision, and the editor is
+   * recorded on the tag.
+   * If the edit is invalid, the tag is not found or an error occurs, the HTTP response status
+   * is updated.
+   *
+   * @param req The EditTagWikiRequest object containing the tag name and the edit.
+   * @param res The HTTP response object used to send back the edited tag.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const editTagWiki = async (req: EditTagWikiRequest, res: Response): Promise<void> => {
+    const { name } = req.params;
+
+    if (!isTagWikiEditValid(req.body)) {
+      res.status(400).send('Invalid tag wiki');
+      return;
+    }
+
+    try {
+      const edit = { description: req.body.description.trim(), wiki: req.body.wiki.trim() };
+      const result = await updateTagWiki(name, edit, req.user!.username);
+
+      if (result === null) {
+        res.status(404).send(`Tag with name "${name}" not found`);
+        return;
+      }
+
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+
+      res.json(result);
+    } catch (err) {
+      res.status(500).send(`Error when editing tag wiki: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Retrieves the revisions of the wiki of a tag, oldest first. Each revision holds the excerpt
+   * and wiki as they were before an edit, along with who made the edit and when.
+   *
+   * @param req The TagNameRequest object containing the tag name in the URL parameters.
+   * @param res The HTTP response object used to send back the revisions.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getTagRevisionsRoute = async (req: TagNameRequest, res: Response): Promise<void> => {
+    const { name } = req.params;
+
+    try {
+      const revisions = await getTagRevisions(name);
+
+      if (revisions === null) {
+        res.status(404).send(`Tag with name "${name}" not found`);
+        return;
+      }
+
+      if ('error' in revisions) {
+        throw new Error(revisions.error);
+      }
+
+      res.json(revisions);
+    } catch (err) {
+      res.status(500).send(`Error when fetching tag revisions: ${(err as Error).message}`);
+    }
+  };
+
   // Add appropriate HTTP verbs and their endpoints to the router.
   router.get('/getTagsWithQuestionNumber', getTagsWithQuestionNumber);
   router.get('/getTagByName/:name', getTagByName); // New endpoint to get tag by name
+  router.get('/suggest', suggestTags);
+  router.get('/resolve/:name', resolveTagRoute);
+  router.post('/addSynonym', authenticate, requirePermission('mergeTags'), addSynonym);
+  router.post('/merge', authenticate, requirePermission('mergeTags'), mergeTags);
+  router.get('/getTagDetail/:name', getTagDetailRoute);
+  router.get('/related/:name', getRelatedTagsRoute);
+  router.patch('/editTagWiki/:name', authenticate, requirePrivilege('editPosts'), editTagWiki);
+  router.get('/getTagRevisions/:name', getTagRevisionsRoute);
 
   return router;
 };
@@ -1,12 +1,49 @@
-import express, { Response, Router } from 'express';
-import { UserRequest, UserByUsernameRequest } from '../types/types';
+import express, { Request, Response, Router } from 'express';
+import {
+  UserRequest,
+  UserByUsernameRequest,
+  ResetPasswordRequest,
+  TagPreference,
+  TagPreferenceRequest,
+  UpdateBioRequest,
+  ReputationsRequest,
+  LeaderboardPeriod,
+  LeaderboardRequest,
+  LeaderboardSortType,
+  SetRoleRequest,
+} from '../types/types';
 import {
   deleteUserByUsername,
   getUserByUsername,
   loginUser,
   saveUser,
   resetPassword,
+  getTagPreferences,
+  setTagPreference,
+  updateUser,
+  getVotesReceived,
+  getReputations,
+  getLeaderboard,
 } from '../services/user.service';
+import { resolveTag } from '../services/tag.service';
+import { getUserBadges } from '../services/badge.service';
+import authenticate from '../middleware/auth.middleware';
+import requirePermission from '../middleware/role.middleware';
+import { getUserPrivileges } from '../utils/privilege.util';
+import { hasPermission, isUserRole, permissionError } from '../utils/role.util';
+import {
+  createSessionToken,
+  SESSION_COOKIE_NAME,
+  SESSION_DURATION_MS,
+} from '../utils/session.util';
+
+const TAG_PREFERENCES: TagPreference[] = ['watched', 'ignored', 'none'];
+const MAX_BIO_LENGTH = 500;
+const MAX_REPUTATION_USERNAMES = 100;
+const LEADERBOARD_SORTS: LeaderboardSortType[] = ['reputation', 'answers', 'accepted', 'newest'];
+const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['week', 'month', 'all'];
+const DEFAULT_LEADERBOARD_LIMIT = 20;
+const MAX_LEADERBOARD_LIMIT = 100;
 
 const userController = (): Router => {
   const router: Router = express.Router();
@@ -22,7 +59,21 @@ const userController = (): Router => {
   };
 
   /**
-   * Handles the creation of a new user account.
+   * Starts a session for the given user by setting a signed session cookie on the response.
+   * @param res The response to set the session cookie on.
+   * @param username The username of the authenticated user.
+   */
+  const startSession = (res: Response, username: string): void => {
+    res.cookie(SESSION_COOKIE_NAME, createSessionToken(username), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: SESSION_DURATION_MS,
+    });
+  };
+
+  /**
+   * Handles the creation of a new user account, and logs the new user in.
    * @param req The request containing username, email, and password in the body.
    * @param res The response, either returning the created user or an error.
    * @returns A promise resolving to void.
@@ -40,12 +91,13 @@ const userController = (): Router => {
     if ('error' in result) {
       res.status(500).json(result);
     } else {
+      startSession(res, result.username);
       res.status(200).json(result);
     }
   };
 
   /**
-   * Handles user login by validating credentials.
+   * Handles user login by validating credentials. On success, a session is started.
    * @param req The request containing username and password in the body.
    * @param res The response, either returning the user or an error.
    * @returns A promise resolving to void.
@@ -63,10 +115,27 @@ const userController = (): Router => {
     if ('error' in result) {
       res.status(401).json(result);
     } else {
+      startSession(res, result.username);
       res.status(200).json(result);
     }
   };
 
+  /**
+   * Handles user logout by clearing the session cookie.
+   * @param _ The incoming request (not used in this function).
+   * @param res The response, confirming the logout.
+   */
+  const userLogout = (_: Request, res: Response): void => {
+    res.clearCookie(SESSION_COOKIE_NAME, { httpOnly: true, sameSite: 'lax' });
+    res.status(200).json({ msg: 'Logged out successfully' });
+  };
+
+  /**
+   * Retrieves a user by their username, with their bio, for their profile.
+   * @param req The request containing the username as a route parameter.
+   * @param res The response, either returning the user or an error.
+   * @returns A promise resolving to void.
+   */
   const getUser = async (req: UserByUsernameRequest, res: Response): Promise<void> => {
     const { username } = req.params;
 
@@ -80,7 +149,8 @@ const userController = (): Router => {
   };
 
   /**
-   * Deletes a user by their username.
+   * Deletes a user by their username. Users can delete their own account, and admins can
+   * delete any other account. Admins cannot delete their own, so that there is always an admin left.
    * @param req The request containing the username as a route parameter.
    * @param res The response, either the successfully deleted user object or returning an error.
    * @returns A promise resolving to void.
@@ -88,6 +158,16 @@ const userController = (): Router => {
   const deleteUser = async (req: UserByUsernameRequest, res: Response): Promise<void> => {
     const { username } = req.params;
 
+    if (username !== req.user!.username && !hasPermission(req.user!, 'deleteUsers')) {
+      res.status(403).send(permissionError('deleteUsers'));
+      return;
+    }
+
+    if (username === req.user!.username && req.user!.role === 'admin') {
+      res.status(400).send('Admins cannot delete their own account');
+      return;
+    }
+
     const result = await deleteUserByUsername(username);
 
     if ('error' in result) {
@@ -98,20 +178,262 @@ const userController = (): Router => {
   };
 
   /**
-   * Resets a user's password.
-   * @param req The request containing the username and new password in the body.
+   * Resets the logged-in user's password.
+   * @param req The request containing the new password in the body.
    * @param res The response, either the successfully updated user object or returning an error.
    * @returns A promise resolving to void.
    */
-  const resetPasswordHandler = async (req: UserRequest, res: Response): Promise<void> => {
-    const { username, password: newPassword } = req.body;
+  const resetPasswordHandler = async (req: ResetPasswordRequest, res: Response): Promise<void> => {
+    const { password: newPassword } = req.body;
 
-    if (typeof username !== 'string' || typeof newPassword !== 'string') {
+    if (typeof newPassword !== 'string') {
       res.status(400).send('Invalid user body');
       return;
     }
 
-    const result = await resetPassword(username, newPassword);
+    const result = await resetPassword(req.user!.username, newPassword);
+
+    if ('error' in result) {
+      res.status(404).json(result);
+    } else {
+      res.status(200).json(result);
+    }
+  };
+
+  /**
+   * Updates the bio of the logged-in user, shown on their profile.
+   * @param req The request containing the new bio in the body.
+   * @param res The response, either the successfully updated user object or returning an error.
+   * @returns A promise resolving to void.
+   */
+  const updateBio = async (req: UpdateBioRequest, res: Response): Promise<void> => {
+    const { bio } = req.body;
+
+    if (typeof bio !== 'string' || bio.trim().length > MAX_BIO_LENGTH) {
+      res.status(400).send('Invalid bio');
+      return;
+    }
+
+    const result = await updateUser(req.user!.username, { bio: bio.trim() });
+
+    if ('error' in result) {
+      res.status(404).json(result);
+    } else {
+      res.status(200).json(result);
+    }
+  };
+
+  /**
+   * Changes the role of a user. Only admins can change roles, and not their own, so that
+   * there is always an admin left.
+   * @param req The request containing the username as a route parameter and the role in the body.
+   * @param res The response, either the successfully updated user object or returning an error.
+   * @returns A promise resolving to void.
+   */
+  const setRole = async (req: SetRoleRequest, res: Response): Promise<void> => {
+    const { username } = req.params;
+    const { role } = req.body;
+
+    if (!isUserRole(role)) {
+      res.status(400).send('Invalid role');
+      return;
+    }
+
+    if (username === req.user!.username) {
+      res.status(400).send('Admins cannot change their own role');
+      return;
+    }
+
+    const result = await updateUser(username, { role });
+
+    if ('error' in result) {
+      res.status(404).json(result);
+    } else {
+      res.status(200).json(result);
+    }
+  };
+
+  /**
+   * Counts the votes cast on the questions, answers and comments written by a user.
+   * @param req The request containing the username as a route parameter.
+   * @param res The response, either returning the numbers of upvotes and downvotes or an error.
+   * @returns A promise resolving to void.
+   */
+  const getVotesReceivedHandler = async (
+    req: UserByUsernameRequest,
+    res: Response,
+  ): Promise<void> => {
+    const result = await getVotesReceived(req.params.username);
+
+    if ('error' in result) {
+      res.status(500).json(result);
+    } else {
+      res.status(200).json(result);
+    }
+  };
+
+  /**
+   * Retrieves the badges a user has earned, most recent first, for their profile.
+   * @param req The request containing the username as a route parameter.
+   * @param res The response, either returning the badges or an error.
+   * @returns A promise resolving to void.
+   */
+  const getBadgesHandler = async (req: UserByUsernameRequest, res: Response): Promise<void> => {
+    const result = await getUserBadges(req.params.username);
+
+    if ('error' in result) {
+      res.status(500).json(result);
+    } else {
+      res.status(200).json(result);
+    }
+  };
+
+  /**
+   * Retrieves the reputation of several users, such as the authors shown on a page.
+   * @param req The request containing the usernames, separated by commas, in the query.
+   * @param res The response, either returning the reputation of each user by username or an error.
+   * @returns A promise resolving to void.
+   */
+  const getReputationsHandler = async (req: ReputationsRequest, res: Response): Promise<void> => {
+    const { usernames = '' } = req.query;
+
+    if (typeof usernames !== 'string') {
+      res.status(400).send('Invalid usernames');
+      return;
+    }
+
+    const names = [...new Set(usernames.split(',').map(u => u.trim()))].filter(u => u);
+
+    if (names.length > MAX_REPUTATION_USERNAMES) {
+      res.status(400).send('Invalid usernames');
+      return;
+    }
+
+    const result = await getReputations(names);
+
+    if ('error' in result) {
+      res.status(500).json(result);
+    } else {
+      res.status(200).json(result);
+    }
+  };
+
+  /**
+   * Retrieves one page of the leaderboard, ranking users by reputation, answers, accepted
+   * answers or when they joined, over a period and optionally in the questions of one tag.
+   * @param req The request containing the ranking, period, tag, page and limit in the query.
+   * @param res The response, either returning the page of users or an error.
+   * @returns A promise resolving to void.
+   */
+  const getLeaderboardHandler = async (req: LeaderboardRequest, res: Response): Promise<void> => {
+    const { sort = 'reputation', period = 'all', tag } = req.query;
+    const page = Number(req.query.page ?? 1);
+    const limit = Number(req.query.limit ?? DEFAULT_LEADERBOARD_LIMIT);
+
+    if (!LEADERBOARD_SORTS.includes(sort)) {
+      res.status(400).send('Invalid sort order');
+      return;
+    }
+
+    if (!LEADERBOARD_PERIODS.includes(period)) {
+      res.status(400).send('Invalid period');
+      return;
+    }
+
+    if (tag !== undefined && (typeof tag !== 'string' || sort === 'newest')) {
+      res.status(400).send('Invalid tag');
+      return;
+    }
+
+    if (!Number.isInteger(page) || page < 1) {
+      res.status(400).send('Invalid page');
+      return;
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LEADERBOARD_LIMIT) {
+      res.status(400).send('Invalid limit');
+      return;
+    }
+
+    let tagId;
+
+    if (tag) {
+      const resolved = await resolveTag(tag.trim());
+
+      if (!resolved) {
+        res.status(404).send(`Tag with name "${tag.trim()}" not found`);
+        return;
+      }
+
+      tagId = resolved._id;
+    }
+
+    const result = await getLeaderboard({ sort, period, tagId, page, limit });
+
+    if ('error' in result) {
+      res.status(500).json(result);
+    } else {
+      res.status(200).json(result);
+    }
+  };
+
+  /**
+   * Retrieves what the logged-in user is allowed to do with their reputation.
+   * @param req The incoming request, with the logged-in user attached.
+   * @param res The response, returning the user's reputation, privileges and their thresholds.
+   */
+  const getPrivileges = (req: Request, res: Response): void => {
+    res.status(200).json(getUserPrivileges(req.user!));
+  };
+
+  /**
+   * Retrieves the tags the logged-in user watches and ignores.
+   * @param req The incoming request, with the logged-in user attached.
+   * @param res The response, either returning the watched and ignored tags or an error.
+   * @returns A promise resolving to void.
+   */
+  const getTagPreferencesHandler = async (req: Request, res: Response): Promise<void> => {
+    const result = await getTagPreferences(req.user!.username);
+
+    if ('error' in result) {
+      res.status(404).json(result);
+    } else {
+      res.status(200).json(result);
+    }
+  };
+
+  /**
+   * Watches, ignores or clears a tag for the logged-in user. Tags to watch or ignore must
+   * exist, and are stored under their canonical name, following synonyms.
+   * @param req The request containing the tag name and the preference in the body.
+   * @param res The response, either returning the updated watched and ignored tags or an error.
+   * @returns A promise resolving to void.
+   */
+  const setTagPreferenceHandler = async (
+    req: TagPreferenceRequest,
+    res: Response,
+  ): Promise<void> => {
+    const { tag, preference } = req.body;
+
+    if (typeof tag !== 'string' || !tag.trim() || !TAG_PREFERENCES.includes(preference)) {
+      res.status(400).send('Invalid tag preference');
+      return;
+    }
+
+    let name = tag.trim();
+
+    if (preference !== 'none') {
+      const resolved = await resolveTag(name);
+
+      if (!resolved) {
+        res.status(404).send(`Tag with name "${name}" not found`);
+        return;
+      }
+
+      name = resolved.name;
+    }
+
+    const result = await setTagPreference(req.user!.username, name, preference);
 
     if ('error' in result) {
       res.status(404).json(result);
@@ -123,9 +445,19 @@ const userController = (): Router => {
   // Define routes for the user-related operations.
   router.post('/signup', createUser);
   router.post('/login', userLogin);
+  router.post('/logout', userLogout);
   router.get('/getUser/:username', getUser);
-  router.delete('/deleteUser/:username', deleteUser);
-  router.patch('/resetPassword', resetPasswordHandler);
+  router.delete('/deleteUser/:username', authenticate, deleteUser);
+  router.patch('/resetPassword', authenticate, resetPasswordHandler);
+  router.patch('/updateBio', authenticate, updateBio);
+  router.patch('/setRole/:username', authenticate, requirePermission('manageRoles'), setRole);
+  router.get('/getVotesReceived/:username', getVotesReceivedHandler);
+  router.get('/getReputations', getReputationsHandler);
+  router.get('/leaderboard', getLeaderboardHandler);
+  router.get('/getBadges/:username', getBadgesHandler);
+  router.get('/privileges', authenticate, getPrivileges);
+  router.get('/tagPreferences', authenticate, getTagPreferencesHandler);
+  router.patch('/tagPreferences', authenticate, setTagPreferenceHandler);
 
   return router;
 };
@@ -0,0 +1,91 @@
+import { NextFunction, Request, Response } from 'express';
+import { getUserByUsername } from '../services/user.service';
+import { FakeSOConnection, SafeUser } from '../types/types';
+import { extractSessionToken, verifySessionToken } from '../utils/session.util';
+
+/**
+ * Resolves a session token to the user it belongs to.
+ *
+ * @param token The session token sent by the client.
+ *
+ * @returns A Promise that resolves to the user, or `null` if the token is invalid or expired,
+ *          or the user no longer exists.
+ */
+const getSessionUser = async (token: string): Promise<SafeUser | null> => {
+  const session = verifySessionToken(token);
+
+  if (!session) {
+    return null;
+  }
+
+  const user = await getUserByUsername(session.username);
+
+  return 'error' in user ? null : user;
+};
+
+/**
+ * Express middleware that resolves the session token sent with a request to the user it
+ * belongs to, and attaches that user to `req.user`. Requests without a valid session, or
+ * whose user no longer exists, are rejected with a 401 response.
+ *
+ * @param req The incoming request.
+ * @param res The HTTP response object used to reject unauthenticated requests.
+ * @param next The function that passes control to the next handler.
+ *
+ * @returns A Promise that resolves to void.
+ */
+const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const token = extractSessionToken(req.headers.authorization, req.headers.cookie);
+
+  if (!token) {
+    res.status(401).send('Authentication required');
+    return;
+  }
+
+  const user = await getSessionUser(token);
+
+  if (!user) {
+    res.status(401).send('Invalid or expired session');
+    return;
+  }
+
+  req.user = user;
+  next();
+};
+
+/**
+ * Socket.IO middleware that authenticates a connection during the handshake, using the same
+ * session token as the REST API. The token is read from the `token` field of the handshake
+ * auth payload, or from the session cookie. Authenticated users are attached to
+ * `socket.data.user`, and all other connections are rejected.
+ *
+ * @param socket The connecting socket.
+ * @param next The function that accepts the connection, or rejects it when given an error.
+ *
+ * @returns A Promise that resolves to void.
+ */
+export const authenticateSocket = async (
+  socket: FakeSOConnection,
+  next: (err?: Error) => void,
+): Promise<void> => {
+  const { auth, headers } = socket.handshake;
+  const bearer = typeof auth.token === 'string' ? `Bearer ${auth.token}` : undefined;
+  const token = extractSessionToken(bearer, headers.cookie);
+
+  if (!token) {
+    next(new Error('Authentication required'));
+    return;
+  }
+
+  const user = await getSessionUser(token);
+
+  if (!user) {
+    next(new Error('Invalid or expired session'));
+    return;
+  }
+
+  socket.data.user = user;
+  next();
+};
+
+export default authenticate;
@@ -0,0 +1,25 @@
+import { NextFunction, Request, Response } from 'express';
+import { Privilege } from '../types/types';
+import { hasPrivilege, privilegeError } from '../utils/privilege.util';
+
+/**
+ * Builds an Express middleware that only lets through users with enough reputation for a
+ * privilege, and rejects everyone else with a 403 response saying how much reputation they
+ * need. It must run after `authenticate`, which attaches the user to the request.
+ *
+ * @param privilege The privilege the route needs.
+ *
+ * @returns The middleware.
+ */
+const requirePrivilege =
+  (privilege: Privilege) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    if (!hasPrivilege(req.user!, privilege)) {
+      res.status(403).send(privilegeError(privilege));
+      return;
+    }
+
+    next();
+  };
+
+export default requirePrivilege;
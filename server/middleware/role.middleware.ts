@@ -0,0 +1,25 @@
+import { NextFunction, Request, Response } from 'express';
+import { Permission } from '../types/types';
+import { hasPermission, permissionError } from '../utils/role.util';
+
+/**
+ * Builds an Express middleware that only lets through users whose role allows a moderation
+ * action, and rejects everyone else with a 403 response saying which roles are allowed. It
+ * must run after `authenticate`, which attaches the user to the request.
+ *
+ * @param permission The moderation action the route takes.
+ *
+ * @returns The middleware.
+ */
+const requirePermission =
+  (permission: Permission) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    if (!hasPermission(req.user!, permission)) {
+      res.status(403).send(permissionError(permission));
+      return;
+    }
+
+    next();
+  };
+
+export default requirePermission;
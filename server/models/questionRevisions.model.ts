@@ -0,0 +1,19 @@
+import mongoose, { Model } from 'mongoose';
+import questionRevisionSchema from './schema/questionRevision.schema';
+import { QuestionRevision } from '../types/types';
+
+/**
+ * Mongoose model for the `QuestionRevision` collection.
+ *
+ * This model is created using the `QuestionRevision` interface and the `questionRevisionSchema`,
+ * representing the `QuestionRevision` collection in the MongoDB database, and provides an
+ * interface for interacting with the stored revisions.
+ *
+ * @type {Model<QuestionRevision>}
+ */
+const QuestionRevisionModel: Model<QuestionRevision> = mongoose.model<QuestionRevision>(
+  'QuestionRevision',
+  questionRevisionSchema,
+);
+
+export default QuestionRevisionModel;
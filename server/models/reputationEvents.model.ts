@@ -0,0 +1,19 @@
+import mongoose, { Model } from 'mongoose';
+import reputationEventSchema from './schema/reputationEvent.schema';
+import { ReputationEvent } from '../types/types';
+
+/**
+ * Mongoose model for the `ReputationEvent` collection.
+ *
+ * This model is created using the `ReputationEvent` interface and the `reputationEventSchema`,
+ * representing the `ReputationEvent` collection in the MongoDB database, and provides an
+ * interface for interacting with the reputation ledger.
+ *
+ * @type {Model<ReputationEvent>}
+ */
+const ReputationEventModel: Model<ReputationEvent> = mongoose.model<ReputationEvent>(
+  'ReputationEvent',
+  reputationEventSchema,
+);
+
+export default ReputationEventModel;
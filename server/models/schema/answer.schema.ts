@@ -8,6 +8,8 @@ import { Schema } from 'mongoose';
  * - `ansBy`: The username of the user who provided the answer.
  * - `ansDateTime`: The date and time when the answer was given.
  * - `comments`: Comments that have been added to the answer by users.
+ * - `upVotes`: An array of usernames that have upvoted the answer.
+ * - `downVotes`: An array of usernames that have downvoted the answer.
  */
 const answerSchema: Schema = new Schema(
   {
@@ -21,6 +23,8 @@ const answerSchema: Schema = new Schema(
       type: Date,
     },
     comments: [{ type: Schema.Types.ObjectId, ref: 'Comment' }],
+    upVotes: [{ type: String }],
+    downVotes: [{ type: String }],
   },
   { collection: 'Answer' },
 );
@@ -0,0 +1,21 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for the Badge collection.
+ *
+ * This schema defines the structure for storing the badges users can earn. Each badge is
+ * awarded by one of the badge rules, and includes the following fields:
+ * - `key`: The unique key of the rule awarding the badge.
+ * - `name`: The name of the badge.
+ * - `description`: What users did to earn the badge.
+ */
+const badgeSchema: Schema = new Schema(
+  {
+    key: { type: String, required: true, unique: true },
+    name: { type: String, required: true },
+    description: { type: String, required: true },
+  },
+  { collection: 'Badge' },
+);
+
+export default badgeSchema;
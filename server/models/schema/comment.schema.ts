@@ -8,6 +8,7 @@ import { Schema } from 'mongoose';
  * - `text`: The content of the comment.
  * - `commentBy`: The username of the user who commented.
  * - `commentDateTime`: The date and time when the comment was posted.
+ * - `upVotes`: An array of usernames that have upvoted the comment.
  */
 const commentSchema: Schema = new Schema(
   {
@@ -20,6 +21,7 @@ const commentSchema: Schema = new Schema(
     commentDateTime: {
       type: Date,
     },
+    upVotes: [{ type: String }],
   },
   { collection: 'Comment' },
 );
@@ -14,6 +14,7 @@ import { Schema } from 'mongoose';
  * - `upVotes`: An array of usernames that have upvoted the question.
  * - `downVotes`: An array of usernames that have downvoted the question.
  * - `comments`: Comments that have been added to the question by users.
+ * - `acceptedAnswer`: A reference to the `Answer` the asker accepted, or `null` if there is none.
  */
 const questionSchema: Schema = new Schema(
   {
@@ -35,8 +36,21 @@ const questionSchema: Schema = new Schema(
     upVotes: [{ type: String }],
     downVotes: [{ type: String }],
     comments: [{ type: Schema.Types.ObjectId, ref: 'Comment' }],
+    acceptedAnswer: { type: Schema.Types.ObjectId, ref: 'Answer', default: null },
   },
   { collection: 'Question' },
 );
 
+// Support sorting the question list newest first and filtering it by asker and tag.
+questionSchema.index({ askDateTime: -1, _id: -1 });
+questionSchema.index({ askedBy: 1 });
+questionSchema.index({ tags: 1 });
+
+// Full-text search over questions, with matches in the title weighing more than in the text.
+// The English language rules make searches case-insensitive and match words by their stem.
+questionSchema.index(
+  { title: 'text', text: 'text' },
+  { name: 'question_text', weights: { title: 3, text: 1 }, default_language: 'english' },
+);
+
 export default questionSchema;
@@ -0,0 +1,35 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for the QuestionRevision collection.
+ *
+ * This schema defines the structure for storing the previous versions of edited questions.
+ * Each revision includes the following fields:
+ * - `qid`: A reference to the `Question` document that was edited.
+ * - `title`: The title of the question before the edit.
+ * - `text`: The content of the question before the edit.
+ * - `tags`: The names of the question's tags before the edit.
+ * - `editedBy`: The username of the user who made the edit.
+ * - `editDateTime`: The date and time when the edit was made.
+ */
+const questionRevisionSchema: Schema = new Schema(
+  {
+    qid: { type: Schema.Types.ObjectId, ref: 'Question', index: true },
+    title: {
+      type: String,
+    },
+    text: {
+      type: String,
+    },
+    tags: [{ type: String }],
+    editedBy: {
+      type: String,
+    },
+    editDateTime: {
+      type: Date,
+    },
+  },
+  { collection: 'QuestionRevision' },
+);
+
+export default questionRevisionSchema;
@@ -0,0 +1,29 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for the ReputationEvent collection.
+ *
+ * This schema defines the structure of the reputation ledger. Each entry records a change in
+ * the reputation of a user, and includes the following fields:
+ * - `username`: The username of the user whose reputation changed.
+ * - `delta`: The change in reputation, negative when reputation is lost.
+ * - `reason`: Whether the change comes from a `vote` or an accepted answer (`accept`).
+ * - `postType`: Whether the post is a `question` or an `answer`.
+ * - `postId`: The ID of the post.
+ * - `actor`: The username of the user who voted, or who accepted the answer.
+ * - `createdAt`: The date and time of the change.
+ */
+const reputationEventSchema: Schema = new Schema(
+  {
+    username: { type: String, required: true, index: true },
+    delta: { type: Number, required: true },
+    reason: { type: String, enum: ['vote', 'accept'], required: true },
+    postType: { type: String, enum: ['question', 'answer'], required: true },
+    postId: { type: Schema.Types.ObjectId, required: true, index: true },
+    actor: { type: String, required: true },
+    createdAt: { type: Date, required: true },
+  },
+  { collection: 'ReputationEvent' },
+);
+
+export default reputationEventSchema;
@@ -6,7 +6,10 @@ import { Schema } from 'mongoose';
  * This schema defines the structure for storing tags in the database.
  * Each tag includes the following fields:
  * - `name`: The name of the tag. This field is required.
- * - `description`: A brief description of the tag. This field is required.
+ * - `description`: A short excerpt describing the tag. This field is required.
+ * - `wiki`: The long-form description of the tag. Empty until it is written.
+ * - `lastEditedBy`: The username of the user who last edited the excerpt or wiki.
+ * - `lastEditDateTime`: The date and time of the last edit to the excerpt or wiki.
  */
 const tagSchema: Schema = new Schema(
   {
@@ -18,6 +21,16 @@ const tagSchema: Schema = new Schema(
       type: String,
       required: true,
     },
+    wiki: {
+      type: String,
+      default: '',
+    },
+    lastEditedBy: {
+      type: String,
+    },
+    lastEditDateTime: {
+      type: Date,
+    },
   },
   { collection: 'Tag' },
 );
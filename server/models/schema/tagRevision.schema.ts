@@ -0,0 +1,33 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for the TagRevision collection.
+ *
+ * This schema defines the structure for storing the previous versions of edited tag wikis.
+ * Each revision includes the following fields:
+ * - `tid`: A reference to the `Tag` document that was edited.
+ * - `description`: The excerpt of the tag before the edit.
+ * - `wiki`: The wiki of the tag before the edit.
+ * - `editedBy`: The username of the user who made the edit.
+ * - `editDateTime`: The date and time when the edit was made.
+ */
+const tagRevisionSchema: Schema = new Schema(
+  {
+    tid: { type: Schema.Types.ObjectId, ref: 'Tag', index: true },
+    description: {
+      type: String,
+    },
+    wiki: {
+      type: String,
+    },
+    editedBy: {
+      type: String,
+    },
+    editDateTime: {
+      type: Date,
+    },
+  },
+  { collection: 'TagRevision' },
+);
+
+export default tagRevisionSchema;
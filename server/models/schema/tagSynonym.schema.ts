@@ -0,0 +1,24 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for the TagSynonym collection.
+ *
+ * This schema defines the structure for storing alternative names of tags, such as `js` for
+ * `javascript`. Each synonym includes the following fields:
+ * - `name`: The alternative name, in lowercase. This field is required and unique.
+ * - `tag`: A reference to the `Tag` document the name stands for. This field is required.
+ */
+const tagSynonymSchema: Schema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+    },
+    tag: { type: Schema.Types.ObjectId, ref: 'Tag', required: true, index: true },
+  },
+  { collection: 'TagSynonym' },
+);
+
+export default tagSynonymSchema;
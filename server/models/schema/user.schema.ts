@@ -1,4 +1,5 @@
 import { Schema } from 'mongoose';
+import { REPUTATION_BASE } from '../../utils/reputation.util';
 
 /**
  * Mongoose schema for the User collection.
@@ -6,13 +7,24 @@ import { Schema } from 'mongoose';
  * This schema defines the structure for storing users in the database.
  * Each User includes the following fields:
  * - `username`: The username of the user.
- * - `password`: The password securing the user's account.
+ * - `password`: The salted scrypt hash of the password securing the user's account.
  * - `dateJoined`: The date the user joined the platform.
+ * - `bio`: A few words the user wrote about themselves, shown on their profile.
+ * - `watchedTags`: The names of the tags whose questions the user wants to see first.
+ * - `ignoredTags`: The names of the tags whose questions the user does not want to see.
+ * - `reputation`: The reputation the user earned, the sum of their reputation ledger entries
+ *   on top of the reputation every user starts with.
+ * - `role`: Whether the user is a regular `user`, a `moderator` or an `admin`.
  */
 const userSchema: Schema = new Schema(
   {
     username: { type: String, required: true, unique: true },
     password: { type: String, required: true },
+    bio: { type: String, default: '' },
+    watchedTags: { type: [String], default: [] },
+    ignoredTags: { type: [String], default: [] },
+    reputation: { type: Number, default: REPUTATION_BASE },
+    role: { type: String, enum: ['user', 'moderator', 'admin'], default: 'user' },
   },
   {
     timestamps: { createdAt: 'dateJoined', updatedAt: false },
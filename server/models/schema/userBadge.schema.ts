@@ -0,0 +1,23 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for the UserBadge collection.
+ *
+ * This schema defines the structure for storing the badges users have earned. Each user earns
+ * a badge at most once, and each award includes the following fields:
+ * - `username`: The username of the user who earned the badge.
+ * - `badge`: A reference to the badge.
+ * - `awardedAt`: The date and time the badge was earned.
+ */
+const userBadgeSchema: Schema = new Schema(
+  {
+    username: { type: String, required: true },
+    badge: { type: Schema.Types.ObjectId, ref: 'Badge', required: true },
+    awardedAt: { type: Date, required: true },
+  },
+  { collection: 'UserBadge' },
+);
+
+userBadgeSchema.index({ username: 1, badge: 1 }, { unique: true });
+
+export default userBadgeSchema;
@@ -0,0 +1,19 @@
+import mongoose, { Model } from 'mongoose';
+import tagRevisionSchema from './schema/tagRevision.schema';
+import { TagRevision } from '../types/types';
+
+/**
+ * Mongoose model for the `TagRevision` collection.
+ *
+ * This model is created using the `TagRevision` interface and the `tagRevisionSchema`,
+ * representing the `TagRevision` collection in the MongoDB database, and provides an
+ * interface for interacting with the stored revisions.
+ *
+ * @type {Model<TagRevision>}
+ */
+const TagRevisionModel: Model<TagRevision> = mongoose.model<TagRevision>(
+  'TagRevision',
+  tagRevisionSchema,
+);
+
+export default TagRevisionModel;
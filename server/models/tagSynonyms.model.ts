@@ -0,0 +1,19 @@
+import mongoose, { Model } from 'mongoose';
+import tagSynonymSchema from './schema/tagSynonym.schema';
+import { TagSynonym } from '../types/types';
+
+/**
+ * Mongoose model for the `TagSynonym` collection.
+ *
+ * This model is created using the `TagSynonym` interface and the `tagSynonymSchema`,
+ * representing the `TagSynonym` collection in the MongoDB database, and provides an interface
+ * for interacting with the stored synonyms.
+ *
+ * @type {Model<TagSynonym>}
+ */
+const TagSynonymModel: Model<TagSynonym> = mongoose.model<TagSynonym>(
+  'TagSynonym',
+  tagSynonymSchema,
+);
+
+export default TagSynonymModel;
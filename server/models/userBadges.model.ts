@@ -0,0 +1,16 @@
+import mongoose, { Model } from 'mongoose';
+import userBadgeSchema from './schema/userBadge.schema';
+import { UserBadge } from '../types/types';
+
+/**
+ * Mongoose model for the `UserBadge` collection.
+ *
+ * This model is created using the `UserBadge` interface and the `userBadgeSchema`,
+ * representing the `UserBadge` collection in the MongoDB database, and provides an interface
+ * for interacting with the badges users have earned.
+ *
+ * @type {Model<UserBadge>}
+ */
+const UserBadgeModel: Model<UserBadge> = mongoose.model<UserBadge>('UserBadge', userBadgeSchema);
+
+export default UserBadgeModel;
@@ -2,7 +2,7 @@ import mongoose from 'mongoose';
 import AnswerModel from './models/answers.model';
 import QuestionModel from './models/questions.model';
 import TagModel from './models/tags.model';
-import { Answer, Comment, Question, Tag, User } from './types/types';
+import { Answer, Comment, Question, Tag, User, UserRole } from './types/types';
 import {
   Q1_DESC,
   Q1_TXT,
@@ -95,6 +95,7 @@ async function commentCreate(
     text: text,
     commentBy: commentBy,
     commentDateTime: commentDateTime,
+    upVotes: [],
   };
   return await CommentModel.create(commentDetail);
 }
@@ -122,6 +123,8 @@ async function answerCreate(
     ansBy: ansBy,
     ansDateTime: ansDateTime,
     comments: comments,
+    upVotes: [],
+    downVotes: [],
   };
   return await AnswerModel.create(answerDetail);
 }
@@ -174,7 +177,12 @@ async function questionCreate(
   return await QuestionModel.create(questionDetail);
 }
 
-async function userCreate(username: string, password: string, dateJoined: Date): Promise<User> {
+async function userCreate(
+  username: string,
+  password: string,
+  dateJoined: Date,
+  role: UserRole = 'user',
+): Promise<User> {
   if (username === '' || password === '' || dateJoined === null) {
     throw new Error('Invalid User Format');
   }
@@ -183,6 +191,7 @@ async function userCreate(username: string, password: string, dateJoined: Date):
     username,
     password,
     dateJoined,
+    role,
   };
 
   return await UserModel.create(userDetail);
@@ -205,6 +214,7 @@ const populate = async () => {
     await userCreate('abaya', 'letmein', new Date('2023-04-20T03:30:00'));
     await userCreate('mackson3332', 'TrIcKyPhRaSe', new Date('2023-07-26T03:30:00'));
     await userCreate('alia', 'correcthorsebatterystaple', new Date('2023-03-19T03:30:00'));
+    await userCreate('admin', 'adminPassword', new Date('2022-01-01T00:00:00'), 'admin');
 
     const t1 = await tagCreate(T1_NAME, T1_DESC);
     const t2 = await tagCreate(T2_NAME, T2_DESC);
@@ -0,0 +1,43 @@
+import mongoose from 'mongoose';
+import { recomputeReputation } from './services/reputation.service';
+
+// Pass URL of your mongoDB instance as first argument(e.g., mongodb://127.0.0.1:27017/fake_so)
+const userArgs = process.argv.slice(2);
+
+if (!userArgs[0] || !userArgs[0].startsWith('mongodb')) {
+  throw new Error('ERROR: You need to specify a valid mongodb URL as the first argument');
+}
+
+const mongoDB = userArgs[0];
+mongoose.connect(mongoDB);
+const db = mongoose.connection;
+
+db.on('error', console.error.bind(console, 'MongoDB connection error:'));
+
+/**
+ * Rebuilds the reputation ledger from the votes and accepted answers stored in the database,
+ * and resets the reputation of every user to match it. Safe to run at any time, for example
+ * after changing how much reputation votes are worth.
+ *
+ * @returns A Promise that resolves when the reputation has been recomputed.
+ */
+const recompute = async (): Promise<void> => {
+  try {
+    const result = await recomputeReputation();
+
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    console.log(`Recorded ${result.events} reputation changes for ${result.users} users`);
+  } catch (err) {
+    console.log('ERROR: ' + err);
+  } finally {
+    if (db) db.close();
+    console.log('done');
+  }
+};
+
+recompute();
+
+console.log('Processing ...');
@@ -1,25 +1,16 @@
-import { Answer, AnswerResponse, Question, QuestionResponse } from '../types/types';
+import {
+  Answer,
+  AnswerDeletePayload,
+  AnswerResponse,
+  AuthoredAnswer,
+  AuthoredAnswersResponse,
+  QuestionResponse,
+} from '../types/types';
 import AnswerModel from '../models/answers.model';
 import QuestionModel from '../models/questions.model';
-
-/**
- * Records the most recent answer time for a question.
- *
- * @param {Question} question - The question to check
- * @param {Map<string, Date>} mp - A map of the most recent answer time for each question
- */
-export const getMostRecentAnswerTime = (question: Question, mp: Map<string, Date>): void => {
-  // This is a private function and we can assume that the answers field is not undefined or an array of ObjectId
-  const answers = question.answers as Answer[];
-  answers.forEach((answer: Answer) => {
-    if (question._id !== undefined) {
-      const currentMostRecent = mp.get(question?._id.toString());
-      if (!currentMostRecent || currentMostRecent < answer.ansDateTime) {
-        mp.set(question._id.toString(), answer.ansDateTime);
-      }
-    }
-  });
-};
+import CommentModel from '../models/comments.model';
+import { buildVoteUpdate } from '../utils/vote.util';
+import { clearReputation, recordVote } from './reputation.service';
 
 /**
  * Saves a new answer to the database.
@@ -63,3 +54,172 @@ export const addAnswerToQuestion = async (qid: string, ans: Answer): Promise<Que
     return { error: 'Error when adding answer to question' };
   }
 };
+
+/**
+ * Fetches the answers written by a user, newest first, along with their score and the
+ * question each one answers.
+ *
+ * @param {string} username - The username of the author.
+ *
+ * @returns {Promise<AuthoredAnswersResponse>} - The answers of the user, or an error message.
+ */
+export const getAnswersByAuthor = async (username: string): Promise<AuthoredAnswersResponse> => {
+  try {
+    const answers: AuthoredAnswer[] = await AnswerModel.aggregate([
+      { $match: { ansBy: username } },
+      { $sort: { ansDateTime: -1, _id: -1 } },
+      {
+        $lookup: {
+          from: 'Question',
+          localField: '_id',
+          foreignField: 'answers',
+          pipeline: [{ $project: { title: 1 } }],
+          as: 'question',
+        },
+      },
+      { $unwind: '$question' },
+      {
+        $project: {
+          text: 1,
+          ansDateTime: 1,
+          score: {
+            $subtract: [
+              { $size: { $ifNull: ['$upVotes', []] } },
+              { $size: { $ifNull: ['$downVotes', []] } },
+            ],
+          },
+          question: 1,
+        },
+      },
+    ]);
+
+    return answers;
+  } catch (error) {
+    return { error: 'Error when fetching answers by author' };
+  }
+};
+
+/**
+ * Fetches an answer by its ID.
+ *
+ * @param {string} aid - The ID of the answer to fetch.
+ *
+ * @returns {Promise<AnswerResponse | null>} - The answer, null if the answer is not found,
+ *          or an error message.
+ */
+export const fetchAnswerById = async (aid: string): Promise<AnswerResponse | null> => {
+  try {
+    const answer = await AnswerModel.findOne({ _id: aid });
+    return answer;
+  } catch (error) {
+    return { error: 'Error when fetching an answer' };
+  }
+};
+
+/**
+ * Adds a vote to an answer, and updates the reputation of its author. Voting the same way
+ * twice cancels the vote, and voting the opposite way replaces it.
+ *
+ * @param {string} aid - The ID of the answer to add a vote to.
+ * @param {string} username - The username of the user who voted.
+ * @param {'upvote' | 'downvote'} type - The type of vote to add.
+ *
+ * @returns A Promise that resolves to an object containing either a success message or an error message,
+ *          along with the updated upVotes and downVotes arrays.
+ */
+export const addVoteToAnswer = async (
+  aid: string,
+  username: string,
+  type: 'upvote' | 'downvote',
+): Promise<{ msg: string; upVotes: string[]; downVotes: string[] } | { error: string }> => {
+  try {
+    const result = await AnswerModel.findOneAndUpdate(
+      { _id: aid },
+      buildVoteUpdate(username, type),
+      { new: true },
+    );
+
+    if (!result) {
+      return { error: 'Answer not found!' };
+    }
+
+    const reputation = await recordVote('answer', result, result.ansBy, username);
+
+    if ('error' in reputation) {
+      throw new Error(reputation.error);
+    }
+
+    let msg = '';
+
+    if (type === 'upvote') {
+      msg = result.upVotes.includes(username)
+        ? 'Answer upvoted successfully'
+        : 'Upvote cancelled successfully';
+    } else {
+      msg = result.downVotes.includes(username)
+        ? 'Answer downvoted successfully'
+        : 'Downvote cancelled successfully';
+    }
+
+    return {
+      msg,
+      upVotes: result.upVotes || [],
+      downVotes: result.downVotes || [],
+    };
+  } catch (err) {
+    return {
+      error:
+        type === 'upvote'
+          ? 'Error when adding upvote to answer'
+          : 'Error when adding downvote to answer',
+    };
+  }
+};
+
+/**
+ * Deletes an answer along with its comments, and removes it from the question it answers.
+ * If the answer was accepted, the question is left without an accepted answer. The reputation
+ * earned from the answer is taken back.
+ *
+ * @param {string} aid - The ID of the answer to delete.
+ *
+ * @returns {Promise<AnswerDeletePayload | { error: string }>} - The IDs of the deleted answer
+ *          and its question, or an error message.
+ */
+export const deleteAnswerById = async (
+  aid: string,
+): Promise<AnswerDeletePayload | { error: string }> => {
+  try {
+    const question = await QuestionModel.findOneAndUpdate(
+      { answers: aid },
+      { $pull: { answers: aid } },
+      { new: true },
+    );
+
+    if (!question) {
+      throw new Error('Question not found');
+    }
+
+    if (question.acceptedAnswer?.toString() === aid) {
+      await QuestionModel.updateOne({ _id: question._id }, { $set: { acceptedAnswer: null } });
+    }
+
+    const answer = await AnswerModel.findOneAndDelete({ _id: aid });
+
+    if (!answer) {
+      throw new Error('Answer not found');
+    }
+
+    await CommentModel.deleteMany({ _id: { $in: answer.comments } });
+
+    const reputation = await clearReputation([answer._id]);
+
+    if ('error' in reputation) {
+      throw new Error(reputation.error);
+    }
+
+    return { qid: question._id.toString(), aid: answer._id.toString() };
+  } catch (error) {
+    return { error: `Error when deleting an answer: ${(error as Error).message}` };
+  }
+};
@@ -0,0 +1,230 @@
+import BadgeModel from '../models/badges.model';
+import UserBadgeModel from '../models/userBadges.model';
+import QuestionModel from '../models/questions.model';
+import AnswerModel from '../models/answers.model';
+import TagModel from '../models/tags.model';
+import {
+  Badge,
+  BadgeActivity,
+  BadgeAward,
+  BadgeAwardsResponse,
+  BadgeEvent,
+  BadgeRule,
+  Question,
+} from '../types/types';
+import { BADGE_RULES, buildBadgeActivity, meetsBadgeRule } from '../utils/badge.util';
+
+/**
+ * Strips a stored badge down to the fields sent to clients.
+ *
+ * @param {Badge} badge - The stored badge.
+ *
+ * @returns {Badge} - The badge.
+ */
+const toBadge = (badge: Badge): Badge => ({
+  _id: badge._id,
+  key: badge.key,
+  name: badge.name,
+  description: badge.description,
+});
+
+/**
+ * Awards the badge of a rule to a user. The badge is stored the first time anyone earns it,
+ * and a user who already holds it is not awarded it again.
+ *
+ * @param {string} username - The username of the user.
+ * @param {BadgeRule} rule - The rule the user meets.
+ * @param {Date} awardedAt - The date and time of the award.
+ *
+ * @returns {Promise<BadgeAward | null>} - The award, or `null` if the user already held the badge.
+ */
+const awardBadge = async (
+  username: string,
+  rule: BadgeRule,
+  awardedAt: Date,
+): Promise<BadgeAward | null> => {
+  const badge = await BadgeModel.findOneAndUpdate(
+    { key: rule.key },
+    { $set: { name: rule.name, description: rule.description } },
+    { upsert: true, new: true },
+  );
+
+  const result = await UserBadgeModel.updateOne(
+    { username, badge: badge._id },
+    { $setOnInsert: { awardedAt } },
+    { upsert: true },
+  );
+
+  return result.upsertedCount > 0 ? { username, badge: toBadge(badge), awardedAt } : null;
+};
+
+/**
+ * Leaves out the badge rules whose badges a user already holds.
+ *
+ * @param {string} username - The username of the user.
+ * @param {BadgeRule[]} rules - The badge rules.
+ *
+ * @returns {Promise<BadgeRule[]>} - The rules for the badges the user does not hold yet.
+ */
+const filterHeldRules = async (username: string, rules: BadgeRule[]): Promise<BadgeRule[]> => {
+  const badges = await BadgeModel.find({ key: { $in: rules.map(rule => rule.key) } });
+  const held = await UserBadgeModel.find({
+    username,
+    badge: { $in: badges.map(badge => badge._id) },
+  });
+  const heldKeys = new Set(
+    badges
+      .filter(badge => held.some(award => award.badge.toString() === badge._id.toString()))
+      .map(badge => badge.key),
+  );
+
+  return rules.filter(rule => !heldKeys.has(rule.key));
+};
+
+/**
+ * Awards a user the badges of the rules they meet.
+ *
+ * @param {string} username - The username of the user.
+ * @param {BadgeRule[]} rules - The rules for the badges the user does not hold yet.
+ * @param {BadgeActivity} activity - What the user has done.
+ *
+ * @returns {Promise<BadgeAward[]>} - The badges the user has just earned.
+ */
+const awardMetRules = async (
+  username: string,
+  rules: BadgeRule[],
+  activity: BadgeActivity,
+): Promise<BadgeAward[]> => {
+  const awardedAt = new Date();
+  const awards = await Promise.all(
+    rules
+      .filter(rule => meetsBadgeRule(rule, activity))
+      .map(rule => awardBadge(username, rule, awardedAt)),
+  );
+
+  return awards.filter((award): award is BadgeAward => award !== null);
+};
+
+/**
+ * Checks the badge rules that apply after an event, and awards the user the badges they have
+ * just earned. Rules for badges the user already holds are skipped, and nothing is fetched if
+ * the user holds every badge the event could award.
+ *
+ * @param {string} username - The username of the user the event concerns, such as the author
+ *        of a question that was voted on.
+ * @param {BadgeEvent} event - The event.
+ *
+ * @returns {Promise<BadgeAwardsResponse>} - The badges the user has just earned, or an error message.
+ */
+export const checkBadges = async (
+  username: string,
+  event: BadgeEvent,
+): Promise<BadgeAwardsResponse> => {
+  try {
+    const rules = BADGE_RULES.filter(rule => rule.events.includes(event));
+
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const pending = await filterHeldRules(username, rules);
+
+    if (pending.length === 0) {
+      return [];
+    }
+
+    const answers = await AnswerModel.find({ ansBy: username }).select('_id');
+    const questions: Question[] = await QuestionModel.find({
+      $or: [{ askedBy: username }, { answers: { $in: answers.map(a => a._id) } }],
+    }).populate([
+      { path: 'tags', model: TagModel },
+      { path: 'answers', model: AnswerModel },
+    ]);
+
+    return await awardMetRules(username, pending, buildBadgeActivity(username, questions));
+  } catch (error) {
+    return { error: 'Error when checking badges' };
+  }
+};
+
+/**
+ * Checks the badge rules that apply when a question is viewed, for the user who asked it.
+ * These rules only look at the question itself, so the asker's other posts are not fetched,
+ * and nothing is fetched at all unless the question meets one of them.
+ *
+ * @param {Question} question - The question that was viewed.
+ *
+ * @returns {Promise<BadgeAwardsResponse>} - The badges the asker has just earned, or an error message.
+ */
+export const checkQuestionViewBadges = async (question: Question): Promise<BadgeAwardsResponse> => {
+  try {
+    const activity = buildBadgeActivity(question.askedBy, [question]);
+    const rules = BADGE_RULES.filter(
+      rule => rule.events.includes('view') && meetsBadgeRule(rule, activity),
+    );
+
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const pending = await filterHeldRules(question.askedBy, rules);
+
+    return await awardMetRules(question.askedBy, pending, activity);
+  } catch (error) {
+    return { error: 'Error when checking badges' };
+  }
+};
+
+/**
+ * Checks the badge rules that apply after an event on a question or an answer, such as a vote,
+ * for the author of the post.
+ *
+ * @param {'question' | 'answer'} postType - Whether the post is a question or an answer.
+ * @param {string} postId - The ID of the post.
+ * @param {BadgeEvent} event - The event.
+ *
+ * @returns {Promise<BadgeAwardsResponse>} - The badges the author has just earned, or an error message.
+ */
+export const checkPostBadges = async (
+  postType: 'question' | 'answer',
+  postId: string,
+  event: BadgeEvent,
+): Promise<BadgeAwardsResponse> => {
+  try {
+    const author =
+      postType === 'question'
+        ? (await QuestionModel.findOne({ _id: postId }).select('askedBy'))?.askedBy
+        : (await AnswerModel.findOne({ _id: postId }).select('ansBy'))?.ansBy;
+
+    if (!author) {
+      return [];
+    }
+
+    return await checkBadges(author, event);
+  } catch (error) {
+    return { error: 'Error when checking badges' };
+  }
+};
+
+/**
+ * Retrieves the badges a user has earned, most recent first.
+ *
+ * @param {string} username - The username of the user.
+ *
+ * @returns {Promise<BadgeAwardsResponse>} - The badges the user earned, or an error message.
+ */
+export const getUserBadges = async (username: string): Promise<BadgeAwardsResponse> => {
+  try {
+    const awards = await UserBadgeModel.find({ username }).sort({ awardedAt: -1 });
+    const badges = await BadgeModel.find({ _id: { $in: awards.map(award => award.badge) } });
+    const badgesById = new Map(badges.map(badge => [badge._id.toString(), badge]));
+
+    return awards.flatMap(award => {
+      const badge = badgesById.get(award.badge.toString());
+
+      return badge ? [{ username, badge: toBadge(badge), awardedAt: award.awardedAt }] : [];
+    });
+  } catch (error) {
+    return { error: 'Error when fetching badges' };
+  }
+};
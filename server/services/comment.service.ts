@@ -1,7 +1,16 @@
-import { AnswerResponse, Comment, CommentResponse, QuestionResponse } from '../types/types';
+import {
+  AnswerResponse,
+  AuthoredComment,
+  AuthoredCommentsResponse,
+  Comment,
+  CommentDeletePayload,
+  CommentResponse,
+  QuestionResponse,
+} from '../types/types';
 import AnswerModel from '../models/answers.model';
 import QuestionModel from '../models/questions.model';
 import CommentModel from '../models/comments.model';
+import { buildUpvoteUpdate } from '../utils/vote.util';
 
 /**
  * Saves a new comment to the database.
@@ -59,3 +68,165 @@ export const addComment = async (
     return { error: `Error when adding comment: ${(error as Error).message}` };
   }
 };
+
+/**
+ * Fetches the comments written by a user, newest first, along with their score and the
+ * question each one was posted on, either directly or on one of its answers.
+ *
+ * @param {string} username - The username of the author.
+ *
+ * @returns {Promise<AuthoredCommentsResponse>} - The comments of the user, or an error message.
+ */
+export const getCommentsByAuthor = async (username: string): Promise<AuthoredCommentsResponse> => {
+  try {
+    const questionTitle = { $project: { title: 1 } };
+
+    const comments: AuthoredComment[] = await CommentModel.aggregate([
+      { $match: { commentBy: username } },
+      { $sort: { commentDateTime: -1, _id: -1 } },
+      {
+        $lookup: {
+          from: 'Question',
+          localField: '_id',
+          foreignField: 'comments',
+          pipeline: [questionTitle],
+          as: 'onQuestion',
+        },
+      },
+      {
+        $lookup: {
+          from: 'Answer',
+          localField: '_id',
+          foreignField: 'comments',
+          pipeline: [
+            {
+              $lookup: {
+                from: 'Question',
+                localField: '_id',
+                foreignField: 'answers',
+                pipeline: [questionTitle],
+                as: 'question',
+              },
+            },
+            { $unwind: '$question' },
+            { $replaceWith: '$question' },
+          ],
+          as: 'onAnswer',
+        },
+      },
+      {
+        $project: {
+          text: 1,
+          commentDateTime: 1,
+          score: { $size: { $ifNull: ['$upVotes', []] } },
+          question: { $first: { $concatArrays: ['$onQuestion', '$onAnswer'] } },
+        },
+      },
+      // Comments whose question no longer exists are left out
+      { $match: { question: { $exists: true } } },
+    ]);
+
+    return comments;
+  } catch (error) {
+    return { error: 'Error when fetching comments by author' };
+  }
+};
+
+/**
+ * Fetches a comment by its ID.
+ *
+ * @param {string} cid - The ID of the comment to fetch.
+ *
+ * @returns {Promise<CommentResponse | null>} - The comment, null if the comment is not found,
+ *          or an error message.
+ */
+export const fetchCommentById = async (cid: string): Promise<CommentResponse | null> => {
+  try {
+    const comment = await CommentModel.findOne({ _id: cid });
+    return comment;
+  } catch (error) {
+    return { error: 'Error when fetching a comment' };
+  }
+};
+
+/**
+ * Adds an upvote to a comment, or cancels it if the user has already upvoted the comment.
+ * Comments cannot be downvoted.
+ *
+ * @param {string} cid - The ID of the comment to upvote.
+ * @param {string} username - The username of the user who voted.
+ *
+ * @returns A Promise that resolves to an object containing either a success message or an error message,
+ *          along with the updated upVotes array.
+ */
+export const addUpvoteToComment = async (
+  cid: string,
+  username: string,
+): Promise<{ msg: string; upVotes: string[] } | { error: string }> => {
+  try {
+    const result = await CommentModel.findOneAndUpdate({ _id: cid }, buildUpvoteUpdate(username), {
+      new: true,
+    });
+
+    if (!result) {
+      return { error: 'Comment not found!' };
+    }
+
+    return {
+      msg: result.upVotes.includes(username)
+        ? 'Comment upvoted successfully'
+        : 'Upvote cancelled successfully',
+      upVotes: result.upVotes || [],
+    };
+  } catch (err) {
+    return { error: 'Error when adding upvote to comment' };
+  }
+};
+
+/**
+ * Deletes a comment and removes it from the question or answer it was posted on.
+ *
+ * @param {string} cid - The ID of the comment to delete.
+ *
+ * @returns {Promise<CommentDeletePayload | { error: string }>} - The ID of the deleted comment
+ *          and of its parent, or an error message.
+ */
+export const deleteCommentById = async (
+  cid: string,
+): Promise<CommentDeletePayload | { error: string }> => {
+  try {
+    let payload: CommentDeletePayload;
+
+    const question = await QuestionModel.findOneAndUpdate(
+      { comments: cid },
+      { $pull: { comments: cid } },
+      { new: true },
+    );
+
+    if (question) {
+      payload = { cid, parentId: question._id.toString(), type: 'question' };
+    } else {
+      const answer = await AnswerModel.findOneAndUpdate(
+        { comments: cid },
+        { $pull: { comments: cid } },
+        { new: true },
+      );
+
+      if (!answer) {
+        throw new Error('Comment is not on a question or answer');
+      }
+
+      payload = { cid, parentId: answer._id.toString(), type: 'answer' };
+    }
+
+    const result = await CommentModel.findOneAndDelete({ _id: cid });
+
+    if (!result) {
+      throw new Error('Comment not found');
+    }
+
+    return payload;
+  } catch (error) {
+    return { error: `Error when deleting a comment: ${(error as Error).message}` };
+  }
+};
@@ -1,115 +1,314 @@
 import { ObjectId } from 'mongodb';
-import { QueryOptions } from 'mongoose';
-import { OrderType, Question, QuestionResponse } from '../types/types';
+import { FilterQuery, PipelineStage } from 'mongoose';
+import {
+  Answer,
+  AnswerOrderType,
+  ComparisonOperator,
+  Question,
+  QuestionEdit,
+  QuestionPage,
+  QuestionPageQuery,
+  QuestionPageResponse,
+  QuestionResponse,
+  QuestionRevision,
+  SearchQuery,
+  SearchSuggestionsResponse,
+  Tag,
+} from '../types/types';
 import AnswerModel from '../models/answers.model';
 import QuestionModel from '../models/questions.model';
+import QuestionRevisionModel from '../models/questionRevisions.model';
 import TagModel from '../models/tags.model';
 import CommentModel from '../models/comments.model';
-import { parseKeyword, parseTags } from '../utils/parse.util';
-import { checkTagInQuestion } from './tag.service';
-import {
-  sortQuestionsByActive,
-  sortQuestionsByMostViews,
-  sortQuestionsByNewest,
-  sortQuestionsByUnanswered,
-} from '../utils/sort.util';
+import UserModel from '../models/users.model';
+import { removeUnusedTags, resolveTag } from './tag.service';
+import { getTagPreferences } from './user.service';
+import { clearReputation, recordAcceptance, recordVote } from './reputation.service';
+import { buildQuestionOrderStages, sortAnswers } from '../utils/sort.util';
+import { buildVoteUpdate } from '../utils/vote.util';
+import { escapeRegex } from '../utils/parse.util';
+
+/**
+ * The aggregation operators for the comparison operators of numeric search filters.
+ */
+const comparisonOperators: Record<ComparisonOperator, string> = {
+  '=': '$eq',
+  '>': '$gt',
+  '>=': '$gte',
+  '<': '$lt',
+  '<=': '$lte',
+};
 
 /**
- * Checks if any keywords in the provided list exist in a given question's title or text.
+ * The maximum number of suggestions of each kind returned for text typed in the search bar.
+ */
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Builds the conditions that match questions whose title or text contains the given words,
+ * ignoring case. Words at either end of the text must be whole words.
  *
- * @param {Question} q - The question to check
- * @param {string[]} keywordlist - The list of keywords to check for
+ * @param {string} text - The words to look for
  *
- * @returns {boolean} - `true` if any keyword is present, `false` otherwise.
+ * @returns {FilterQuery<Question>[]} - The conditions on the title and on the text
  */
-const checkKeywordInQuestion = (q: Question, keywordlist: string[]): boolean => {
-  for (const w of keywordlist) {
-    if (q.title.includes(w) || q.text.includes(w)) {
-      return true;
-    }
-  }
+const containsText = (text: string): FilterQuery<Question>[] => {
+  const escaped = escapeRegex(text);
+  const start = /^\w/.test(text) ? '\\b' : '';
+  const end = /\w$/.test(text) ? '\\b' : '';
+  const regex = new RegExp(`${start}${escaped}${end}`, 'i');
 
-  return false;
+  return [{ title: regex }, { text: regex }];
 };
 
 /**
- * Retrieves questions from the database, ordered by the specified criteria.
+ * Builds the query filter that matches questions against a parsed search query. A question
+ * matches if it matches every part of the query. Keywords and phrases are matched by the text
+ * index, which ignores case and matches words by their stem, and phrases must also appear as
+ * written.
  *
- * @param {OrderType} order - The order type to filter the questions
+ * @param {SearchQuery} query - The parsed search query
  *
- * @returns {Promise<Question[]>} - Promise that resolves to a list of ordered questions
+ * @returns {Promise<FilterQuery<Question>>} - Promise that resolves to the filter, which is
+ *          empty if the query is empty
  */
-export const getQuestionsByOrder = async (order: OrderType): Promise<Question[]> => {
-  try {
-    let qlist = [];
-    if (order === 'active') {
-      qlist = await QuestionModel.find().populate([
-        { path: 'tags', model: TagModel },
-        { path: 'answers', model: AnswerModel },
-      ]);
-      return sortQuestionsByActive(qlist);
-    }
-    qlist = await QuestionModel.find().populate([{ path: 'tags', model: TagModel }]);
-    if (order === 'unanswered') {
-      return sortQuestionsByUnanswered(qlist);
+const buildSearchFilter = async (query: SearchQuery): Promise<FilterQuery<Question>> => {
+  const conditions: FilterQuery<Question>[] = [];
+
+  if (query.keywords.length > 0 || query.phrases.length > 0) {
+    const terms = [...query.keywords, ...query.phrases.map(p => `"${p}"`)];
+    conditions.push({ $text: { $search: terms.join(' ') } });
+  }
+
+  query.phrases.forEach(p => conditions.push({ $or: containsText(p) }));
+  query.excluded.forEach(e => conditions.push({ $nor: containsText(e) }));
+
+  if (query.tags.length > 0 || query.excludedTags.length > 0) {
+    // Tag names are resolved through synonyms, so that [js] finds questions tagged javascript
+    const tagIds = async (names: string[]) =>
+      (await Promise.all(names.map(resolveTag))).map(t => (t ? (t._id as ObjectId) : null));
+
+    if (query.tags.length > 0) {
+      const ids = await tagIds(query.tags);
+      // A tag that does not exist matches no question
+      conditions.push(
+        ids.every(id => id !== null) ? { tags: { $all: ids } } : { _id: { $in: [] } },
+      );
     }
-    if (order === 'newest') {
-      return sortQuestionsByNewest(qlist);
+
+    if (query.excludedTags.length > 0) {
+      const ids = await tagIds(query.excludedTags);
+      conditions.push({ tags: { $nin: ids.filter(id => id !== null) } });
     }
-    return sortQuestionsByMostViews(qlist);
-  } catch (error) {
-    return [];
   }
+
+  if (query.askedBy) {
+    conditions.push({ askedBy: query.askedBy });
+  }
+
+  if (query.answers) {
+    const { op, value } = query.answers;
+    conditions.push({ $expr: { [comparisonOperators[op]]: [{ $size: '$answers' }, value] } });
+  }
+
+  if (query.score) {
+    const { op, value } = query.score;
+    const score = { $subtract: [{ $size: '$upVotes' }, { $size: '$downVotes' }] };
+    conditions.push({ $expr: { [comparisonOperators[op]]: [score, value] } });
+  }
+
+  if (query.accepted) {
+    conditions.push({ acceptedAnswer: { $ne: null } });
+  }
+
+  if (query.created) {
+    const { from, to } = query.created;
+    conditions.push({ askDateTime: { ...(from && { $gte: from }), ...(to && { $lt: to }) } });
+  }
+
+  return conditions.length > 0 ? { $and: conditions } : {};
 };
 
 /**
- * Filters a list of questions by the user who asked them.
+ * Runs the given stages on the `Question` collection and returns one page of the resulting
+ * questions, with their tags populated, along with the total number of questions.
  *
- * @param qlist The array of Question objects to be filtered.
- * @param askedBy The username of the user who asked the questions.
+ * @param {PipelineStage[]} stages - The stages that filter and order the questions
+ * @param {number} page - The 1-based number of the page
+ * @param {number} limit - The maximum number of questions on the page
  *
- * @returns Filtered Question objects.
+ * @returns {Promise<QuestionPage>} - Promise that resolves to the page of questions
  */
-export const filterQuestionsByAskedBy = (qlist: Question[], askedBy: string): Question[] =>
-  qlist.filter(q => q.askedBy === askedBy);
+const fetchQuestionPage = async (
+  stages: PipelineStage[],
+  page: number,
+  limit: number,
+): Promise<QuestionPage> => {
+  const [result] = await QuestionModel.aggregate<{
+    questions: Question[];
+    total: { count: number }[];
+  }>([
+    ...stages,
+    {
+      $facet: {
+        questions: [{ $skip: (page - 1) * limit }, { $limit: limit }],
+        total: [{ $count: 'count' }],
+      },
+    },
+  ]);
+
+  if (!result) {
+    throw new Error('No result from the database');
+  }
+
+  const questions = await QuestionModel.populate(result.questions, {
+    path: 'tags',
+    model: TagModel,
+  });
+
+  return { questions, total: result.total[0]?.count ?? 0, page, limit };
+};
 
 /**
- * Filters questions based on a search string containing tags and/or keywords.
+ * Retrieves one page of questions from the database. The questions are filtered by asker and
+ * search query, and ordered by the specified criteria, in the database. Ordering by relevance
+ * needs keywords or phrases to score the questions against; without them, the newest questions
+ * come first.
  *
- * @param {Question[]} qlist - The list of questions to filter
- * @param {string} search - The search string containing tags and/or keywords
+ * @param {QuestionPageQuery} query - The order, search query, asker, page number and page size
  *
- * @returns {Question[]} - The filtered list of questions matching the search criteria
+ * @returns {Promise<QuestionPageResponse>} - Promise that resolves to the page of questions,
+ *          with the total number of matching questions, or an error message
  */
-export const filterQuestionsBySearch = (qlist: Question[], search: string): Question[] => {
-  const searchTags = parseTags(search);
-  const searchKeyword = parseKeyword(search);
+export const getQuestionPage = async ({
+  order,
+  search,
+  askedBy,
+  page,
+  limit,
+}: QuestionPageQuery): Promise<QuestionPageResponse> => {
+  try {
+    const filter: FilterQuery<Question> = search ? await buildSearchFilter(search) : {};
+    const hasTextSearch = !!search && search.keywords.length + search.phrases.length > 0;
 
-  if (!qlist || qlist.length === 0) {
-    return [];
-  }
-  return qlist.filter((q: Question) => {
-    if (searchKeyword.length === 0 && searchTags.length === 0) {
-      return true;
+    if (askedBy) {
+      filter.askedBy = askedBy;
     }
 
-    if (searchKeyword.length === 0) {
-      return checkTagInQuestion(q, searchTags);
-    }
+    return await fetchQuestionPage(
+      [
+        { $match: filter },
+        ...buildQuestionOrderStages(order === 'relevance' && !hasTextSearch ? 'newest' : order),
+      ],
+      page,
+      limit,
+    );
+  } catch (error) {
+    return { error: 'Error when fetching questions' };
+  }
+};
 
-    if (searchTags.length === 0) {
-      return checkKeywordInQuestion(q, searchKeyword);
+/**
+ * Retrieves one page of the personal feed of a user. Questions with any of the tags the user
+ * ignores are left out, and questions with any of the tags they watch come first. Within
+ * each group, the newest questions come first.
+ *
+ * @param {string} username - The username of the user whose feed to fetch
+ * @param {number} page - The 1-based number of the page
+ * @param {number} limit - The maximum number of questions on the page
+ *
+ * @returns {Promise<QuestionPageResponse>} - Promise that resolves to the page of questions,
+ *          with the total number of questions in the feed, or an error message
+ */
+export const getQuestionFeed = async (
+  username: string,
+  page: number,
+  limit: number,
+): Promise<QuestionPageResponse> => {
+  try {
+    const preferences = await getTagPreferences(username);
+
+    if ('error' in preferences) {
+      throw new Error(preferences.error);
     }
 
-    return checkKeywordInQuestion(q, searchKeyword) || checkTagInQuestion(q, searchTags);
-  });
+    // Tags are resolved through synonyms, so that preferences survive tags being merged
+    const tagIds = async (names: string[]) =>
+      (await Promise.all(names.map(resolveTag)))
+        .filter((t): t is Tag => t !== null)
+        .map(t => t._id as ObjectId);
+
+    const [watchedIds, ignoredIds] = await Promise.all([
+      tagIds(preferences.watchedTags),
+      tagIds(preferences.ignoredTags),
+    ]);
+
+    return await fetchQuestionPage(
+      [
+        { $match: { tags: { $nin: ignoredIds } } },
+        {
+          $addFields: {
+            watched: { $gt: [{ $size: { $setIntersection: ['$tags', watchedIds] } }, 0] },
+          },
+        },
+        { $sort: { watched: -1, askDateTime: -1, _id: -1 } },
+        { $project: { watched: 0 } },
+      ],
+      page,
+      limit,
+    );
+  } catch (error) {
+    return { error: 'Error when fetching the question feed' };
+  }
 };
 
 /**
- * Fetches a question by its ID and increments its view count.
+ * Retrieves a few suggestions for text typed in the search bar: questions whose title contains
+ * the text, and tags and users whose name starts with it, ignoring case. Only the fields shown
+ * in the suggestions are fetched.
+ *
+ * @param {string} text - The text typed so far
+ *
+ * @returns {Promise<SearchSuggestionsResponse>} - Promise that resolves to the suggestions,
+ *          or an error message
+ */
+export const getSearchSuggestions = async (text: string): Promise<SearchSuggestionsResponse> => {
+  try {
+    const contains = new RegExp(escapeRegex(text), 'i');
+    const startsWith = new RegExp(`^${escapeRegex(text)}`, 'i');
+
+    const [questions, tags, users] = await Promise.all([
+      QuestionModel.find({ title: contains }, { title: 1 })
+        .sort({ askDateTime: -1 })
+        .limit(MAX_SUGGESTIONS)
+        .lean(),
+      TagModel.find({ name: startsWith }, { name: 1 })
+        .sort({ name: 1 })
+        .limit(MAX_SUGGESTIONS)
+        .lean(),
+      UserModel.find({ username: startsWith }, { username: 1 })
+        .sort({ username: 1 })
+        .limit(MAX_SUGGESTIONS)
+        .lean(),
+    ]);
+
+    return {
+      questions: questions.map(q => ({ _id: q._id as ObjectId, title: q.title })),
+      tags: tags.map(t => t.name),
+      users: users.map(u => u.username),
+    };
+  } catch (error) {
+    return { error: 'Error when fetching search suggestions' };
+  }
+};
+
+/**
+ * Fetches a question by its ID and increments its view count. If an answer order is given, the
+ * answers are sorted in that order, with the accepted answer first.
  *
  * @param {string} qid - The ID of the question to fetch.
  * @param {string} username - The username of the user requesting the question.
+ * @param {AnswerOrderType} answerOrder - The order to sort the answers in. Optional.
  *
  * @returns {Promise<QuestionResponse | null>} - Promise that resolves to the fetched question
  *          with incremented views, null if the question is not found, or an error message.
@@ -117,6 +316,7 @@ export const filterQuestionsBySearch = (qlist: Question[], search: string): Ques
 export const fetchAndIncrementQuestionViewsById = async (
   qid: string,
   username: string,
+  answerOrder?: AnswerOrderType,
 ): Promise<QuestionResponse | null> => {
   try {
     const q = await QuestionModel.findOneAndUpdate(
@@ -135,12 +335,36 @@ export const fetchAndIncrementQuestionViewsById = async (
       },
       { path: 'comments', model: CommentModel },
     ]);
+
+    if (q && answerOrder) {
+      q.answers = sortAnswers(q.answers as Answer[], answerOrder, q.acceptedAnswer);
+    }
+
     return q;
   } catch (error) {
     return { error: 'Error when fetching and updating a question' };
   }
 };
 
+/**
+ * Fetches a question by its ID with its tags populated, without counting it as a view.
+ *
+ * @param {string} qid - The ID of the question to fetch.
+ *
+ * @returns {Promise<QuestionResponse | null>} - Promise that resolves to the question,
+ *          null if the question is not found, or an error message.
+ */
+export const fetchQuestionById = async (qid: string): Promise<QuestionResponse | null> => {
+  try {
+    const q = await QuestionModel.findOne({ _id: qid }).populate([
+      { path: 'tags', model: TagModel },
+    ]);
+    return q;
+  } catch (error) {
+    return { error: 'Error when fetching a question' };
+  }
+};
+
 /**
  * Saves a new question to the database.
  *
@@ -158,7 +382,7 @@ export const saveQuestion = async (question: Question): Promise<QuestionResponse
 };
 
 /**
- * Adds a vote to a question.
+ * Adds a vote to a question, and updates the reputation of its author.
  *
  * @param qid The ID of the question to add a vote to.
  * @param username The username of the user who voted.
@@ -172,61 +396,23 @@ export const addVoteToQuestion = async (
   username: string,
   type: 'upvote' | 'downvote',
 ): Promise<{ msg: string; upVotes: string[]; downVotes: string[] } | { error: string }> => {
-  let updateOperation: QueryOptions;
-
-  if (type === 'upvote') {
-    updateOperation = [
-      {
-        $set: {
-          upVotes: {
-            $cond: [
-              { $in: [username, '$upVotes'] },
-              { $filter: { input: '$upVotes', as: 'u', cond: { $ne: ['$$u', username] } } },
-              { $concatArrays: ['$upVotes', [username]] },
-            ],
-          },
-          downVotes: {
-            $cond: [
-              { $in: [username, '$upVotes'] },
-              '$downVotes',
-              { $filter: { input: '$downVotes', as: 'd', cond: { $ne: ['$$d', username] } } },
-            ],
-          },
-        },
-      },
-    ];
-  } else {
-    updateOperation = [
-      {
-        $set: {
-          downVotes: {
-            $cond: [
-              { $in: [username, '$downVotes'] },
-              { $filter: { input: '$downVotes', as: 'd', cond: { $ne: ['$$d', username] } } },
-              { $concatArrays: ['$downVotes', [username]] },
-            ],
-          },
-          upVotes: {
-            $cond: [
-              { $in: [username, '$downVotes'] },
-              '$upVotes',
-              { $filter: { input: '$upVotes', as: 'u', cond: { $ne: ['$$u', username] } } },
-            ],
-          },
-        },
-      },
-    ];
-  }
-
   try {
-    const result = await QuestionModel.findOneAndUpdate({ _id: qid }, updateOperation, {
-      new: true,
-    });
+    const result = await QuestionModel.findOneAndUpdate(
+      { _id: qid },
+      buildVoteUpdate(username, type),
+      { new: true },
+    );
 
     if (!result) {
       return { error: 'Question not found!' };
     }
 
+    const reputation = await recordVote('question', result, result.askedBy, username);
+
+    if ('error' in reputation) {
+      throw new Error(reputation.error);
+    }
+
     let msg = '';
 
     if (type === 'upvote') {
@@ -253,3 +439,141 @@ export const addVoteToQuestion = async (
     };
   }
 };
+
+/**
+ * Edits the title, text and tags of a question. A snapshot of the question as it was before
+ * the edit is stored as a revision.
+ *
+ * @param {Question} question - The question to edit, with its tags populated.
+ * @param {QuestionEdit} edit - The new title, text and (already processed) tags.
+ * @param {string} editedBy - The username of the user making the edit.
+ *
+ * @returns {Promise<QuestionResponse>} - The edited question, or an error message.
+ */
+export const updateQuestion = async (
+  question: Question,
+  edit: QuestionEdit,
+  editedBy: string,
+): Promise<QuestionResponse> => {
+  try {
+    await QuestionRevisionModel.create({
+      qid: question._id,
+      title: question.title,
+      text: question.text,
+      tags: question.tags.map(tag => tag.name),
+      editedBy,
+      editDateTime: new Date(),
+    });
+
+    const result = await QuestionModel.findOneAndUpdate(
+      { _id: question._id },
+      { $set: { title: edit.title, text: edit.text, tags: edit.tags.map(tag => tag._id) } },
+      { new: true },
+    );
+
+    if (!result) {
+      return { error: 'Question not found' };
+    }
+
+    return result;
+  } catch (error) {
+    return { error: 'Error when editing a question' };
+  }
+};
+
+/**
+ * Retrieves the revisions of a question, oldest first.
+ *
+ * @param {string} qid - The ID of the question.
+ *
+ * @returns {Promise<QuestionRevision[] | { error: string }>} - The revisions of the question,
+ *          or an error message.
+ */
+export const getQuestionRevisions = async (
+  qid: string,
+): Promise<QuestionRevision[] | { error: string }> => {
+  try {
+    const revisions = await QuestionRevisionModel.find({ qid }).sort({ editDateTime: 1 });
+    return revisions;
+  } catch (error) {
+    return { error: 'Error when fetching question revisions' };
+  }
+};
+
+/**
+ * Sets or clears the accepted answer of a question, and updates the reputation of the authors
+ * of the newly and previously accepted answers.
+ *
+ * @param {string} qid - The ID of the question.
+ * @param {string | null} aid - The ID of the answer to accept, or `null` to clear the accepted answer.
+ *
+ * @returns {Promise<QuestionResponse>} - The updated question, or an error message.
+ */
+export const setAcceptedAnswer = async (
+  qid: string,
+  aid: string | null,
+): Promise<QuestionResponse> => {
+  try {
+    const result = await QuestionModel.findOneAndUpdate(
+      { _id: qid },
+      { $set: { acceptedAnswer: aid ? new ObjectId(aid) : null } },
+      { new: true },
+    );
+
+    if (!result) {
+      return { error: 'Question not found' };
+    }
+
+    const reputation = await recordAcceptance(result);
+
+    if ('error' in reputation) {
+      throw new Error(reputation.error);
+    }
+
+    return result;
+  } catch (error) {
+    return { error: 'Error when updating the accepted answer' };
+  }
+};
+
+/**
+ * Deletes a question along with its answers, the comments on the question and its answers,
+ * and its revisions. Tags that are no longer used by any question are deleted as well, and
+ * the reputation earned from the question and its answers is taken back.
+ *
+ * @param {string} qid - The ID of the question to delete.
+ *
+ * @returns {Promise<QuestionResponse>} - The deleted question, or an error message.
+ */
+export const deleteQuestionById = async (qid: string): Promise<QuestionResponse> => {
+  try {
+    const question = await QuestionModel.findOneAndDelete({ _id: qid });
+
+    if (!question) {
+      return { error: 'Question not found' };
+    }
+
+    // None of the references of the deleted question are populated, so they all hold IDs
+    const answerIds = question.answers as ObjectId[];
+    const answers = await AnswerModel.find({ _id: { $in: answerIds } });
+    const commentIds = [
+      ...(question.comments as ObjectId[]),
+      ...answers.flatMap(a => a.comments as ObjectId[]),
+    ];
+
+    await CommentModel.deleteMany({ _id: { $in: commentIds } });
+    await AnswerModel.deleteMany({ _id: { $in: answerIds } });
+    await QuestionRevisionModel.deleteMany({ qid: question._id });
+    await removeUnusedTags(question.tags as unknown as ObjectId[]);
+
+    const reputation = await clearReputation([question._id, ...answerIds]);
+
+    if ('error' in reputation) {
+      throw new Error(reputation.error);
+    }
+
+    return question;
+  } catch (error) {
+    return { error: 'Error when deleting a question' };
+  }
+};
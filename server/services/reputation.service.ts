@@ -0,0 +1,237 @@
+import { ObjectId } from 'mongodb';
+import ReputationEventModel from '../models/reputationEvents.model';
+import QuestionModel from '../models/questions.model';
+import AnswerModel from '../models/answers.model';
+import UserModel from '../models/users.model';
+import {
+  ReputationEvent,
+  ReputationEventsResponse,
+  ReputationRecomputeResponse,
+  ReputationTarget,
+} from '../types/types';
+import { buildAcceptTargets, buildVoteTarget, REPUTATION_BASE } from '../utils/reputation.util';
+
+/**
+ * Identifies the ledger entries of one actor on one post for one reason, which add up to the
+ * reputation the author holds for what the actor did.
+ *
+ * @param {object} entry - The post ID, actor and reason of a ledger entry or target.
+ *
+ * @returns {string} - The key shared by the entry and its target.
+ */
+const ledgerKey = (entry: { postId: ObjectId; actor: string; reason: string }): string =>
+  `${entry.postId.toString()}:${entry.actor}:${entry.reason}`;
+
+/**
+ * Applies new ledger entries to the reputation stored on each user. Users created before
+ * reputation existed start from the base reputation.
+ *
+ * @param {ReputationEvent[]} events - The new ledger entries.
+ */
+const applyToUsers = async (events: ReputationEvent[]): Promise<void> => {
+  const deltas = new Map<string, number>();
+  events.forEach(e => deltas.set(e.username, (deltas.get(e.username) ?? 0) + e.delta));
+
+  if (deltas.size === 0) {
+    return;
+  }
+
+  await UserModel.bulkWrite(
+    [...deltas].map(([username, delta]) => ({
+      updateOne: {
+        filter: { username },
+        update: [
+          {
+            $set: { reputation: { $add: [{ $ifNull: ['$reputation', REPUTATION_BASE] }, delta] } },
+          },
+        ],
+      },
+    })),
+  );
+};
+
+/**
+ * Brings the reputation ledger in line with the current state of some posts. For each target,
+ * the entries already recorded for the same actor, post and reason are added up, and a new
+ * entry makes up the difference, so settling the same target twice changes nothing.
+ *
+ * @param {ReputationTarget[]} targets - The reputation each author should hold.
+ *
+ * @returns {Promise<ReputationEventsResponse>} - The new ledger entries, or an error message.
+ */
+export const settleReputation = async (
+  targets: ReputationTarget[],
+): Promise<ReputationEventsResponse> => {
+  try {
+    if (targets.length === 0) {
+      return [];
+    }
+
+    const recorded = await ReputationEventModel.aggregate<{
+      _id: { postId: ObjectId; actor: string; reason: string };
+      total: number;
+    }>([
+      { $match: { $or: targets.map(({ postId, actor, reason }) => ({ postId, actor, reason })) } },
+      {
+        $group: {
+          _id: { postId: '$postId', actor: '$actor', reason: '$reason' },
+          total: { $sum: '$delta' },
+        },
+      },
+    ]);
+
+    const totals = new Map(recorded.map(r => [ledgerKey(r._id), r.total]));
+    const createdAt = new Date();
+    const events: ReputationEvent[] = targets
+      .map(({ total, ...entry }) => ({
+        ...entry,
+        delta: total - (totals.get(ledgerKey(entry)) ?? 0),
+        createdAt,
+      }))
+      .filter(e => e.delta !== 0);
+
+    if (events.length > 0) {
+      await ReputationEventModel.insertMany(events);
+      await applyToUsers(events);
+    }
+
+    return events;
+  } catch (error) {
+    return { error: 'Error when updating reputation' };
+  }
+};
+
+/**
+ * Settles the reputation earned from one user's vote on a question or an answer.
+ *
+ * @param {'question' | 'answer'} postType - Whether the post is a question or an answer.
+ * @param {object} post - The post, with its ID and its votes after the vote.
+ * @param {string} author - The username of the author of the post.
+ * @param {string} voter - The username of the user who voted.
+ *
+ * @returns {Promise<ReputationEventsResponse>} - The new ledger entries, or an error message.
+ */
+export const recordVote = async (
+  postType: 'question' | 'answer',
+  post: { _id?: ObjectId; upVotes?: string[]; downVotes?: string[] },
+  author: string,
+  voter: string,
+): Promise<ReputationEventsResponse> =>
+  settleReputation([buildVoteTarget(postType, post, author, voter)]);
+
+/**
+ * Settles the reputation earned from the accepted answer of a question. Every answer to the
+ * question is settled, so the author of a previously accepted answer loses what they earned.
+ *
+ * @param {object} question - The question, with its author, its answer IDs and its accepted answer.
+ *
+ * @returns {Promise<ReputationEventsResponse>} - The new ledger entries, or an error message.
+ */
+export const recordAcceptance = async (question: {
+  askedBy: string;
+  answers: unknown[];
+  acceptedAnswer?: ObjectId | null;
+}): Promise<ReputationEventsResponse> => {
+  try {
+    const answers = await AnswerModel.find({ _id: { $in: question.answers } }).select('ansBy');
+
+    return await settleReputation(
+      buildAcceptTargets(question.askedBy, answers, question.acceptedAnswer),
+    );
+  } catch (error) {
+    return { error: 'Error when updating reputation' };
+  }
+};
+
+/**
+ * Takes back the reputation earned from posts that are being deleted.
+ *
+ * @param {ObjectId[]} postIds - The IDs of the deleted questions and answers.
+ *
+ * @returns {Promise<ReputationEventsResponse>} - The new ledger entries, or an error message.
+ */
+export const clearReputation = async (postIds: ObjectId[]): Promise<ReputationEventsResponse> => {
+  try {
+    if (postIds.length === 0) {
+      return [];
+    }
+
+    const recorded = await ReputationEventModel.aggregate<{
+      _id: Omit<ReputationTarget, 'total'>;
+      total: number;
+    }>([
+      { $match: { postId: { $in: postIds } } },
+      {
+        $group: {
+          _id: {
+            username: '$username',
+            reason: '$reason',
+            postType: '$postType',
+            postId: '$postId',
+            actor: '$actor',
+          },
+          total: { $sum: '$delta' },
+        },
+      },
+    ]);
+
+    return await settleReputation(recorded.map(r => ({ ...r._id, total: 0 })));
+  } catch (error) {
+    return { error: 'Error when updating reputation' };
+  }
+};
+
+/**
+ * Rebuilds the reputation ledger from scratch, from the votes on every question and answer
+ * and the accepted answer of every question, and recomputes the reputation of every user.
+ *
+ * @returns {Promise<ReputationRecomputeResponse>} - The numbers of ledger entries created and
+ *          users reset, or an error message.
+ */
+export const recomputeReputation = async (): Promise<ReputationRecomputeResponse> => {
+  try {
+    const [questions, answers] = await Promise.all([
+      QuestionModel.find({}).select('askedBy upVotes downVotes answers acceptedAnswer'),
+      AnswerModel.find({}).select('ansBy upVotes downVotes'),
+    ]);
+
+    const voteTargets = (
+      postType: 'question' | 'answer',
+      post: { _id?: ObjectId; upVotes?: string[]; downVotes?: string[] },
+      author: string,
+    ) =>
+      [...new Set([...(post.upVotes ?? []), ...(post.downVotes ?? [])])].map(voter =>
+        buildVoteTarget(postType, post, author, voter),
+      );
+
+    const answersById = new Map(answers.map(a => [a._id.toString(), a]));
+    const targets = [
+      ...questions.flatMap(q => voteTargets('question', q, q.askedBy)),
+      ...answers.flatMap(a => voteTargets('answer', a, a.ansBy)),
+      ...questions.flatMap(q =>
+        buildAcceptTargets(
+          q.askedBy,
+          (q.answers as ObjectId[]).flatMap(id => answersById.get(id.toString()) ?? []),
+          q.acceptedAnswer,
+        ),
+      ),
+    ];
+
+    const createdAt = new Date();
+    const events: ReputationEvent[] = targets
+      .filter(t => t.total !== 0)
+      .map(({ total, ...entry }) => ({ ...entry, delta: total, createdAt }));
+
+    await ReputationEventModel.deleteMany({});
+    const reset = await UserModel.updateMany({}, { $set: { reputation: REPUTATION_BASE } });
+
+    if (events.length > 0) {
+      await ReputationEventModel.insertMany(events);
+      await applyToUsers(events);
+    }
+
+    return { events: events.length, users: reset.matchedCount };
+  } catch (error) {
+    return { error: 'Error when recomputing reputation' };
+  }
+};
@@ -1,26 +1,31 @@
-import { Question, Tag } from '../types/types';
+import { ObjectId } from 'mongodb';
+import {
+  RelatedTagsResponse,
+  Tag,
+  TagDetailResponse,
+  TagResponse,
+  TagOrderType,
+  TagRevision,
+  TagStats,
+  TagStatsResponse,
+  TagTopQuestion,
+  TagWikiEdit,
+  TagSuggestion,
+  TagSuggestionsResponse,
+  TagSynonymResponse,
+} from '../types/types';
 import QuestionModel from '../models/questions.model';
 import TagModel from '../models/tags.model';
+import TagSynonymModel from '../models/tagSynonyms.model';
+import TagRevisionModel from '../models/tagRevisions.model';
+import { escapeRegex } from '../utils/parse.util';
+import { privilegeError } from '../utils/privilege.util';
+import { buildTagOrderStage } from '../utils/sort.util';
 
-/**
- * Checks if given question contains any tags from the given list.
- *
- * @param {Question} q - The question to check
- * @param {string[]} taglist - The list of tags to check for
- *
- * @returns {boolean} - `true` if any tag is present in the question, `false` otherwise
- */
-export const checkTagInQuestion = (q: Question, taglist: string[]): boolean => {
-  for (const tagname of taglist) {
-    for (const tag of q.tags) {
-      if (tagname === tag.name) {
-        return true;
-      }
-    }
-  }
-
-  return false;
-};
+const MAX_TAG_SUGGESTIONS = 10;
+const MAX_TOP_QUESTIONS = 5;
+const MAX_RELATED_TAGS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Adds a tag to the database if it does not already exist.
@@ -49,15 +54,44 @@ export const addTag = async (tag: Tag): Promise<Tag | null> => {
 };
 
 /**
- * Processes a list of tags by removing duplicates, checking for existing tags in the database,
- * and adding non-existing tags. Returns an array of the existing or newly added tags.
- * If an error occurs during the process, it is logged, and an empty array is returned.
+ * Finds the tag a name refers to: the tag with exactly that name, otherwise a tag with the
+ * same name ignoring case, otherwise the tag the name is a synonym of.
+ *
+ * @param {string} name - The name to resolve
+ *
+ * @returns {Promise<Tag | null>} - The tag, or `null` if the name refers to no tag
+ */
+export const resolveTag = async (name: string): Promise<Tag | null> => {
+  const tag =
+    (await TagModel.findOne({ name })) ??
+    (await TagModel.findOne({ name: new RegExp(`^${escapeRegex(name)}$`, 'i') }));
+
+  if (tag) {
+    return tag;
+  }
+
+  const synonym = await TagSynonymModel.findOne({ name: name.toLowerCase() });
+
+  return synonym ? TagModel.findById(synonym.tag) : null;
+};
+
+/**
+ * Processes a list of tags by removing duplicates, resolving each name to an existing tag
+ * through `resolveTag`, and adding the tags that do not exist. Names that resolve to the same
+ * tag, such as a tag and its synonym, are kept once. Returns an array of the existing or newly
+ * added tags. If an error occurs during the process, it is logged, and an empty array is returned.
+ * Users without the privilege to create tags can only use existing ones, so if any tag does
+ * not exist, nothing is added and an error message saying which tags are new is returned.
  *
  * @param tags The array of Tag objects to be processed.
+ * @param canCreateTags Whether tags that do not exist may be added.
  *
- * @returns A Promise that resolves to an array of Tag objects.
+ * @returns A Promise that resolves to an array of Tag objects, or an error message.
  */
-export const processTags = async (tags: Tag[]): Promise<Tag[]> => {
+export const processTags = async (
+  tags: Tag[],
+  canCreateTags = true,
+): Promise<Tag[] | { error: string }> => {
   try {
     // Extract unique tag names from the provided tags array using a Set to eliminate duplicates
     const uniqueTagNamesSet = new Set(tags.map(tag => tag.name));
@@ -67,10 +101,19 @@ export const processTags = async (tags: Tag[]): Promise<Tag[]> => {
       name => tags.find(tag => tag.name === name)!, // The '!' ensures the Tag is found, assuming no undefined values
     );
 
-    // Use Promise.all to asynchronously process each unique tag.
+    const existingTags = await Promise.all(uniqueTags.map(tag => resolveTag(tag.name)));
+    const newTags = uniqueTags.filter((_, index) => !existingTags[index]);
+
+    if (newTags.length > 0 && !canCreateTags) {
+      return {
+        error: `${privilegeError('createTag')}: ${newTags.map(tag => tag.name).join(', ')}`,
+      };
+    }
+
+    // Use Promise.all to asynchronously add each tag that does not exist.
     const processedTags = await Promise.all(
-      uniqueTags.map(async tag => {
-        const existingTag = await TagModel.findOne({ name: tag.name });
+      uniqueTags.map(async (tag, index) => {
+        const existingTag = existingTags[index];
 
         if (existingTag) {
           return existingTag; // If tag exists, return it as part of the processed tags
@@ -86,7 +129,10 @@ export const processTags = async (tags: Tag[]): Promise<Tag[]> => {
       }),
     );
 
-    return processedTags;
+    return processedTags.filter(
+      (tag, index) =>
+        processedTags.findIndex(t => t._id?.toString() === tag._id?.toString()) === index,
+    );
   } catch (error: unknown) {
     // Log the error for debugging purposes
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -97,35 +143,385 @@ export const processTags = async (tags: Tag[]): Promise<Tag[]> => {
 };
 
 /**
- * Gets a map of tags and their corresponding question counts.
+ * Gets the statistics of every tag in a single aggregation: its number of questions, how many
+ * of them were asked in the last 7 and 30 days, how many have no answers, and when a question
+ * with the tag was last asked or answered.
+ *
+ * @param {TagOrderType} order - The order of the tags: most questions, name or newest first
+ * @param {string} filter - Only tags whose name contains this text, ignoring case, are
+ *                          returned. All tags match an empty filter.
  *
- * @returns {Promise<Map<string, number> | null | { error: string }>} - A map of tags to their
- *          counts, `null` if there are no tags in the database, or the error message.
+ * @returns {Promise<TagStatsResponse>} - The statistics of the tags, or the error message.
  */
-export const getTagCountMap = async (): Promise<Map<string, number> | null | { error: string }> => {
+export const getTagStats = async (order: TagOrderType, filter = ''): Promise<TagStatsResponse> => {
   try {
-    const tlist = await TagModel.find();
-    const qlist = await QuestionModel.find().populate({
-      path: 'tags',
-      model: TagModel,
+    const now = Date.now();
+    const weekAgo = new Date(now - 7 * DAY_MS);
+    const monthAgo = new Date(now - 30 * DAY_MS);
+
+    /**
+     * Builds the expression counting the questions of a tag that match a condition.
+     *
+     * @param cond - The condition, referring to each question as `$$q`
+     */
+    const countQuestions = (cond: object) => ({
+      $size: { $filter: { input: '$questions', as: 'q', cond } },
     });
 
-    if (!tlist || tlist.length === 0) {
+    const stats: TagStats[] = await TagModel.aggregate([
+      { $match: { name: new RegExp(escapeRegex(filter), 'i') } },
+      {
+        $lookup: {
+          from: 'Question',
+          localField: '_id',
+          foreignField: 'tags',
+          pipeline: [
+            {
+              $lookup: {
+                from: 'Answer',
+                localField: 'answers',
+                foreignField: '_id',
+                pipeline: [{ $project: { ansDateTime: 1 } }],
+                as: 'answerDocs',
+              },
+            },
+            {
+              $project: {
+                askDateTime: 1,
+                answerCount: { $size: '$answers' },
+                lastActivity: { $max: ['$askDateTime', { $max: '$answerDocs.ansDateTime' }] },
+              },
+            },
+          ],
+          as: 'questions',
+        },
+      },
+      {
+        $project: {
+          name: 1,
+          description: 1,
+          qcnt: { $size: '$questions' },
+          askedThisWeek: countQuestions({ $gte: ['$$q.askDateTime', weekAgo] }),
+          askedThisMonth: countQuestions({ $gte: ['$$q.askDateTime', monthAgo] }),
+          unansweredCount: countQuestions({ $eq: ['$$q.answerCount', 0] }),
+          lastActivity: { $max: '$questions.lastActivity' },
+        },
+      },
+      buildTagOrderStage(order),
+      { $project: { _id: 0 } },
+    ]);
+
+    return stats;
+  } catch (error) {
+    return { error: 'Error when fetching tag statistics' };
+  }
+};
+
+/**
+ * Gets the tags whose name starts with the given prefix, ignoring case, along with the number
+ * of questions with each tag. A tag named exactly as the prefix comes first, followed by the
+ * most used tags.
+ *
+ * @param {string} prefix - The start of the tag name. All tags match an empty prefix.
+ *
+ * @returns {Promise<TagSuggestionsResponse>} - The matching tags, at most 10, or the error message.
+ */
+export const getTagSuggestions = async (prefix: string): Promise<TagSuggestionsResponse> => {
+  try {
+    const tags = await TagModel.find({ name: new RegExp(`^${escapeRegex(prefix)}`, 'i') }).lean();
+    const tids = tags.map(t => t._id);
+    const counts: { _id: ObjectId; qcnt: number }[] = await QuestionModel.aggregate([
+      { $match: { tags: { $in: tids } } },
+      { $unwind: '$tags' },
+      { $match: { tags: { $in: tids } } },
+      { $group: { _id: '$tags', qcnt: { $sum: 1 } } },
+    ]);
+    const countMap = new Map(counts.map(c => [c._id.toString(), c.qcnt]));
+    const isExact = (t: TagSuggestion) => t.name.toLowerCase() === prefix.toLowerCase();
+
+    return tags
+      .map(t => ({
+        name: t.name,
+        description: t.description,
+        qcnt: countMap.get(t._id.toString()) ?? 0,
+      }))
+      .sort(
+        (a, b) =>
+          Number(isExact(b)) - Number(isExact(a)) ||
+          b.qcnt - a.qcnt ||
+          a.name.localeCompare(b.name),
+      )
+      .slice(0, MAX_TAG_SUGGESTIONS);
+  } catch (error) {
+    return { error: 'Error when fetching tag suggestions' };
+  }
+};
+
+/**
+ * Adds a synonym for a tag, so that the synonym resolves to the tag. A synonym that already
+ * exists is pointed to the new tag.
+ *
+ * @param {string} synonym - The alternative name, which is stored in lowercase
+ * @param {string} tagName - The name of the tag the synonym stands for
+ *
+ * @returns {Promise<TagSynonymResponse | null>} - The saved synonym, `null` if the tag does
+ *          not exist, or the error message.
+ */
+export const addTagSynonym = async (
+  synonym: string,
+  tagName: string,
+): Promise<TagSynonymResponse | null> => {
+  try {
+    const tag = await TagModel.findOne({ name: tagName });
+
+    if (!tag) {
       return null;
     }
 
-    const tmap = new Map(tlist.map(t => [t.name, 0]));
+    const saved = await TagSynonymModel.findOneAndUpdate(
+      { name: synonym.toLowerCase() },
+      { tag: tag._id },
+      { upsert: true, new: true },
+    ).lean();
 
-    if (qlist != null && qlist !== undefined && qlist.length > 0) {
-      qlist.forEach(q => {
-        q.tags.forEach(t => {
-          tmap.set(t.name, (tmap.get(t.name) || 0) + 1);
-        });
-      });
+    if (!saved) {
+      throw new Error('Error while saving synonym');
     }
 
-    return tmap;
+    return saved;
   } catch (error) {
-    return { error: 'Error when construction tag map' };
+    return { error: 'Error when adding tag synonym' };
+  }
+};
+
+/**
+ * Merges one tag into another. Questions with the source tag get the target tag instead,
+ * the synonyms of the source tag are pointed to the target tag, the name of the source tag
+ * becomes a synonym of the target tag, and the source tag is deleted along with its revisions.
+ *
+ * @param {string} sourceName - The name of the tag to merge, which is deleted
+ * @param {string} targetName - The name of the tag to merge into, which is kept
+ *
+ * @returns {Promise<TagResponse | null>} - The target tag, `null` if either tag does not
+ *          exist, or the error message.
+ */
+export const mergeTag = async (
+  sourceName: string,
+  targetName: string,
+): Promise<TagResponse | null> => {
+  try {
+    const [source, target] = await Promise.all([
+      TagModel.findOne({ name: sourceName }),
+      TagModel.findOne({ name: targetName }),
+    ]);
+
+    if (!source || !target) {
+      return null;
+    }
+
+    // The tags are updated in two steps, as one update cannot both add to and pull from an array
+    await QuestionModel.updateMany({ tags: source._id }, { $addToSet: { tags: target._id } });
+    await QuestionModel.updateMany({ tags: source._id }, { $pull: { tags: source._id } });
+    await TagSynonymModel.updateMany({ tag: source._id }, { tag: target._id });
+    await TagSynonymModel.updateOne(
+      { name: source.name.toLowerCase() },
+      { tag: target._id },
+      { upsert: true },
+    );
+    await TagRevisionModel.deleteMany({ tid: source._id });
+    await TagModel.deleteOne({ _id: source._id });
+
+    return target;
+  } catch (error) {
+    return { error: 'Error when merging tags' };
+  }
+};
+
+/**
+ * Gets the details shown on the page of a tag: the tag with its excerpt and wiki, the number
+ * of questions with the tag, and its highest scored questions, newest first among equal scores.
+ *
+ * @param {string} name - The name of the tag
+ *
+ * @returns {Promise<TagDetailResponse | null>} - The details of the tag, `null` if the tag
+ *          does not exist, or the error message.
+ */
+export const getTagDetail = async (name: string): Promise<TagDetailResponse | null> => {
+  try {
+    const tag = await TagModel.findOne({ name }).lean();
+
+    if (!tag) {
+      return null;
+    }
+
+    const [result]: { total: { count: number }[]; top: TagTopQuestion[] }[] =
+      await QuestionModel.aggregate([
+        { $match: { tags: tag._id } },
+        {
+          $facet: {
+            total: [{ $count: 'count' }],
+            top: [
+              {
+                $project: {
+                  title: 1,
+                  askDateTime: 1,
+                  score: {
+                    $subtract: [
+                      { $size: { $ifNull: ['$upVotes', []] } },
+                      { $size: { $ifNull: ['$downVotes', []] } },
+                    ],
+                  },
+                  answerCount: { $size: { $ifNull: ['$answers', []] } },
+                },
+              },
+              { $sort: { score: -1, askDateTime: -1, _id: -1 } },
+              { $limit: MAX_TOP_QUESTIONS },
+            ],
+          },
+        },
+      ]);
+
+    if (!result) {
+      throw new Error('Error while counting questions');
+    }
+
+    return { tag, qcnt: result.total[0]?.count ?? 0, topQuestions: result.top };
+  } catch (error) {
+    return { error: 'Error when fetching tag details' };
+  }
+};
+
+/**
+ * Gets the tags most often used alongside a tag, counting the questions that have both tags.
+ * The name is resolved through `resolveTag`, so a synonym gives the related tags of its tag.
+ *
+ * @param {string} name - The name of the tag
+ *
+ * @returns {Promise<RelatedTagsResponse | null>} - The related tags, most used first and at most
+ *          10, `null` if the tag does not exist, or the error message.
+ */
+export const getRelatedTags = async (name: string): Promise<RelatedTagsResponse | null> => {
+  try {
+    const tag = await resolveTag(name);
+
+    if (!tag) {
+      return null;
+    }
+
+    return await QuestionModel.aggregate([
+      { $match: { tags: tag._id } },
+      { $unwind: '$tags' },
+      { $match: { tags: { $ne: tag._id } } },
+      { $group: { _id: '$tags', count: { $sum: 1 } } },
+      { $lookup: { from: 'Tag', localField: '_id', foreignField: '_id', as: 'tag' } },
+      { $unwind: '$tag' },
+      { $project: { _id: 0, name: '$tag.name', count: 1 } },
+      { $sort: { count: -1, name: 1 } },
+      { $limit: MAX_RELATED_TAGS },
+    ]);
+  } catch (error) {
+    return { error: 'Error when fetching related tags' };
+  }
+};
+
+/**
+ * Edits the excerpt and wiki of a tag. The previous version is kept as a revision, and the
+ * editor is recorded on the tag.
+ *
+ * @param {string} name - The name of the tag
+ * @param {TagWikiEdit} edit - The new excerpt and wiki
+ * @param {string} editedBy - The username of the user making the edit
+ *
+ * @returns {Promise<TagResponse | null>} - The edited tag, `null` if the tag does not exist,
+ *          or the error message.
+ */
+export const updateTagWiki = async (
+  name: string,
+  edit: TagWikiEdit,
+  editedBy: string,
+): Promise<TagResponse | null> => {
+  try {
+    const tag = await TagModel.findOne({ name });
+
+    if (!tag) {
+      return null;
+    }
+
+    const editDateTime = new Date();
+
+    await TagRevisionModel.create({
+      tid: tag._id,
+      description: tag.description,
+      wiki: tag.wiki ?? '',
+      editedBy,
+      editDateTime,
+    });
+
+    const result = await TagModel.findOneAndUpdate(
+      { _id: tag._id },
+      {
+        $set: {
+          description: edit.description,
+          wiki: edit.wiki,
+          lastEditedBy: editedBy,
+          lastEditDateTime: editDateTime,
+        },
+      },
+      { new: true },
+    );
+
+    if (!result) {
+      return null;
+    }
+
+    return result;
+  } catch (error) {
+    return { error: 'Error when editing tag wiki' };
+  }
+};
+
+/**
+ * Retrieves the revisions of the wiki of a tag, oldest first.
+ *
+ * @param {string} name - The name of the tag
+ *
+ * @returns {Promise<TagRevision[] | null | { error: string }>} - The revisions of the tag,
+ *          `null` if the tag does not exist, or the error message.
+ */
+export const getTagRevisions = async (
+  name: string,
+): Promise<TagRevision[] | null | { error: string }> => {
+  try {
+    const tag = await TagModel.findOne({ name });
+
+    if (!tag) {
+      return null;
+    }
+
+    return await TagRevisionModel.find({ tid: tag._id }).sort({ editDateTime: 1 });
+  } catch (error) {
+    return { error: 'Error when fetching tag revisions' };
+  }
+};
+
+/**
+ * Deletes the given tags, with their synonyms and revisions, if they are no longer used by any question.
+ *
+ * @param {ObjectId[]} tids - The IDs of the tags to check.
+ *
+ * @returns {Promise<void>} - Promise that resolves once the unused tags have been deleted.
+ */
+export const removeUnusedTags = async (tids: ObjectId[]): Promise<void> => {
+  // The tags are not populated, so the distinct values are tag IDs
+  const used = (await QuestionModel.distinct('tags', {
+    tags: { $in: tids },
+  })) as unknown as ObjectId[];
+  const usedIds = new Set(used.map(tid => tid.toString()));
+  const unused = tids.filter(tid => !usedIds.has(tid.toString()));
+
+  if (unused.length > 0) {
+    await TagModel.deleteMany({ _id: { $in: unused } });
+    await TagSynonymModel.deleteMany({ tag: { $in: unused } });
+    await TagRevisionModel.deleteMany({ tid: { $in: unused } });
   }
 };
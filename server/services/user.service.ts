@@ -1,19 +1,45 @@
+import { ObjectId } from 'mongodb';
+import { FilterQuery, PipelineStage } from 'mongoose';
 import UserModel from '../models/users.model';
-import { SafeUser, User, UserCredentials, UserResponse } from '../types/types';
+import QuestionModel from '../models/questions.model';
+import AnswerModel from '../models/answers.model';
+import CommentModel from '../models/comments.model';
+import ReputationEventModel from '../models/reputationEvents.model';
+import {
+  LeaderboardEntry,
+  LeaderboardQuery,
+  LeaderboardResponse,
+  ReputationEvent,
+  SafeUser,
+  TagPreference,
+  ReputationsResponse,
+  TagPreferencesResponse,
+  User,
+  UserCredentials,
+  UserResponse,
+  VotesReceivedResponse,
+} from '../types/types';
+import { hashPassword, isPasswordHashed, verifyPassword } from '../utils/password.util';
+import { REPUTATION_BASE } from '../utils/reputation.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const leaderboardPeriodDays = { week: 7, month: 30 };
 
 /**
- * Saves a new user to the database.
+ * Saves a new user to the database. The password is hashed before it is stored.
  *
  * @param {User} user - The user object to be saved, containing user details like username, password, etc.
  * @returns {Promise<UserResponse>} - Resolves with the saved user object (without the password) or an error message.
  */
 export const saveUser = async (user: User): Promise<UserResponse> => {
   try {
-    const createdUser = await UserModel.create(user);
-    const safeUser = await UserModel.findById(createdUser._id).select('-password');
+    const createdUser = await UserModel.create({
+      ...user,
+      password: await hashPassword(user.password),
+    });
     return {
-      username: safeUser!.username,
-      dateJoined: safeUser!.dateJoined,
+      username: createdUser.username,
+      dateJoined: createdUser.dateJoined,
     };
   } catch (error) {
     return { error: `Failed to save user` };
@@ -21,7 +47,7 @@ export const saveUser = async (user: User): Promise<UserResponse> => {
 };
 
 /**
- * Retrieves a user from the database by their username.
+ * Retrieves a user from the database by their username, with their bio, reputation and role.
  *
  * @param {string} username - The username of the user to find.
  * @returns {Promise<UserResponse>} - Resolves with the found user object (without the password) or an error message.
@@ -34,6 +60,9 @@ export const getUserByUsername = async (username: string): Promise<UserResponse>
     return {
       username: user.username,
       dateJoined: user.dateJoined,
+      bio: user.bio ?? '',
+      reputation: user.reputation ?? REPUTATION_BASE,
+      role: user.role ?? 'user',
     };
   } catch (error) {
     return { error: `Error fetching user` };
@@ -41,23 +70,31 @@ export const getUserByUsername = async (username: string): Promise<UserResponse>
 };
 
 /**
- * Authenticates a user by verifying their username and password.
+ * Authenticates a user by verifying their username and password. Accounts whose password is
+ * still stored in plain text are migrated to a hashed password once they log in successfully.
  *
  * @param {UserCredentials} loginCredentials - An object containing the username and password.
  * @returns {Promise<UserResponse>} - Resolves with the authenticated user object (without the password) or an error message.
  */
 export const loginUser = async (loginCredentials: UserCredentials): Promise<UserResponse> => {
   try {
-    const user = await UserModel.findOne({
-      username: loginCredentials.username,
-      password: loginCredentials.password,
-    }).select('-password');
+    const user = await UserModel.findOne({ username: loginCredentials.username });
+
+    if (!user || !(await verifyPassword(loginCredentials.password, user.password))) {
+      return { error: 'Invalid username or password' };
+    }
 
-    if (!user) return { error: 'Invalid username or password' };
+    if (!isPasswordHashed(user.password)) {
+      await UserModel.updateOne(
+        { _id: user._id },
+        { password: await hashPassword(loginCredentials.password) },
+      );
+    }
 
     return {
       username: user.username,
       dateJoined: user.dateJoined,
+      role: user.role ?? 'user',
     };
   } catch (error) {
     return { error: `Login failed` };
@@ -86,7 +123,7 @@ export const deleteUserByUsername = async (username: string): Promise<UserRespon
 };
 
 /**
- * Updates user information in the database.
+ * Updates user information in the database. A new password is hashed before it is stored.
  *
  * @param {string} username - The username of the user to update.
  * @param {Partial<User>} updates - An object containing the fields to update and their new values.
@@ -97,13 +134,22 @@ export const updateUser = async (
   updates: Partial<User>,
 ): Promise<UserResponse> => {
   try {
-    const updatedUser = await UserModel.findOneAndUpdate({ username }, updates, { new: true }).select('-password');
+    const safeUpdates =
+      updates.password !== undefined
+        ? { ...updates, password: await hashPassword(updates.password) }
+        : updates;
+    const updatedUser = await UserModel.findOneAndUpdate({ username }, safeUpdates, {
+      new: true,
+    }).select('-password');
 
     if (!updatedUser) return { error: 'User not found' };
 
     return {
       username: updatedUser.username,
       dateJoined: updatedUser.dateJoined,
+      bio: updatedUser.bio ?? '',
+      reputation: updatedUser.reputation ?? REPUTATION_BASE,
+      role: updatedUser.role ?? 'user',
     };
   } catch (error) {
     return { error: `Failed to update user` };
@@ -111,7 +157,7 @@ export const updateUser = async (
 };
 
 /**
- * Updates a user's password.
+ * Updates a user's password. The new password is hashed before it is stored.
  *
  * @param username - The username of the user whose password is being reset
  * @param newPassword - The new password to set
@@ -124,7 +170,7 @@ export const resetPassword = async (
   try {
     const updated = await UserModel.findOneAndUpdate(
       { username },
-      { password: newPassword },
+      { password: await hashPassword(newPassword) },
       { new: true },
     ).select('-password');
 
@@ -139,4 +185,268 @@ export const resetPassword = async (
   } catch (error) {
     return { error: `Failed to reset password` };
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Retrieves the tags a user watches and ignores.
+ *
+ * @param {string} username - The username of the user.
+ * @returns {Promise<TagPreferencesResponse>} - Resolves with the watched and ignored tag names or an error message.
+ */
+export const getTagPreferences = async (username: string): Promise<TagPreferencesResponse> => {
+  try {
+    const user = await UserModel.findOne({ username }).select('watchedTags ignoredTags');
+
+    if (!user) return { error: 'User not found' };
+
+    return {
+      watchedTags: user.watchedTags ?? [],
+      ignoredTags: user.ignoredTags ?? [],
+    };
+  } catch (error) {
+    return { error: `Error fetching tag preferences` };
+  }
+};
+
+/**
+ * Sets how a user feels about a tag. A tag is either watched, ignored or neither, so watching
+ * a tag stops ignoring it and the other way around.
+ *
+ * @param {string} username - The username of the user.
+ * @param {string} tag - The name of the tag.
+ * @param {TagPreference} preference - Whether to watch the tag, ignore it, or do neither.
+ * @returns {Promise<TagPreferencesResponse>} - Resolves with the updated watched and ignored tag names or an error message.
+ */
+export const setTagPreference = async (
+  username: string,
+  tag: string,
+  preference: TagPreference,
+): Promise<TagPreferencesResponse> => {
+  try {
+    let update;
+    if (preference === 'watched') {
+      update = { $addToSet: { watchedTags: tag }, $pull: { ignoredTags: tag } };
+    } else if (preference === 'ignored') {
+      update = { $addToSet: { ignoredTags: tag }, $pull: { watchedTags: tag } };
+    } else {
+      update = { $pull: { watchedTags: tag, ignoredTags: tag } };
+    }
+
+    const updated = await UserModel.findOneAndUpdate({ username }, update, { new: true }).select(
+      'watchedTags ignoredTags',
+    );
+
+    if (!updated) return { error: 'User not found' };
+
+    return {
+      watchedTags: updated.watchedTags ?? [],
+      ignoredTags: updated.ignoredTags ?? [],
+    };
+  } catch (error) {
+    return { error: `Failed to update tag preferences` };
+  }
+};
+
+/**
+ * Counts the votes cast on the questions, answers and comments written by a user. Comments
+ * can only be upvoted.
+ *
+ * @param {string} username - The username of the user.
+ * @returns {Promise<VotesReceivedResponse>} - Resolves with the numbers of upvotes and downvotes or an error message.
+ */
+export const getVotesReceived = async (username: string): Promise<VotesReceivedResponse> => {
+  try {
+    const countVotes = [
+      {
+        $group: {
+          _id: null,
+          upVotes: { $sum: { $size: { $ifNull: ['$upVotes', []] } } },
+          downVotes: { $sum: { $size: { $ifNull: ['$downVotes', []] } } },
+        },
+      },
+    ];
+
+    const results: { upVotes: number; downVotes: number }[][] = await Promise.all([
+      QuestionModel.aggregate([{ $match: { askedBy: username } }, ...countVotes]),
+      AnswerModel.aggregate([{ $match: { ansBy: username } }, ...countVotes]),
+      CommentModel.aggregate([{ $match: { commentBy: username } }, ...countVotes]),
+    ]);
+
+    return results.flat().reduce(
+      (total, votes) => ({
+        upVotes: total.upVotes + votes.upVotes,
+        downVotes: total.downVotes + votes.downVotes,
+      }),
+      { upVotes: 0, downVotes: 0 },
+    );
+  } catch (error) {
+    return { error: `Error fetching votes received` };
+  }
+};
+
+/**
+ * Retrieves the reputation of several users at once, such as the authors shown on a page.
+ * Usernames that do not belong to any user are left out.
+ *
+ * @param {string[]} usernames - The usernames of the users.
+ * @returns {Promise<ReputationsResponse>} - Resolves with the reputation of each user by username or an error message.
+ */
+export const getReputations = async (usernames: string[]): Promise<ReputationsResponse> => {
+  try {
+    const users = await UserModel.find({ username: { $in: usernames } }).select(
+      'username reputation',
+    );
+
+    return Object.fromEntries(users.map(u => [u.username, u.reputation ?? REPUTATION_BASE]));
+  } catch (error) {
+    return { error: `Error fetching reputations` };
+  }
+};
+
+/**
+ * Builds the stages that turn scores grouped by username into leaderboard entries, best
+ * ranked first. Users who no longer exist are left out.
+ *
+ * @param {PipelineStage[]} scoreStages - The stages that compute the score of each user, as
+ *        documents with the username as `_id` and a `score`.
+ *
+ * @returns {PipelineStage[]} - The stages producing the leaderboard entries.
+ */
+const rankUsers = (scoreStages: PipelineStage[]): PipelineStage[] => [
+  ...scoreStages,
+  { $lookup: { from: 'User', localField: '_id', foreignField: 'username', as: 'user' } },
+  { $unwind: '$user' },
+  {
+    $project: {
+      _id: 0,
+      username: '$_id',
+      reputation: { $ifNull: ['$user.reputation', REPUTATION_BASE] },
+      dateJoined: '$user.dateJoined',
+      score: 1,
+    },
+  },
+  { $sort: { score: -1, username: 1 } },
+];
+
+/**
+ * Builds the stages that count, on the `Question` collection, the answers each user wrote,
+ * or the answers of each user that were accepted.
+ *
+ * @param {'answers' | 'acceptedAnswer'} field - The field of the questions holding the answers to count.
+ * @param {ObjectId | undefined} tagId - The ID of the tag the questions must have, if any.
+ * @param {Date | null} since - The date the answers must be written after, if any.
+ *
+ * @returns {PipelineStage[]} - The stages computing the number of answers of each user.
+ */
+const countAnswers = (
+  field: 'answers' | 'acceptedAnswer',
+  tagId: ObjectId | undefined,
+  since: Date | null,
+): PipelineStage[] => [
+  { $match: tagId ? { tags: tagId } : {} },
+  { $lookup: { from: 'Answer', localField: field, foreignField: '_id', as: 'answer' } },
+  { $unwind: '$answer' },
+  ...(since ? [{ $match: { 'answer.ansDateTime': { $gte: since } } }] : []),
+  { $group: { _id: '$answer.ansBy', score: { $sum: 1 } } },
+];
+
+/**
+ * Builds the stages that add up, on the reputation ledger, the reputation each user earned
+ * during a period or from the questions of a tag and their answers.
+ *
+ * @param {ObjectId | undefined} tagId - The ID of the tag of the questions, if any.
+ * @param {Date | null} since - The date the reputation must be earned after, if any.
+ *
+ * @returns {Promise<PipelineStage[]>} - The stages computing the reputation earned by each user.
+ */
+const sumReputation = async (
+  tagId: ObjectId | undefined,
+  since: Date | null,
+): Promise<PipelineStage[]> => {
+  const filter: FilterQuery<ReputationEvent> = {};
+
+  if (since) {
+    filter.createdAt = { $gte: since };
+  }
+
+  if (tagId) {
+    const questions = await QuestionModel.find({ tags: tagId }).select('answers');
+    filter.postId = { $in: questions.flatMap(q => [q._id, ...(q.answers as ObjectId[])]) };
+  }
+
+  return [{ $match: filter }, { $group: { _id: '$username', score: { $sum: '$delta' } } }];
+};
+
+/**
+ * Retrieves one page of the leaderboard. Over all time and without a tag, users are ranked by
+ * the reputation they hold; otherwise, by the reputation recorded in the ledger for the period
+ * and the tag. Answers and accepted answers are counted by when the answers were written. The
+ * newest members are not ranked by tag.
+ *
+ * @param {LeaderboardQuery} query - The ranking, period, tag, page number and page size.
+ *
+ * @returns {Promise<LeaderboardResponse>} - Resolves with the page of users, with the total
+ *          number of users on the leaderboard, or an error message.
+ */
+export const getLeaderboard = async ({
+  sort,
+  period,
+  tagId,
+  page,
+  limit,
+}: LeaderboardQuery): Promise<LeaderboardResponse> => {
+  try {
+    const since =
+      period === 'all' ? null : new Date(Date.now() - leaderboardPeriodDays[period] * DAY_MS);
+    const facet: PipelineStage = {
+      $facet: {
+        users: [{ $skip: (page - 1) * limit }, { $limit: limit }],
+        total: [{ $count: 'count' }],
+      },
+    };
+    const memberStages: PipelineStage[] = [
+      {
+        $project: {
+          _id: 0,
+          username: 1,
+          reputation: { $ifNull: ['$reputation', REPUTATION_BASE] },
+          dateJoined: 1,
+          score: { $ifNull: ['$reputation', REPUTATION_BASE] },
+        },
+      },
+    ];
+
+    let results: { users: LeaderboardEntry[]; total: { count: number }[] }[];
+
+    if (sort === 'newest') {
+      results = await UserModel.aggregate([
+        { $match: since ? { dateJoined: { $gte: since } } : {} },
+        ...memberStages,
+        { $sort: { dateJoined: -1, username: 1 } },
+        facet,
+      ]);
+    } else if (sort === 'reputation' && !since && !tagId) {
+      results = await UserModel.aggregate([
+        ...memberStages,
+        { $sort: { score: -1, username: 1 } },
+        facet,
+      ]);
+    } else if (sort === 'reputation') {
+      results = await ReputationEventModel.aggregate([
+        ...rankUsers(await sumReputation(tagId, since)),
+        facet,
+      ]);
+    } else {
+      results = await QuestionModel.aggregate([
+        ...rankUsers(countAnswers(sort === 'answers' ? 'answers' : 'acceptedAnswer', tagId, since)),
+        facet,
+      ]);
+    }
+
+    const [result] = results;
+
+    return { users: result?.users ?? [], total: result?.total[0]?.count ?? 0, page, limit };
+  } catch (error) {
+    return { error: 'Error fetching the leaderboard' };
+  }
+};
@@ -3,11 +3,25 @@ import supertest from 'supertest';
 import { ObjectId } from 'mongodb';
 import { app } from '../../app';
 import * as answerUtil from '../../services/answer.service';
+import * as badgeUtil from '../../services/badge.service';
 import * as databaseUtil from '../../utils/database.util';
+import * as userUtil from '../../services/user.service';
+import { createSessionToken } from '../../utils/session.util';
 
 const saveAnswerSpy = jest.spyOn(answerUtil, 'saveAnswer');
 const addAnswerToQuestionSpy = jest.spyOn(answerUtil, 'addAnswerToQuestion');
 const popDocSpy = jest.spyOn(databaseUtil, 'populateDocument');
+const getAnswersByAuthorSpy = jest.spyOn(answerUtil, 'getAnswersByAuthor');
+const checkBadgesSpy = jest.spyOn(badgeUtil, 'checkBadges').mockResolvedValue([]);
+const checkPostBadgesSpy = jest.spyOn(badgeUtil, 'checkPostBadges').mockResolvedValue([]);
+
+const AUTH_HEADER = `Bearer ${createSessionToken('dummyUserId')}`;
+
+const getUserByUsernameSpy = jest.spyOn(userUtil, 'getUserByUsername').mockResolvedValue({
+  username: 'dummyUserId',
+  dateJoined: new Date('2024-06-01'),
+  reputation: 500,
+});
 
 describe('POST /addAnswer', () => {
   it('should add a new answer to the question', async () => {
@@ -28,6 +42,8 @@ describe('POST /addAnswer', () => {
       ansBy: 'dummyUserId',
       ansDateTime: new Date('2024-06-03'),
       comments: [],
+      upVotes: [],
+      downVotes: [],
     };
     saveAnswerSpy.mockResolvedValueOnce(mockAnswer);
 
@@ -59,7 +75,10 @@ describe('POST /addAnswer', () => {
       comments: [],
     });
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
 
     expect(response.status).toBe(200);
     expect(response.body).toEqual({
@@ -68,7 +87,10 @@ describe('POST /addAnswer', () => {
       ansBy: 'dummyUserId',
       ansDateTime: mockAnswer.ansDateTime.toISOString(),
       comments: [],
+      upVotes: [],
+      downVotes: [],
     });
+    expect(checkBadgesSpy).toHaveBeenCalledWith('dummyUserId', 'answer');
   });
 
   it('should return bad request error if answer text property is missing', async () => {
@@ -80,7 +102,10 @@ describe('POST /addAnswer', () => {
       },
     };
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid answer');
@@ -94,23 +119,28 @@ describe('POST /addAnswer', () => {
       },
     };
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
   });
 
-  it('should return bad request error if answer object has ansBy property missing', async () => {
+  it('should return unauthorized if the request has no session', async () => {
     const mockReqBody = {
       qid: 'dummyQuestionId',
       ans: {
         text: 'This is a test answer',
+        ansBy: 'dummyUserId',
         ansDateTime: new Date('2024-06-03'),
       },
     };
 
     const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
 
-    expect(response.status).toBe(400);
+    expect(response.status).toBe(401);
+    expect(saveAnswerSpy).not.toHaveBeenCalled();
   });
 
   it('should return bad request error if answer object has ansDateTime property missing', async () => {
@@ -122,13 +152,18 @@ describe('POST /addAnswer', () => {
       },
     };
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
   });
 
   it('should return bad request error if request body is missing', async () => {
-    const response = await supertest(app).post('/answer/addAnswer');
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', AUTH_HEADER);
 
     expect(response.status).toBe(400);
   });
@@ -146,7 +181,10 @@ describe('POST /addAnswer', () => {
 
     saveAnswerSpy.mockResolvedValueOnce({ error: 'Error when saving an answer' });
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
 
     expect(response.status).toBe(500);
   });
@@ -168,12 +206,17 @@ describe('POST /addAnswer', () => {
       ansBy: 'dummyUserId',
       ansDateTime: new Date('2024-06-03'),
       comments: [],
+      upVotes: [],
+      downVotes: [],
     };
 
     saveAnswerSpy.mockResolvedValueOnce(mockAnswer);
     addAnswerToQuestionSpy.mockResolvedValueOnce({ error: 'Error when adding answer to question' });
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
 
     expect(response.status).toBe(500);
   });
@@ -195,6 +238,8 @@ describe('POST /addAnswer', () => {
       ansBy: 'dummyUserId',
       ansDateTime: new Date('2024-06-03'),
       comments: [],
+      upVotes: [],
+      downVotes: [],
     };
 
     const mockQuestion = {
@@ -215,8 +260,262 @@ describe('POST /addAnswer', () => {
     addAnswerToQuestionSpy.mockResolvedValueOnce(mockQuestion);
     popDocSpy.mockResolvedValueOnce({ error: 'Error when populating document' });
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(500);
+  });
+});
+
+describe('DELETE /deleteAnswer/:aid', () => {
+  const fetchAnswerByIdSpy = jest.spyOn(answerUtil, 'fetchAnswerById');
+  const deleteAnswerByIdSpy = jest.spyOn(answerUtil, 'deleteAnswerById');
+
+  const aid = new mongoose.Types.ObjectId();
+  const mockAnswer = {
+    _id: aid,
+    text: 'This is a test answer',
+    ansBy: 'dummyUserId',
+    ansDateTime: new Date('2024-06-03'),
+    comments: [],
+    upVotes: [],
+    downVotes: [],
+  };
+
+  it('should delete the answer and return the IDs of the answer and its question', async () => {
+    const payload = { qid: new mongoose.Types.ObjectId().toString(), aid: aid.toString() };
+    fetchAnswerByIdSpy.mockResolvedValueOnce(mockAnswer);
+    deleteAnswerByIdSpy.mockResolvedValueOnce(payload);
+
+    const response = await supertest(app)
+      .delete(`/answer/deleteAnswer/${aid}`)
+      .set('Authorization', AUTH_HEADER);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(payload);
+    expect(deleteAnswerByIdSpy).toHaveBeenCalledWith(aid.toString());
+  });
+
+  it('should return bad request if the answer ID is invalid', async () => {
+    const response = await supertest(app)
+      .delete('/answer/deleteAnswer/invalid-id')
+      .set('Authorization', AUTH_HEADER);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return not found if the answer does not exist', async () => {
+    fetchAnswerByIdSpy.mockResolvedValueOnce(null);
+
+    const response = await supertest(app)
+      .delete(`/answer/deleteAnswer/${aid}`)
+      .set('Authorization', AUTH_HEADER);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return forbidden if the user is not the author of the answer', async () => {
+    fetchAnswerByIdSpy.mockResolvedValueOnce({ ...mockAnswer, ansBy: 'someone_else' });
+
+    const response = await supertest(app)
+      .delete(`/answer/deleteAnswer/${aid}`)
+      .set('Authorization', AUTH_HEADER);
+
+    expect(response.status).toBe(403);
+    expect(deleteAnswerByIdSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return unauthorized if the request has no session', async () => {
+    const response = await supertest(app).delete(`/answer/deleteAnswer/${aid}`);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return database error if deleting the answer fails', async () => {
+    fetchAnswerByIdSpy.mockResolvedValueOnce(mockAnswer);
+    deleteAnswerByIdSpy.mockResolvedValueOnce({ error: 'Error when deleting an answer' });
+
+    const response = await supertest(app)
+      .delete(`/answer/deleteAnswer/${aid}`)
+      .set('Authorization', AUTH_HEADER);
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe('Error when deleting answer: Error when deleting an answer');
+  });
+});
+
+describe('POST /upvoteAnswer', () => {
+  const addVoteToAnswerSpy = jest.spyOn(answerUtil, 'addVoteToAnswer');
+  const validAid = new mongoose.Types.ObjectId().toString();
+
+  it('should upvote an answer as the logged-in user', async () => {
+    const mockResponse = {
+      msg: 'Answer upvoted successfully',
+      upVotes: ['dummyUserId'],
+      downVotes: [],
+    };
+    addVoteToAnswerSpy.mockResolvedValueOnce(mockResponse);
+
+    const response = await supertest(app)
+      .post('/answer/upvoteAnswer')
+      .set('Authorization', AUTH_HEADER)
+      .send({ aid: validAid });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(mockResponse);
+    expect(addVoteToAnswerSpy).toHaveBeenCalledWith(validAid, 'dummyUserId', 'upvote');
+    expect(checkPostBadgesSpy).toHaveBeenCalledWith('answer', validAid, 'vote');
+  });
+
+  it('should still upvote the answer if the badge check fails', async () => {
+    const mockResponse = {
+      msg: 'Answer upvoted successfully',
+      upVotes: ['dummyUserId'],
+      downVotes: [],
+    };
+    addVoteToAnswerSpy.mockResolvedValueOnce(mockResponse);
+    checkPostBadgesSpy.mockRejectedValueOnce(new Error('Database unavailable'));
+
+    const response = await supertest(app)
+      .post('/answer/upvoteAnswer')
+      .set('Authorization', AUTH_HEADER)
+      .send({ aid: validAid });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(mockResponse);
+    expect(checkPostBadgesSpy).toHaveBeenCalledWith('answer', validAid, 'vote');
+  });
+
+  it('should return bad request if the answer ID is missing', async () => {
+    const response = await supertest(app)
+      .post('/answer/upvoteAnswer')
+      .set('Authorization', AUTH_HEADER)
+      .send({});
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return bad request if the answer ID is invalid', async () => {
+    const response = await supertest(app)
+      .post('/answer/upvoteAnswer')
+      .set('Authorization', AUTH_HEADER)
+      .send({ aid: 'invalid-id' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid ID format');
+  });
+
+  it('should return unauthorized if the request has no session', async () => {
+    const response = await supertest(app).post('/answer/upvoteAnswer').send({ aid: validAid });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return database error if voting fails', async () => {
+    addVoteToAnswerSpy.mockResolvedValueOnce({ error: 'Error when adding upvote to answer' });
+
+    const response = await supertest(app)
+      .post('/answer/upvoteAnswer')
+      .set('Authorization', AUTH_HEADER)
+      .send({ aid: validAid });
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe('Error when upvoteing: Error when adding upvote to answer');
+  });
+});
+
+describe('POST /downvoteAnswer', () => {
+  const addVoteToAnswerSpy = jest.spyOn(answerUtil, 'addVoteToAnswer');
+  const validAid = new mongoose.Types.ObjectId().toString();
+
+  it('should downvote an answer as the logged-in user', async () => {
+    const mockResponse = {
+      msg: 'Answer downvoted successfully',
+      upVotes: [],
+      downVotes: ['dummyUserId'],
+    };
+    addVoteToAnswerSpy.mockResolvedValueOnce(mockResponse);
+
+    const response = await supertest(app)
+      .post('/answer/downvoteAnswer')
+      .set('Authorization', AUTH_HEADER)
+      .send({ aid: validAid });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(mockResponse);
+    expect(addVoteToAnswerSpy).toHaveBeenCalledWith(validAid, 'dummyUserId', 'downvote');
+  });
+
+  it('should return database error if voting fails', async () => {
+    addVoteToAnswerSpy.mockResolvedValueOnce({ error: 'Error when adding downvote to answer' });
+
+    const response = await supertest(app)
+      .post('/answer/downvoteAnswer')
+      .set('Authorization', AUTH_HEADER)
+      .send({ aid: validAid });
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe('Error when downvoteing: Error when adding downvote to answer');
+  });
+
+  it('should return forbidden if the user does not have enough reputation to downvote', async () => {
+    getUserByUsernameSpy.mockResolvedValueOnce({
+      username: 'dummyUserId',
+      dateJoined: new Date('2024-06-01'),
+      reputation: 124,
+    });
+
+    const response = await supertest(app)
+      .post('/answer/downvoteAnswer')
+      .set('Authorization', AUTH_HEADER)
+      .send({ aid: validAid });
+
+    expect(response.status).toBe(403);
+    expect(response.text).toBe('You need 125 reputation to downvote');
+    expect(addVoteToAnswerSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /getAnswersByAuthor', () => {
+  it('should return the answers of the user', async () => {
+    const answerId = new mongoose.Types.ObjectId();
+    const questionId = new mongoose.Types.ObjectId();
+    getAnswersByAuthorSpy.mockResolvedValueOnce([
+      {
+        _id: answerId,
+        text: 'Answer text',
+        ansDateTime: new Date('2024-06-06'),
+        score: 2,
+        question: { _id: questionId, title: 'Question title' },
+      },
+    ]);
+
+    const response = await supertest(app).get('/answer/getAnswersByAuthor/dummyUserId');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual([
+      {
+        _id: answerId.toString(),
+        text: 'Answer text',
+        ansDateTime: new Date('2024-06-06').toISOString(),
+        score: 2,
+        question: { _id: questionId.toString(), title: 'Question title' },
+      },
+    ]);
+    expect(getAnswersByAuthorSpy).toHaveBeenCalledWith('dummyUserId');
+  });
+
+  it('should return 500 if fetching the answers fails', async () => {
+    getAnswersByAuthorSpy.mockResolvedValueOnce({ error: 'Error when fetching answers by author' });
+
+    const response = await supertest(app).get('/answer/getAnswersByAuthor/dummyUserId');
 
     expect(response.status).toBe(500);
+    expect(response.text).toBe(
+      'Error when fetching answers by author: Error when fetching answers by author',
+    );
   });
 });
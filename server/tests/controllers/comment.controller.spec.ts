@@ -2,12 +2,25 @@ import mongoose from 'mongoose';
 import supertest from 'supertest';
 import { app } from '../../app';
 import * as commentUtil from '../../services/comment.service';
+import * as questionUtil from '../../services/question.service';
+import * as answerUtil from '../../services/answer.service';
 import * as databaseUtil from '../../utils/database.util';
 import { Question } from '../../types/types';
+import * as userUtil from '../../services/user.service';
+import { createSessionToken } from '../../utils/session.util';
 
 const saveCommentSpy = jest.spyOn(commentUtil, 'saveComment');
 const addCommentSpy = jest.spyOn(commentUtil, 'addComment');
 const popDocSpy = jest.spyOn(databaseUtil, 'populateDocument');
+const getCommentsByAuthorSpy = jest.spyOn(commentUtil, 'getCommentsByAuthor');
+
+const AUTH_HEADER = `Bearer ${createSessionToken('dummyUserId')}`;
+
+const getUserByUsernameSpy = jest.spyOn(userUtil, 'getUserByUsername').mockResolvedValue({
+  username: 'dummyUserId',
+  dateJoined: new Date('2024-06-01'),
+  reputation: 500,
+});
 
 describe('POST /addComment', () => {
   it('should add a new comment to the question', async () => {
@@ -20,6 +33,7 @@ describe('POST /addComment', () => {
         text: 'This is a test comment',
         commentBy: 'dummyUserId',
         commentDateTime: new Date('2024-06-03'),
+        upVotes: [],
       },
     };
 
@@ -28,6 +42,7 @@ describe('POST /addComment', () => {
       text: 'This is a test comment',
       commentBy: 'dummyUserId',
       commentDateTime: new Date('2024-06-03'),
+      upVotes: [],
     };
 
     saveCommentSpy.mockResolvedValueOnce(mockComment);
@@ -60,7 +75,10 @@ describe('POST /addComment', () => {
       comments: [mockComment],
     });
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
 
     expect(response.status).toBe(200);
     expect(response.body).toEqual({
@@ -68,6 +86,7 @@ describe('POST /addComment', () => {
       text: 'This is a test comment',
       commentBy: 'dummyUserId',
       commentDateTime: mockComment.commentDateTime.toISOString(),
+      upVotes: [],
     });
   });
 
@@ -81,6 +100,7 @@ describe('POST /addComment', () => {
         text: 'This is a test comment',
         commentBy: 'dummyUserId',
         commentDateTime: new Date('2024-06-03'),
+        upVotes: [],
       },
     };
 
@@ -89,6 +109,7 @@ describe('POST /addComment', () => {
       text: 'This is a test comment',
       commentBy: 'dummyUserId',
       commentDateTime: new Date('2024-06-03'),
+      upVotes: [],
     };
 
     saveCommentSpy.mockResolvedValueOnce(mockComment);
@@ -99,6 +120,8 @@ describe('POST /addComment', () => {
       ansBy: 'dummyUserId',
       ansDateTime: new Date('2024-06-03'),
       comments: [mockComment._id],
+      upVotes: [],
+      downVotes: [],
     });
 
     popDocSpy.mockResolvedValueOnce({
@@ -107,9 +130,14 @@ describe('POST /addComment', () => {
       ansBy: 'dummyUserId',
       ansDateTime: new Date('2024-06-03'),
       comments: [mockComment],
+      upVotes: [],
+      downVotes: [],
     });
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
 
     expect(response.status).toBe(200);
     expect(response.body).toEqual({
@@ -117,6 +145,7 @@ describe('POST /addComment', () => {
       text: 'This is a test comment',
       commentBy: 'dummyUserId',
       commentDateTime: mockComment.commentDateTime.toISOString(),
+      upVotes: [],
     });
   });
 
@@ -126,10 +155,14 @@ describe('POST /addComment', () => {
         text: 'This is a test comment',
         commentBy: 'dummyUserId',
         commentDateTime: new Date('2024-06-03'),
+        upVotes: [],
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
@@ -142,10 +175,14 @@ describe('POST /addComment', () => {
       comment: {
         commentBy: 'dummyUserId',
         commentDateTime: new Date('2024-06-03'),
+        upVotes: [],
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
@@ -160,10 +197,14 @@ describe('POST /addComment', () => {
         text: 'This is a test comment',
         commentBy: 'dummyUserId',
         commentDateTime: new Date('2024-06-03'),
+        upVotes: [],
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
@@ -177,10 +218,14 @@ describe('POST /addComment', () => {
       comment: {
         commentBy: 'dummyUserId',
         commentDateTime: new Date('2024-06-03'),
+        upVotes: [],
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
@@ -195,29 +240,35 @@ describe('POST /addComment', () => {
         text: '',
         commentBy: 'dummyUserId',
         commentDateTime: new Date('2024-06-03'),
+        upVotes: [],
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid comment body');
   });
 
-  it('should return bad request error if commentBy property missing', async () => {
+  it('should return unauthorized if the request has no session', async () => {
     const mockReqBody = {
-      id: 'dummyQuestionId',
+      id: new mongoose.Types.ObjectId().toString(),
       type: 'question',
-      com: {
+      comment: {
         text: 'This is a test comment',
+        commentBy: 'dummyUserId',
         commentDateTime: new Date('2024-06-03'),
+        upVotes: [],
       },
     };
 
     const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
 
-    expect(response.status).toBe(400);
-    expect(response.text).toBe('Invalid request');
+    expect(response.status).toBe(401);
+    expect(saveCommentSpy).not.toHaveBeenCalled();
   });
 
   it('should return bad request error if commentDateTime property missing', async () => {
@@ -230,14 +281,19 @@ describe('POST /addComment', () => {
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
   });
 
   it('should return bad request error if request body is missing', async () => {
-    const response = await supertest(app).post('/comment/addComment');
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', AUTH_HEADER);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
@@ -251,10 +307,14 @@ describe('POST /addComment', () => {
         text: 'This is a test comment',
         commentBy: 'dummyUserId',
         commentDateTime: new Date('2024-06-03'),
+        upVotes: [],
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid ID format');
@@ -269,12 +329,16 @@ describe('POST /addComment', () => {
         text: 'This is a test comment',
         commentBy: 'dummyUserId',
         commentDateTime: new Date('2024-06-03'),
+        upVotes: [],
       },
     };
 
     saveCommentSpy.mockResolvedValueOnce({ error: 'Error when saving a comment' });
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
 
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when adding comment: Error when saving a comment');
@@ -290,6 +354,7 @@ describe('POST /addComment', () => {
         text: 'This is a test comment',
         commentBy: 'dummyUserId',
         commentDateTime: new Date('2024-06-03'),
+        upVotes: [],
       },
     };
 
@@ -298,6 +363,7 @@ describe('POST /addComment', () => {
       text: 'This is a test comment',
       commentBy: 'dummyUserId',
       commentDateTime: new Date('2024-06-03'),
+      upVotes: [],
     };
 
     saveCommentSpy.mockResolvedValueOnce(mockComment);
@@ -305,7 +371,10 @@ describe('POST /addComment', () => {
       error: 'Error when adding comment',
     });
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
 
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when adding comment: Error when adding comment');
@@ -321,6 +390,7 @@ describe('POST /addComment', () => {
         text: 'This is a test comment',
         commentBy: 'dummyUserId',
         commentDateTime: new Date('2024-06-03'),
+        upVotes: [],
       },
     };
 
@@ -329,6 +399,7 @@ describe('POST /addComment', () => {
       text: 'This is a test comment',
       commentBy: 'dummyUserId',
       commentDateTime: new Date('2024-06-03'),
+      upVotes: [],
     };
 
     const mockQuestion = {
@@ -349,9 +420,294 @@ describe('POST /addComment', () => {
     addCommentSpy.mockResolvedValueOnce(mockQuestion);
     popDocSpy.mockResolvedValueOnce({ error: 'Error when populating document' });
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', AUTH_HEADER)
+      .send(mockReqBody);
 
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when adding comment: Error when populating document');
   });
+
+  describe('without the privilege to comment', () => {
+    const fetchQuestionByIdSpy = jest.spyOn(questionUtil, 'fetchQuestionById');
+    const fetchAnswerByIdSpy = jest.spyOn(answerUtil, 'fetchAnswerById');
+    const postId = new mongoose.Types.ObjectId();
+    const mockComment = {
+      _id: new mongoose.Types.ObjectId(),
+      text: 'This is a test comment',
+      commentBy: 'dummyUserId',
+      commentDateTime: new Date('2024-06-03'),
+      upVotes: [],
+    };
+    const reqBody = (type: string) => ({
+      id: postId.toString(),
+      type,
+      comment: { text: mockComment.text, commentDateTime: mockComment.commentDateTime },
+    });
+
+    beforeEach(() => {
+      getUserByUsernameSpy.mockResolvedValueOnce({
+        username: 'dummyUserId',
+        dateJoined: new Date('2024-06-01'),
+        reputation: 1,
+      });
+    });
+
+    it('should return forbidden for a comment on a question by another user', async () => {
+      fetchQuestionByIdSpy.mockResolvedValueOnce({
+        _id: postId,
+        askedBy: 'someone_else',
+      } as Question);
+
+      const response = await supertest(app)
+        .post('/comment/addComment')
+        .set('Authorization', AUTH_HEADER)
+        .send(reqBody('question'));
+
+      expect(response.status).toBe(403);
+      expect(response.text).toBe('You need 50 reputation to comment on posts by other users');
+      expect(fetchQuestionByIdSpy).toHaveBeenCalledWith(postId.toString());
+      expect(saveCommentSpy).not.toHaveBeenCalled();
+    });
+
+    it('should add a comment on an answer by the user', async () => {
+      fetchAnswerByIdSpy.mockResolvedValueOnce({
+        _id: postId,
+        text: 'Answer',
+        ansBy: 'dummyUserId',
+        ansDateTime: new Date('2024-06-03'),
+        upVotes: [],
+        downVotes: [],
+        comments: [],
+      });
+      saveCommentSpy.mockResolvedValueOnce(mockComment);
+      addCommentSpy.mockResolvedValueOnce({
+        _id: postId,
+        text: 'Answer',
+        ansBy: 'dummyUserId',
+        ansDateTime: new Date('2024-06-03'),
+        upVotes: [],
+        downVotes: [],
+        comments: [mockComment._id],
+      });
+      popDocSpy.mockResolvedValueOnce({
+        _id: postId,
+        text: 'Answer',
+        ansBy: 'dummyUserId',
+        ansDateTime: new Date('2024-06-03'),
+        upVotes: [],
+        downVotes: [],
+        comments: [mockComment],
+      });
+
+      const response = await supertest(app)
+        .post('/comment/addComment')
+        .set('Authorization', AUTH_HEADER)
+        .send(reqBody('answer'));
+
+      expect(response.status).toBe(200);
+      expect(fetchAnswerByIdSpy).toHaveBeenCalledWith(postId.toString());
+    });
+
+    it('should return database error if the post cannot be fetched', async () => {
+      fetchQuestionByIdSpy.mockResolvedValueOnce({ error: 'Error when fetching question' });
+
+      const response = await supertest(app)
+        .post('/comment/addComment')
+        .set('Authorization', AUTH_HEADER)
+        .send(reqBody('question'));
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe('Error when adding comment: Error when fetching question');
+    });
+  });
+});
+
+describe('DELETE /deleteComment/:cid', () => {
+  const fetchCommentByIdSpy = jest.spyOn(commentUtil, 'fetchCommentById');
+  const deleteCommentByIdSpy = jest.spyOn(commentUtil, 'deleteCommentById');
+
+  const cid = new mongoose.Types.ObjectId();
+  const mockComment = {
+    _id: cid,
+    text: 'This is a test comment',
+    commentBy: 'dummyUserId',
+    commentDateTime: new Date('2024-06-03'),
+    upVotes: [],
+  };
+
+  it('should delete the comment and return the IDs of the comment and its parent', async () => {
+    const payload = {
+      cid: cid.toString(),
+      parentId: new mongoose.Types.ObjectId().toString(),
+      type: 'question' as const,
+    };
+    fetchCommentByIdSpy.mockResolvedValueOnce(mockComment);
+    deleteCommentByIdSpy.mockResolvedValueOnce(payload);
+
+    const response = await supertest(app)
+      .delete(`/comment/deleteComment/${cid}`)
+      .set('Authorization', AUTH_HEADER);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(payload);
+  });
+
+  it('should return bad request if the comment ID is invalid', async () => {
+    const response = await supertest(app)
+      .delete('/comment/deleteComment/invalid-id')
+      .set('Authorization', AUTH_HEADER);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return not found if the comment does not exist', async () => {
+    fetchCommentByIdSpy.mockResolvedValueOnce(null);
+
+    const response = await supertest(app)
+      .delete(`/comment/deleteComment/${cid}`)
+      .set('Authorization', AUTH_HEADER);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return forbidden if the user is not the author of the comment', async () => {
+    fetchCommentByIdSpy.mockResolvedValueOnce({ ...mockComment, commentBy: 'someone_else' });
+
+    const response = await supertest(app)
+      .delete(`/comment/deleteComment/${cid}`)
+      .set('Authorization', AUTH_HEADER);
+
+    expect(response.status).toBe(403);
+    expect(deleteCommentByIdSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return database error if deleting the comment fails', async () => {
+    fetchCommentByIdSpy.mockResolvedValueOnce(mockComment);
+    deleteCommentByIdSpy.mockResolvedValueOnce({ error: 'Error when deleting a comment' });
+
+    const response = await supertest(app)
+      .delete(`/comment/deleteComment/${cid}`)
+      .set('Authorization', AUTH_HEADER);
+
+    expect(response.status).toBe(500);
+  });
+});
+
+describe('POST /upvoteComment', () => {
+  const addUpvoteToCommentSpy = jest.spyOn(commentUtil, 'addUpvoteToComment');
+  const validCid = new mongoose.Types.ObjectId().toString();
+
+  it('should upvote a comment as the logged-in user', async () => {
+    const mockResponse = { msg: 'Comment upvoted successfully', upVotes: ['dummyUserId'] };
+    addUpvoteToCommentSpy.mockResolvedValueOnce(mockResponse);
+
+    const response = await supertest(app)
+      .post('/comment/upvoteComment')
+      .set('Authorization', AUTH_HEADER)
+      .send({ cid: validCid });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(mockResponse);
+    expect(addUpvoteToCommentSpy).toHaveBeenCalledWith(validCid, 'dummyUserId');
+  });
+
+  it('should return bad request if the comment ID is missing', async () => {
+    const response = await supertest(app)
+      .post('/comment/upvoteComment')
+      .set('Authorization', AUTH_HEADER)
+      .send({});
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return bad request if the comment ID is invalid', async () => {
+    const response = await supertest(app)
+      .post('/comment/upvoteComment')
+      .set('Authorization', AUTH_HEADER)
+      .send({ cid: 'invalid-id' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid ID format');
+  });
+
+  it('should return unauthorized if the request has no session', async () => {
+    const response = await supertest(app).post('/comment/upvoteComment').send({ cid: validCid });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return forbidden if the user does not have enough reputation to upvote', async () => {
+    getUserByUsernameSpy.mockResolvedValueOnce({
+      username: 'dummyUserId',
+      dateJoined: new Date('2024-06-01'),
+      reputation: 1,
+    });
+
+    const response = await supertest(app)
+      .post('/comment/upvoteComment')
+      .set('Authorization', AUTH_HEADER)
+      .send({ cid: validCid });
+
+    expect(response.status).toBe(403);
+    expect(response.text).toBe('You need 15 reputation to upvote');
+    expect(addUpvoteToCommentSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return database error if voting fails', async () => {
+    addUpvoteToCommentSpy.mockResolvedValueOnce({ error: 'Error when adding upvote to comment' });
+
+    const response = await supertest(app)
+      .post('/comment/upvoteComment')
+      .set('Authorization', AUTH_HEADER)
+      .send({ cid: validCid });
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe('Error when upvoting comment: Error when adding upvote to comment');
+  });
+});
+
+describe('GET /getCommentsByAuthor', () => {
+  it('should return the comments of the user', async () => {
+    const commentId = new mongoose.Types.ObjectId();
+    const questionId = new mongoose.Types.ObjectId();
+    getCommentsByAuthorSpy.mockResolvedValueOnce([
+      {
+        _id: commentId,
+        text: 'Comment text',
+        commentDateTime: new Date('2024-06-06'),
+        score: 1,
+        question: { _id: questionId, title: 'Question title' },
+      },
+    ]);
+
+    const response = await supertest(app).get('/comment/getCommentsByAuthor/dummyUserId');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual([
+      {
+        _id: commentId.toString(),
+        text: 'Comment text',
+        commentDateTime: new Date('2024-06-06').toISOString(),
+        score: 1,
+        question: { _id: questionId.toString(), title: 'Question title' },
+      },
+    ]);
+    expect(getCommentsByAuthorSpy).toHaveBeenCalledWith('dummyUserId');
+  });
+
+  it('should return 500 if fetching the comments fails', async () => {
+    getCommentsByAuthorSpy.mockResolvedValueOnce({
+      error: 'Error when fetching comments by author',
+    });
+
+    const response = await supertest(app).get('/comment/getCommentsByAuthor/dummyUserId');
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe(
+      'Error when fetching comments by author: Error when fetching comments by author',
+    );
+  });
 });
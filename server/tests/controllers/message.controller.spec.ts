@@ -2,10 +2,19 @@ import mongoose from 'mongoose';
 import supertest from 'supertest';
 import { app } from '../../app';
 import * as util from '../../services/message.service';
+import * as userUtil from '../../services/user.service';
+import { createSessionToken } from '../../utils/session.util';
 
 const saveMessageSpy = jest.spyOn(util, 'saveMessage');
 const getMessagesSpy = jest.spyOn(util, 'getMessages');
 
+const AUTH_HEADER = `Bearer ${createSessionToken('User1')}`;
+
+jest.spyOn(userUtil, 'getUserByUsername').mockResolvedValue({
+  username: 'User1',
+  dateJoined: new Date('2024-06-01'),
+});
+
 describe('POST /addMessage', () => {
   it('should add a new message', async () => {
     const validId = new mongoose.Types.ObjectId();
@@ -20,6 +29,7 @@ describe('POST /addMessage', () => {
 
     const response = await supertest(app)
       .post('/messaging/addMessage')
+      .set('Authorization', AUTH_HEADER)
       .send({ messageToAdd: message });
 
     expect(response.status).toBe(200);
@@ -32,7 +42,10 @@ describe('POST /addMessage', () => {
   });
 
   it('should return bad request error if messageToAdd is missing', async () => {
-    const response = await supertest(app).post('/messaging/addMessage').send({});
+    const response = await supertest(app)
+      .post('/messaging/addMessage')
+      .set('Authorization', AUTH_HEADER)
+      .send({});
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid message body');
@@ -47,6 +60,7 @@ describe('POST /addMessage', () => {
 
     const response = await supertest(app)
       .post('/messaging/addMessage')
+      .set('Authorization', AUTH_HEADER)
       .send({ messageToAdd: badMsg });
 
     expect(response.status).toBe(400);
@@ -60,37 +74,40 @@ describe('POST /addMessage', () => {
       msgDateTime: new Date(),
     };
 
-    const response = await supertest(app).post('/messaging/addMessage').send({ messageToAdd: msg });
+    const response = await supertest(app)
+      .post('/messaging/addMessage')
+      .set('Authorization', AUTH_HEADER)
+      .send({ messageToAdd: msg });
 
     expect(response.status).toBe(500);
     expect(response.body).toHaveProperty('error');
   });
 
-  it('should return 400 if messageToAdd has missing required fields', async () => {
-    const incompleteMsg = {
+  it('should send the message as the logged in user', async () => {
+    const msg = {
       msg: 'Hello',
-      // missing msgFrom and msgDateTime
+      msgFrom: 'User2',
+      msgDateTime: new Date(),
     };
 
+    saveMessageSpy.mockResolvedValueOnce({ ...msg, _id: new mongoose.Types.ObjectId() });
+
     const response = await supertest(app)
       .post('/messaging/addMessage')
-      .send({ messageToAdd: incompleteMsg });
+      .set('Authorization', AUTH_HEADER)
+      .send({ messageToAdd: msg });
 
-    expect(response.status).toBe(400);
+    expect(response.status).toBe(200);
+    expect(saveMessageSpy).toHaveBeenCalledWith(expect.objectContaining({ msgFrom: 'User1' }));
   });
 
-  it('should return 400 if msgFrom is empty', async () => {
-    const invalidMsg = {
-      msg: 'Hello',
-      msgFrom: '',
-      msgDateTime: new Date(),
-    };
-
+  it('should return 401 if the request has no session', async () => {
     const response = await supertest(app)
       .post('/messaging/addMessage')
-      .send({ messageToAdd: invalidMsg });
+      .send({ messageToAdd: { msg: 'Hello', msgFrom: 'User1', msgDateTime: new Date() } });
 
-    expect(response.status).toBe(400);
+    expect(response.status).toBe(401);
+    expect(saveMessageSpy).not.toHaveBeenCalled();
   });
 
   it('should return 400 if msgDateTime is invalid', async () => {
@@ -102,6 +119,7 @@ describe('POST /addMessage', () => {
 
     const response = await supertest(app)
       .post('/messaging/addMessage')
+      .set('Authorization', AUTH_HEADER)
       .send({ messageToAdd: invalidMsg });
 
     expect(response.status).toBe(400);
@@ -116,20 +134,7 @@ describe('POST /addMessage', () => {
 
     const response = await supertest(app)
       .post('/messaging/addMessage')
-      .send({ messageToAdd: invalidMsg });
-
-    expect(response.status).toBe(400);
-  });
-
-  it('should return 400 if msgFrom is null or undefined', async () => {
-    const invalidMsg = {
-      msg: 'Hello',
-      msgFrom: null,
-      msgDateTime: new Date(),
-    };
-
-    const response = await supertest(app)
-      .post('/messaging/addMessage')
+      .set('Authorization', AUTH_HEADER)
       .send({ messageToAdd: invalidMsg });
 
     expect(response.status).toBe(400);
@@ -144,6 +149,7 @@ describe('POST /addMessage', () => {
 
     const response = await supertest(app)
       .post('/messaging/addMessage')
+      .set('Authorization', AUTH_HEADER)
       .send({ messageToAdd: invalidMsg });
 
     expect(response.status).toBe(400);
@@ -158,20 +164,7 @@ describe('POST /addMessage', () => {
 
     const response = await supertest(app)
       .post('/messaging/addMessage')
-      .send({ messageToAdd: invalidMsg });
-
-    expect(response.status).toBe(400);
-  });
-
-  it('should return 400 if msgFrom contains only whitespace', async () => {
-    const invalidMsg = {
-      msg: 'Hello',
-      msgFrom: '   ',
-      msgDateTime: new Date(),
-    };
-
-    const response = await supertest(app)
-      .post('/messaging/addMessage')
+      .set('Authorization', AUTH_HEADER)
       .send({ messageToAdd: invalidMsg });
 
     expect(response.status).toBe(400);
@@ -286,4 +279,4 @@ describe('GET /getMessages', () => {
 
 afterEach(() => {
   jest.clearAllMocks();
-});
\ No newline at end of file
+});
@@ -3,15 +3,28 @@ import supertest from 'supertest';
 import { app } from '../../app';
 import * as questionUtil from '../../services/question.service';
 import * as tagUtil from '../../services/tag.service';
+import * as badgeUtil from '../../services/badge.service';
 import * as databaseUtil from '../../utils/database.util';
 import { Answer, Question, Tag } from '../../types/types';
+import * as userUtil from '../../services/user.service';
+import { createSessionToken } from '../../utils/session.util';
 
 const addVoteToQuestionSpy = jest.spyOn(questionUtil, 'addVoteToQuestion');
-const getQuestionsByOrderSpy: jest.SpyInstance = jest.spyOn(questionUtil, 'getQuestionsByOrder');
-const filterQuestionsBySearchSpy: jest.SpyInstance = jest.spyOn(
-  questionUtil,
-  'filterQuestionsBySearch',
-);
+const getQuestionPageSpy = jest.spyOn(questionUtil, 'getQuestionPage');
+const getQuestionFeedSpy = jest.spyOn(questionUtil, 'getQuestionFeed');
+const checkBadgesSpy = jest.spyOn(badgeUtil, 'checkBadges').mockResolvedValue([]);
+const checkPostBadgesSpy = jest.spyOn(badgeUtil, 'checkPostBadges').mockResolvedValue([]);
+const checkQuestionViewBadgesSpy = jest
+  .spyOn(badgeUtil, 'checkQuestionViewBadges')
+  .mockResolvedValue([]);
+
+const AUTH_HEADER = `Bearer ${createSessionToken('question3_user')}`;
+
+const getUserByUsernameSpy = jest.spyOn(userUtil, 'getUserByUsername').mockResolvedValue({
+  username: 'question3_user',
+  dateJoined: new Date('2024-06-01'),
+  reputation: 500,
+});
 
 const tag1: Tag = {
   _id: new mongoose.Types.ObjectId('507f191e810c19729de860ea'),
@@ -50,6 +63,8 @@ const ans1: Answer = {
   ansBy: 'answer1_user',
   ansDateTime: new Date('2024-06-09'), // The mock date is string type but in the actual implementation it is a Date type
   comments: [],
+  upVotes: [],
+  downVotes: [],
 };
 
 const ans2: Answer = {
@@ -58,6 +73,8 @@ const ans2: Answer = {
   ansBy: 'answer2_user',
   ansDateTime: new Date('2024-06-10'),
   comments: [],
+  upVotes: [],
+  downVotes: [],
 };
 
 const ans3: Answer = {
@@ -66,6 +83,8 @@ const ans3: Answer = {
   ansBy: 'answer3_user',
   ansDateTime: new Date('2024-06-11'),
   comments: [],
+  upVotes: [],
+  downVotes: [],
 };
 
 const ans4: Answer = {
@@ -74,6 +93,8 @@ const ans4: Answer = {
   ansBy: 'answer4_user',
   ansDateTime: new Date('2024-06-14'),
   comments: [],
+  upVotes: [],
+  downVotes: [],
 };
 
 const MOCK_QUESTIONS: Question[] = [
@@ -130,6 +151,12 @@ const simplifyQuestion = (question: Question) => ({
   askDateTime: question.askDateTime.toISOString(),
 });
 
+const newUser = {
+  username: 'question3_user',
+  dateJoined: new Date('2024-06-01'),
+  reputation: 1,
+};
+
 const EXPECTED_QUESTIONS = MOCK_QUESTIONS.map(question => simplifyQuestion(question));
 
 describe('Test questionController', () => {
@@ -140,11 +167,15 @@ describe('Test questionController', () => {
       jest.spyOn(databaseUtil, 'populateDocument').mockResolvedValueOnce(mockQuestion as Question);
 
       // Making the request
-      const response = await supertest(app).post('/question/addQuestion').send(mockQuestion);
+      const response = await supertest(app)
+        .post('/question/addQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send(mockQuestion);
 
       // Asserting the response
       expect(response.status).toBe(200);
       expect(response.body).toEqual(simplifyQuestion(mockQuestion));
+      expect(checkBadgesSpy).toHaveBeenCalledWith('question3_user', 'question');
     });
 
     it('should return 500 if error occurs in `saveQuestion` while adding a new question', async () => {
@@ -154,7 +185,10 @@ describe('Test questionController', () => {
         .mockResolvedValueOnce({ error: 'Error while saving question' });
 
       // Making the request
-      const response = await supertest(app).post('/question/addQuestion').send(mockQuestion);
+      const response = await supertest(app)
+        .post('/question/addQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send(mockQuestion);
 
       // Asserting the response
       expect(response.status).toBe(500);
@@ -168,17 +202,54 @@ describe('Test questionController', () => {
         .mockResolvedValueOnce({ error: 'Error while populating' });
 
       // Making the request
-      const response = await supertest(app).post('/question/addQuestion').send(mockQuestion);
+      const response = await supertest(app)
+        .post('/question/addQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send(mockQuestion);
 
       // Asserting the response
       expect(response.status).toBe(500);
     });
 
+    it('should only let users with the privilege create new tags', async () => {
+      const processTagsSpy = jest.spyOn(tagUtil, 'processTags').mockResolvedValue([tag1, tag2]);
+      jest.spyOn(questionUtil, 'saveQuestion').mockResolvedValueOnce(mockQuestion as Question);
+      jest.spyOn(databaseUtil, 'populateDocument').mockResolvedValueOnce(mockQuestion as Question);
+      getUserByUsernameSpy.mockResolvedValueOnce(newUser);
+
+      const response = await supertest(app)
+        .post('/question/addQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send(mockQuestion);
+
+      expect(response.status).toBe(200);
+      expect(processTagsSpy).toHaveBeenCalledWith(expect.any(Array), false);
+    });
+
+    it('should return forbidden if the user cannot create the new tags', async () => {
+      jest
+        .spyOn(tagUtil, 'processTags')
+        .mockResolvedValue({ error: 'You need 300 reputation to create new tags: tag2' });
+      const saveQuestionSpy = jest.spyOn(questionUtil, 'saveQuestion');
+
+      const response = await supertest(app)
+        .post('/question/addQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send(mockQuestion);
+
+      expect(response.status).toBe(403);
+      expect(response.text).toBe('You need 300 reputation to create new tags: tag2');
+      expect(saveQuestionSpy).not.toHaveBeenCalled();
+    });
+
     it('should return 500 if tag ids could not be retrieved', async () => {
       jest.spyOn(tagUtil, 'processTags').mockResolvedValue([]);
 
       // Making the request
-      const response = await supertest(app).post('/question/addQuestion').send(mockQuestion);
+      const response = await supertest(app)
+        .post('/question/addQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send(mockQuestion);
 
       // Asserting the response
       expect(response.status).toBe(500);
@@ -188,6 +259,7 @@ describe('Test questionController', () => {
       // Making the request
       const response = await supertest(app)
         .post('/question/addQuestion')
+        .set('Authorization', AUTH_HEADER)
         .send({ ...mockQuestion, title: '' });
 
       // Asserting the response
@@ -199,6 +271,7 @@ describe('Test questionController', () => {
       // Making the request
       const response = await supertest(app)
         .post('/question/addQuestion')
+        .set('Authorization', AUTH_HEADER)
         .send({ ...mockQuestion, text: '' });
 
       // Asserting the response
@@ -210,6 +283,7 @@ describe('Test questionController', () => {
       // Making the request
       const response = await supertest(app)
         .post('/question/addQuestion')
+        .set('Authorization', AUTH_HEADER)
         .send({ ...mockQuestion, tags: [] });
 
       // Asserting the response
@@ -217,17 +291,73 @@ describe('Test questionController', () => {
       expect(response.text).toBe('Invalid question body');
     });
 
-    it('should return bad request if askedBy is empty string', async () => {
-      // Making the request
+    it('should return bad request if there are more than 5 tags', async () => {
+      const tags = ['a', 'b', 'c', 'd', 'e', 'f'].map(name => ({ name, description: name }));
+
       const response = await supertest(app)
         .post('/question/addQuestion')
-        .send({ ...mockQuestion, askedBy: '' });
+        .set('Authorization', AUTH_HEADER)
+        .send({ ...mockQuestion, tags });
 
-      // Asserting the response
       expect(response.status).toBe(400);
       expect(response.text).toBe('Invalid question body');
     });
 
+    it('should return bad request if a tag name is longer than 20 characters', async () => {
+      const response = await supertest(app)
+        .post('/question/addQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send({ ...mockQuestion, tags: [tag1, { name: 'a'.repeat(21), description: 'long' }] });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid question body');
+    });
+
+    it('should return bad request if a tag name is empty or has spaces', async () => {
+      const emptyResponse = await supertest(app)
+        .post('/question/addQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send({ ...mockQuestion, tags: [{ name: '', description: 'empty' }] });
+      const spaceResponse = await supertest(app)
+        .post('/question/addQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send({ ...mockQuestion, tags: [{ name: 'two words', description: 'spaces' }] });
+
+      expect(emptyResponse.status).toBe(400);
+      expect(emptyResponse.text).toBe('Invalid question body');
+      expect(spaceResponse.status).toBe(400);
+      expect(spaceResponse.text).toBe('Invalid question body');
+    });
+
+    it('should set askedBy to the logged in user', async () => {
+      jest.spyOn(tagUtil, 'processTags').mockResolvedValueOnce([tag1, tag2] as Tag[]);
+      const saveQuestionSpy = jest
+        .spyOn(questionUtil, 'saveQuestion')
+        .mockResolvedValueOnce(mockQuestion);
+      jest.spyOn(databaseUtil, 'populateDocument').mockResolvedValueOnce(mockQuestion);
+
+      // Making the request
+      const response = await supertest(app)
+        .post('/question/addQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send({ ...mockQuestion, askedBy: 'someone_else' });
+
+      // Asserting the response
+      expect(response.status).toBe(200);
+      expect(saveQuestionSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ askedBy: 'question3_user' }),
+      );
+    });
+
+    it('should return unauthorized if the request has no session', async () => {
+      // Making the request
+      const response = await supertest(app).post('/question/addQuestion').send(mockQuestion);
+
+      // Asserting the response
+      expect(response.status).toBe(401);
+      expect(response.text).toBe('Authentication required');
+    });
+
     it('should ensure only unique tags are added', async () => {
       // Mock request body with duplicate tags
       const mockQuestionDuplicates: Question = {
@@ -268,7 +398,10 @@ describe('Test questionController', () => {
       jest.spyOn(databaseUtil, 'populateDocument').mockResolvedValueOnce(result);
 
       // Making the request
-      const response = await supertest(app).post('/question/addQuestion').send(mockQuestion);
+      const response = await supertest(app)
+        .post('/question/addQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send(mockQuestion);
 
       // Asserting the response
       expect(response.status).toBe(200);
@@ -291,10 +424,34 @@ describe('Test questionController', () => {
 
       addVoteToQuestionSpy.mockResolvedValueOnce(mockResponse);
 
-      const response = await supertest(app).post('/question/upvoteQuestion').send(mockReqBody);
+      const response = await supertest(app)
+        .post('/question/upvoteQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send(mockReqBody);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockResponse);
+      expect(checkPostBadgesSpy).toHaveBeenCalledWith('question', mockReqBody.qid, 'vote');
+    });
+
+    it('should still upvote the question if the badge check fails', async () => {
+      const mockReqBody = { qid: '65e9b5a995b6c7045a30d823' };
+      const mockResponse = {
+        msg: 'Question upvoted successfully',
+        upVotes: ['new-user'],
+        downVotes: [],
+      };
+      addVoteToQuestionSpy.mockResolvedValueOnce(mockResponse);
+      checkPostBadgesSpy.mockRejectedValueOnce(new Error('Database unavailable'));
+
+      const response = await supertest(app)
+        .post('/question/upvoteQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send(mockReqBody);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(mockResponse);
+      expect(checkPostBadgesSpy).toHaveBeenCalledWith('question', mockReqBody.qid, 'vote');
     });
 
     it('should cancel the upvote successfully', async () => {
@@ -317,7 +474,10 @@ describe('Test questionController', () => {
 
       addVoteToQuestionSpy.mockResolvedValueOnce(mockFirstResponse);
 
-      const firstResponse = await supertest(app).post('/question/upvoteQuestion').send(mockReqBody);
+      const firstResponse = await supertest(app)
+        .post('/question/upvoteQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send(mockReqBody);
       expect(firstResponse.status).toBe(200);
       expect(firstResponse.body).toEqual(mockFirstResponse);
 
@@ -325,6 +485,7 @@ describe('Test questionController', () => {
 
       const secondResponse = await supertest(app)
         .post('/question/upvoteQuestion')
+        .set('Authorization', AUTH_HEADER)
         .send(mockReqBody);
 
       expect(secondResponse.status).toBe(200);
@@ -346,7 +507,10 @@ describe('Test questionController', () => {
 
       addVoteToQuestionSpy.mockResolvedValueOnce(mockResponseWithBothVotes);
 
-      let response = await supertest(app).post('/question/upvoteQuestion').send(mockReqBody);
+      let response = await supertest(app)
+        .post('/question/upvoteQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send(mockReqBody);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockResponseWithBothVotes);
@@ -360,7 +524,10 @@ describe('Test questionController', () => {
 
       addVoteToQuestionSpy.mockResolvedValueOnce(mockResponseWithBothVotes);
 
-      response = await supertest(app).post('/question/downvoteQuestion').send(mockReqBody);
+      response = await supertest(app)
+        .post('/question/downvoteQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send(mockReqBody);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockResponseWithBothVotes);
@@ -371,19 +538,59 @@ describe('Test questionController', () => {
         username: 'some-user',
       };
 
-      const response = await supertest(app).post(`/question/upvoteQuestion`).send(mockReqBody);
+      const response = await supertest(app)
+        .post(`/question/upvoteQuestion`)
+        .set('Authorization', AUTH_HEADER)
+        .send(mockReqBody);
 
       expect(response.status).toBe(400);
     });
 
-    it('should return bad request error if the request had username missing', async () => {
+    it('should vote as the logged in user rather than the username in the body', async () => {
       const mockReqBody = {
         qid: '65e9b5a995b6c7045a30d823',
+        username: 'some-user',
       };
 
-      const response = await supertest(app).post(`/question/upvoteQuestion`).send(mockReqBody);
+      addVoteToQuestionSpy.mockResolvedValueOnce({
+        msg: 'Vote recorded',
+        upVotes: [],
+        downVotes: [],
+      });
 
-      expect(response.status).toBe(400);
+      const response = await supertest(app)
+        .post(`/question/upvoteQuestion`)
+        .set('Authorization', AUTH_HEADER)
+        .send(mockReqBody);
+
+      expect(response.status).toBe(200);
+      expect(addVoteToQuestionSpy).toHaveBeenCalledWith(
+        mockReqBody.qid,
+        'question3_user',
+        'upvote',
+      );
+    });
+
+    it('should return unauthorized if the request has no session', async () => {
+      const response = await supertest(app)
+        .post(`/question/upvoteQuestion`)
+        .send({ qid: '65e9b5a995b6c7045a30d823' });
+
+      expect(response.status).toBe(401);
+      expect(addVoteToQuestionSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return forbidden if the user does not have enough reputation to upvote', async () => {
+      getUserByUsernameSpy.mockResolvedValueOnce(newUser);
+
+      const response = await supertest(app)
+        .post('/question/upvoteQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send({ qid: '65e9b5a995b6c7045a30d823' });
+
+      expect(response.status).toBe(403);
+      expect(response.text).toBe('You need 15 reputation to upvote');
+      expect(addVoteToQuestionSpy).not.toHaveBeenCalled();
     });
   });
 
@@ -402,7 +609,10 @@ describe('Test questionController', () => {
 
       addVoteToQuestionSpy.mockResolvedValueOnce(mockResponse);
 
-      const response = await supertest(app).post('/question/downvoteQuestion').send(mockReqBody);
+      const response = await supertest(app)
+        .post('/question/downvoteQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send(mockReqBody);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockResponse);
@@ -430,6 +640,7 @@ describe('Test questionController', () => {
 
       const firstResponse = await supertest(app)
         .post('/question/downvoteQuestion')
+        .set('Authorization', AUTH_HEADER)
         .send(mockReqBody);
       expect(firstResponse.status).toBe(200);
       expect(firstResponse.body).toEqual(mockFirstResponse);
@@ -438,6 +649,7 @@ describe('Test questionController', () => {
 
       const secondResponse = await supertest(app)
         .post('/question/downvoteQuestion')
+        .set('Authorization', AUTH_HEADER)
         .send(mockReqBody);
 
       expect(secondResponse.status).toBe(200);
@@ -459,7 +671,10 @@ describe('Test questionController', () => {
 
       addVoteToQuestionSpy.mockResolvedValueOnce(mockResponse);
 
-      let response = await supertest(app).post('/question/downvoteQuestion').send(mockReqBody);
+      let response = await supertest(app)
+        .post('/question/downvoteQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send(mockReqBody);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockResponse);
@@ -473,7 +688,10 @@ describe('Test questionController', () => {
 
       addVoteToQuestionSpy.mockResolvedValueOnce(mockResponse);
 
-      response = await supertest(app).post('/question/upvoteQuestion').send(mockReqBody);
+      response = await supertest(app)
+        .post('/question/upvoteQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send(mockReqBody);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockResponse);
@@ -484,19 +702,59 @@ describe('Test questionController', () => {
         username: 'some-user',
       };
 
-      const response = await supertest(app).post(`/question/downvoteQuestion`).send(mockReqBody);
+      const response = await supertest(app)
+        .post(`/question/downvoteQuestion`)
+        .set('Authorization', AUTH_HEADER)
+        .send(mockReqBody);
 
       expect(response.status).toBe(400);
     });
 
-    it('should return bad request error if the request had username missing', async () => {
+    it('should vote as the logged in user rather than the username in the body', async () => {
       const mockReqBody = {
         qid: '65e9b5a995b6c7045a30d823',
+        username: 'some-user',
       };
 
-      const response = await supertest(app).post(`/question/downvoteQuestion`).send(mockReqBody);
+      addVoteToQuestionSpy.mockResolvedValueOnce({
+        msg: 'Vote recorded',
+        upVotes: [],
+        downVotes: [],
+      });
+
+      const response = await supertest(app)
+        .post(`/question/downvoteQuestion`)
+        .set('Authorization', AUTH_HEADER)
+        .send(mockReqBody);
 
-      expect(response.status).toBe(400);
+      expect(response.status).toBe(200);
+      expect(addVoteToQuestionSpy).toHaveBeenCalledWith(
+        mockReqBody.qid,
+        'question3_user',
+        'downvote',
+      );
+    });
+
+    it('should return unauthorized if the request has no session', async () => {
+      const response = await supertest(app)
+        .post(`/question/downvoteQuestion`)
+        .send({ qid: '65e9b5a995b6c7045a30d823' });
+
+      expect(response.status).toBe(401);
+      expect(addVoteToQuestionSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return forbidden if the user does not have enough reputation to downvote', async () => {
+      getUserByUsernameSpy.mockResolvedValueOnce({ ...newUser, reputation: 100 });
+
+      const response = await supertest(app)
+        .post('/question/downvoteQuestion')
+        .set('Authorization', AUTH_HEADER)
+        .send({ qid: '65e9b5a995b6c7045a30d823' });
+
+      expect(response.status).toBe(403);
+      expect(response.text).toBe('You need 125 reputation to downvote');
+      expect(addVoteToQuestionSpy).not.toHaveBeenCalled();
     });
   });
 
@@ -539,6 +797,51 @@ describe('Test questionController', () => {
       // Asserting the response
       expect(response.status).toBe(200);
       expect(response.body).toEqual(expectedResponse);
+      expect(checkQuestionViewBadgesSpy).toHaveBeenCalledWith(mockPopulatedQuestion);
+      expect(checkBadgesSpy).not.toHaveBeenCalled();
+    });
+
+    it('should fetch the question with the requested answer order', async () => {
+      const fetchSpy = jest
+        .spyOn(questionUtil, 'fetchAndIncrementQuestionViewsById')
+        .mockResolvedValueOnce(mockQuestion);
+
+      const response = await supertest(app).get(
+        `/question/getQuestionById/${mockQuestion._id}?username=question3_user&sort=votes`,
+      );
+
+      expect(response.status).toBe(200);
+      expect(fetchSpy).toHaveBeenCalledWith(
+        mockQuestion._id?.toString(),
+        'question3_user',
+        'votes',
+      );
+    });
+
+    it('should sort the answers newest first if no answer order is given', async () => {
+      const fetchSpy = jest
+        .spyOn(questionUtil, 'fetchAndIncrementQuestionViewsById')
+        .mockResolvedValueOnce(mockQuestion);
+
+      const response = await supertest(app).get(
+        `/question/getQuestionById/${mockQuestion._id}?username=question3_user`,
+      );
+
+      expect(response.status).toBe(200);
+      expect(fetchSpy).toHaveBeenCalledWith(
+        mockQuestion._id?.toString(),
+        'question3_user',
+        'newest',
+      );
+    });
+
+    it('should return bad request if the answer order is invalid', async () => {
+      const response = await supertest(app).get(
+        `/question/getQuestionById/${mockQuestion._id}?username=question3_user&sort=random`,
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid answer order');
     });
 
     it('should not return a question object with a duplicated user in the views if the user is viewing the same question again', async () => {
@@ -661,60 +964,817 @@ describe('Test questionController', () => {
   });
 
   describe('GET /getQuestion', () => {
-    it('should return the result of filterQuestionsBySearch as response even if request parameters of order and search are absent', async () => {
-      getQuestionsByOrderSpy.mockResolvedValueOnce(MOCK_QUESTIONS);
-      filterQuestionsBySearchSpy.mockReturnValueOnce(MOCK_QUESTIONS);
+    it('should return the first page of newest questions if the request parameters are absent', async () => {
+      getQuestionPageSpy.mockResolvedValueOnce({
+        questions: MOCK_QUESTIONS,
+        total: MOCK_QUESTIONS.length,
+        page: 1,
+        limit: 20,
+      });
       // Making the request
       const response = await supertest(app).get('/question/getQuestion');
 
       // Asserting the response
       expect(response.status).toBe(200);
-      expect(response.body).toEqual(EXPECTED_QUESTIONS);
+      expect(response.body).toEqual({
+        questions: EXPECTED_QUESTIONS,
+        total: MOCK_QUESTIONS.length,
+        page: 1,
+        limit: 20,
+      });
+      expect(getQuestionPageSpy).toHaveBeenCalledWith({
+        order: 'newest',
+        search: { keywords: [], phrases: [], excluded: [], tags: [], excludedTags: [] },
+        askedBy: undefined,
+        page: 1,
+        limit: 20,
+      });
     });
 
-    it('should return the result of filterQuestionsBySearch as response for an order and search criteria in the request parameters', async () => {
+    it('should return the requested page for an order, search, asker and page size in the request parameters', async () => {
       // Mock request query parameters
       const mockReqQuery = {
-        order: 'dummyOrder',
+        order: 'mostViewed',
         search: 'dummySearch',
+        askedBy: 'question3_user',
+        page: '2',
+        limit: '2',
       };
-      getQuestionsByOrderSpy.mockResolvedValueOnce(MOCK_QUESTIONS);
-      filterQuestionsBySearchSpy.mockReturnValueOnce(MOCK_QUESTIONS);
+      getQuestionPageSpy.mockResolvedValueOnce({
+        questions: MOCK_QUESTIONS.slice(0, 1),
+        total: 3,
+        page: 2,
+        limit: 2,
+      });
       // Making the request
       const response = await supertest(app).get('/question/getQuestion').query(mockReqQuery);
 
       // Asserting the response
       expect(response.status).toBe(200);
-      expect(response.body).toEqual(EXPECTED_QUESTIONS);
+      expect(response.body).toEqual({
+        questions: EXPECTED_QUESTIONS.slice(0, 1),
+        total: 3,
+        page: 2,
+        limit: 2,
+      });
+      expect(getQuestionPageSpy).toHaveBeenCalledWith({
+        order: 'mostViewed',
+        search: {
+          keywords: ['dummySearch'],
+          phrases: [],
+          excluded: [],
+          tags: [],
+          excludedTags: [],
+        },
+        askedBy: 'question3_user',
+        page: 2,
+        limit: 2,
+      });
     });
 
-    it('should return error if getQuestionsByOrder throws an error', async () => {
-      // Mock request query parameters
-      const mockReqQuery = {
-        order: 'dummyOrder',
-        search: 'dummySearch',
-      };
-      getQuestionsByOrderSpy.mockRejectedValueOnce(new Error('Error fetching questions'));
+    it('should return bad request if the order is invalid', async () => {
+      getQuestionPageSpy.mockClear();
+
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .query({ order: 'dummyOrder' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid order');
+      expect(getQuestionPageSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return bad request if ordering by relevance without a search term', async () => {
+      getQuestionPageSpy.mockClear();
+
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .query({ order: 'relevance' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Ordering by relevance requires a search term');
+      expect(getQuestionPageSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return the questions ordered by relevance for a search term', async () => {
+      getQuestionPageSpy.mockResolvedValueOnce({
+        questions: MOCK_QUESTIONS,
+        total: MOCK_QUESTIONS.length,
+        page: 1,
+        limit: 20,
+      });
+
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .query({ order: 'relevance', search: 'storage' });
+
+      expect(response.status).toBe(200);
+      expect(getQuestionPageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          order: 'relevance',
+          search: expect.objectContaining({ keywords: ['storage'] }),
+        }),
+      );
+    });
+
+    it('should pass the parsed search query to getQuestionPage', async () => {
+      getQuestionPageSpy.mockResolvedValueOnce({ questions: [], total: 0, page: 1, limit: 20 });
+
+      const response = await supertest(app).get('/question/getQuestion').query({
+        search:
+          'storage user:q_by1 answers:0 score:>=5 is:accepted created:2025-01..2025-03 "exact phrase" -excluded -[java] [react] [android]',
+      });
+
+      expect(response.status).toBe(200);
+      expect(getQuestionPageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          search: {
+            keywords: ['storage'],
+            phrases: ['exact phrase'],
+            excluded: ['excluded'],
+            tags: ['react', 'android'],
+            excludedTags: ['java'],
+            askedBy: 'q_by1',
+            answers: { op: '=', value: 0 },
+            score: { op: '>=', value: 5 },
+            accepted: true,
+            created: {
+              from: new Date('2025-01-01T00:00:00Z'),
+              to: new Date('2025-04-01T00:00:00Z'),
+            },
+          },
+        }),
+      );
+    });
+
+    it('should return bad request with the parse errors if the search string is invalid', async () => {
+      getQuestionPageSpy.mockClear();
+
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .query({ search: 'storage score:high' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        errors: [
+          {
+            message: 'Expected a number such as 5, >5 or <=5 after "score:"',
+            token: 'score:high',
+            position: 8,
+          },
+        ],
+      });
+      expect(getQuestionPageSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return bad request if the page is not a positive integer', async () => {
+      const response = await supertest(app).get('/question/getQuestion').query({ page: '0' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid page');
+    });
+
+    it('should return bad request if the page is not a number', async () => {
+      const response = await supertest(app).get('/question/getQuestion').query({ page: 'abc' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid page');
+    });
+
+    it('should return bad request if the limit is too large', async () => {
+      const response = await supertest(app).get('/question/getQuestion').query({ limit: '101' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid limit');
+    });
+
+    it('should return error if getQuestionPage returns an error', async () => {
+      getQuestionPageSpy.mockResolvedValueOnce({ error: 'Error when fetching questions' });
       // Making the request
-      const response = await supertest(app).get('/question/getQuestion').query(mockReqQuery);
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .query({ order: 'newest', search: 'dummySearch' });
 
       // Asserting the response
       expect(response.status).toBe(500);
+      expect(response.text).toBe(
+        'Error when fetching questions by filter: Error when fetching questions',
+      );
     });
 
-    it('should return error if filterQuestionsBySearch throws an error', async () => {
-      // Mock request query parameters
-      const mockReqQuery = {
-        order: 'dummyOrder',
-        search: 'dummySearch',
-      };
-      getQuestionsByOrderSpy.mockResolvedValueOnce(MOCK_QUESTIONS);
-      filterQuestionsBySearchSpy.mockRejectedValueOnce(new Error('Error filtering questions'));
+    it('should return error if getQuestionPage throws an error', async () => {
+      getQuestionPageSpy.mockRejectedValueOnce(new Error('Error fetching questions'));
       // Making the request
-      const response = await supertest(app).get('/question/getQuestion').query(mockReqQuery);
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .query({ order: 'newest', search: 'dummySearch' });
 
       // Asserting the response
       expect(response.status).toBe(500);
     });
   });
+
+  describe('GET /suggest', () => {
+    it('should return the suggestions for the typed text', async () => {
+      const suggestions = {
+        questions: [{ _id: mockQuestion._id!, title: mockQuestion.title }],
+        tags: ['tag1'],
+        users: ['question3_user'],
+      };
+      const getSearchSuggestionsSpy = jest
+        .spyOn(questionUtil, 'getSearchSuggestions')
+        .mockResolvedValueOnce(suggestions);
+
+      const response = await supertest(app).get('/question/suggest').query({ q: ' New ' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        questions: [{ _id: mockQuestion._id?.toString(), title: mockQuestion.title }],
+        tags: ['tag1'],
+        users: ['question3_user'],
+      });
+      expect(getSearchSuggestionsSpy).toHaveBeenCalledWith('New');
+    });
+
+    it('should return no suggestions for empty text', async () => {
+      const getSearchSuggestionsSpy = jest.spyOn(questionUtil, 'getSearchSuggestions');
+      getSearchSuggestionsSpy.mockClear();
+
+      const response = await supertest(app).get('/question/suggest').query({ q: '  ' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ questions: [], tags: [], users: [] });
+      expect(getSearchSuggestionsSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return error if getSearchSuggestions returns an error', async () => {
+      jest
+        .spyOn(questionUtil, 'getSearchSuggestions')
+        .mockResolvedValueOnce({ error: 'Error when fetching search suggestions' });
+
+      const response = await supertest(app).get('/question/suggest').query({ q: 'New' });
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe(
+        'Error when fetching search suggestions: Error when fetching search suggestions',
+      );
+    });
+  });
+
+  describe('GET /getFeed', () => {
+    it('should return the first page of the feed of the logged in user', async () => {
+      getQuestionFeedSpy.mockResolvedValueOnce({
+        questions: MOCK_QUESTIONS,
+        total: MOCK_QUESTIONS.length,
+        page: 1,
+        limit: 20,
+      });
+
+      const response = await supertest(app)
+        .get('/question/getFeed')
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        questions: EXPECTED_QUESTIONS,
+        total: MOCK_QUESTIONS.length,
+        page: 1,
+        limit: 20,
+      });
+      expect(getQuestionFeedSpy).toHaveBeenCalledWith('question3_user', 1, 20);
+    });
+
+    it('should pass the requested page and page size', async () => {
+      getQuestionFeedSpy.mockResolvedValueOnce({ questions: [], total: 3, page: 2, limit: 2 });
+
+      const response = await supertest(app)
+        .get('/question/getFeed')
+        .query({ page: '2', limit: '2' })
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(200);
+      expect(getQuestionFeedSpy).toHaveBeenLastCalledWith('question3_user', 2, 2);
+    });
+
+    it('should return 400 for an invalid page', async () => {
+      getQuestionFeedSpy.mockClear();
+
+      const response = await supertest(app)
+        .get('/question/getFeed')
+        .query({ page: '0' })
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid page');
+      expect(getQuestionFeedSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid limit', async () => {
+      const response = await supertest(app)
+        .get('/question/getFeed')
+        .query({ limit: '101' })
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid limit');
+    });
+
+    it('should return 401 if the request has no session', async () => {
+      const response = await supertest(app).get('/question/getFeed');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 500 if fetching the feed fails', async () => {
+      getQuestionFeedSpy.mockResolvedValueOnce({ error: 'Error when fetching the question feed' });
+
+      const response = await supertest(app)
+        .get('/question/getFeed')
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe(
+        'Error when fetching the question feed: Error when fetching the question feed',
+      );
+    });
+  });
+
+  describe('GET /checkSearch', () => {
+    /**
+     * Returns the parse errors reported for a search string.
+     */
+    const checkSearch = async (search: string) => {
+      const response = await supertest(app).get('/question/checkSearch').query({ search });
+
+      expect(response.status).toBe(200);
+      return response.body.errors;
+    };
+
+    it('should return no errors for a valid search string', async () => {
+      expect(
+        await checkSearch(
+          '"exact phrase" [react] -[java] -word user:q_by1 answers:<2 score:-1 is:accepted created:2025-01-15',
+        ),
+      ).toEqual([]);
+      expect(await checkSearch('created:2024.. std::vector [tag1][tag2]')).toEqual([]);
+    });
+
+    it('should return no errors for an empty search string', async () => {
+      const response = await supertest(app).get('/question/checkSearch');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ errors: [] });
+    });
+
+    it('should report unterminated phrases and tags, and empty tags', async () => {
+      expect(await checkSearch('[] [react "unterminated')).toEqual([
+        { message: 'Empty tag', token: '[]', position: 0 },
+        { message: 'Missing closing bracket', token: '[react "unterminated', position: 3 },
+      ]);
+      expect(await checkSearch('storage "unterminated')).toEqual([
+        { message: 'Missing closing quote', token: '"unterminated', position: 8 },
+      ]);
+    });
+
+    it('should report filters with missing, invalid, excluded or repeated values', async () => {
+      const errors = await checkSearch(
+        'user: answers:many is:closed -user:q_by1 created:2025-13 score:1 score:2',
+      );
+
+      expect(errors.map((e: { token: string }) => e.token)).toEqual([
+        'user:',
+        'answers:many',
+        'is:closed',
+        '-user:q_by1',
+        'created:2025-13',
+        'score:2',
+      ]);
+      expect(errors[0].message).toBe('Missing value after "user:"');
+      expect(errors[2].message).toBe('Unknown value "closed" for "is:", expected "accepted"');
+      expect(errors[3].message).toBe('The "user:" filter cannot be excluded');
+      expect(errors[5].message).toBe('The "score:" filter can only be used once');
+    });
+
+    it('should report date ranges that end before they start', async () => {
+      expect(await checkSearch('created:2025-03..2025-01')).toEqual([
+        {
+          message:
+            'Expected a date such as 2025-01 or a range such as 2025-01..2025-03 after "created:"',
+          token: 'created:2025-03..2025-01',
+          position: 0,
+        },
+      ]);
+    });
+  });
+
+  describe('PATCH /editQuestion/:qid', () => {
+    const mockEdit = {
+      title: 'Edited Question Title',
+      text: 'Edited Question Text',
+      tags: [tag1],
+    };
+    const editedQuestion: Question = { ...mockQuestion, ...mockEdit };
+
+    const fetchQuestionByIdSpy = jest.spyOn(questionUtil, 'fetchQuestionById');
+    const updateQuestionSpy = jest.spyOn(questionUtil, 'updateQuestion');
+
+    it('should edit the question and return the updated question', async () => {
+      fetchQuestionByIdSpy.mockResolvedValueOnce(mockQuestion);
+      jest.spyOn(tagUtil, 'processTags').mockResolvedValueOnce([tag1]);
+      updateQuestionSpy.mockResolvedValueOnce(editedQuestion);
+      jest.spyOn(databaseUtil, 'populateDocument').mockResolvedValueOnce(editedQuestion);
+
+      const response = await supertest(app)
+        .patch(`/question/editQuestion/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER)
+        .send(mockEdit);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(simplifyQuestion(editedQuestion));
+      expect(updateQuestionSpy).toHaveBeenCalledWith(mockQuestion, mockEdit, 'question3_user');
+    });
+
+    it('should return bad request if the title is empty', async () => {
+      const response = await supertest(app)
+        .patch(`/question/editQuestion/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER)
+        .send({ ...mockEdit, title: ' ' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid question body');
+    });
+
+    it('should return bad request if the tags are empty', async () => {
+      const response = await supertest(app)
+        .patch(`/question/editQuestion/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER)
+        .send({ ...mockEdit, tags: [] });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid question body');
+    });
+
+    it('should return bad request if a tag name is longer than 20 characters', async () => {
+      const response = await supertest(app)
+        .patch(`/question/editQuestion/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER)
+        .send({ ...mockEdit, tags: [{ name: 'a'.repeat(21), description: 'long' }] });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid question body');
+    });
+
+    it('should return bad request if the question ID is invalid', async () => {
+      const response = await supertest(app)
+        .patch('/question/editQuestion/invalid-id')
+        .set('Authorization', AUTH_HEADER)
+        .send(mockEdit);
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid ID format');
+    });
+
+    it('should return not found if the question does not exist', async () => {
+      fetchQuestionByIdSpy.mockResolvedValueOnce(null);
+
+      const response = await supertest(app)
+        .patch(`/question/editQuestion/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER)
+        .send(mockEdit);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return forbidden if the user is not the author of the question', async () => {
+      fetchQuestionByIdSpy.mockResolvedValueOnce({ ...mockQuestion, askedBy: 'someone_else' });
+
+      const response = await supertest(app)
+        .patch(`/question/editQuestion/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER)
+        .send(mockEdit);
+
+      expect(response.status).toBe(403);
+      expect(response.text).toBe('You need 1000 reputation to edit posts by other users');
+      expect(updateQuestionSpy).not.toHaveBeenCalled();
+    });
+
+    it('should let users with the privilege edit questions by other users', async () => {
+      const otherQuestion = { ...mockQuestion, askedBy: 'someone_else' };
+      fetchQuestionByIdSpy.mockResolvedValueOnce(otherQuestion);
+      getUserByUsernameSpy.mockResolvedValueOnce({ ...newUser, reputation: 1000 });
+      jest.spyOn(tagUtil, 'processTags').mockResolvedValueOnce([tag1]);
+      updateQuestionSpy.mockResolvedValueOnce({ ...otherQuestion, ...mockEdit });
+      jest
+        .spyOn(databaseUtil, 'populateDocument')
+        .mockResolvedValueOnce({ ...otherQuestion, ...mockEdit });
+
+      const response = await supertest(app)
+        .patch(`/question/editQuestion/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER)
+        .send(mockEdit);
+
+      expect(response.status).toBe(200);
+      expect(updateQuestionSpy).toHaveBeenCalledWith(otherQuestion, mockEdit, 'question3_user');
+    });
+
+    it('should return forbidden if the user cannot create the new tags', async () => {
+      fetchQuestionByIdSpy.mockResolvedValueOnce(mockQuestion);
+      jest
+        .spyOn(tagUtil, 'processTags')
+        .mockResolvedValueOnce({ error: 'You need 300 reputation to create new tags: tag1' });
+
+      const response = await supertest(app)
+        .patch(`/question/editQuestion/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER)
+        .send(mockEdit);
+
+      expect(response.status).toBe(403);
+      expect(response.text).toBe('You need 300 reputation to create new tags: tag1');
+      expect(updateQuestionSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return unauthorized if the request has no session', async () => {
+      const response = await supertest(app)
+        .patch(`/question/editQuestion/${mockQuestion._id}`)
+        .send(mockEdit);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return database error if updating the question fails', async () => {
+      fetchQuestionByIdSpy.mockResolvedValueOnce(mockQuestion);
+      jest.spyOn(tagUtil, 'processTags').mockResolvedValueOnce([tag1]);
+      updateQuestionSpy.mockResolvedValueOnce({ error: 'Error when editing a question' });
+
+      const response = await supertest(app)
+        .patch(`/question/editQuestion/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER)
+        .send(mockEdit);
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe('Error when editing question: Error when editing a question');
+    });
+  });
+
+  describe('GET /getQuestionRevisions/:qid', () => {
+    const getQuestionRevisionsSpy = jest.spyOn(questionUtil, 'getQuestionRevisions');
+
+    it('should return the revisions of the question', async () => {
+      const revision = {
+        _id: new mongoose.Types.ObjectId(),
+        qid: mockQuestion._id!,
+        title: 'Original Title',
+        text: 'Original Text',
+        tags: ['tag1'],
+        editedBy: 'question3_user',
+        editDateTime: new Date('2024-06-07'),
+      };
+      getQuestionRevisionsSpy.mockResolvedValueOnce([revision]);
+
+      const response = await supertest(app).get(
+        `/question/getQuestionRevisions/${mockQuestion._id}`,
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([
+        {
+          ...revision,
+          _id: revision._id.toString(),
+          qid: revision.qid.toString(),
+          editDateTime: revision.editDateTime.toISOString(),
+        },
+      ]);
+    });
+
+    it('should return bad request if the question ID is invalid', async () => {
+      const response = await supertest(app).get('/question/getQuestionRevisions/invalid-id');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return database error if fetching the revisions fails', async () => {
+      getQuestionRevisionsSpy.mockResolvedValueOnce({ error: 'Error' });
+
+      const response = await supertest(app).get(
+        `/question/getQuestionRevisions/${mockQuestion._id}`,
+      );
+
+      expect(response.status).toBe(500);
+    });
+  });
+
+  describe('DELETE /deleteQuestion/:qid', () => {
+    const fetchQuestionByIdSpy = jest.spyOn(questionUtil, 'fetchQuestionById');
+    const deleteQuestionByIdSpy = jest.spyOn(questionUtil, 'deleteQuestionById');
+
+    it('should delete the question and return it', async () => {
+      fetchQuestionByIdSpy.mockResolvedValueOnce(mockQuestion);
+      deleteQuestionByIdSpy.mockResolvedValueOnce(mockQuestion);
+
+      const response = await supertest(app)
+        .delete(`/question/deleteQuestion/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(simplifyQuestion(mockQuestion));
+      expect(deleteQuestionByIdSpy).toHaveBeenCalledWith(mockQuestion._id?.toString());
+    });
+
+    it('should return bad request if the question ID is invalid', async () => {
+      const response = await supertest(app)
+        .delete('/question/deleteQuestion/invalid-id')
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return not found if the question does not exist', async () => {
+      fetchQuestionByIdSpy.mockResolvedValueOnce(null);
+
+      const response = await supertest(app)
+        .delete(`/question/deleteQuestion/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return forbidden if the user is not the author of the question', async () => {
+      fetchQuestionByIdSpy.mockResolvedValueOnce({ ...mockQuestion, askedBy: 'someone_else' });
+
+      const response = await supertest(app)
+        .delete(`/question/deleteQuestion/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(403);
+      expect(deleteQuestionByIdSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return unauthorized if the request has no session', async () => {
+      const response = await supertest(app).delete(`/question/deleteQuestion/${mockQuestion._id}`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return database error if deleting the question fails', async () => {
+      fetchQuestionByIdSpy.mockResolvedValueOnce(mockQuestion);
+      deleteQuestionByIdSpy.mockResolvedValueOnce({ error: 'Error when deleting a question' });
+
+      const response = await supertest(app)
+        .delete(`/question/deleteQuestion/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe('Error when deleting question: Error when deleting a question');
+    });
+  });
+
+  describe('PATCH /acceptAnswer/:qid', () => {
+    const fetchQuestionByIdSpy = jest.spyOn(questionUtil, 'fetchQuestionById');
+    const setAcceptedAnswerSpy = jest.spyOn(questionUtil, 'setAcceptedAnswer');
+    const populateDocumentSpy = jest.spyOn(databaseUtil, 'populateDocument');
+    const answeredQuestion: Question = {
+      ...mockQuestion,
+      answers: [ans1._id!, ans2._id!],
+    };
+    const acceptedQuestion: Question = { ...answeredQuestion, acceptedAnswer: ans1._id };
+
+    it('should accept the answer and return the updated question', async () => {
+      fetchQuestionByIdSpy.mockResolvedValueOnce(answeredQuestion);
+      setAcceptedAnswerSpy.mockResolvedValueOnce(acceptedQuestion);
+      populateDocumentSpy.mockResolvedValueOnce(acceptedQuestion);
+
+      const response = await supertest(app)
+        .patch(`/question/acceptAnswer/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER)
+        .send({ aid: ans1._id?.toString() });
+
+      expect(response.status).toBe(200);
+      expect(response.body.acceptedAnswer).toEqual(ans1._id?.toString());
+      expect(setAcceptedAnswerSpy).toHaveBeenCalledWith(
+        mockQuestion._id?.toString(),
+        ans1._id?.toString(),
+      );
+    });
+
+    it('should return bad request if the answer ID is missing', async () => {
+      const response = await supertest(app)
+        .patch(`/question/acceptAnswer/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER)
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid request');
+    });
+
+    it('should return bad request if the answer ID is invalid', async () => {
+      const response = await supertest(app)
+        .patch(`/question/acceptAnswer/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER)
+        .send({ aid: 'invalid-id' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid ID format');
+    });
+
+    it('should return bad request if the answer does not belong to the question', async () => {
+      fetchQuestionByIdSpy.mockResolvedValueOnce(answeredQuestion);
+
+      const response = await supertest(app)
+        .patch(`/question/acceptAnswer/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER)
+        .send({ aid: ans3._id?.toString() });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Answer does not belong to this question');
+      expect(setAcceptedAnswerSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return not found if the question does not exist', async () => {
+      fetchQuestionByIdSpy.mockResolvedValueOnce(null);
+
+      const response = await supertest(app)
+        .patch(`/question/acceptAnswer/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER)
+        .send({ aid: ans1._id?.toString() });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return forbidden if the user did not ask the question', async () => {
+      fetchQuestionByIdSpy.mockResolvedValueOnce({ ...answeredQuestion, askedBy: 'someone_else' });
+
+      const response = await supertest(app)
+        .patch(`/question/acceptAnswer/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER)
+        .send({ aid: ans1._id?.toString() });
+
+      expect(response.status).toBe(403);
+      expect(setAcceptedAnswerSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return unauthorized if the request has no session', async () => {
+      const response = await supertest(app)
+        .patch(`/question/acceptAnswer/${mockQuestion._id}`)
+        .send({ aid: ans1._id?.toString() });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return database error if updating the question fails', async () => {
+      fetchQuestionByIdSpy.mockResolvedValueOnce(answeredQuestion);
+      setAcceptedAnswerSpy.mockResolvedValueOnce({
+        error: 'Error when updating the accepted answer',
+      });
+
+      const response = await supertest(app)
+        .patch(`/question/acceptAnswer/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER)
+        .send({ aid: ans1._id?.toString() });
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe(
+        'Error when updating the accepted answer: Error when updating the accepted answer',
+      );
+    });
+  });
+
+  describe('PATCH /unacceptAnswer/:qid', () => {
+    const fetchQuestionByIdSpy = jest.spyOn(questionUtil, 'fetchQuestionById');
+    const setAcceptedAnswerSpy = jest.spyOn(questionUtil, 'setAcceptedAnswer');
+    const populateDocumentSpy = jest.spyOn(databaseUtil, 'populateDocument');
+    const unacceptedQuestion: Question = { ...mockQuestion, acceptedAnswer: null };
+
+    it('should clear the accepted answer and return the updated question', async () => {
+      fetchQuestionByIdSpy.mockResolvedValueOnce({ ...mockQuestion, acceptedAnswer: ans1._id });
+      setAcceptedAnswerSpy.mockResolvedValueOnce(unacceptedQuestion);
+      populateDocumentSpy.mockResolvedValueOnce(unacceptedQuestion);
+
+      const response = await supertest(app)
+        .patch(`/question/unacceptAnswer/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(200);
+      expect(response.body.acceptedAnswer).toBeNull();
+      expect(setAcceptedAnswerSpy).toHaveBeenCalledWith(mockQuestion._id?.toString(), null);
+    });
+
+    it('should return bad request if the question ID is invalid', async () => {
+      const response = await supertest(app)
+        .patch('/question/unacceptAnswer/invalid-id')
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return forbidden if the user did not ask the question', async () => {
+      fetchQuestionByIdSpy.mockResolvedValueOnce({ ...mockQuestion, askedBy: 'someone_else' });
+
+      const response = await supertest(app)
+        .patch(`/question/unacceptAnswer/${mockQuestion._id}`)
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(403);
+      expect(setAcceptedAnswerSpy).not.toHaveBeenCalled();
+    });
+  });
 });
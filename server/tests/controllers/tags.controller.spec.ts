@@ -1,9 +1,40 @@
+import mongoose from 'mongoose';
 import supertest from 'supertest';
 import { app } from '../../app';
 import * as tagUtil from '../../services/tag.service';
+import * as userUtil from '../../services/user.service';
 import TagModel from '../../models/tags.model';
+import { createSessionToken } from '../../utils/session.util';
 
-const getTagCountMapSpy: jest.SpyInstance = jest.spyOn(tagUtil, 'getTagCountMap');
+const getTagStatsSpy: jest.SpyInstance = jest.spyOn(tagUtil, 'getTagStats');
+const getTagSuggestionsSpy = jest.spyOn(tagUtil, 'getTagSuggestions');
+const resolveTagSpy = jest.spyOn(tagUtil, 'resolveTag');
+const addTagSynonymSpy = jest.spyOn(tagUtil, 'addTagSynonym');
+const mergeTagSpy = jest.spyOn(tagUtil, 'mergeTag');
+const getTagDetailSpy = jest.spyOn(tagUtil, 'getTagDetail');
+const updateTagWikiSpy = jest.spyOn(tagUtil, 'updateTagWiki');
+const getTagRevisionsSpy = jest.spyOn(tagUtil, 'getTagRevisions');
+const getRelatedTagsSpy = jest.spyOn(tagUtil, 'getRelatedTags');
+
+const AUTH_HEADER = `Bearer ${createSessionToken('tag_user')}`;
+
+const getUserByUsernameSpy = jest.spyOn(userUtil, 'getUserByUsername').mockResolvedValue({
+  username: 'tag_user',
+  dateJoined: new Date('2024-06-01'),
+  role: 'moderator',
+});
+
+const regularUser = {
+  username: 'tag_user',
+  dateJoined: new Date('2024-06-01'),
+  role: 'user' as const,
+};
+
+const mergeTarget = {
+  _id: new mongoose.Types.ObjectId('65e9a5c2b26199dbcc3e6dc8'),
+  name: 'javascript',
+  description: 'JavaScript',
+};
 // Spy on the TagModel.findOne method
 const findOneSpy = jest.spyOn(TagModel, 'findOne');
 
@@ -42,35 +73,527 @@ describe('Test tagController', () => {
   });
 
   describe('GET /getTagsWithQuestionNumber', () => {
-    it('should return tags with question numbers', async () => {
-      const mockTagCountMap = new Map<string, number>();
-      mockTagCountMap.set('tag1', 2);
-      mockTagCountMap.set('tag2', 1);
-      getTagCountMapSpy.mockResolvedValueOnce(mockTagCountMap);
+    const stats = [
+      {
+        name: 'tag1',
+        description: 'description1',
+        qcnt: 2,
+        askedThisWeek: 1,
+        askedThisMonth: 2,
+        unansweredCount: 0,
+        lastActivity: '2024-06-06T00:00:00.000Z',
+      },
+      {
+        name: 'tag2',
+        description: 'description2',
+        qcnt: 0,
+        askedThisWeek: 0,
+        askedThisMonth: 0,
+        unansweredCount: 0,
+        lastActivity: null,
+      },
+    ];
+
+    it('should return the tag statistics, most popular first by default', async () => {
+      getTagStatsSpy.mockResolvedValueOnce(stats);
 
       const response = await supertest(app).get('/tag/getTagsWithQuestionNumber');
 
       expect(response.status).toBe(200);
-      expect(response.body).toEqual([
-        { name: 'tag1', qcnt: 2 },
-        { name: 'tag2', qcnt: 1 },
-      ]);
+      expect(response.body).toEqual(stats);
+      expect(getTagStatsSpy).toHaveBeenLastCalledWith('popular', '');
+    });
+
+    it('should pass the sort order and the trimmed filter', async () => {
+      getTagStatsSpy.mockResolvedValueOnce([stats[0]]);
+
+      const response = await supertest(app)
+        .get('/tag/getTagsWithQuestionNumber')
+        .query({ sort: 'new', filter: ' tag1 ' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([stats[0]]);
+      expect(getTagStatsSpy).toHaveBeenLastCalledWith('new', 'tag1');
     });
 
-    it('should return error 500 if getTagCountMap returns null', async () => {
-      getTagCountMapSpy.mockResolvedValueOnce(null);
+    it('should return 400 if the sort order is invalid', async () => {
+      getTagStatsSpy.mockClear();
+
+      const response = await supertest(app)
+        .get('/tag/getTagsWithQuestionNumber')
+        .query({ sort: 'oldest' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid sort order');
+      expect(getTagStatsSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return error 500 if getTagStats returns an error', async () => {
+      getTagStatsSpy.mockResolvedValueOnce({ error: 'Error when fetching tag statistics' });
 
       const response = await supertest(app).get('/tag/getTagsWithQuestionNumber');
 
       expect(response.status).toBe(500);
+      expect(response.text).toBe(
+        'Error when fetching tag statistics: Error when fetching tag statistics',
+      );
     });
 
-    it('should return error 500 if getTagCountMap throws an error', async () => {
-      getTagCountMapSpy.mockRejectedValueOnce(new Error('Error fetching tags'));
+    it('should return error 500 if getTagStats throws an error', async () => {
+      getTagStatsSpy.mockRejectedValueOnce(new Error('Error fetching tags'));
 
       const response = await supertest(app).get('/tag/getTagsWithQuestionNumber');
 
       expect(response.status).toBe(500);
     });
   });
+
+  describe('GET /suggest', () => {
+    it('should return the tags starting with the trimmed prefix', async () => {
+      const suggestions = [{ name: 'javascript', description: 'JavaScript', qcnt: 2 }];
+      getTagSuggestionsSpy.mockResolvedValueOnce(suggestions);
+
+      const response = await supertest(app).get('/tag/suggest').query({ prefix: ' java ' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(suggestions);
+      expect(getTagSuggestionsSpy).toHaveBeenLastCalledWith('java');
+    });
+
+    it('should suggest from all tags if there is no prefix', async () => {
+      getTagSuggestionsSpy.mockResolvedValueOnce([]);
+
+      const response = await supertest(app).get('/tag/suggest');
+
+      expect(response.status).toBe(200);
+      expect(getTagSuggestionsSpy).toHaveBeenLastCalledWith('');
+    });
+
+    it('should return error 500 if getTagSuggestions returns an error', async () => {
+      getTagSuggestionsSpy.mockResolvedValueOnce({ error: 'Error when fetching tag suggestions' });
+
+      const response = await supertest(app).get('/tag/suggest').query({ prefix: 'java' });
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe(
+        'Error when fetching tag suggestions: Error when fetching tag suggestions',
+      );
+    });
+  });
+
+  describe('GET /resolve/:name', () => {
+    it('should return the tag a differently cased name refers to', async () => {
+      resolveTagSpy.mockResolvedValueOnce(mergeTarget);
+
+      const response = await supertest(app).get('/tag/resolve/JavaScript');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ ...mergeTarget, _id: mergeTarget._id.toString() });
+      expect(resolveTagSpy).toHaveBeenLastCalledWith('JavaScript');
+    });
+
+    it('should return the tag a synonym refers to', async () => {
+      resolveTagSpy.mockResolvedValueOnce(mergeTarget);
+
+      const response = await supertest(app).get('/tag/resolve/js');
+
+      expect(response.status).toBe(200);
+      expect(response.body.name).toBe('javascript');
+      expect(resolveTagSpy).toHaveBeenLastCalledWith('js');
+    });
+
+    it('should return 404 if the name refers to no tag', async () => {
+      resolveTagSpy.mockResolvedValueOnce(null);
+
+      const response = await supertest(app).get('/tag/resolve/unknown');
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe('Tag with name "unknown" not found');
+    });
+
+    it('should return 500 if resolving the tag fails', async () => {
+      resolveTagSpy.mockRejectedValueOnce(new Error('Database error'));
+
+      const response = await supertest(app).get('/tag/resolve/js');
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe('Error when resolving tag: Database error');
+    });
+  });
+
+  describe('POST /addSynonym', () => {
+    it('should add the synonym for the tag', async () => {
+      const synonym = { _id: new mongoose.Types.ObjectId(), name: 'js', tag: mergeTarget._id };
+      resolveTagSpy.mockResolvedValueOnce(null);
+      addTagSynonymSpy.mockResolvedValueOnce(synonym);
+
+      const response = await supertest(app)
+        .post('/tag/addSynonym')
+        .set('Authorization', AUTH_HEADER)
+        .send({ synonym: 'js', tag: 'javascript' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        _id: synonym._id.toString(),
+        name: 'js',
+        tag: mergeTarget._id.toString(),
+      });
+      expect(addTagSynonymSpy).toHaveBeenLastCalledWith('js', 'javascript');
+    });
+
+    it('should return 401 without a session', async () => {
+      const response = await supertest(app)
+        .post('/tag/addSynonym')
+        .send({ synonym: 'js', tag: 'javascript' });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 403 if the user is not a moderator', async () => {
+      getUserByUsernameSpy.mockResolvedValueOnce(regularUser);
+
+      const response = await supertest(app)
+        .post('/tag/addSynonym')
+        .set('Authorization', AUTH_HEADER)
+        .send({ synonym: 'js', tag: 'javascript' });
+
+      expect(response.status).toBe(403);
+      expect(response.text).toBe('Only moderators and admins can merge tags and add tag synonyms');
+      expect(addTagSynonymSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the synonym is missing or has whitespace', async () => {
+      const missing = await supertest(app)
+        .post('/tag/addSynonym')
+        .set('Authorization', AUTH_HEADER)
+        .send({ tag: 'javascript' });
+      const spaces = await supertest(app)
+        .post('/tag/addSynonym')
+        .set('Authorization', AUTH_HEADER)
+        .send({ synonym: 'java script', tag: 'javascript' });
+
+      expect(missing.status).toBe(400);
+      expect(missing.text).toBe('Invalid request');
+      expect(spaces.status).toBe(400);
+      expect(spaces.text).toBe('Invalid request');
+    });
+
+    it('should return 400 if the synonym is already a tag or a synonym', async () => {
+      addTagSynonymSpy.mockClear();
+      resolveTagSpy.mockResolvedValueOnce(mergeTarget);
+
+      const response = await supertest(app)
+        .post('/tag/addSynonym')
+        .set('Authorization', AUTH_HEADER)
+        .send({ synonym: 'JavaScript', tag: 'javascript' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('"JavaScript" is already a tag or a synonym');
+      expect(addTagSynonymSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 if the tag does not exist', async () => {
+      resolveTagSpy.mockResolvedValueOnce(null);
+      addTagSynonymSpy.mockResolvedValueOnce(null);
+
+      const response = await supertest(app)
+        .post('/tag/addSynonym')
+        .set('Authorization', AUTH_HEADER)
+        .send({ synonym: 'js', tag: 'javascript' });
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe('Tag with name "javascript" not found');
+    });
+
+    it('should return 500 if adding the synonym fails', async () => {
+      resolveTagSpy.mockResolvedValueOnce(null);
+      addTagSynonymSpy.mockResolvedValueOnce({ error: 'Error when adding tag synonym' });
+
+      const response = await supertest(app)
+        .post('/tag/addSynonym')
+        .set('Authorization', AUTH_HEADER)
+        .send({ synonym: 'js', tag: 'javascript' });
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe('Error when adding tag synonym: Error when adding tag synonym');
+    });
+  });
+
+  describe('POST /merge', () => {
+    it('should merge the source tag into the target tag', async () => {
+      mergeTagSpy.mockResolvedValueOnce(mergeTarget);
+
+      const response = await supertest(app)
+        .post('/tag/merge')
+        .set('Authorization', AUTH_HEADER)
+        .send({ source: 'js', target: 'javascript' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ ...mergeTarget, _id: mergeTarget._id.toString() });
+      expect(mergeTagSpy).toHaveBeenLastCalledWith('js', 'javascript');
+    });
+
+    it('should return 401 without a session', async () => {
+      const response = await supertest(app)
+        .post('/tag/merge')
+        .send({ source: 'js', target: 'javascript' });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 403 if the user is not a moderator', async () => {
+      getUserByUsernameSpy.mockResolvedValueOnce(regularUser);
+
+      const response = await supertest(app)
+        .post('/tag/merge')
+        .set('Authorization', AUTH_HEADER)
+        .send({ source: 'js', target: 'javascript' });
+
+      expect(response.status).toBe(403);
+      expect(mergeTagSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if a tag is missing or the tags are the same', async () => {
+      const missing = await supertest(app)
+        .post('/tag/merge')
+        .set('Authorization', AUTH_HEADER)
+        .send({ source: 'js' });
+      const same = await supertest(app)
+        .post('/tag/merge')
+        .set('Authorization', AUTH_HEADER)
+        .send({ source: 'js', target: 'js' });
+
+      expect(missing.status).toBe(400);
+      expect(missing.text).toBe('Invalid request');
+      expect(same.status).toBe(400);
+      expect(same.text).toBe('Invalid request');
+    });
+
+    it('should return 404 if either tag does not exist', async () => {
+      mergeTagSpy.mockResolvedValueOnce(null);
+
+      const response = await supertest(app)
+        .post('/tag/merge')
+        .set('Authorization', AUTH_HEADER)
+        .send({ source: 'js', target: 'javascript' });
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe('Tag not found');
+    });
+
+    it('should return 500 if merging the tags fails', async () => {
+      mergeTagSpy.mockResolvedValueOnce({ error: 'Error when merging tags' });
+
+      const response = await supertest(app)
+        .post('/tag/merge')
+        .set('Authorization', AUTH_HEADER)
+        .send({ source: 'js', target: 'javascript' });
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe('Error when merging tags: Error when merging tags');
+    });
+  });
+
+  describe('GET /getTagDetail/:name', () => {
+    it('should return the details of the tag', async () => {
+      getTagDetailSpy.mockResolvedValueOnce({ tag: mergeTarget, qcnt: 0, topQuestions: [] });
+
+      const response = await supertest(app).get('/tag/getTagDetail/javascript');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        tag: { ...mergeTarget, _id: mergeTarget._id.toString() },
+        qcnt: 0,
+        topQuestions: [],
+      });
+      expect(getTagDetailSpy).toHaveBeenLastCalledWith('javascript');
+    });
+
+    it('should return 404 if the tag does not exist', async () => {
+      getTagDetailSpy.mockResolvedValueOnce(null);
+
+      const response = await supertest(app).get('/tag/getTagDetail/nonExistentTag');
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe('Tag with name "nonExistentTag" not found');
+    });
+
+    it('should return 500 if fetching the details fails', async () => {
+      getTagDetailSpy.mockResolvedValueOnce({ error: 'Error when fetching tag details' });
+
+      const response = await supertest(app).get('/tag/getTagDetail/javascript');
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe(
+        'Error when fetching tag details: Error when fetching tag details',
+      );
+    });
+  });
+
+  describe('GET /related/:name', () => {
+    it('should return the related tags', async () => {
+      const related = [{ name: 'react', count: 3 }];
+      getRelatedTagsSpy.mockResolvedValueOnce(related);
+
+      const response = await supertest(app).get('/tag/related/javascript');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(related);
+      expect(getRelatedTagsSpy).toHaveBeenLastCalledWith('javascript');
+    });
+
+    it('should return 404 if the tag does not exist', async () => {
+      getRelatedTagsSpy.mockResolvedValueOnce(null);
+
+      const response = await supertest(app).get('/tag/related/nonExistentTag');
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe('Tag with name "nonExistentTag" not found');
+    });
+
+    it('should return 500 if fetching the related tags fails', async () => {
+      getRelatedTagsSpy.mockResolvedValueOnce({ error: 'Error when fetching related tags' });
+
+      const response = await supertest(app).get('/tag/related/javascript');
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe(
+        'Error when fetching related tags: Error when fetching related tags',
+      );
+    });
+  });
+
+  describe('PATCH /editTagWiki/:name', () => {
+    const edit = { description: ' A language for the web ', wiki: ' Long form ' };
+
+    it('should save the trimmed edit by the logged in user', async () => {
+      updateTagWikiSpy.mockResolvedValueOnce({ ...mergeTarget, description: 'A language' });
+
+      const response = await supertest(app)
+        .patch('/tag/editTagWiki/javascript')
+        .set('Authorization', AUTH_HEADER)
+        .send(edit);
+
+      expect(response.status).toBe(200);
+      expect(updateTagWikiSpy).toHaveBeenLastCalledWith(
+        'javascript',
+        { description: 'A language for the web', wiki: 'Long form' },
+        'tag_user',
+      );
+    });
+
+    it('should return 401 without a session', async () => {
+      const response = await supertest(app).patch('/tag/editTagWiki/javascript').send(edit);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 403 if the user lacks the privilege to edit posts', async () => {
+      getUserByUsernameSpy.mockResolvedValueOnce({ ...regularUser, reputation: 999 });
+
+      const response = await supertest(app)
+        .patch('/tag/editTagWiki/javascript')
+        .set('Authorization', AUTH_HEADER)
+        .send(edit);
+
+      expect(response.status).toBe(403);
+      expect(response.text).toBe('You need 1000 reputation to edit posts by other users');
+      expect(updateTagWikiSpy).not.toHaveBeenCalled();
+    });
+
+    it('should let users with enough reputation edit the wiki', async () => {
+      getUserByUsernameSpy.mockResolvedValueOnce({ ...regularUser, reputation: 1000 });
+      updateTagWikiSpy.mockResolvedValueOnce(mergeTarget);
+
+      const response = await supertest(app)
+        .patch('/tag/editTagWiki/javascript')
+        .set('Authorization', AUTH_HEADER)
+        .send(edit);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should return 400 if the excerpt is empty or too long', async () => {
+      const empty = await supertest(app)
+        .patch('/tag/editTagWiki/javascript')
+        .set('Authorization', AUTH_HEADER)
+        .send({ ...edit, description: ' ' });
+      const tooLong = await supertest(app)
+        .patch('/tag/editTagWiki/javascript')
+        .set('Authorization', AUTH_HEADER)
+        .send({ ...edit, description: 'a'.repeat(501) });
+
+      expect(empty.status).toBe(400);
+      expect(empty.text).toBe('Invalid tag wiki');
+      expect(tooLong.status).toBe(400);
+      expect(tooLong.text).toBe('Invalid tag wiki');
+    });
+
+    it('should return 400 if the wiki is missing', async () => {
+      const response = await supertest(app)
+        .patch('/tag/editTagWiki/javascript')
+        .set('Authorization', AUTH_HEADER)
+        .send({ description: 'A language' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid tag wiki');
+    });
+
+    it('should return 404 if the tag does not exist', async () => {
+      updateTagWikiSpy.mockResolvedValueOnce(null);
+
+      const response = await supertest(app)
+        .patch('/tag/editTagWiki/nonExistentTag')
+        .set('Authorization', AUTH_HEADER)
+        .send(edit);
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe('Tag with name "nonExistentTag" not found');
+    });
+
+    it('should return 500 if saving the edit fails', async () => {
+      updateTagWikiSpy.mockResolvedValueOnce({ error: 'Error when editing tag wiki' });
+
+      const response = await supertest(app)
+        .patch('/tag/editTagWiki/javascript')
+        .set('Authorization', AUTH_HEADER)
+        .send(edit);
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe('Error when editing tag wiki: Error when editing tag wiki');
+    });
+  });
+
+  describe('GET /getTagRevisions/:name', () => {
+    it('should return the revisions of the tag', async () => {
+      const revision = {
+        tid: mergeTarget._id,
+        description: 'Old excerpt',
+        wiki: '',
+        editedBy: 'tag_user',
+        editDateTime: new Date('2024-06-01'),
+      };
+      getTagRevisionsSpy.mockResolvedValueOnce([revision]);
+
+      const response = await supertest(app).get('/tag/getTagRevisions/javascript');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([
+        {
+          ...revision,
+          tid: mergeTarget._id.toString(),
+          editDateTime: revision.editDateTime.toISOString(),
+        },
+      ]);
+    });
+
+    it('should return 404 if the tag does not exist', async () => {
+      getTagRevisionsSpy.mockResolvedValueOnce(null);
+
+      const response = await supertest(app).get('/tag/getTagRevisions/nonExistentTag');
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe('Tag with name "nonExistentTag" not found');
+    });
+  });
 });
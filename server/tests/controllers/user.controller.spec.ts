@@ -2,7 +2,10 @@ import supertest from 'supertest';
 import mongoose from 'mongoose';
 import { app } from '../../app';
 import * as util from '../../services/user.service';
+import * as tagUtil from '../../services/tag.service';
+import * as badgeUtil from '../../services/badge.service';
 import { SafeUser, User } from '../../types/types';
+import { createSessionToken, SESSION_COOKIE_NAME } from '../../utils/session.util';
 
 const mockUser: User = {
   _id: new mongoose.Types.ObjectId(),
@@ -28,6 +31,16 @@ const loginUserSpy = jest.spyOn(util, 'loginUser');
 const getUserByUsernameSpy = jest.spyOn(util, 'getUserByUsername');
 const deleteUserByUsernameSpy = jest.spyOn(util, 'deleteUserByUsername');
 const resetPasswordSpy = jest.spyOn(util, 'resetPassword');
+const getTagPreferencesSpy = jest.spyOn(util, 'getTagPreferences');
+const setTagPreferenceSpy = jest.spyOn(util, 'setTagPreference');
+const updateUserSpy = jest.spyOn(util, 'updateUser');
+const getVotesReceivedSpy = jest.spyOn(util, 'getVotesReceived');
+const getReputationsSpy = jest.spyOn(util, 'getReputations');
+const getLeaderboardSpy = jest.spyOn(util, 'getLeaderboard');
+const resolveTagSpy = jest.spyOn(tagUtil, 'resolveTag');
+const getUserBadgesSpy = jest.spyOn(badgeUtil, 'getUserBadges');
+
+const AUTH_HEADER = `Bearer ${createSessionToken(mockUser.username)}`;
 
 describe('Test userController', () => {
   beforeEach(() => {
@@ -46,6 +59,7 @@ describe('Test userController', () => {
       const response = await supertest(app).post('/user/signup').send(mockReqBody);
 
       expect(response.status).toBe(200);
+      expect(response.headers['set-cookie'][0]).toMatch(new RegExp(`^${SESSION_COOKIE_NAME}=`));
       expect(response.body).toEqual(mockUserJSONResponse);
       expect(saveUserSpy).toHaveBeenCalledWith({ ...mockReqBody, dateJoined: expect.any(Date) });
     });
@@ -86,6 +100,7 @@ describe('Test userController', () => {
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockUserJSONResponse);
+      expect(response.headers['set-cookie'][0]).toMatch(new RegExp(`^${SESSION_COOKIE_NAME}=`));
       expect(loginUserSpy).toHaveBeenCalledWith(mockReqBody);
     });
 
@@ -109,42 +124,79 @@ describe('Test userController', () => {
 
       expect(response.status).toBe(401);
       expect(response.body).toHaveProperty('error');
+      expect(response.headers['set-cookie']).toBeUndefined();
+    });
+  });
+
+  describe('POST /logout', () => {
+    it('should clear the session cookie', async () => {
+      const response = await supertest(app).post('/user/logout');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['set-cookie'][0]).toMatch(new RegExp(`^${SESSION_COOKIE_NAME}=;`));
     });
   });
 
   describe('PATCH /resetPassword', () => {
+    beforeEach(() => {
+      getUserByUsernameSpy.mockResolvedValue(mockSafeUser);
+    });
+
     it('should succesfully return updated user object given correct arguments', async () => {
       const mockReqBody = {
-        username: mockUser.username,
         password: 'newPassword',
       };
 
       resetPasswordSpy.mockResolvedValueOnce(mockSafeUser);
 
-      const response = await supertest(app).patch('/user/resetPassword').send(mockReqBody);
+      const response = await supertest(app)
+        .patch('/user/resetPassword')
+        .set('Authorization', AUTH_HEADER)
+        .send(mockReqBody);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual({ ...mockUserJSONResponse });
       expect(resetPasswordSpy).toHaveBeenCalledWith(mockUser.username, 'newPassword');
     });
 
-    it('should return 400 for request missing username', async () => {
-      const mockReqBody = {
-        password: 'newPassword',
-      };
+    it('should reset the password of the logged in user rather than the one in the body', async () => {
+      resetPasswordSpy.mockResolvedValueOnce(mockSafeUser);
 
-      const response = await supertest(app).patch('/user/resetPassword').send(mockReqBody);
+      const response = await supertest(app)
+        .patch('/user/resetPassword')
+        .set('Authorization', AUTH_HEADER)
+        .send({ username: 'someone_else', password: 'newPassword' });
+
+      expect(response.status).toBe(200);
+      expect(resetPasswordSpy).toHaveBeenCalledWith(mockUser.username, 'newPassword');
+    });
+
+    it('should return 400 for request missing password', async () => {
+      const response = await supertest(app)
+        .patch('/user/resetPassword')
+        .set('Authorization', AUTH_HEADER)
+        .send({});
 
       expect(response.status).toBe(400);
       expect(response.text).toEqual('Invalid user body');
     });
 
+    it('should return 401 if the request has no session', async () => {
+      const response = await supertest(app)
+        .patch('/user/resetPassword')
+        .send({ password: 'newPassword' });
+
+      expect(response.status).toBe(401);
+      expect(resetPasswordSpy).not.toHaveBeenCalled();
+    });
+
     it('should return 404 if user not found on resetPassword', async () => {
       resetPasswordSpy.mockResolvedValueOnce({ error: 'User not found' });
 
       const response = await supertest(app)
         .patch('/user/resetPassword')
-        .send({ username: 'nouser', password: 'newpass' });
+        .set('Authorization', AUTH_HEADER)
+        .send({ password: 'newpass' });
 
       expect(response.status).toBe(404);
       expect(response.body).toHaveProperty('error');
@@ -180,10 +232,16 @@ describe('Test userController', () => {
   });
 
   describe('DELETE /deleteUser', () => {
+    beforeEach(() => {
+      getUserByUsernameSpy.mockResolvedValue(mockSafeUser);
+    });
+
     it('should return the deleted user given correct arguments', async () => {
       deleteUserByUsernameSpy.mockResolvedValueOnce(mockSafeUser);
 
-      const response = await supertest(app).delete(`/user/deleteUser/${mockUser.username}`);
+      const response = await supertest(app)
+        .delete(`/user/deleteUser/${mockUser.username}`)
+        .set('Authorization', AUTH_HEADER);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockUserJSONResponse);
@@ -193,17 +251,544 @@ describe('Test userController', () => {
     it('should return 404 if username not provided', async () => {
       // Express automatically returns 404 for missing parameters when
       // defined as required in the route
-      const response = await supertest(app).delete('/user/deleteUser/');
+      const response = await supertest(app)
+        .delete('/user/deleteUser/')
+        .set('Authorization', AUTH_HEADER);
       expect(response.status).toBe(404);
     });
 
     it('should return 404 if user not found on deleteUser', async () => {
       deleteUserByUsernameSpy.mockResolvedValueOnce({ error: 'User not found' });
 
-      const response = await supertest(app).delete('/user/deleteUser/nouser');
+      const response = await supertest(app)
+        .delete(`/user/deleteUser/${mockUser.username}`)
+        .set('Authorization', AUTH_HEADER);
 
       expect(response.status).toBe(404);
       expect(response.body).toHaveProperty('error');
     });
+
+    it("should return 403 when deleting another user's account", async () => {
+      const response = await supertest(app)
+        .delete('/user/deleteUser/user2')
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(403);
+      expect(response.text).toBe('Only admins can delete other users');
+      expect(deleteUserByUsernameSpy).not.toHaveBeenCalled();
+    });
+
+    it("should let admins delete another user's account", async () => {
+      getUserByUsernameSpy.mockResolvedValue({ ...mockSafeUser, role: 'admin' });
+      deleteUserByUsernameSpy.mockResolvedValueOnce({ ...mockSafeUser, username: 'user2' });
+
+      const response = await supertest(app)
+        .delete('/user/deleteUser/user2')
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(200);
+      expect(deleteUserByUsernameSpy).toHaveBeenCalledWith('user2');
+    });
+
+    it('should not let admins delete their own account', async () => {
+      getUserByUsernameSpy.mockResolvedValue({ ...mockSafeUser, role: 'admin' });
+
+      const response = await supertest(app)
+        .delete(`/user/deleteUser/${mockUser.username}`)
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Admins cannot delete their own account');
+      expect(deleteUserByUsernameSpy).not.toHaveBeenCalled();
+    });
+
+    it("should not let moderators delete another user's account", async () => {
+      getUserByUsernameSpy.mockResolvedValue({ ...mockSafeUser, role: 'moderator' });
+
+      const response = await supertest(app)
+        .delete('/user/deleteUser/user2')
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(403);
+      expect(deleteUserByUsernameSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 if the session token has been tampered with', async () => {
+      const response = await supertest(app)
+        .delete(`/user/deleteUser/${mockUser.username}`)
+        .set('Authorization', `${AUTH_HEADER}x`);
+
+      expect(response.status).toBe(401);
+      expect(deleteUserByUsernameSpy).not.toHaveBeenCalled();
+    });
+
+    it('should accept the session cookie', async () => {
+      deleteUserByUsernameSpy.mockResolvedValueOnce(mockSafeUser);
+
+      const response = await supertest(app)
+        .delete(`/user/deleteUser/${mockUser.username}`)
+        .set('Cookie', `${SESSION_COOKIE_NAME}=${createSessionToken(mockUser.username)}`);
+
+      expect(response.status).toBe(200);
+    });
+  });
+  describe('GET /tagPreferences', () => {
+    beforeEach(() => {
+      getUserByUsernameSpy.mockResolvedValue(mockSafeUser);
+    });
+
+    it('should return the tag preferences of the logged in user', async () => {
+      const preferences = { watchedTags: ['react'], ignoredTags: ['android'] };
+      getTagPreferencesSpy.mockResolvedValueOnce(preferences);
+
+      const response = await supertest(app)
+        .get('/user/tagPreferences')
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(preferences);
+      expect(getTagPreferencesSpy).toHaveBeenCalledWith(mockUser.username);
+    });
+
+    it('should return 401 if the request has no session', async () => {
+      const response = await supertest(app).get('/user/tagPreferences');
+
+      expect(response.status).toBe(401);
+      expect(getTagPreferencesSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 if the user is not found', async () => {
+      getTagPreferencesSpy.mockResolvedValueOnce({ error: 'User not found' });
+
+      const response = await supertest(app)
+        .get('/user/tagPreferences')
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'User not found' });
+    });
+  });
+
+  describe('GET /privileges', () => {
+    it('should return the privileges of the logged in user', async () => {
+      getUserByUsernameSpy.mockResolvedValueOnce({ ...mockSafeUser, reputation: 130 });
+
+      const response = await supertest(app)
+        .get('/user/privileges')
+        .set('Authorization', AUTH_HEADER);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        reputation: 130,
+        privileges: {
+          upvote: true,
+          comment: true,
+          downvote: true,
+          createTag: false,
+          editPosts: false,
+        },
+        thresholds: { upvote: 15, comment: 50, downvote: 125, createTag: 300, editPosts: 1000 },
+      });
+    });
+
+    it('should return 401 if the request has no session', async () => {
+      const response = await supertest(app).get('/user/privileges');
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('PATCH /tagPreferences', () => {
+    const react = { _id: new mongoose.Types.ObjectId(), name: 'react', description: 'React' };
+
+    beforeEach(() => {
+      getUserByUsernameSpy.mockResolvedValue(mockSafeUser);
+    });
+
+    it('should watch the tag under its canonical name', async () => {
+      const preferences = { watchedTags: ['react'], ignoredTags: [] };
+      resolveTagSpy.mockResolvedValueOnce(react);
+      setTagPreferenceSpy.mockResolvedValueOnce(preferences);
+
+      const response = await supertest(app)
+        .patch('/user/tagPreferences')
+        .set('Authorization', AUTH_HEADER)
+        .send({ tag: ' reactjs ', preference: 'watched' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(preferences);
+      expect(resolveTagSpy).toHaveBeenCalledWith('reactjs');
+      expect(setTagPreferenceSpy).toHaveBeenCalledWith(mockUser.username, 'react', 'watched');
+    });
+
+    it('should clear the tag without looking it up', async () => {
+      setTagPreferenceSpy.mockResolvedValueOnce({ watchedTags: [], ignoredTags: [] });
+
+      const response = await supertest(app)
+        .patch('/user/tagPreferences')
+        .set('Authorization', AUTH_HEADER)
+        .send({ tag: 'deleted-tag', preference: 'none' });
+
+      expect(response.status).toBe(200);
+      expect(resolveTagSpy).not.toHaveBeenCalled();
+      expect(setTagPreferenceSpy).toHaveBeenCalledWith(mockUser.username, 'deleted-tag', 'none');
+    });
+
+    it('should return 400 for an invalid preference', async () => {
+      const response = await supertest(app)
+        .patch('/user/tagPreferences')
+        .set('Authorization', AUTH_HEADER)
+        .send({ tag: 'react', preference: 'favorite' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toEqual('Invalid tag preference');
+      expect(setTagPreferenceSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a missing tag', async () => {
+      const response = await supertest(app)
+        .patch('/user/tagPreferences')
+        .set('Authorization', AUTH_HEADER)
+        .send({ tag: '  ', preference: 'ignored' });
+
+      expect(response.status).toBe(400);
+      expect(setTagPreferenceSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 if the tag does not exist', async () => {
+      resolveTagSpy.mockResolvedValueOnce(null);
+
+      const response = await supertest(app)
+        .patch('/user/tagPreferences')
+        .set('Authorization', AUTH_HEADER)
+        .send({ tag: 'nope', preference: 'ignored' });
+
+      expect(response.status).toBe(404);
+      expect(response.text).toEqual('Tag with name "nope" not found');
+      expect(setTagPreferenceSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 if the request has no session', async () => {
+      const response = await supertest(app)
+        .patch('/user/tagPreferences')
+        .send({ tag: 'react', preference: 'watched' });
+
+      expect(response.status).toBe(401);
+    });
+  });
+  describe('PATCH /updateBio', () => {
+    beforeEach(() => {
+      getUserByUsernameSpy.mockResolvedValue(mockSafeUser);
+    });
+
+    it('should update the trimmed bio of the logged in user', async () => {
+      updateUserSpy.mockResolvedValueOnce({ ...mockSafeUser, bio: 'Hello there' });
+
+      const response = await supertest(app)
+        .patch('/user/updateBio')
+        .set('Authorization', AUTH_HEADER)
+        .send({ bio: '  Hello there ' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ ...mockUserJSONResponse, bio: 'Hello there' });
+      expect(updateUserSpy).toHaveBeenCalledWith(mockUser.username, { bio: 'Hello there' });
+    });
+
+    it('should return 400 for a bio that is too long', async () => {
+      const response = await supertest(app)
+        .patch('/user/updateBio')
+        .set('Authorization', AUTH_HEADER)
+        .send({ bio: 'a'.repeat(501) });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toEqual('Invalid bio');
+      expect(updateUserSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a missing bio', async () => {
+      const response = await supertest(app)
+        .patch('/user/updateBio')
+        .set('Authorization', AUTH_HEADER)
+        .send({});
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 401 if the request has no session', async () => {
+      const response = await supertest(app).patch('/user/updateBio').send({ bio: 'Hello' });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('PATCH /setRole', () => {
+    beforeEach(() => {
+      getUserByUsernameSpy.mockResolvedValue({ ...mockSafeUser, role: 'admin' });
+    });
+
+    it('should change the role of the user', async () => {
+      updateUserSpy.mockResolvedValueOnce({
+        ...mockSafeUser,
+        username: 'user2',
+        role: 'moderator',
+      });
+
+      const response = await supertest(app)
+        .patch('/user/setRole/user2')
+        .set('Authorization', AUTH_HEADER)
+        .send({ role: 'moderator' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.role).toBe('moderator');
+      expect(updateUserSpy).toHaveBeenCalledWith('user2', { role: 'moderator' });
+    });
+
+    it('should return 403 if the user is not an admin', async () => {
+      getUserByUsernameSpy.mockResolvedValue({ ...mockSafeUser, role: 'moderator' });
+
+      const response = await supertest(app)
+        .patch('/user/setRole/user2')
+        .set('Authorization', AUTH_HEADER)
+        .send({ role: 'admin' });
+
+      expect(response.status).toBe(403);
+      expect(response.text).toBe('Only admins can change the roles of users');
+      expect(updateUserSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the role is invalid', async () => {
+      const response = await supertest(app)
+        .patch('/user/setRole/user2')
+        .set('Authorization', AUTH_HEADER)
+        .send({ role: 'owner' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid role');
+    });
+
+    it('should return 400 if admins change their own role', async () => {
+      const response = await supertest(app)
+        .patch(`/user/setRole/${mockUser.username}`)
+        .set('Authorization', AUTH_HEADER)
+        .send({ role: 'user' });
+
+      expect(response.status).toBe(400);
+      expect(updateUserSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 if the user does not exist', async () => {
+      updateUserSpy.mockResolvedValueOnce({ error: 'User not found' });
+
+      const response = await supertest(app)
+        .patch('/user/setRole/nouser')
+        .set('Authorization', AUTH_HEADER)
+        .send({ role: 'moderator' });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'User not found' });
+    });
+  });
+
+  describe('GET /getVotesReceived', () => {
+    it('should return the votes received by the user', async () => {
+      getVotesReceivedSpy.mockResolvedValueOnce({ upVotes: 5, downVotes: 1 });
+
+      const response = await supertest(app).get(`/user/getVotesReceived/${mockUser.username}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ upVotes: 5, downVotes: 1 });
+      expect(getVotesReceivedSpy).toHaveBeenCalledWith(mockUser.username);
+    });
+
+    it('should return 500 if counting the votes fails', async () => {
+      getVotesReceivedSpy.mockResolvedValueOnce({ error: 'Error fetching votes received' });
+
+      const response = await supertest(app).get(`/user/getVotesReceived/${mockUser.username}`);
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ error: 'Error fetching votes received' });
+    });
+  });
+
+  describe('GET /getReputations', () => {
+    it('should return the reputation of each requested user', async () => {
+      getReputationsSpy.mockResolvedValueOnce({ [mockUser.username]: 42, other: 1 });
+
+      const response = await supertest(app)
+        .get('/user/getReputations')
+        .query({ usernames: `${mockUser.username}, other,,${mockUser.username}` });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ [mockUser.username]: 42, other: 1 });
+      expect(getReputationsSpy).toHaveBeenCalledWith([mockUser.username, 'other']);
+    });
+
+    it('should return no reputations if no usernames are given', async () => {
+      getReputationsSpy.mockResolvedValueOnce({});
+
+      const response = await supertest(app).get('/user/getReputations');
+
+      expect(response.status).toBe(200);
+      expect(getReputationsSpy).toHaveBeenCalledWith([]);
+    });
+
+    it('should return 400 if too many usernames are given', async () => {
+      const usernames = Array.from({ length: 101 }, (_, i) => `user${i}`).join(',');
+
+      const response = await supertest(app).get('/user/getReputations').query({ usernames });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toEqual('Invalid usernames');
+      expect(getReputationsSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 if fetching the reputations fails', async () => {
+      getReputationsSpy.mockResolvedValueOnce({ error: 'Error fetching reputations' });
+
+      const response = await supertest(app)
+        .get('/user/getReputations')
+        .query({ usernames: mockUser.username });
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ error: 'Error fetching reputations' });
+    });
+  });
+
+  describe('GET /getBadges', () => {
+    it('should return the badges the user earned', async () => {
+      const award = {
+        username: mockUser.username,
+        badge: {
+          _id: new mongoose.Types.ObjectId(),
+          key: 'student',
+          name: 'Student',
+          description: 'Asked a first question',
+        },
+        awardedAt: new Date('2024-06-01'),
+      };
+      getUserBadgesSpy.mockResolvedValueOnce([award]);
+
+      const response = await supertest(app).get(`/user/getBadges/${mockUser.username}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([
+        {
+          ...award,
+          badge: { ...award.badge, _id: award.badge._id.toString() },
+          awardedAt: award.awardedAt.toISOString(),
+        },
+      ]);
+      expect(getUserBadgesSpy).toHaveBeenCalledWith(mockUser.username);
+    });
+
+    it('should return 500 if fetching the badges fails', async () => {
+      getUserBadgesSpy.mockResolvedValueOnce({ error: 'Error when fetching badges' });
+
+      const response = await supertest(app).get(`/user/getBadges/${mockUser.username}`);
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ error: 'Error when fetching badges' });
+    });
+  });
+
+  describe('GET /leaderboard', () => {
+    const leaderboard = {
+      users: [{ username: mockUser.username, reputation: 42, dateJoined: new Date(), score: 3 }],
+      total: 1,
+      page: 1,
+      limit: 20,
+    };
+    const mockTag = { _id: new mongoose.Types.ObjectId(), name: 'javascript', description: '' };
+
+    it('should rank users by reputation over all time by default', async () => {
+      getLeaderboardSpy.mockResolvedValueOnce(leaderboard);
+
+      const response = await supertest(app).get('/user/leaderboard');
+
+      expect(response.status).toBe(200);
+      expect(response.body.total).toBe(1);
+      expect(getLeaderboardSpy).toHaveBeenCalledWith({
+        sort: 'reputation',
+        period: 'all',
+        tagId: undefined,
+        page: 1,
+        limit: 20,
+      });
+    });
+
+    it('should rank the answerers of a tag over a period', async () => {
+      resolveTagSpy.mockResolvedValueOnce(mockTag);
+      getLeaderboardSpy.mockResolvedValueOnce(leaderboard);
+
+      const response = await supertest(app)
+        .get('/user/leaderboard')
+        .query({ sort: 'answers', period: 'week', tag: 'js', page: '2', limit: '10' });
+
+      expect(response.status).toBe(200);
+      expect(resolveTagSpy).toHaveBeenCalledWith('js');
+      expect(getLeaderboardSpy).toHaveBeenCalledWith({
+        sort: 'answers',
+        period: 'week',
+        tagId: mockTag._id,
+        page: 2,
+        limit: 10,
+      });
+    });
+
+    it('should return 404 if the tag does not exist', async () => {
+      resolveTagSpy.mockResolvedValueOnce(null);
+
+      const response = await supertest(app)
+        .get('/user/leaderboard')
+        .query({ sort: 'answers', tag: 'unknown' });
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe('Tag with name "unknown" not found');
+      expect(getLeaderboardSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the sort order is invalid', async () => {
+      const response = await supertest(app).get('/user/leaderboard').query({ sort: 'votes' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid sort order');
+      expect(getLeaderboardSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the period is invalid', async () => {
+      const response = await supertest(app).get('/user/leaderboard').query({ period: 'year' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid period');
+    });
+
+    it('should return 400 if the newest members are requested for a tag', async () => {
+      const response = await supertest(app)
+        .get('/user/leaderboard')
+        .query({ sort: 'newest', tag: 'javascript' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid tag');
+      expect(resolveTagSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the page or limit is invalid', async () => {
+      const pageResponse = await supertest(app).get('/user/leaderboard').query({ page: '0' });
+      const limitResponse = await supertest(app).get('/user/leaderboard').query({ limit: '101' });
+
+      expect(pageResponse.status).toBe(400);
+      expect(pageResponse.text).toBe('Invalid page');
+      expect(limitResponse.status).toBe(400);
+      expect(limitResponse.text).toBe('Invalid limit');
+    });
+
+    it('should return 500 if fetching the leaderboard fails', async () => {
+      getLeaderboardSpy.mockResolvedValueOnce({ error: 'Error fetching the leaderboard' });
+
+      const response = await supertest(app).get('/user/leaderboard');
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ error: 'Error fetching the leaderboard' });
+    });
   });
 });
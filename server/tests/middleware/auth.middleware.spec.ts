@@ -0,0 +1,85 @@
+import { authenticateSocket } from '../../middleware/auth.middleware';
+import * as userUtil from '../../services/user.service';
+import { FakeSOConnection, SafeUser } from '../../types/types';
+import { createSessionToken, SESSION_COOKIE_NAME } from '../../utils/session.util';
+
+const getUserByUsernameSpy = jest.spyOn(userUtil, 'getUserByUsername');
+
+const mockSafeUser: SafeUser = {
+  username: 'user1',
+  dateJoined: new Date('2024-12-03'),
+};
+
+/**
+ * Builds a minimal socket with the given handshake credentials.
+ */
+const mockSocket = (auth: Record<string, unknown>, cookie?: string): FakeSOConnection =>
+  ({
+    handshake: { auth, headers: { cookie } },
+    data: {},
+  }) as unknown as FakeSOConnection;
+
+describe('authenticateSocket', () => {
+  it('should attach the user for a token in the handshake auth payload', async () => {
+    getUserByUsernameSpy.mockResolvedValueOnce(mockSafeUser);
+    const socket = mockSocket({ token: createSessionToken('user1') });
+    const next = jest.fn();
+
+    await authenticateSocket(socket, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(socket.data.user).toEqual(mockSafeUser);
+    expect(getUserByUsernameSpy).toHaveBeenCalledWith('user1');
+  });
+
+  it('should attach the user for a session cookie', async () => {
+    getUserByUsernameSpy.mockResolvedValueOnce(mockSafeUser);
+    const socket = mockSocket({}, `${SESSION_COOKIE_NAME}=${createSessionToken('user1')}`);
+    const next = jest.fn();
+
+    await authenticateSocket(socket, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(socket.data.user).toEqual(mockSafeUser);
+  });
+
+  it('should reject a connection without credentials', async () => {
+    const socket = mockSocket({});
+    const next = jest.fn();
+
+    await authenticateSocket(socket, next);
+
+    expect(next).toHaveBeenCalledWith(new Error('Authentication required'));
+    expect(socket.data.user).toBeUndefined();
+  });
+
+  it('should reject a tampered token', async () => {
+    const socket = mockSocket({ token: `${createSessionToken('user1')}x` });
+    const next = jest.fn();
+
+    await authenticateSocket(socket, next);
+
+    expect(next).toHaveBeenCalledWith(new Error('Invalid or expired session'));
+    expect(getUserByUsernameSpy).not.toHaveBeenCalled();
+  });
+
+  it('should reject an expired token', async () => {
+    const socket = mockSocket({ token: createSessionToken('user1', 0) });
+    const next = jest.fn();
+
+    await authenticateSocket(socket, next);
+
+    expect(next).toHaveBeenCalledWith(new Error('Invalid or expired session'));
+  });
+
+  it('should reject a token for a user that no longer exists', async () => {
+    getUserByUsernameSpy.mockResolvedValueOnce({ error: 'User not found' });
+    const socket = mockSocket({ token: createSessionToken('user1') });
+    const next = jest.fn();
+
+    await authenticateSocket(socket, next);
+
+    expect(next).toHaveBeenCalledWith(new Error('Invalid or expired session'));
+    expect(socket.data.user).toBeUndefined();
+  });
+});
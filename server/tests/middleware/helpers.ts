@@ -0,0 +1,21 @@
+import { Request, Response } from 'express';
+import { SafeUser } from '../../types/types';
+
+/**
+ * A user without any stored reputation or role, for the middleware specs to build on.
+ */
+export const middlewareUser: SafeUser = {
+  username: 'user1',
+  dateJoined: new Date('2024-12-03'),
+};
+
+/**
+ * Builds a minimal request for the given user, and a response that records its status and body.
+ */
+export const mockRequest = (user: SafeUser) => {
+  const req = { user } as Request;
+  const res = { status: jest.fn(), send: jest.fn() };
+  res.status.mockReturnValue(res);
+
+  return { req, res: res as unknown as Response & typeof res };
+};
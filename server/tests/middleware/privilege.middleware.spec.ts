@@ -0,0 +1,46 @@
+import { NextFunction } from 'express';
+import requirePrivilege from '../../middleware/privilege.middleware';
+import { middlewareUser as user, mockRequest } from './helpers';
+
+describe('requirePrivilege', () => {
+  it('should let through a user with enough reputation', () => {
+    const { req, res } = mockRequest({ ...user, reputation: 15 });
+    const next: NextFunction = jest.fn();
+
+    requirePrivilege('upvote')(req, res, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('should reject a user without enough reputation', () => {
+    const { req, res } = mockRequest({ ...user, reputation: 14 });
+    const next: NextFunction = jest.fn();
+
+    requirePrivilege('upvote')(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.send).toHaveBeenCalledWith('You need 15 reputation to upvote');
+  });
+
+  it('should treat a user without stored reputation as having the base reputation', () => {
+    const { req, res } = mockRequest(user);
+    const next: NextFunction = jest.fn();
+
+    requirePrivilege('downvote')(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.send).toHaveBeenCalledWith('You need 125 reputation to downvote');
+  });
+
+  it('should let through moderators and admins whatever their reputation', () => {
+    const { req, res } = mockRequest({ ...user, role: 'moderator' });
+    const next: NextFunction = jest.fn();
+
+    requirePrivilege('editPosts')(req, res, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,47 @@
+import { NextFunction } from 'express';
+import requirePermission from '../../middleware/role.middleware';
+import { middlewareUser as user, mockRequest } from './helpers';
+
+describe('requirePermission', () => {
+  it('should let through a user whose role allows the action', () => {
+    const { req, res } = mockRequest({ ...user, role: 'moderator' });
+    const next: NextFunction = jest.fn();
+
+    requirePermission('mergeTags')(req, res, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('should let admins take moderator actions', () => {
+    const { req, res } = mockRequest({ ...user, role: 'admin' });
+    const next: NextFunction = jest.fn();
+
+    requirePermission('mergeTags')(req, res, next);
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('should reject a user whose role does not allow the action', () => {
+    const { req, res } = mockRequest({ ...user, role: 'moderator' });
+    const next: NextFunction = jest.fn();
+
+    requirePermission('manageRoles')(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.send).toHaveBeenCalledWith('Only admins can change the roles of users');
+  });
+
+  it('should treat a user without a stored role as a regular user', () => {
+    const { req, res } = mockRequest(user);
+    const next: NextFunction = jest.fn();
+
+    requirePermission('mergeTags')(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.send).toHaveBeenCalledWith(
+      'Only moderators and admins can merge tags and add tag synonyms',
+    );
+  });
+});
@@ -25,6 +25,7 @@ export const com1: Comment = {
   text: 'com1',
   commentBy: 'com_by1',
   commentDateTime: new Date('2023-11-18T09:25:00'),
+  upVotes: [],
 };
 
 export const ans1: Answer = {
@@ -33,6 +34,8 @@ export const ans1: Answer = {
   ansBy: 'ansBy1',
   ansDateTime: new Date('2023-11-18T09:24:00'),
   comments: [],
+  upVotes: [],
+  downVotes: [],
 };
 
 export const ans2: Answer = {
@@ -41,6 +44,8 @@ export const ans2: Answer = {
   ansBy: 'ansBy2',
   ansDateTime: new Date('2023-11-20T09:24:00'),
   comments: [],
+  upVotes: [],
+  downVotes: [],
 };
 
 export const ans3: Answer = {
@@ -49,6 +54,8 @@ export const ans3: Answer = {
   ansBy: 'ansBy3',
   ansDateTime: new Date('2023-11-19T09:24:00'),
   comments: [],
+  upVotes: [],
+  downVotes: [],
 };
 
 export const ans4: Answer = {
@@ -57,6 +64,8 @@ export const ans4: Answer = {
   ansBy: 'ansBy4',
   ansDateTime: new Date('2023-11-19T09:24:00'),
   comments: [],
+  upVotes: [],
+  downVotes: [],
 };
 
 export const QUESTIONS: Question[] = [
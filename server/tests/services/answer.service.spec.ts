@@ -1,7 +1,18 @@
+import { PipelineStage } from 'mongoose';
 import QuestionModel from '../../models/questions.model';
-import { saveAnswer, addAnswerToQuestion } from '../../services/answer.service';
+import AnswerModel from '../../models/answers.model';
+import CommentModel from '../../models/comments.model';
+import {
+  saveAnswer,
+  addAnswerToQuestion,
+  fetchAnswerById,
+  deleteAnswerById,
+  addVoteToAnswer,
+  getAnswersByAuthor,
+} from '../../services/answer.service';
+import * as reputationUtil from '../../services/reputation.service';
 import { Answer, Question } from '../../types/types';
-import { QUESTIONS, ans1, ans4 } from '../mockData.models';
+import { QUESTIONS, ans1, ans2, ans4 } from '../mockData.models';
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const mockingoose = require('mockingoose');
@@ -17,6 +28,8 @@ describe('Answer model', () => {
         ansBy: 'dummyUserId',
         ansDateTime: new Date('2024-06-06'),
         comments: [],
+        upVotes: [],
+        downVotes: [],
       };
 
       const result = (await saveAnswer(mockAnswer)) as Answer;
@@ -82,4 +95,260 @@ describe('Answer model', () => {
       }
     });
   });
+
+  describe('fetchAnswerById', () => {
+    test('should return the answer with the given id', async () => {
+      mockingoose(AnswerModel).toReturn(ans1, 'findOne');
+
+      const result = (await fetchAnswerById(ans1._id!.toString())) as Answer;
+
+      expect(result._id?.toString()).toEqual(ans1._id?.toString());
+      expect(result.ansBy).toEqual(ans1.ansBy);
+    });
+
+    test('should return an error if the database throws an error', async () => {
+      mockingoose(AnswerModel).toReturn(new Error('error'), 'findOne');
+
+      const result = await fetchAnswerById(ans1._id!.toString());
+
+      expect(result).toEqual({ error: 'Error when fetching an answer' });
+    });
+  });
+
+  describe('deleteAnswerById', () => {
+    const clearReputationSpy = jest.spyOn(reputationUtil, 'clearReputation');
+
+    beforeEach(() => {
+      clearReputationSpy.mockResolvedValue([]);
+    });
+
+    test('should delete the answer and its comments and return the IDs', async () => {
+      const question = QUESTIONS[0];
+      mockingoose(QuestionModel).toReturn({ ...question, answers: [ans2._id] }, 'findOneAndUpdate');
+      mockingoose(AnswerModel).toReturn(ans1, 'findOneAndDelete');
+      const deleteManySpy = jest.spyOn(CommentModel, 'deleteMany');
+
+      const result = await deleteAnswerById(ans1._id!.toString());
+
+      expect(result).toEqual({ qid: question._id?.toString(), aid: ans1._id?.toString() });
+      expect(deleteManySpy).toHaveBeenCalledWith({ _id: { $in: expect.any(Array) } });
+      expect(clearReputationSpy).toHaveBeenCalledWith([ans1._id]);
+    });
+
+    test('should return an error if the reputation cannot be taken back', async () => {
+      mockingoose(QuestionModel).toReturn(QUESTIONS[0], 'findOneAndUpdate');
+      mockingoose(AnswerModel).toReturn(ans1, 'findOneAndDelete');
+      clearReputationSpy.mockResolvedValueOnce({ error: 'Error when updating reputation' });
+
+      const result = await deleteAnswerById(ans1._id!.toString());
+
+      expect(result).toEqual({
+        error: 'Error when deleting an answer: Error when updating reputation',
+      });
+    });
+
+    test('should clear the accepted answer of the question if it is deleted', async () => {
+      const question = QUESTIONS[0];
+      mockingoose(QuestionModel).toReturn(
+        { ...question, answers: [ans2._id], acceptedAnswer: ans1._id },
+        'findOneAndUpdate',
+      );
+      mockingoose(AnswerModel).toReturn(ans1, 'findOneAndDelete');
+      const updateOneSpy = jest.spyOn(QuestionModel, 'updateOne');
+
+      await deleteAnswerById(ans1._id!.toString());
+
+      expect(updateOneSpy).toHaveBeenCalledWith(
+        { _id: question._id },
+        { $set: { acceptedAnswer: null } },
+      );
+    });
+
+    test('should return an error if the answer is not on a question', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await deleteAnswerById(ans1._id!.toString());
+
+      expect(result).toEqual({ error: 'Error when deleting an answer: Question not found' });
+    });
+
+    test('should return an error if the answer does not exist', async () => {
+      mockingoose(QuestionModel).toReturn(QUESTIONS[0], 'findOneAndUpdate');
+      mockingoose(AnswerModel).toReturn(null, 'findOneAndDelete');
+
+      const result = await deleteAnswerById(ans1._id!.toString());
+
+      expect(result).toEqual({ error: 'Error when deleting an answer: Answer not found' });
+    });
+  });
+
+  describe('addVoteToAnswer', () => {
+    const recordVoteSpy = jest.spyOn(reputationUtil, 'recordVote');
+
+    beforeEach(() => {
+      recordVoteSpy.mockResolvedValue([]);
+    });
+
+    test('should update the reputation of the author', async () => {
+      mockingoose(AnswerModel).toReturn(
+        { ...ans1, upVotes: [], downVotes: ['testUser'] },
+        'findOneAndUpdate',
+      );
+
+      await addVoteToAnswer(ans1._id!.toString(), 'testUser', 'downvote');
+
+      expect(recordVoteSpy).toHaveBeenCalledWith(
+        'answer',
+        expect.objectContaining({ downVotes: ['testUser'] }),
+        ans1.ansBy,
+        'testUser',
+      );
+    });
+
+    test('should return an error if the reputation cannot be updated', async () => {
+      mockingoose(AnswerModel).toReturn(
+        { ...ans1, upVotes: ['testUser'], downVotes: [] },
+        'findOneAndUpdate',
+      );
+      recordVoteSpy.mockResolvedValueOnce({ error: 'Error when updating reputation' });
+
+      const result = await addVoteToAnswer(ans1._id!.toString(), 'testUser', 'upvote');
+
+      expect(result).toEqual({ error: 'Error when adding upvote to answer' });
+    });
+
+    test('should upvote an answer', async () => {
+      mockingoose(AnswerModel).toReturn(
+        { ...ans1, upVotes: ['testUser'], downVotes: [] },
+        'findOneAndUpdate',
+      );
+
+      const result = await addVoteToAnswer(ans1._id!.toString(), 'testUser', 'upvote');
+
+      expect(result).toEqual({
+        msg: 'Answer upvoted successfully',
+        upVotes: ['testUser'],
+        downVotes: [],
+      });
+    });
+
+    test('should cancel the upvote if already upvoted', async () => {
+      mockingoose(AnswerModel).toReturn(
+        { ...ans1, upVotes: [], downVotes: [] },
+        'findOneAndUpdate',
+      );
+
+      const result = await addVoteToAnswer(ans1._id!.toString(), 'testUser', 'upvote');
+
+      expect(result).toEqual({
+        msg: 'Upvote cancelled successfully',
+        upVotes: [],
+        downVotes: [],
+      });
+    });
+
+    test('should downvote an answer', async () => {
+      mockingoose(AnswerModel).toReturn(
+        { ...ans1, upVotes: [], downVotes: ['testUser'] },
+        'findOneAndUpdate',
+      );
+
+      const result = await addVoteToAnswer(ans1._id!.toString(), 'testUser', 'downvote');
+
+      expect(result).toEqual({
+        msg: 'Answer downvoted successfully',
+        upVotes: [],
+        downVotes: ['testUser'],
+      });
+    });
+
+    test('should cancel the downvote if already downvoted', async () => {
+      mockingoose(AnswerModel).toReturn(
+        { ...ans1, upVotes: [], downVotes: [] },
+        'findOneAndUpdate',
+      );
+
+      const result = await addVoteToAnswer(ans1._id!.toString(), 'testUser', 'downvote');
+
+      expect(result).toEqual({
+        msg: 'Downvote cancelled successfully',
+        upVotes: [],
+        downVotes: [],
+      });
+    });
+
+    test('should return an error if the answer is not found', async () => {
+      mockingoose(AnswerModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await addVoteToAnswer(ans1._id!.toString(), 'testUser', 'upvote');
+
+      expect(result).toEqual({ error: 'Answer not found!' });
+    });
+
+    test('should return an error if the database throws an error', async () => {
+      mockingoose(AnswerModel).toReturn(new Error('error'), 'findOneAndUpdate');
+
+      const result = await addVoteToAnswer(ans1._id!.toString(), 'testUser', 'downvote');
+
+      expect(result).toEqual({ error: 'Error when adding downvote to answer' });
+    });
+  });
+
+  describe('getAnswersByAuthor', () => {
+    test('should return the answers of the user with their score and question', async () => {
+      const answers = [
+        {
+          _id: ans1._id,
+          text: ans1.text,
+          ansDateTime: ans1.ansDateTime,
+          score: 1,
+          question: { _id: QUESTIONS[0]._id, title: QUESTIONS[0].title },
+        },
+      ];
+      const aggregateSpy = jest.spyOn(AnswerModel, 'aggregate');
+      mockingoose(AnswerModel).toReturn(answers, 'aggregate');
+
+      const result = await getAnswersByAuthor(ans1.ansBy);
+
+      expect(result).toEqual(answers);
+      expect(aggregateSpy.mock.calls[0][0][0]).toEqual({ $match: { ansBy: ans1.ansBy } });
+
+      aggregateSpy.mockRestore();
+    });
+
+    test('should score answers saved without vote arrays as 0', async () => {
+      const legacyAnswer = {
+        _id: ans1._id,
+        text: ans1.text,
+        ansDateTime: ans1.ansDateTime,
+        score: 0,
+        question: { _id: QUESTIONS[0]._id, title: QUESTIONS[0].title },
+      };
+      const aggregateSpy = jest.spyOn(AnswerModel, 'aggregate');
+      mockingoose(AnswerModel).toReturn([legacyAnswer], 'aggregate');
+
+      const result = await getAnswersByAuthor(ans1.ansBy);
+
+      expect(result).toEqual([legacyAnswer]);
+      const project = (aggregateSpy.mock.calls[0][0] as PipelineStage[]).find(
+        (stage): stage is PipelineStage.Project => '$project' in stage,
+      );
+      expect(project?.$project.score).toEqual({
+        $subtract: [
+          { $size: { $ifNull: ['$upVotes', []] } },
+          { $size: { $ifNull: ['$downVotes', []] } },
+        ],
+      });
+
+      aggregateSpy.mockRestore();
+    });
+
+    test('should return an error if the aggregation fails', async () => {
+      mockingoose(AnswerModel).toReturn(new Error('error'), 'aggregate');
+
+      const result = await getAnswersByAuthor(ans1.ansBy);
+
+      expect(result).toEqual({ error: 'Error when fetching answers by author' });
+    });
+  });
 });
@@ -0,0 +1,322 @@
+import { ObjectId } from 'mongodb';
+import BadgeModel from '../../models/badges.model';
+import UserBadgeModel from '../../models/userBadges.model';
+import QuestionModel from '../../models/questions.model';
+import AnswerModel from '../../models/answers.model';
+import TagModel from '../../models/tags.model';
+import {
+  checkBadges,
+  checkPostBadges,
+  checkQuestionViewBadges,
+  getUserBadges,
+} from '../../services/badge.service';
+import { BadgeRule, Question } from '../../types/types';
+import { BADGE_RULES, buildBadgeActivity, meetsBadgeRule } from '../../utils/badge.util';
+import { QUESTIONS, ans1, tag2, tag3 } from '../mockData.models';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+/**
+ * Finds a badge rule by its key.
+ */
+const rule = (key: string): BadgeRule => BADGE_RULES.find(r => r.key === key)!;
+
+const studentBadge = {
+  _id: new ObjectId('65e9b58910afe6e94fc6e6a1'),
+  key: 'student',
+  name: 'Student',
+  description: 'Asked a first question',
+};
+
+describe('Badge rules', () => {
+  test('every rule should have a unique key', () => {
+    const keys = BADGE_RULES.map(r => r.key);
+
+    expect(new Set(keys).size).toEqual(keys.length);
+  });
+
+  describe('buildBadgeActivity', () => {
+    test('should gather the questions a user asked', () => {
+      const activity = buildBadgeActivity('q_by1', QUESTIONS);
+
+      expect(activity.questions).toEqual([QUESTIONS[0]]);
+      expect(activity.answers).toEqual([]);
+      expect(activity.answeredQuestions).toEqual([]);
+    });
+
+    test('should gather the answers a user wrote and the questions they answered', () => {
+      const activity = buildBadgeActivity('ansBy3', QUESTIONS);
+
+      expect(activity.questions).toEqual([]);
+      expect(activity.answers.map(a => a.text)).toEqual(['ans3']);
+      expect(activity.answeredQuestions).toEqual([QUESTIONS[1]]);
+    });
+  });
+
+  describe('meetsBadgeRule', () => {
+    test('first question should be earned by users who asked a question', () => {
+      expect(meetsBadgeRule(rule('student'), buildBadgeActivity('q_by1', QUESTIONS))).toBe(true);
+      expect(meetsBadgeRule(rule('student'), buildBadgeActivity('ansBy1', QUESTIONS))).toBe(false);
+    });
+
+    test('first answer should be earned by users who answered a question', () => {
+      expect(meetsBadgeRule(rule('teacher'), buildBadgeActivity('ansBy1', QUESTIONS))).toBe(true);
+      expect(meetsBadgeRule(rule('teacher'), buildBadgeActivity('q_by1', QUESTIONS))).toBe(false);
+    });
+
+    test('question with 10 upvotes should need a single question with 10 upvotes', () => {
+      const upVotes = Array.from({ length: 10 }, (_, i) => `voter${i}`);
+      const questions = [{ ...QUESTIONS[0], upVotes }, QUESTIONS[1]];
+      const fewerVotes = [{ ...QUESTIONS[0], upVotes: upVotes.slice(1) }, QUESTIONS[1]];
+
+      expect(meetsBadgeRule(rule('nice-question'), buildBadgeActivity('q_by1', questions))).toBe(
+        true,
+      );
+      expect(meetsBadgeRule(rule('nice-question'), buildBadgeActivity('q_by1', fewerVotes))).toBe(
+        false,
+      );
+    });
+
+    test('answer with 10 upvotes should need a single answer with 10 upvotes', () => {
+      const upVotes = Array.from({ length: 10 }, (_, i) => `voter${i}`);
+      const questions = [{ ...QUESTIONS[1], answers: [{ ...ans1, upVotes }] }];
+
+      expect(meetsBadgeRule(rule('nice-answer'), buildBadgeActivity('ansBy1', questions))).toBe(
+        true,
+      );
+      expect(meetsBadgeRule(rule('nice-answer'), buildBadgeActivity('ansBy1', QUESTIONS))).toBe(
+        false,
+      );
+    });
+
+    test('question with 100 views should need a single question with 100 views', () => {
+      const views = Array.from({ length: 100 }, (_, i) => `viewer${i}`);
+      const questions = [...QUESTIONS.slice(0, 2), { ...QUESTIONS[2], views }];
+
+      expect(meetsBadgeRule(rule('popular-question'), buildBadgeActivity('q_by3', questions))).toBe(
+        true,
+      );
+      expect(meetsBadgeRule(rule('popular-question'), buildBadgeActivity('q_by3', QUESTIONS))).toBe(
+        false,
+      );
+    });
+
+    test('answering 5 questions in react should only count questions tagged react', () => {
+      const copies = (question: Question) =>
+        Array.from({ length: 5 }, () => ({ ...question, _id: new ObjectId() }));
+      const reactQuestions = copies(QUESTIONS[1]);
+      const androidQuestions = copies(QUESTIONS[0]);
+
+      expect(
+        meetsBadgeRule(rule('react-helper'), buildBadgeActivity('ansBy1', reactQuestions)),
+      ).toBe(true);
+      expect(
+        meetsBadgeRule(rule('react-helper'), buildBadgeActivity('ansBy1', androidQuestions)),
+      ).toBe(false);
+      expect(meetsBadgeRule(rule('react-helper'), buildBadgeActivity('ansBy1', QUESTIONS))).toBe(
+        false,
+      );
+    });
+  });
+});
+
+describe('Badge service', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('checkBadges', () => {
+    test('should award the badges the user has just earned', async () => {
+      mockingoose(BadgeModel).toReturn([], 'find');
+      mockingoose(UserBadgeModel).toReturn([], 'find');
+      mockingoose(AnswerModel).toReturn([], 'find');
+      mockingoose(QuestionModel).toReturn([{ ...QUESTIONS[0], answers: [] }], 'find');
+      mockingoose(TagModel).toReturn([tag3, tag2], 'find');
+      mockingoose(BadgeModel).toReturn(studentBadge, 'findOneAndUpdate');
+      mockingoose(UserBadgeModel).toReturn({ upsertedCount: 1 }, 'updateOne');
+
+      const result = await checkBadges('q_by1', 'question');
+
+      expect(result).toEqual([
+        { username: 'q_by1', badge: studentBadge, awardedAt: expect.any(Date) },
+      ]);
+    });
+
+    test('should not award a badge the user was awarded in the meantime', async () => {
+      mockingoose(BadgeModel).toReturn([], 'find');
+      mockingoose(UserBadgeModel).toReturn([], 'find');
+      mockingoose(AnswerModel).toReturn([], 'find');
+      mockingoose(QuestionModel).toReturn([{ ...QUESTIONS[0], answers: [] }], 'find');
+      mockingoose(TagModel).toReturn([tag3, tag2], 'find');
+      mockingoose(BadgeModel).toReturn(studentBadge, 'findOneAndUpdate');
+      mockingoose(UserBadgeModel).toReturn({ upsertedCount: 0 }, 'updateOne');
+
+      const result = await checkBadges('q_by1', 'question');
+
+      expect(result).toEqual([]);
+    });
+
+    test('should not award badges whose rules the user does not meet', async () => {
+      mockingoose(BadgeModel).toReturn([], 'find');
+      mockingoose(UserBadgeModel).toReturn([], 'find');
+      mockingoose(AnswerModel).toReturn([], 'find');
+      mockingoose(QuestionModel).toReturn([], 'find');
+      const awardSpy = jest.spyOn(UserBadgeModel, 'updateOne');
+
+      const result = await checkBadges('q_by1', 'question');
+
+      expect(result).toEqual([]);
+      expect(awardSpy).not.toHaveBeenCalled();
+    });
+
+    test('should not fetch any posts if the user holds every badge the event awards', async () => {
+      mockingoose(BadgeModel).toReturn([studentBadge], 'find');
+      mockingoose(UserBadgeModel).toReturn(
+        [{ username: 'q_by1', badge: studentBadge._id, awardedAt: new Date() }],
+        'find',
+      );
+      const findSpy = jest.spyOn(QuestionModel, 'find');
+
+      const result = await checkBadges('q_by1', 'question');
+
+      expect(result).toEqual([]);
+      expect(findSpy).not.toHaveBeenCalled();
+    });
+
+    test('should return an error if the database throws an error', async () => {
+      mockingoose(BadgeModel).toReturn(new Error('error'), 'find');
+
+      const result = await checkBadges('q_by1', 'question');
+
+      expect(result).toEqual({ error: 'Error when checking badges' });
+    });
+  });
+
+  describe('checkPostBadges', () => {
+    test('should check the badges of the author of the post', async () => {
+      const voteBadges = ['nice-question', 'nice-answer'].map(key => ({
+        _id: new ObjectId(),
+        key,
+        name: rule(key).name,
+        description: rule(key).description,
+      }));
+      mockingoose(QuestionModel).toReturn({ ...QUESTIONS[0] }, 'findOne');
+      mockingoose(BadgeModel).toReturn(voteBadges, 'find');
+      mockingoose(UserBadgeModel).toReturn(
+        voteBadges.map(badge => ({ username: 'q_by1', badge: badge._id, awardedAt: new Date() })),
+        'find',
+      );
+      const findSpy = jest.spyOn(UserBadgeModel, 'find');
+
+      const result = await checkPostBadges('question', QUESTIONS[0]._id!.toString(), 'vote');
+
+      expect(result).toEqual([]);
+      expect(findSpy).toHaveBeenCalledWith(expect.objectContaining({ username: 'q_by1' }));
+    });
+
+    test('should not award anything if the post does not exist', async () => {
+      mockingoose(AnswerModel).toReturn(null, 'findOne');
+      const findSpy = jest.spyOn(BadgeModel, 'find');
+
+      const result = await checkPostBadges('answer', ans1._id!.toString(), 'vote');
+
+      expect(result).toEqual([]);
+      expect(findSpy).not.toHaveBeenCalled();
+    });
+
+    test('should return an error if the database throws an error', async () => {
+      mockingoose(AnswerModel).toReturn(new Error('error'), 'findOne');
+
+      const result = await checkPostBadges('answer', ans1._id!.toString(), 'vote');
+
+      expect(result).toEqual({ error: 'Error when checking badges' });
+    });
+  });
+
+  describe('checkQuestionViewBadges', () => {
+    const popularBadge = {
+      _id: new ObjectId('65e9b58910afe6e94fc6e6a2'),
+      key: 'popular-question',
+      name: 'Popular Question',
+      description: 'Asked a question with 100 views',
+    };
+    const viewed = (count: number): Question => ({
+      ...QUESTIONS[0],
+      views: Array.from({ length: count }, (_, i) => `viewer${i}`),
+    });
+
+    test('should award the asker a badge the viewed question has just earned', async () => {
+      mockingoose(BadgeModel).toReturn([], 'find');
+      mockingoose(UserBadgeModel).toReturn([], 'find');
+      mockingoose(BadgeModel).toReturn(popularBadge, 'findOneAndUpdate');
+      mockingoose(UserBadgeModel).toReturn({ upsertedCount: 1 }, 'updateOne');
+      const findSpy = jest.spyOn(QuestionModel, 'find');
+
+      const result = await checkQuestionViewBadges(viewed(100));
+
+      expect(result).toEqual([
+        { username: 'q_by1', badge: popularBadge, awardedAt: expect.any(Date) },
+      ]);
+      expect(findSpy).not.toHaveBeenCalled();
+    });
+
+    test('should not fetch anything if the question has too few views', async () => {
+      const findSpy = jest.spyOn(BadgeModel, 'find');
+
+      const result = await checkQuestionViewBadges(viewed(99));
+
+      expect(result).toEqual([]);
+      expect(findSpy).not.toHaveBeenCalled();
+    });
+
+    test('should not award a badge the asker already holds', async () => {
+      mockingoose(BadgeModel).toReturn([popularBadge], 'find');
+      mockingoose(UserBadgeModel).toReturn(
+        [{ username: 'q_by1', badge: popularBadge._id, awardedAt: new Date() }],
+        'find',
+      );
+      const awardSpy = jest.spyOn(UserBadgeModel, 'updateOne');
+
+      const result = await checkQuestionViewBadges(viewed(100));
+
+      expect(result).toEqual([]);
+      expect(awardSpy).not.toHaveBeenCalled();
+    });
+
+    test('should return an error if the database throws an error', async () => {
+      mockingoose(BadgeModel).toReturn(new Error('error'), 'find');
+
+      const result = await checkQuestionViewBadges(viewed(100));
+
+      expect(result).toEqual({ error: 'Error when checking badges' });
+    });
+  });
+
+  describe('getUserBadges', () => {
+    test('should return the badges the user earned', async () => {
+      const awardedAt = new Date('2024-06-01');
+      mockingoose(UserBadgeModel).toReturn(
+        [{ username: 'q_by1', badge: studentBadge._id, awardedAt }],
+        'find',
+      );
+      mockingoose(BadgeModel).toReturn([studentBadge], 'find');
+
+      const result = await getUserBadges('q_by1');
+
+      expect(result).toEqual([{ username: 'q_by1', badge: studentBadge, awardedAt }]);
+    });
+
+    test('should return an error if the database throws an error', async () => {
+      mockingoose(UserBadgeModel).toReturn(new Error('error'), 'find');
+
+      const result = await getUserBadges('q_by1');
+
+      expect(result).toEqual({ error: 'Error when fetching badges' });
+    });
+  });
+});
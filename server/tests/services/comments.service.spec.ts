@@ -1,5 +1,14 @@
+import { PipelineStage } from 'mongoose';
 import QuestionModel from '../../models/questions.model';
-import { saveComment, addComment } from '../../services/comment.service';
+import CommentModel from '../../models/comments.model';
+import {
+  saveComment,
+  addComment,
+  fetchCommentById,
+  deleteCommentById,
+  addUpvoteToComment,
+  getCommentsByAuthor,
+} from '../../services/comment.service';
 import { Answer, Question, Comment } from '../../types/types';
 import AnswerModel from '../../models/answers.model';
 import { QUESTIONS, ans1, com1 } from '../mockData.models';
@@ -83,4 +92,152 @@ describe('Comment model', () => {
       }
     });
   });
+
+  describe('fetchCommentById', () => {
+    test('should return the comment with the given id', async () => {
+      mockingoose(CommentModel).toReturn(com1, 'findOne');
+
+      const result = (await fetchCommentById(com1._id!.toString())) as Comment;
+
+      expect(result.text).toEqual(com1.text);
+    });
+
+    test('should return an error if the database throws an error', async () => {
+      mockingoose(CommentModel).toReturn(new Error('error'), 'findOne');
+
+      const result = await fetchCommentById(com1._id!.toString());
+
+      expect(result).toEqual({ error: 'Error when fetching a comment' });
+    });
+  });
+
+  describe('deleteCommentById', () => {
+    test('should delete a comment on a question', async () => {
+      const question = QUESTIONS[0];
+      mockingoose(QuestionModel).toReturn(question, 'findOneAndUpdate');
+      mockingoose(CommentModel).toReturn(com1, 'findOneAndDelete');
+
+      const result = await deleteCommentById(com1._id!.toString());
+
+      expect(result).toEqual({
+        cid: com1._id!.toString(),
+        parentId: question._id?.toString(),
+        type: 'question',
+      });
+    });
+
+    test('should delete a comment on an answer', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+      mockingoose(AnswerModel).toReturn(ans1, 'findOneAndUpdate');
+      mockingoose(CommentModel).toReturn(com1, 'findOneAndDelete');
+
+      const result = await deleteCommentById(com1._id!.toString());
+
+      expect(result).toEqual({
+        cid: com1._id!.toString(),
+        parentId: ans1._id?.toString(),
+        type: 'answer',
+      });
+    });
+
+    test('should return an error if the comment is not on a question or answer', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+      mockingoose(AnswerModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await deleteCommentById(com1._id!.toString());
+
+      expect(result).toEqual({
+        error: 'Error when deleting a comment: Comment is not on a question or answer',
+      });
+    });
+  });
+
+  describe('addUpvoteToComment', () => {
+    test('should upvote a comment', async () => {
+      mockingoose(CommentModel).toReturn({ ...com1, upVotes: ['testUser'] }, 'findOneAndUpdate');
+
+      const result = await addUpvoteToComment(com1._id!.toString(), 'testUser');
+
+      expect(result).toEqual({ msg: 'Comment upvoted successfully', upVotes: ['testUser'] });
+    });
+
+    test('should cancel the upvote if already upvoted', async () => {
+      mockingoose(CommentModel).toReturn({ ...com1, upVotes: [] }, 'findOneAndUpdate');
+
+      const result = await addUpvoteToComment(com1._id!.toString(), 'testUser');
+
+      expect(result).toEqual({ msg: 'Upvote cancelled successfully', upVotes: [] });
+    });
+
+    test('should return an error if the comment is not found', async () => {
+      mockingoose(CommentModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await addUpvoteToComment(com1._id!.toString(), 'testUser');
+
+      expect(result).toEqual({ error: 'Comment not found!' });
+    });
+
+    test('should return an error if the database throws an error', async () => {
+      mockingoose(CommentModel).toReturn(new Error('error'), 'findOneAndUpdate');
+
+      const result = await addUpvoteToComment(com1._id!.toString(), 'testUser');
+
+      expect(result).toEqual({ error: 'Error when adding upvote to comment' });
+    });
+  });
+
+  describe('getCommentsByAuthor', () => {
+    test('should return the comments of the user with their score and question', async () => {
+      const comments = [
+        {
+          _id: com1._id,
+          text: com1.text,
+          commentDateTime: com1.commentDateTime,
+          score: 0,
+          question: { _id: QUESTIONS[0]._id, title: QUESTIONS[0].title },
+        },
+      ];
+      const aggregateSpy = jest.spyOn(CommentModel, 'aggregate');
+      mockingoose(CommentModel).toReturn(comments, 'aggregate');
+
+      const result = await getCommentsByAuthor(com1.commentBy);
+
+      expect(result).toEqual(comments);
+      const pipeline = aggregateSpy.mock.calls[0][0];
+      expect(pipeline[0]).toEqual({ $match: { commentBy: com1.commentBy } });
+      expect(pipeline[pipeline.length - 1]).toEqual({ $match: { question: { $exists: true } } });
+
+      aggregateSpy.mockRestore();
+    });
+
+    test('should score comments saved without vote arrays as 0', async () => {
+      const legacyComment = {
+        _id: com1._id,
+        text: com1.text,
+        commentDateTime: com1.commentDateTime,
+        score: 0,
+        question: { _id: QUESTIONS[0]._id, title: QUESTIONS[0].title },
+      };
+      const aggregateSpy = jest.spyOn(CommentModel, 'aggregate');
+      mockingoose(CommentModel).toReturn([legacyComment], 'aggregate');
+
+      const result = await getCommentsByAuthor(com1.commentBy);
+
+      expect(result).toEqual([legacyComment]);
+      const project = (aggregateSpy.mock.calls[0][0] as PipelineStage[]).find(
+        (stage): stage is PipelineStage.Project => '$project' in stage,
+      );
+      expect(project?.$project.score).toEqual({ $size: { $ifNull: ['$upVotes', []] } });
+
+      aggregateSpy.mockRestore();
+    });
+
+    test('should return an error if the aggregation fails', async () => {
+      mockingoose(CommentModel).toReturn(new Error('error'), 'aggregate');
+
+      const result = await getCommentsByAuthor(com1.commentBy);
+
+      expect(result).toEqual({ error: 'Error when fetching comments by author' });
+    });
+  });
 });
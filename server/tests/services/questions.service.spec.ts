@@ -1,14 +1,28 @@
+import { ObjectId } from 'mongodb';
 import QuestionModel from '../../models/questions.model';
+import QuestionRevisionModel from '../../models/questionRevisions.model';
 import {
-  filterQuestionsBySearch,
-  filterQuestionsByAskedBy,
-  getQuestionsByOrder,
+  getQuestionPage,
+  getQuestionFeed,
+  getSearchSuggestions,
   fetchAndIncrementQuestionViewsById,
   saveQuestion,
   addVoteToQuestion,
+  fetchQuestionById,
+  updateQuestion,
+  getQuestionRevisions,
+  deleteQuestionById,
+  setAcceptedAnswer,
 } from '../../services/question.service';
-import { Question } from '../../types/types';
-import { QUESTIONS, tag1, tag2, ans1, ans2, ans3, ans4 } from '../mockData.models';
+import AnswerModel from '../../models/answers.model';
+import CommentModel from '../../models/comments.model';
+import TagModel from '../../models/tags.model';
+import * as tagUtil from '../../services/tag.service';
+import * as userUtil from '../../services/user.service';
+import * as reputationUtil from '../../services/reputation.service';
+import UserModel from '../../models/users.model';
+import { Answer, Question, QuestionPage, SearchQuery } from '../../types/types';
+import { QUESTIONS, tag1, tag2, tag3, ans1, ans2, ans3, ans4 } from '../mockData.models';
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const mockingoose = require('mockingoose');
@@ -18,188 +32,400 @@ describe('Question model', () => {
     mockingoose.resetAll();
   });
 
-  describe('filterQuestionsBySearch', () => {
-    test('filter questions with empty search string should return all questions', () => {
-      const result = filterQuestionsBySearch(QUESTIONS, '');
+  describe('getQuestionPage', () => {
+    const resolveTagSpy = jest.spyOn(tagUtil, 'resolveTag');
+
+    /**
+     * Returns the aggregation pipeline of the most recent call to `QuestionModel.aggregate`.
+     */
+    const lastPipeline = (aggregateSpy: jest.SpyInstance) =>
+      aggregateSpy.mock.calls[aggregateSpy.mock.calls.length - 1][0];
+
+    /**
+     * Builds a search query with the given parts, and no other parts.
+     */
+    const searchQuery = (query: Partial<SearchQuery>): SearchQuery => ({
+      keywords: [],
+      phrases: [],
+      excluded: [],
+      tags: [],
+      excludedTags: [],
+      ...query,
+    });
 
-      expect(result.length).toEqual(QUESTIONS.length);
+    test('getQuestionPage should return the page of questions with their tags and the total', async () => {
+      mockingoose(QuestionModel).toReturn(
+        [{ questions: [{ ...QUESTIONS[0], tags: [tag3._id, tag2._id] }], total: [{ count: 4 }] }],
+        'aggregate',
+      );
+      mockingoose(TagModel).toReturn([tag3, tag2], 'find');
+
+      const result = (await getQuestionPage({
+        order: 'newest',
+        page: 1,
+        limit: 1,
+      })) as QuestionPage;
+
+      expect(result.total).toEqual(4);
+      expect(result.page).toEqual(1);
+      expect(result.limit).toEqual(1);
+      expect(result.questions.length).toEqual(1);
+      expect(result.questions[0]._id?.toString()).toEqual('65e9b58910afe6e94fc6e6dc');
+      expect(result.questions[0].tags.map(t => t.name)).toEqual(['android', 'javascript']);
     });
 
-    test('filter questions with empty list of questions should return empty list', () => {
-      const result = filterQuestionsBySearch([], 'react');
+    test('getQuestionPage should return a total of 0 if no questions match', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+
+      const result = (await getQuestionPage({
+        order: 'newest',
+        search: searchQuery({ keywords: ['nothing'] }),
+        page: 1,
+        limit: 20,
+      })) as QuestionPage;
 
-      expect(result.length).toEqual(0);
+      expect(result.questions).toEqual([]);
+      expect(result.total).toEqual(0);
     });
 
-    test('filter questions with empty questions and empty string should return empty list', () => {
-      const result = filterQuestionsBySearch([], '');
+    test('getQuestionPage should skip the questions on earlier pages', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-      expect(result.length).toEqual(0);
+      await getQuestionPage({ order: 'newest', page: 3, limit: 10 });
+
+      const pipeline = lastPipeline(aggregateSpy);
+      expect(pipeline[pipeline.length - 1]).toEqual({
+        $facet: {
+          questions: [{ $skip: 20 }, { $limit: 10 }],
+          total: [{ $count: 'count' }],
+        },
+      });
     });
 
-    test('filter question by one tag', () => {
-      const result = filterQuestionsBySearch(QUESTIONS, '[android]');
+    test('getQuestionPage should not filter questions with an empty search query', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+
+      await getQuestionPage({ order: 'newest', search: searchQuery({}), page: 1, limit: 20 });
 
-      expect(result.length).toEqual(1);
-      expect(result[0]._id?.toString()).toEqual('65e9b58910afe6e94fc6e6dc');
+      expect(lastPipeline(aggregateSpy)[0]).toEqual({ $match: {} });
     });
 
-    test('filter question by multiple tags', () => {
-      const result = filterQuestionsBySearch(QUESTIONS, '[android] [react]');
+    test('getQuestionPage should only keep questions with all of the tags', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      resolveTagSpy.mockResolvedValueOnce(tag3).mockResolvedValueOnce(tag1);
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-      expect(result.length).toEqual(2);
-      expect(result[0]._id?.toString()).toEqual('65e9b58910afe6e94fc6e6dc');
-      expect(result[1]._id?.toString()).toEqual('65e9b5a995b6c7045a30d823');
+      await getQuestionPage({
+        order: 'newest',
+        search: searchQuery({ tags: ['android', 'react'] }),
+        page: 1,
+        limit: 20,
+      });
+
+      const { $match: filter } = lastPipeline(aggregateSpy)[0];
+      expect(filter.$and.length).toEqual(1);
+      expect(filter.$and[0].tags.$all.map((id: ObjectId) => id.toString())).toEqual([
+        tag3._id?.toString(),
+        tag1._id?.toString(),
+      ]);
     });
 
-    test('filter question by one user', () => {
-      const result = filterQuestionsByAskedBy(QUESTIONS, 'q_by4');
+    test('getQuestionPage should match no questions if a tag does not exist', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      resolveTagSpy.mockResolvedValueOnce(tag3).mockResolvedValueOnce(null);
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+
+      await getQuestionPage({
+        order: 'newest',
+        search: searchQuery({ tags: ['android', 'nonExistentTag'] }),
+        page: 1,
+        limit: 20,
+      });
 
-      expect(result.length).toEqual(1);
-      expect(result[0]._id?.toString()).toEqual('65e9b716ff0e892116b2de09');
+      expect(lastPipeline(aggregateSpy)[0]).toEqual({ $match: { $and: [{ _id: { $in: [] } }] } });
     });
 
-    test('filter question by tag and then by user', () => {
-      let result = filterQuestionsBySearch(QUESTIONS, '[javascript]');
-      result = filterQuestionsByAskedBy(result, 'q_by2');
+    test('getQuestionPage should leave out questions with excluded tags', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      resolveTagSpy.mockResolvedValueOnce(tag1);
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-      expect(result.length).toEqual(1);
-      expect(result[0]._id?.toString()).toEqual('65e9b5a995b6c7045a30d823');
+      await getQuestionPage({
+        order: 'newest',
+        search: searchQuery({ excludedTags: ['react'] }),
+        page: 1,
+        limit: 20,
+      });
+
+      const { $match: filter } = lastPipeline(aggregateSpy)[0];
+      expect(filter.$and[0].tags.$nin.map((id: ObjectId) => id.toString())).toEqual([
+        tag1._id?.toString(),
+      ]);
     });
 
-    test('filter question by one keyword', () => {
-      const result = filterQuestionsBySearch(QUESTIONS, 'website');
+    test('getQuestionPage should filter questions by keyword, tag and asker together', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      resolveTagSpy.mockResolvedValueOnce(tag3);
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+
+      await getQuestionPage({
+        order: 'newest',
+        search: searchQuery({ keywords: ['website'], tags: ['android'] }),
+        askedBy: 'q_by2',
+        page: 1,
+        limit: 20,
+      });
 
-      expect(result.length).toEqual(1);
-      expect(result[0]._id?.toString()).toEqual('65e9b5a995b6c7045a30d823');
+      const { $match: filter } = lastPipeline(aggregateSpy)[0];
+      expect(filter.askedBy).toEqual('q_by2');
+      expect(filter.$and[0]).toEqual({ $text: { $search: 'website' } });
+      expect(filter.$and[1].tags.$all.map((id: ObjectId) => id.toString())).toEqual([
+        tag3._id?.toString(),
+      ]);
     });
 
-    test('filter question by tag and keyword', () => {
-      const result = filterQuestionsBySearch(QUESTIONS, 'website [android]');
+    test('getQuestionPage should search keywords and phrases with the text index', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-      expect(result.length).toEqual(2);
-      expect(result[0]._id?.toString()).toEqual('65e9b58910afe6e94fc6e6dc');
-      expect(result[1]._id?.toString()).toEqual('65e9b5a995b6c7045a30d823');
+      await getQuestionPage({
+        order: 'newest',
+        search: searchQuery({ keywords: ['React', 'stórage'], phrases: ['40 million'] }),
+        page: 1,
+        limit: 20,
+      });
+
+      const { $match: filter } = lastPipeline(aggregateSpy)[0];
+      expect(filter.$and[0]).toEqual({ $text: { $search: 'React stórage "40 million"' } });
+      expect(filter.$and[1]).toEqual({
+        $or: [{ title: /\b40 million\b/i }, { text: /\b40 million\b/i }],
+      });
     });
-  });
 
-  describe('getQuestionsByOrder', () => {
-    test('get active questions, newest questions sorted by most recently answered 1', async () => {
-      mockingoose(QuestionModel).toReturn(QUESTIONS.slice(0, 3), 'find');
-      QuestionModel.schema.path('answers', Object);
-      QuestionModel.schema.path('tags', Object);
+    test('getQuestionPage should leave out questions with excluded words', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-      const result = await getQuestionsByOrder('active');
+      await getQuestionPage({
+        order: 'newest',
+        search: searchQuery({ excluded: ['java', 'c++'] }),
+        page: 1,
+        limit: 20,
+      });
 
-      expect(result.length).toEqual(3);
-      expect(result[0]._id?.toString()).toEqual('65e9b5a995b6c7045a30d823');
-      expect(result[1]._id?.toString()).toEqual('65e9b58910afe6e94fc6e6dc');
-      expect(result[2]._id?.toString()).toEqual('65e9b9b44c052f0a08ecade0');
+      expect(lastPipeline(aggregateSpy)[0]).toEqual({
+        $match: {
+          $and: [
+            { $nor: [{ title: /\bjava\b/i }, { text: /\bjava\b/i }] },
+            { $nor: [{ title: /\bc\+\+/i }, { text: /\bc\+\+/i }] },
+          ],
+        },
+      });
     });
 
-    test('get active questions, newest questions sorted by most recently answered 2', async () => {
-      const questions = [
-        {
-          _id: '65e9b716ff0e892116b2de01',
-          answers: [ans1, ans3], // 18, 19 => 19
-          askDateTime: new Date('2023-11-20T09:24:00'),
-        },
-        {
-          _id: '65e9b716ff0e892116b2de02',
-          answers: [ans1, ans2, ans3, ans4], // 18, 20, 19, 19 => 20
-          askDateTime: new Date('2023-11-20T09:24:00'),
-        },
-        {
-          _id: '65e9b716ff0e892116b2de03',
-          answers: [ans1], // 18 => 18
-          askDateTime: new Date('2023-11-19T09:24:00'),
-        },
-        {
-          _id: '65e9b716ff0e892116b2de04',
-          answers: [ans4], // 19 => 19
-          askDateTime: new Date('2023-11-21T09:24:00'),
-        },
-        {
-          _id: '65e9b716ff0e892116b2de05',
-          answers: [],
-          askDateTime: new Date('2023-11-19T10:24:00'),
+    test('getQuestionPage should filter questions by number of answers, score, accepted answer and date', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+      const from = new Date('2025-01-01T00:00:00Z');
+      const to = new Date('2025-04-01T00:00:00Z');
+
+      await getQuestionPage({
+        order: 'newest',
+        search: searchQuery({
+          askedBy: 'q_by1',
+          answers: { op: '=', value: 0 },
+          score: { op: '>', value: 5 },
+          accepted: true,
+          created: { from, to },
+        }),
+        page: 1,
+        limit: 20,
+      });
+
+      expect(lastPipeline(aggregateSpy)[0]).toEqual({
+        $match: {
+          $and: [
+            { askedBy: 'q_by1' },
+            { $expr: { $eq: [{ $size: '$answers' }, 0] } },
+            {
+              $expr: {
+                $gt: [{ $subtract: [{ $size: '$upVotes' }, { $size: '$downVotes' }] }, 5],
+              },
+            },
+            { acceptedAnswer: { $ne: null } },
+            { askDateTime: { $gte: from, $lt: to } },
+          ],
         },
-      ];
-      mockingoose(QuestionModel).toReturn(questions, 'find');
-      QuestionModel.schema.path('answers', Object);
-      QuestionModel.schema.path('tags', Object);
+      });
+    });
+
+    test('getQuestionPage should sort keyword search results by relevance', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-      const result = await getQuestionsByOrder('active');
+      await getQuestionPage({
+        order: 'relevance',
+        search: searchQuery({ keywords: ['storage'] }),
+        page: 1,
+        limit: 20,
+      });
 
-      expect(result.length).toEqual(5);
-      expect(result[0]._id?.toString()).toEqual('65e9b716ff0e892116b2de02');
-      expect(result[1]._id?.toString()).toEqual('65e9b716ff0e892116b2de04');
-      expect(result[2]._id?.toString()).toEqual('65e9b716ff0e892116b2de01');
-      expect(result[3]._id?.toString()).toEqual('65e9b716ff0e892116b2de03');
-      expect(result[4]._id?.toString()).toEqual('65e9b716ff0e892116b2de05');
+      expect(lastPipeline(aggregateSpy)[1]).toEqual({
+        $sort: { score: { $meta: 'textScore' }, askDateTime: -1, _id: -1 },
+      });
     });
 
-    test('get newest unanswered questions', async () => {
-      mockingoose(QuestionModel).toReturn(QUESTIONS, 'find');
+    test('getQuestionPage should sort the newest questions first if there are no keywords to order by relevance', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      resolveTagSpy.mockResolvedValueOnce(tag3);
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-      const result = await getQuestionsByOrder('unanswered');
+      await getQuestionPage({
+        order: 'relevance',
+        search: searchQuery({ tags: ['android'] }),
+        page: 1,
+        limit: 20,
+      });
 
-      expect(result.length).toEqual(2);
-      expect(result[0]._id?.toString()).toEqual('65e9b716ff0e892116b2de09');
-      expect(result[1]._id?.toString()).toEqual('65e9b9b44c052f0a08ecade0');
+      expect(lastPipeline(aggregateSpy)[1]).toEqual({ $sort: { askDateTime: -1, _id: -1 } });
     });
 
-    test('get newest questions', async () => {
-      const questions = [
-        {
-          _id: '65e9b716ff0e892116b2de01',
-          askDateTime: new Date('2023-11-20T09:24:00'),
-        },
-        {
-          _id: '65e9b716ff0e892116b2de04',
-          askDateTime: new Date('2023-11-21T09:24:00'),
-        },
-        {
-          _id: '65e9b716ff0e892116b2de05',
-          askDateTime: new Date('2023-11-19T10:24:00'),
-        },
-      ];
-      mockingoose(QuestionModel).toReturn(questions, 'find');
+    test('getQuestionPage should sort the newest questions first', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-      const result = await getQuestionsByOrder('newest');
+      await getQuestionPage({ order: 'newest', page: 1, limit: 20 });
 
-      expect(result.length).toEqual(3);
-      expect(result[0]._id?.toString()).toEqual('65e9b716ff0e892116b2de04');
-      expect(result[1]._id?.toString()).toEqual('65e9b716ff0e892116b2de01');
-      expect(result[2]._id?.toString()).toEqual('65e9b716ff0e892116b2de05');
+      expect(lastPipeline(aggregateSpy)[1]).toEqual({ $sort: { askDateTime: -1, _id: -1 } });
     });
 
-    test('get newest most viewed questions', async () => {
-      mockingoose(QuestionModel).toReturn(QUESTIONS, 'find');
+    test('getQuestionPage should only keep unanswered questions', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-      const result = await getQuestionsByOrder('mostViewed');
+      await getQuestionPage({ order: 'unanswered', page: 1, limit: 20 });
 
-      expect(result.length).toEqual(4);
-      expect(result[0]._id?.toString()).toEqual('65e9b9b44c052f0a08ecade0');
-      expect(result[1]._id?.toString()).toEqual('65e9b58910afe6e94fc6e6dc');
-      expect(result[2]._id?.toString()).toEqual('65e9b5a995b6c7045a30d823');
-      expect(result[3]._id?.toString()).toEqual('65e9b716ff0e892116b2de09');
+      expect(lastPipeline(aggregateSpy).slice(1, 3)).toEqual([
+        { $match: { answers: { $size: 0 } } },
+        { $sort: { askDateTime: -1, _id: -1 } },
+      ]);
     });
 
-    test('getQuestionsByOrder should return empty list if find throws an error', async () => {
-      mockingoose(QuestionModel).toReturn(new Error('error'), 'find');
+    test('getQuestionPage should only keep unresolved questions', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-      const result = await getQuestionsByOrder('newest');
+      await getQuestionPage({ order: 'unresolved', page: 1, limit: 20 });
 
-      expect(result.length).toEqual(0);
+      expect(lastPipeline(aggregateSpy).slice(1, 3)).toEqual([
+        { $match: { acceptedAnswer: null } },
+        { $sort: { askDateTime: -1, _id: -1 } },
+      ]);
     });
 
-    test('getQuestionsByOrder should return empty list if find returns null', async () => {
-      mockingoose(QuestionModel).toReturn(null, 'find');
+    test('getQuestionPage should sort active questions by their most recent answer', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-      const result = await getQuestionsByOrder('newest');
+      await getQuestionPage({ order: 'active', page: 1, limit: 20 });
 
-      expect(result.length).toEqual(0);
+      const pipeline = lastPipeline(aggregateSpy);
+      expect(pipeline[1].$lookup).toEqual(
+        expect.objectContaining({ from: 'Answer', localField: 'answers', foreignField: '_id' }),
+      );
+      expect(pipeline[2]).toEqual({
+        $addFields: { lastAnswerTime: { $max: '$answerDocs.ansDateTime' } },
+      });
+      expect(pipeline[3]).toEqual({ $sort: { lastAnswerTime: -1, askDateTime: -1, _id: -1 } });
+    });
+
+    test('getQuestionPage should sort the most viewed questions first', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+
+      await getQuestionPage({ order: 'mostViewed', page: 1, limit: 20 });
+
+      expect(lastPipeline(aggregateSpy)[2]).toEqual({
+        $sort: { viewCount: -1, askDateTime: -1, _id: -1 },
+      });
+    });
+
+    test('getQuestionPage should return an error if aggregate throws an error', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('error'), 'aggregate');
+
+      const result = await getQuestionPage({ order: 'newest', page: 1, limit: 20 });
+
+      expect(result).toEqual({ error: 'Error when fetching questions' });
+    });
+
+    test('getQuestionPage should return an error if aggregate returns no result', async () => {
+      mockingoose(QuestionModel).toReturn([], 'aggregate');
+
+      const result = await getQuestionPage({ order: 'newest', page: 1, limit: 20 });
+
+      expect(result).toEqual({ error: 'Error when fetching questions' });
+    });
+  });
+
+  describe('getQuestionFeed', () => {
+    const getTagPreferencesSpy = jest.spyOn(userUtil, 'getTagPreferences');
+    const resolveTagSpy = jest.spyOn(tagUtil, 'resolveTag');
+
+    test('getQuestionFeed should leave out ignored tags and put watched tags first', async () => {
+      getTagPreferencesSpy.mockResolvedValueOnce({
+        watchedTags: ['react'],
+        ignoredTags: ['android', 'deleted'],
+      });
+      resolveTagSpy.mockImplementation(
+        async name => [tag1, tag3].find(t => t.name === name) ?? null,
+      );
+      mockingoose(QuestionModel).toReturn(
+        [{ questions: [{ ...QUESTIONS[0], tags: [] }], total: [{ count: 1 }] }],
+        'aggregate',
+      );
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+
+      const result = (await getQuestionFeed('user1', 2, 10)) as QuestionPage;
+
+      expect(result.total).toEqual(1);
+      expect(result.page).toEqual(2);
+      expect(result.questions.length).toEqual(1);
+
+      const pipeline = aggregateSpy.mock.calls[aggregateSpy.mock.calls.length - 1][0];
+      expect(pipeline[0]).toEqual({ $match: { tags: { $nin: [tag3._id] } } });
+      expect(pipeline[1]).toEqual({
+        $addFields: {
+          watched: { $gt: [{ $size: { $setIntersection: ['$tags', [tag1._id]] } }, 0] },
+        },
+      });
+      expect(pipeline[2]).toEqual({ $sort: { watched: -1, askDateTime: -1, _id: -1 } });
+      expect(pipeline[4]).toEqual({
+        $facet: {
+          questions: [{ $skip: 10 }, { $limit: 10 }],
+          total: [{ $count: 'count' }],
+        },
+      });
+
+      resolveTagSpy.mockReset();
+    });
+
+    test('getQuestionFeed should return an error if the user is not found', async () => {
+      getTagPreferencesSpy.mockResolvedValueOnce({ error: 'User not found' });
+
+      const result = await getQuestionFeed('nouser', 1, 20);
+
+      expect(result).toEqual({ error: 'Error when fetching the question feed' });
+    });
+
+    test('getQuestionFeed should return an error if aggregate throws an error', async () => {
+      getTagPreferencesSpy.mockResolvedValueOnce({ watchedTags: [], ignoredTags: [] });
+      mockingoose(QuestionModel).toReturn(new Error('error'), 'aggregate');
+
+      const result = await getQuestionFeed('user1', 1, 20);
+
+      expect(result).toEqual({ error: 'Error when fetching the question feed' });
     });
   });
 
@@ -249,6 +475,75 @@ describe('Question model', () => {
       expect(result.askDateTime).toEqual(question.askDateTime);
     });
 
+    test('fetchAndIncrementQuestionViewsById should sort the answers newest first, with the accepted answer first', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { ...QUESTIONS[0], answers: [ans1, ans2, ans3], acceptedAnswer: ans1._id },
+        'findOneAndUpdate',
+      );
+      QuestionModel.schema.path('answers', Object);
+
+      const result = (await fetchAndIncrementQuestionViewsById(
+        QUESTIONS[0]._id!.toString(),
+        'question1_user',
+        'newest',
+      )) as Question;
+
+      expect((result.answers as Answer[]).map(a => a.text)).toEqual([
+        ans1.text,
+        ans2.text,
+        ans3.text,
+      ]);
+    });
+
+    test('fetchAndIncrementQuestionViewsById should sort the answers oldest first', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { ...QUESTIONS[0], answers: [ans2, ans1, ans3] },
+        'findOneAndUpdate',
+      );
+      QuestionModel.schema.path('answers', Object);
+
+      const result = (await fetchAndIncrementQuestionViewsById(
+        QUESTIONS[0]._id!.toString(),
+        'question1_user',
+        'oldest',
+      )) as Question;
+
+      expect((result.answers as Answer[]).map(a => a.text)).toEqual([
+        ans1.text,
+        ans3.text,
+        ans2.text,
+      ]);
+    });
+
+    test('fetchAndIncrementQuestionViewsById should sort the answers by score, newest first on ties', async () => {
+      mockingoose(QuestionModel).toReturn(
+        {
+          ...QUESTIONS[0],
+          answers: [
+            { ...ans1, upVotes: ['user1', 'user2'] },
+            { ...ans2, downVotes: ['user1'] },
+            ans3,
+            { ...ans4, upVotes: ['user1'], downVotes: ['user2'] },
+          ],
+        },
+        'findOneAndUpdate',
+      );
+      QuestionModel.schema.path('answers', Object);
+
+      const result = (await fetchAndIncrementQuestionViewsById(
+        QUESTIONS[0]._id!.toString(),
+        'question1_user',
+        'votes',
+      )) as Question;
+
+      expect((result.answers as Answer[]).map(a => a.text)).toEqual([
+        ans1.text,
+        ans3.text,
+        ans4.text,
+        ans2.text,
+      ]);
+    });
+
     test('fetchAndIncrementQuestionViewsById should return null if id does not exist', async () => {
       mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
 
@@ -304,6 +599,38 @@ describe('Question model', () => {
   });
 
   describe('addVoteToQuestion', () => {
+    const recordVoteSpy = jest.spyOn(reputationUtil, 'recordVote');
+
+    beforeEach(() => {
+      recordVoteSpy.mockResolvedValue([]);
+    });
+
+    test('should update the reputation of the author', async () => {
+      const votedQuestion = { ...QUESTIONS[0], upVotes: ['testUser'], downVotes: [] };
+      mockingoose(QuestionModel).toReturn(votedQuestion, 'findOneAndUpdate');
+
+      await addVoteToQuestion(votedQuestion._id!.toString(), 'testUser', 'upvote');
+
+      expect(recordVoteSpy).toHaveBeenCalledWith(
+        'question',
+        expect.objectContaining({ upVotes: ['testUser'] }),
+        votedQuestion.askedBy,
+        'testUser',
+      );
+    });
+
+    test('should return an error if the reputation cannot be updated', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { ...QUESTIONS[0], upVotes: ['testUser'], downVotes: [] },
+        'findOneAndUpdate',
+      );
+      recordVoteSpy.mockResolvedValueOnce({ error: 'Error when updating reputation' });
+
+      const result = await addVoteToQuestion('someQuestionId', 'testUser', 'upvote');
+
+      expect(result).toEqual({ error: 'Error when adding upvote to question' });
+    });
+
     test('addVoteToQuestion should upvote a question', async () => {
       const mockQuestion = {
         _id: 'someQuestionId',
@@ -462,4 +789,247 @@ describe('Question model', () => {
       expect(result).toEqual({ error: 'Error when adding downvote to question' });
     });
   });
+
+  describe('fetchQuestionById', () => {
+    test('should return the question with the given id', async () => {
+      const question = QUESTIONS[0];
+      mockingoose(QuestionModel).toReturn(question, 'findOne');
+
+      const result = (await fetchQuestionById('65e9b58910afe6e94fc6e6dc')) as Question;
+
+      expect(result._id?.toString()).toEqual(question._id?.toString());
+      expect(result.title).toEqual(question.title);
+    });
+
+    test('should return null if the question is not found', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+      const result = await fetchQuestionById('65e9b58910afe6e94fc6e6dc');
+
+      expect(result).toBeNull();
+    });
+
+    test('should return an error if the database throws an error', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('error'), 'findOne');
+
+      const result = await fetchQuestionById('65e9b58910afe6e94fc6e6dc');
+
+      expect(result).toEqual({ error: 'Error when fetching a question' });
+    });
+  });
+
+  describe('updateQuestion', () => {
+    const edit = { title: 'Edited title', text: 'Edited text', tags: [tag1] };
+
+    test('should save a revision of the previous version and return the edited question', async () => {
+      const question = QUESTIONS[0];
+      const createSpy = jest.spyOn(QuestionRevisionModel, 'create');
+      mockingoose(QuestionModel).toReturn({ ...question, ...edit }, 'findOneAndUpdate');
+
+      const result = (await updateQuestion(question, edit, 'q_by1')) as Question;
+
+      expect(result.title).toEqual(edit.title);
+      expect(result.text).toEqual(edit.text);
+      expect(createSpy).toHaveBeenCalledWith({
+        qid: question._id,
+        title: question.title,
+        text: question.text,
+        tags: [tag3.name, tag2.name],
+        editedBy: 'q_by1',
+        editDateTime: expect.any(Date),
+      });
+    });
+
+    test('should return an error if the question is not found', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await updateQuestion(QUESTIONS[0], edit, 'q_by1');
+
+      expect(result).toEqual({ error: 'Question not found' });
+    });
+
+    test('should return an error if saving the revision fails', async () => {
+      jest.spyOn(QuestionRevisionModel, 'create').mockRejectedValueOnce(new Error('error'));
+
+      const result = await updateQuestion(QUESTIONS[0], edit, 'q_by1');
+
+      expect(result).toEqual({ error: 'Error when editing a question' });
+    });
+  });
+
+  describe('getQuestionRevisions', () => {
+    test('should return the revisions of a question', async () => {
+      const revisions = [
+        {
+          qid: QUESTIONS[0]._id,
+          title: 'Original title',
+          text: 'Original text',
+          tags: ['react'],
+          editedBy: 'q_by1',
+          editDateTime: new Date('2024-06-06'),
+        },
+      ];
+      mockingoose(QuestionRevisionModel).toReturn(revisions, 'find');
+
+      const result = await getQuestionRevisions('65e9b58910afe6e94fc6e6dc');
+
+      expect(result).toHaveLength(1);
+      expect((result as { title: string }[])[0].title).toEqual('Original title');
+    });
+
+    test('should return an error if the database throws an error', async () => {
+      mockingoose(QuestionRevisionModel).toReturn(new Error('error'), 'find');
+
+      const result = await getQuestionRevisions('65e9b58910afe6e94fc6e6dc');
+
+      expect(result).toEqual({ error: 'Error when fetching question revisions' });
+    });
+  });
+
+  describe('deleteQuestionById', () => {
+    const clearReputationSpy = jest.spyOn(reputationUtil, 'clearReputation');
+
+    beforeEach(() => {
+      clearReputationSpy.mockResolvedValue([]);
+    });
+
+    test('should delete the question with its answers, comments, revisions and unused tags', async () => {
+      const question = {
+        ...QUESTIONS[0],
+        tags: [tag3._id, tag2._id],
+        answers: [ans1._id, ans2._id],
+      };
+      mockingoose(QuestionModel).toReturn(question, 'findOneAndDelete');
+      mockingoose(AnswerModel).toReturn([ans1, ans2], 'find');
+      mockingoose(QuestionModel).toReturn([tag2._id], 'distinct');
+      const answerDeleteSpy = jest.spyOn(AnswerModel, 'deleteMany');
+      const commentDeleteSpy = jest.spyOn(CommentModel, 'deleteMany');
+      const revisionDeleteSpy = jest.spyOn(QuestionRevisionModel, 'deleteMany');
+      const tagDeleteSpy = jest.spyOn(TagModel, 'deleteMany');
+
+      const result = (await deleteQuestionById(question._id!.toString())) as Question;
+
+      expect(result._id?.toString()).toEqual(question._id?.toString());
+      expect(answerDeleteSpy).toHaveBeenCalledTimes(1);
+      expect(commentDeleteSpy).toHaveBeenCalledTimes(1);
+      expect(revisionDeleteSpy).toHaveBeenCalledTimes(1);
+      expect(tagDeleteSpy).toHaveBeenCalledWith({ _id: { $in: [tag3._id] } });
+      expect(clearReputationSpy).toHaveBeenCalledWith([question._id, ans1._id, ans2._id]);
+    });
+
+    test('should return an error if the question is not found', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndDelete');
+
+      const result = await deleteQuestionById('65e9b58910afe6e94fc6e6dc');
+
+      expect(result).toEqual({ error: 'Question not found' });
+    });
+
+    test('should return an error if the database throws an error', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('error'), 'findOneAndDelete');
+
+      const result = await deleteQuestionById('65e9b58910afe6e94fc6e6dc');
+
+      expect(result).toEqual({ error: 'Error when deleting a question' });
+    });
+  });
+
+  describe('setAcceptedAnswer', () => {
+    const recordAcceptanceSpy = jest.spyOn(reputationUtil, 'recordAcceptance');
+
+    beforeEach(() => {
+      recordAcceptanceSpy.mockResolvedValue([]);
+    });
+
+    test('should set the accepted answer of a question', async () => {
+      const question = { ...QUESTIONS[0], acceptedAnswer: ans1._id };
+      mockingoose(QuestionModel).toReturn(question, 'findOneAndUpdate');
+
+      const result = (await setAcceptedAnswer(
+        question._id!.toString(),
+        ans1._id!.toString(),
+      )) as Question;
+
+      expect(result.acceptedAnswer?.toString()).toEqual(ans1._id?.toString());
+      expect(recordAcceptanceSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test('should return an error if the reputation cannot be updated', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { ...QUESTIONS[0], acceptedAnswer: ans1._id },
+        'findOneAndUpdate',
+      );
+      recordAcceptanceSpy.mockResolvedValueOnce({ error: 'Error when updating reputation' });
+
+      const result = await setAcceptedAnswer(QUESTIONS[0]._id!.toString(), ans1._id!.toString());
+
+      expect(result).toEqual({ error: 'Error when updating the accepted answer' });
+    });
+
+    test('should clear the accepted answer of a question', async () => {
+      const question = { ...QUESTIONS[0], acceptedAnswer: null };
+      mockingoose(QuestionModel).toReturn(question, 'findOneAndUpdate');
+
+      const result = (await setAcceptedAnswer(question._id!.toString(), null)) as Question;
+
+      expect(result.acceptedAnswer).toBeNull();
+    });
+
+    test('should return an error if the question is not found', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await setAcceptedAnswer('65e9b58910afe6e94fc6e6dc', null);
+
+      expect(result).toEqual({ error: 'Question not found' });
+    });
+
+    test('should return an error if the database throws an error', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('error'), 'findOneAndUpdate');
+
+      const result = await setAcceptedAnswer('65e9b58910afe6e94fc6e6dc', ans1._id!.toString());
+
+      expect(result).toEqual({ error: 'Error when updating the accepted answer' });
+    });
+  });
+
+  describe('getSearchSuggestions', () => {
+    test('should return the matching question titles, tag names and usernames', async () => {
+      mockingoose(QuestionModel).toReturn(
+        [{ _id: QUESTIONS[1]._id, title: QUESTIONS[1].title }],
+        'find',
+      );
+      mockingoose(TagModel).toReturn([{ _id: tag1._id, name: 'react' }], 'find');
+      mockingoose(UserModel).toReturn([{ username: 'ObjectUser' }], 'find');
+
+      const result = await getSearchSuggestions('Obj');
+
+      expect(result).toEqual({
+        questions: [{ _id: QUESTIONS[1]._id, title: 'Object storage for a web application' }],
+        tags: ['react'],
+        users: ['ObjectUser'],
+      });
+    });
+
+    test('should only fetch the fields shown in the suggestions', async () => {
+      mockingoose(QuestionModel).toReturn([], 'find');
+      mockingoose(TagModel).toReturn([], 'find');
+      mockingoose(UserModel).toReturn([], 'find');
+      const findSpy = jest.spyOn(QuestionModel, 'find');
+
+      const result = await getSearchSuggestions('c++ (');
+
+      expect(result).toEqual({ questions: [], tags: [], users: [] });
+      expect(findSpy).toHaveBeenCalledWith({ title: /c\+\+ \(/i }, { title: 1 });
+    });
+
+    test('should return an error if the database throws an error', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('error'), 'find');
+      mockingoose(TagModel).toReturn([], 'find');
+      mockingoose(UserModel).toReturn([], 'find');
+
+      const result = await getSearchSuggestions('storage');
+
+      expect(result).toEqual({ error: 'Error when fetching search suggestions' });
+    });
+  });
 });
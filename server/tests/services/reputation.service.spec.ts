@@ -0,0 +1,270 @@
+import { ObjectId } from 'mongodb';
+import ReputationEventModel from '../../models/reputationEvents.model';
+import QuestionModel from '../../models/questions.model';
+import AnswerModel from '../../models/answers.model';
+import UserModel from '../../models/users.model';
+import {
+  clearReputation,
+  recomputeReputation,
+  recordAcceptance,
+  recordVote,
+  settleReputation,
+} from '../../services/reputation.service';
+import { ReputationEvent, ReputationTarget } from '../../types/types';
+import {
+  ACCEPT_REPUTATION,
+  DOWNVOTE_REPUTATION,
+  REPUTATION_BASE,
+  UPVOTE_REPUTATION,
+} from '../../utils/reputation.util';
+import { QUESTIONS, ans1, ans2 } from '../mockData.models';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+describe('Reputation service', () => {
+  let aggregateSpy: jest.SpyInstance;
+  let insertManySpy: jest.SpyInstance;
+  let bulkWriteSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockingoose.resetAll();
+    aggregateSpy = jest.spyOn(ReputationEventModel, 'aggregate').mockResolvedValue([]);
+    insertManySpy = jest.spyOn(ReputationEventModel, 'insertMany').mockResolvedValue([]);
+    bulkWriteSpy = jest.spyOn(UserModel, 'bulkWrite').mockResolvedValue({} as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const target: ReputationTarget = {
+    username: ans1.ansBy,
+    reason: 'vote',
+    postType: 'answer',
+    postId: ans1._id!,
+    actor: 'voter',
+    total: DOWNVOTE_REPUTATION,
+  };
+
+  describe('settleReputation', () => {
+    test('should record the difference between the target and the recorded reputation', async () => {
+      aggregateSpy.mockResolvedValueOnce([
+        { _id: { postId: ans1._id, actor: 'voter', reason: 'vote' }, total: 10 },
+      ]);
+
+      const result = (await settleReputation([target])) as ReputationEvent[];
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({ username: ans1.ansBy, postId: ans1._id, delta: -12 });
+      expect(insertManySpy).toHaveBeenCalledWith(result);
+      expect(bulkWriteSpy).toHaveBeenCalledWith([
+        {
+          updateOne: {
+            filter: { username: ans1.ansBy },
+            update: [
+              {
+                $set: {
+                  reputation: { $add: [{ $ifNull: ['$reputation', REPUTATION_BASE] }, -12] },
+                },
+              },
+            ],
+          },
+        },
+      ]);
+    });
+
+    test('should not record anything if the reputation is already settled', async () => {
+      aggregateSpy.mockResolvedValueOnce([
+        { _id: { postId: ans1._id, actor: 'voter', reason: 'vote' }, total: -2 },
+      ]);
+
+      const result = await settleReputation([target]);
+
+      expect(result).toEqual([]);
+      expect(insertManySpy).not.toHaveBeenCalled();
+      expect(bulkWriteSpy).not.toHaveBeenCalled();
+    });
+
+    test('should compare post IDs by value', async () => {
+      aggregateSpy.mockResolvedValueOnce([
+        {
+          _id: { postId: new ObjectId(ans1._id!.toString()), actor: 'voter', reason: 'vote' },
+          total: -2,
+        },
+      ]);
+
+      const result = await settleReputation([target]);
+
+      expect(result).toEqual([]);
+    });
+
+    test('should not query the ledger if there are no targets', async () => {
+      const result = await settleReputation([]);
+
+      expect(result).toEqual([]);
+      expect(aggregateSpy).not.toHaveBeenCalled();
+    });
+
+    test('should return an error if the database throws an error', async () => {
+      aggregateSpy.mockRejectedValueOnce(new Error('error'));
+
+      const result = await settleReputation([target]);
+
+      expect(result).toEqual({ error: 'Error when updating reputation' });
+    });
+  });
+
+  describe('recordVote', () => {
+    test('should credit the author for an upvote', async () => {
+      const post = { _id: ans1._id, upVotes: ['voter'], downVotes: [] };
+
+      const result = (await recordVote('answer', post, ans1.ansBy, 'voter')) as ReputationEvent[];
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({
+        username: ans1.ansBy,
+        reason: 'vote',
+        actor: 'voter',
+        delta: UPVOTE_REPUTATION,
+      });
+    });
+
+    test('should not credit users for voting on their own posts', async () => {
+      const post = { _id: ans1._id, upVotes: [ans1.ansBy], downVotes: [] };
+
+      const result = await recordVote('answer', post, ans1.ansBy, ans1.ansBy);
+
+      expect(result).toEqual([]);
+      expect(insertManySpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordAcceptance', () => {
+    test('should credit the author of the accepted answer and debit the previous one', async () => {
+      mockingoose(AnswerModel).toReturn([ans1, ans2], 'find');
+      aggregateSpy.mockResolvedValueOnce([
+        { _id: { postId: ans2._id, actor: 'q_by1', reason: 'accept' }, total: 15 },
+      ]);
+
+      const result = (await recordAcceptance({
+        askedBy: 'q_by1',
+        answers: [ans1._id, ans2._id],
+        acceptedAnswer: ans1._id,
+      })) as ReputationEvent[];
+
+      expect(result.map(e => [e.username, e.delta])).toEqual([
+        [ans1.ansBy, ACCEPT_REPUTATION],
+        [ans2.ansBy, -ACCEPT_REPUTATION],
+      ]);
+    });
+
+    test('should not credit users for accepting their own answer', async () => {
+      mockingoose(AnswerModel).toReturn([ans1], 'find');
+
+      const result = await recordAcceptance({
+        askedBy: ans1.ansBy,
+        answers: [ans1._id],
+        acceptedAnswer: ans1._id,
+      });
+
+      expect(result).toEqual([]);
+    });
+
+    test('should return an error if the database throws an error', async () => {
+      mockingoose(AnswerModel).toReturn(new Error('error'), 'find');
+
+      const result = await recordAcceptance({
+        askedBy: 'q_by1',
+        answers: [ans1._id],
+        acceptedAnswer: null,
+      });
+
+      expect(result).toEqual({ error: 'Error when updating reputation' });
+    });
+  });
+
+  describe('clearReputation', () => {
+    test('should take back the reputation earned from the posts', async () => {
+      const group = {
+        username: ans1.ansBy,
+        reason: 'vote',
+        postType: 'answer',
+        postId: ans1._id,
+        actor: 'voter',
+      };
+      aggregateSpy
+        .mockResolvedValueOnce([{ _id: group, total: 8 }])
+        .mockResolvedValueOnce([
+          { _id: { postId: ans1._id, actor: 'voter', reason: 'vote' }, total: 8 },
+        ]);
+
+      const result = (await clearReputation([ans1._id!])) as ReputationEvent[];
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({ ...group, delta: -8 });
+    });
+
+    test('should not query the ledger if there are no posts', async () => {
+      const result = await clearReputation([]);
+
+      expect(result).toEqual([]);
+      expect(aggregateSpy).not.toHaveBeenCalled();
+    });
+
+    test('should return an error if the database throws an error', async () => {
+      aggregateSpy.mockRejectedValueOnce(new Error('error'));
+
+      const result = await clearReputation([ans1._id!]);
+
+      expect(result).toEqual({ error: 'Error when updating reputation' });
+    });
+  });
+
+  describe('recomputeReputation', () => {
+    test('should rebuild the ledger from the votes and accepted answers', async () => {
+      mockingoose(QuestionModel).toReturn(
+        [
+          {
+            ...QUESTIONS[0],
+            answers: [ans1._id, ans2._id],
+            upVotes: ['voter1', 'voter2'],
+            downVotes: ['voter3'],
+            acceptedAnswer: ans2._id,
+          },
+        ],
+        'find',
+      );
+      mockingoose(AnswerModel).toReturn(
+        [
+          { ...ans1, upVotes: [ans1.ansBy], downVotes: [] },
+          { ...ans2, upVotes: ['voter1'], downVotes: [] },
+        ],
+        'find',
+      );
+      mockingoose(UserModel).toReturn({ matchedCount: 5, modifiedCount: 2 }, 'updateMany');
+      const deleteSpy = jest.spyOn(ReputationEventModel, 'deleteMany');
+
+      const result = await recomputeReputation();
+
+      expect(result).toEqual({ events: 5, users: 5 });
+      expect(deleteSpy).toHaveBeenCalledWith({});
+      const events: ReputationEvent[] = insertManySpy.mock.calls[0][0];
+      expect(events.map(e => [e.username, e.reason, e.actor, e.delta])).toEqual([
+        ['q_by1', 'vote', 'voter1', UPVOTE_REPUTATION],
+        ['q_by1', 'vote', 'voter2', UPVOTE_REPUTATION],
+        ['q_by1', 'vote', 'voter3', DOWNVOTE_REPUTATION],
+        [ans2.ansBy, 'vote', 'voter1', UPVOTE_REPUTATION],
+        [ans2.ansBy, 'accept', 'q_by1', ACCEPT_REPUTATION],
+      ]);
+    });
+
+    test('should return an error if the database throws an error', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('error'), 'find');
+
+      const result = await recomputeReputation();
+
+      expect(result).toEqual({ error: 'Error when recomputing reputation' });
+    });
+  });
+});
@@ -1,7 +1,23 @@
 import Tags from '../../models/tags.model';
+import TagSynonymModel from '../../models/tagSynonyms.model';
+import TagRevisionModel from '../../models/tagRevisions.model';
 import QuestionModel from '../../models/questions.model';
-import { addTag, processTags, getTagCountMap } from '../../services/tag.service';
+import {
+  addTag,
+  processTags,
+  getTagStats,
+  getTagSuggestions,
+  removeUnusedTags,
+  resolveTag,
+  addTagSynonym,
+  mergeTag,
+  getTagDetail,
+  updateTagWiki,
+  getTagRevisions,
+  getRelatedTags,
+} from '../../services/tag.service';
 import { QUESTIONS, tag1, tag2, tag3 } from '../mockData.models';
+import { Tag } from '../../types/types';
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const mockingoose = require('mockingoose');
@@ -49,17 +65,28 @@ describe('Tag model', () => {
     test('processTags should return the tags of tag names in the collection', async () => {
       mockingoose(Tags).toReturn(tag1, 'findOne');
 
-      const result = await processTags([tag1, tag2]);
+      const result = (await processTags([tag1])) as Tag[];
 
-      expect(result.length).toEqual(2);
+      expect(result.length).toEqual(1);
+      expect(result[0]._id).toEqual(tag1._id);
+    });
+
+    test('processTags should keep one tag for names that resolve to the same tag', async () => {
+      mockingoose(Tags).toReturn(tag1, 'findOne');
+
+      const result = (await processTags([
+        tag1,
+        { name: 'reactjs', description: 'synonym' },
+      ])) as Tag[];
+
+      expect(result.length).toEqual(1);
       expect(result[0]._id).toEqual(tag1._id);
-      expect(result[1]._id).toEqual(tag1._id);
     });
 
     test('processTags should return a list of new tags ids if they do not exist in the collection', async () => {
       mockingoose(Tags).toReturn(null, 'findOne');
 
-      const result = await processTags([tag1, tag2]);
+      const result = (await processTags([tag1, tag2])) as Tag[];
 
       expect(result.length).toEqual(2);
     });
@@ -67,7 +94,7 @@ describe('Tag model', () => {
     test('processTags should return empty list if an error is thrown when finding tags', async () => {
       mockingoose(Tags).toReturn(Error('Dummy error'), 'findOne');
 
-      const result = await processTags([tag1, tag2]);
+      const result = (await processTags([tag1, tag2])) as Tag[];
 
       expect(result.length).toEqual(0);
     });
@@ -76,76 +103,425 @@ describe('Tag model', () => {
       mockingoose(Tags).toReturn(null, 'findOne');
       mockingoose(Tags).toReturn(Error('Dummy error'), 'save');
 
-      const result = await processTags([tag1, tag2]);
+      const result = (await processTags([tag1, tag2])) as Tag[];
 
       expect(result.length).toEqual(0);
     });
+
+    test('processTags should return existing tags for users who cannot create tags', async () => {
+      mockingoose(Tags).toReturn(tag1, 'findOne');
+
+      const result = (await processTags([tag1], false)) as Tag[];
+
+      expect(result.length).toEqual(1);
+      expect(result[0]._id).toEqual(tag1._id);
+    });
+
+    test('processTags should return an error naming the new tags for users who cannot create tags', async () => {
+      mockingoose(Tags).toReturn(null, 'findOne');
+      const saveSpy = jest.spyOn(Tags.prototype, 'save');
+
+      const result = await processTags([tag1, tag2], false);
+
+      expect(result).toEqual({
+        error: `You need 300 reputation to create new tags: ${tag1.name}, ${tag2.name}`,
+      });
+      expect(saveSpy).not.toHaveBeenCalled();
+    });
   });
 
-  describe('getTagCountMap', () => {
-    test('getTagCountMap should return a map of tag names and their counts', async () => {
-      mockingoose(Tags).toReturn([tag1, tag2, tag3], 'find');
-      mockingoose(QuestionModel).toReturn(QUESTIONS, 'find');
-      QuestionModel.schema.path('tags', Object);
+  describe('getTagStats', () => {
+    const stats = [
+      {
+        name: 'javascript',
+        description: tag2.description,
+        qcnt: 2,
+        askedThisWeek: 0,
+        askedThisMonth: 1,
+        unansweredCount: 1,
+        lastActivity: new Date('2024-06-06'),
+      },
+      {
+        name: 'react',
+        description: tag1.description,
+        qcnt: 1,
+        askedThisWeek: 0,
+        askedThisMonth: 0,
+        unansweredCount: 0,
+        lastActivity: new Date('2024-06-03'),
+      },
+    ];
+
+    test('should return the statistics of the tags', async () => {
+      mockingoose(Tags).toReturn(stats, 'aggregate');
+
+      const result = await getTagStats('popular');
+
+      expect(result).toEqual(stats);
+    });
+
+    test('should sort by the given order and filter by name ignoring case', async () => {
+      const aggregateSpy = jest.spyOn(Tags, 'aggregate');
+      mockingoose(Tags).toReturn([], 'aggregate');
+
+      await getTagStats('name', 'Java.');
 
-      const result = (await getTagCountMap()) as Map<string, number>;
+      const pipeline = aggregateSpy.mock.calls[0][0];
+      expect(pipeline[0]).toEqual({ $match: { name: /Java\./i } });
+      expect(pipeline).toContainEqual({ $sort: { name: 1 } });
 
-      expect(result.size).toEqual(3);
-      expect(result.get('react')).toEqual(1);
-      expect(result.get('javascript')).toEqual(2);
-      expect(result.get('android')).toEqual(1);
+      aggregateSpy.mockRestore();
     });
 
-    test('getTagCountMap should return an object with error if an error is thrown', async () => {
-      mockingoose(QuestionModel).toReturn(new Error('error'), 'find');
+    test('should return an object with error if the aggregation fails', async () => {
+      mockingoose(Tags).toReturn(new Error('error'), 'aggregate');
 
-      const result = await getTagCountMap();
+      const result = await getTagStats('new');
 
-      if (result && 'error' in result) {
-        expect(true).toBeTruthy();
-      } else {
-        expect(false).toBeTruthy();
-      }
+      expect(result).toEqual({ error: 'Error when fetching tag statistics' });
     });
+  });
 
-    test('getTagCountMap should return an object with error if an error is thrown when finding tags', async () => {
-      mockingoose(QuestionModel).toReturn(QUESTIONS, 'find');
+  describe('getTagSuggestions', () => {
+    const java = { ...tag2, _id: tag1._id, name: 'java' };
+
+    test('should return the matching tags with their question counts, most used first', async () => {
+      mockingoose(Tags).toReturn([tag2, tag3], 'find');
+      mockingoose(QuestionModel).toReturn(
+        [
+          { _id: tag2._id, qcnt: 1 },
+          { _id: tag3._id, qcnt: 2 },
+        ],
+        'aggregate',
+      );
+
+      const result = await getTagSuggestions('');
+
+      expect(result).toEqual([
+        { name: tag3.name, description: tag3.description, qcnt: 2 },
+        { name: tag2.name, description: tag2.description, qcnt: 1 },
+      ]);
+    });
+
+    test('should put the tag named exactly as the prefix first', async () => {
+      mockingoose(Tags).toReturn([tag2, java], 'find');
+      mockingoose(QuestionModel).toReturn([{ _id: tag2._id, qcnt: 3 }], 'aggregate');
+
+      const result = await getTagSuggestions('Java');
+
+      expect(result).toEqual([
+        { name: 'java', description: java.description, qcnt: 0 },
+        { name: tag2.name, description: tag2.description, qcnt: 3 },
+      ]);
+    });
+
+    test('should match tag names starting with the escaped prefix, ignoring case', async () => {
+      const findSpy = jest.spyOn(Tags, 'find');
+      mockingoose(Tags).toReturn([], 'find');
+      mockingoose(QuestionModel).toReturn([], 'aggregate');
+
+      await getTagSuggestions('c++');
+
+      expect(findSpy).toHaveBeenLastCalledWith({ name: /^c\+\+/i });
+    });
+
+    test('should return an error if finding the tags fails', async () => {
       mockingoose(Tags).toReturn(new Error('error'), 'find');
 
-      const result = await getTagCountMap();
+      const result = await getTagSuggestions('java');
+
+      expect(result).toEqual({ error: 'Error when fetching tag suggestions' });
+    });
+  });
+
+  describe('resolveTag', () => {
+    test('should return the tag with the given name', async () => {
+      mockingoose(Tags).toReturn(tag1, 'findOne');
+
+      const result = await resolveTag('react');
+
+      expect(result?._id).toEqual(tag1._id);
+    });
+
+    test('should return the tag with the same name ignoring case', async () => {
+      const findOneSpy = jest.spyOn(Tags, 'findOne').mockResolvedValueOnce(null);
+      mockingoose(Tags).toReturn(tag2, 'findOne');
+
+      const result = await resolveTag('JavaScript');
 
-      if (result && 'error' in result) {
-        expect(true).toBeTruthy();
-      } else {
-        expect(false).toBeTruthy();
-      }
+      expect(result?._id).toEqual(tag2._id);
+      expect(findOneSpy).toHaveBeenLastCalledWith({ name: /^JavaScript$/i });
     });
 
-    test('getTagCountMap should return null if Tags find returns null', async () => {
-      mockingoose(QuestionModel).toReturn(QUESTIONS, 'find');
-      mockingoose(Tags).toReturn(null, 'find');
+    test('should return the tag a synonym stands for', async () => {
+      jest.spyOn(Tags, 'findOne').mockResolvedValueOnce(null).mockResolvedValueOnce(null);
+      mockingoose(TagSynonymModel).toReturn({ name: 'js', tag: tag2._id }, 'findOne');
+      jest.spyOn(Tags, 'findById').mockResolvedValueOnce(tag2);
+      const findOneSpy = jest.spyOn(TagSynonymModel, 'findOne');
 
-      const result = await getTagCountMap();
+      const result = await resolveTag('JS');
+
+      expect(result?._id).toEqual(tag2._id);
+      expect(findOneSpy).toHaveBeenLastCalledWith({ name: 'js' });
+    });
+
+    test('should return null if the name is neither a tag nor a synonym', async () => {
+      mockingoose(Tags).toReturn(null, 'findOne');
+      mockingoose(TagSynonymModel).toReturn(null, 'findOne');
+
+      const result = await resolveTag('unknown');
 
       expect(result).toBeNull();
     });
+  });
 
-    test('getTagCountMap should return default map if QuestionModel find returns null but not tag find', async () => {
-      mockingoose(QuestionModel).toReturn(null, 'find');
-      mockingoose(Tags).toReturn([tag1], 'find');
+  describe('addTagSynonym', () => {
+    test('should save the synonym in lowercase for the tag', async () => {
+      mockingoose(Tags).toReturn(tag2, 'findOne');
+      mockingoose(TagSynonymModel).toReturn({ name: 'js', tag: tag2._id }, 'findOneAndUpdate');
+      const updateSpy = jest.spyOn(TagSynonymModel, 'findOneAndUpdate');
 
-      const result = (await getTagCountMap()) as Map<string, number>;
+      const result = await addTagSynonym('JS', 'javascript');
 
-      expect(result.get('react')).toBe(0);
+      expect(result).toMatchObject({ name: 'js', tag: tag2._id });
+      expect(updateSpy).toHaveBeenLastCalledWith(
+        { name: 'js' },
+        { tag: tag2._id },
+        { upsert: true, new: true },
+      );
     });
 
-    test('getTagCountMap should return null if find returns []', async () => {
-      mockingoose(QuestionModel).toReturn([], 'find');
-      mockingoose(Tags).toReturn([], 'find');
+    test('should return null if the tag does not exist', async () => {
+      mockingoose(Tags).toReturn(null, 'findOne');
+
+      const result = await addTagSynonym('js', 'javascript');
+
+      expect(result).toBeNull();
+    });
+
+    test('should return an error if saving the synonym fails', async () => {
+      mockingoose(Tags).toReturn(tag2, 'findOne');
+      mockingoose(TagSynonymModel).toReturn(new Error('error'), 'findOneAndUpdate');
+
+      const result = await addTagSynonym('js', 'javascript');
+
+      expect(result).toEqual({ error: 'Error when adding tag synonym' });
+    });
+  });
+
+  describe('mergeTag', () => {
+    test('should move the questions and synonyms of the source tag, then delete it', async () => {
+      const findOneSpy = jest.spyOn(Tags, 'findOne');
+      findOneSpy.mockResolvedValueOnce(tag1).mockResolvedValueOnce(tag2);
+      const questionUpdateSpy = jest.spyOn(QuestionModel, 'updateMany');
+      const synonymUpdateManySpy = jest.spyOn(TagSynonymModel, 'updateMany');
+      const synonymUpdateOneSpy = jest.spyOn(TagSynonymModel, 'updateOne');
+      const deleteSpy = jest.spyOn(Tags, 'deleteOne');
+
+      const result = await mergeTag('react', 'javascript');
+
+      expect(result).toEqual(tag2);
+      expect(questionUpdateSpy).toHaveBeenCalledWith(
+        { tags: tag1._id },
+        { $addToSet: { tags: tag2._id } },
+      );
+      expect(questionUpdateSpy).toHaveBeenCalledWith(
+        { tags: tag1._id },
+        { $pull: { tags: tag1._id } },
+      );
+      expect(synonymUpdateManySpy).toHaveBeenCalledWith({ tag: tag1._id }, { tag: tag2._id });
+      expect(synonymUpdateOneSpy).toHaveBeenCalledWith(
+        { name: 'react' },
+        expect.objectContaining({ tag: tag2._id }),
+        { upsert: true },
+      );
+      expect(deleteSpy).toHaveBeenCalledWith({ _id: tag1._id });
+    });
+
+    test('should return null if either tag does not exist', async () => {
+      jest.spyOn(Tags, 'findOne').mockResolvedValueOnce(tag1).mockResolvedValueOnce(null);
+
+      const result = await mergeTag('react', 'nonExistentTag');
+
+      expect(result).toBeNull();
+    });
+
+    test('should return an error if updating the questions fails', async () => {
+      jest.spyOn(Tags, 'findOne').mockResolvedValueOnce(tag1).mockResolvedValueOnce(tag2);
+      mockingoose(QuestionModel).toReturn(new Error('error'), 'updateMany');
+
+      const result = await mergeTag('react', 'javascript');
 
-      const result = await getTagCountMap();
+      expect(result).toEqual({ error: 'Error when merging tags' });
+    });
+  });
+
+  describe('getTagDetail', () => {
+    test('should return the tag, its question count and its top questions', async () => {
+      const top = [{ _id: QUESTIONS[0]._id, title: 'title', score: 2, answerCount: 1 }];
+      mockingoose(Tags).toReturn(tag1, 'findOne');
+      mockingoose(QuestionModel).toReturn([{ total: [{ count: 3 }], top }], 'aggregate');
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+
+      const result = await getTagDetail('react');
+
+      expect(result).toMatchObject({ tag: { name: 'react' }, qcnt: 3, topQuestions: top });
+      expect(aggregateSpy.mock.calls[aggregateSpy.mock.calls.length - 1][0][0]).toEqual({
+        $match: { tags: tag1._id },
+      });
+    });
+
+    test('should return a question count of 0 for a tag without questions', async () => {
+      mockingoose(Tags).toReturn(tag1, 'findOne');
+      mockingoose(QuestionModel).toReturn([{ total: [], top: [] }], 'aggregate');
+
+      const result = await getTagDetail('react');
+
+      expect(result).toMatchObject({ qcnt: 0, topQuestions: [] });
+    });
+
+    test('should return null if the tag does not exist', async () => {
+      mockingoose(Tags).toReturn(null, 'findOne');
+
+      const result = await getTagDetail('nonExistentTag');
+
+      expect(result).toBeNull();
+    });
+
+    test('should return an error if counting the questions fails', async () => {
+      mockingoose(Tags).toReturn(tag1, 'findOne');
+      mockingoose(QuestionModel).toReturn(new Error('error'), 'aggregate');
+
+      const result = await getTagDetail('react');
+
+      expect(result).toEqual({ error: 'Error when fetching tag details' });
+    });
+  });
+
+  describe('getRelatedTags', () => {
+    test('should count the other tags of the questions with the tag', async () => {
+      const related = [
+        { name: 'javascript', count: 2 },
+        { name: 'android', count: 1 },
+      ];
+      mockingoose(Tags).toReturn(tag1, 'findOne');
+      mockingoose(QuestionModel).toReturn(related, 'aggregate');
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+
+      const result = await getRelatedTags('react');
+
+      expect(result).toEqual(related);
+      const pipeline = aggregateSpy.mock.calls[aggregateSpy.mock.calls.length - 1][0];
+      expect(pipeline.slice(0, 4)).toEqual([
+        { $match: { tags: tag1._id } },
+        { $unwind: '$tags' },
+        { $match: { tags: { $ne: tag1._id } } },
+        { $group: { _id: '$tags', count: { $sum: 1 } } },
+      ]);
+    });
+
+    test('should return null if the tag does not exist', async () => {
+      mockingoose(Tags).toReturn(null, 'findOne');
+      mockingoose(TagSynonymModel).toReturn(null, 'findOne');
+
+      const result = await getRelatedTags('nonExistentTag');
+
+      expect(result).toBeNull();
+    });
+
+    test('should return an error if the aggregation fails', async () => {
+      mockingoose(Tags).toReturn(tag1, 'findOne');
+      mockingoose(QuestionModel).toReturn(new Error('error'), 'aggregate');
+
+      const result = await getRelatedTags('react');
+
+      expect(result).toEqual({ error: 'Error when fetching related tags' });
+    });
+  });
+
+  describe('updateTagWiki', () => {
+    const edit = { description: 'New excerpt', wiki: 'New wiki' };
+
+    test('should keep the previous version as a revision and update the tag', async () => {
+      mockingoose(Tags).toReturn({ ...tag1, wiki: 'Old wiki' }, 'findOne');
+      mockingoose(Tags).toReturn({ ...tag1, ...edit, lastEditedBy: 'user1' }, 'findOneAndUpdate');
+      const createSpy = jest.spyOn(TagRevisionModel, 'create');
+
+      const result = await updateTagWiki('react', edit, 'user1');
+
+      expect(result).toMatchObject({ name: 'react', ...edit, lastEditedBy: 'user1' });
+      expect(createSpy).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          tid: tag1._id,
+          description: tag1.description,
+          wiki: 'Old wiki',
+          editedBy: 'user1',
+        }),
+      );
+    });
+
+    test('should return null if the tag does not exist', async () => {
+      mockingoose(Tags).toReturn(null, 'findOne');
+
+      const result = await updateTagWiki('nonExistentTag', edit, 'user1');
 
       expect(result).toBeNull();
     });
+
+    test('should return an error if updating the tag fails', async () => {
+      mockingoose(Tags).toReturn(tag1, 'findOne');
+      mockingoose(Tags).toReturn(new Error('error'), 'findOneAndUpdate');
+
+      const result = await updateTagWiki('react', edit, 'user1');
+
+      expect(result).toEqual({ error: 'Error when editing tag wiki' });
+    });
+  });
+
+  describe('getTagRevisions', () => {
+    test('should return the revisions of the tag', async () => {
+      const revision = {
+        tid: tag1._id,
+        description: 'Old excerpt',
+        wiki: '',
+        editedBy: 'user1',
+        editDateTime: new Date('2024-06-01'),
+      };
+      mockingoose(Tags).toReturn(tag1, 'findOne');
+      mockingoose(TagRevisionModel).toReturn([revision], 'find');
+
+      const result = await getTagRevisions('react');
+
+      expect(result).toHaveLength(1);
+      expect((result as { editedBy: string }[])[0]).toMatchObject({ editedBy: 'user1' });
+    });
+
+    test('should return null if the tag does not exist', async () => {
+      mockingoose(Tags).toReturn(null, 'findOne');
+
+      const result = await getTagRevisions('nonExistentTag');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('removeUnusedTags', () => {
+    test('should delete only the tags that are no longer used by any question', async () => {
+      mockingoose(QuestionModel).toReturn([tag1._id], 'distinct');
+      const deleteManySpy = jest.spyOn(Tags, 'deleteMany');
+
+      await removeUnusedTags([tag1._id!, tag2._id!]);
+
+      expect(deleteManySpy).toHaveBeenCalledWith({ _id: { $in: [tag2._id] } });
+    });
+
+    test('should not delete anything if all the tags are still used', async () => {
+      mockingoose(QuestionModel).toReturn([tag1._id, tag2._id], 'distinct');
+      const deleteManySpy = jest.spyOn(Tags, 'deleteMany');
+
+      await removeUnusedTags([tag1._id!, tag2._id!]);
+
+      expect(deleteManySpy).not.toHaveBeenCalled();
+    });
   });
 });
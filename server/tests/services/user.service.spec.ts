@@ -1,4 +1,9 @@
+import { PipelineStage } from 'mongoose';
 import UserModel from '../../models/users.model';
+import QuestionModel from '../../models/questions.model';
+import AnswerModel from '../../models/answers.model';
+import CommentModel from '../../models/comments.model';
+import ReputationEventModel from '../../models/reputationEvents.model';
 import {
   deleteUserByUsername,
   getUserByUsername,
@@ -6,9 +11,15 @@ import {
   saveUser,
   updateUser,
   resetPassword,
+  getTagPreferences,
+  setTagPreference,
+  getVotesReceived,
+  getReputations,
+  getLeaderboard,
 } from '../../services/user.service';
 import { SafeUser, User, UserCredentials } from '../../types/user';
-import { user, safeUser } from '../mockData.models';
+import { user, safeUser, tag1, QUESTIONS } from '../mockData.models';
+import { hashPassword, isPasswordHashed, verifyPassword } from '../../utils/password.util';
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const mockingoose = require('mockingoose');
@@ -32,6 +43,19 @@ describe('User model', () => {
       expect(savedUser.dateJoined).toEqual(user.dateJoined);
     });
 
+    it('should store a hash of the password rather than the password itself', async () => {
+      const createSpy = jest.spyOn(UserModel, 'create');
+
+      await saveUser(user);
+
+      const storedPassword = (createSpy.mock.calls[0][0] as User).password;
+      expect(storedPassword).not.toEqual(user.password);
+      expect(isPasswordHashed(storedPassword)).toBe(true);
+      expect(await verifyPassword(user.password, storedPassword)).toBe(true);
+
+      jest.restoreAllMocks();
+    });
+
     it('should return error if save fails', async () => {
       jest.spyOn(UserModel, 'create').mockRejectedValue(new Error('Duplicate key'));
 
@@ -57,6 +81,22 @@ describe('getUserByUsername', () => {
     expect(retrievedUser.dateJoined).toEqual(user.dateJoined);
   });
 
+  it('should return the bio of the user, or an empty bio if they have none', async () => {
+    mockingoose(UserModel).toReturn({ ...safeUser, bio: 'Hello' }, 'findOne');
+    expect(((await getUserByUsername(user.username)) as SafeUser).bio).toEqual('Hello');
+
+    mockingoose(UserModel).toReturn(safeUser, 'findOne');
+    expect(((await getUserByUsername(user.username)) as SafeUser).bio).toEqual('');
+  });
+
+  it('should return the reputation of the user', async () => {
+    mockingoose(UserModel).toReturn({ ...safeUser, reputation: 42 }, 'findOne');
+
+    const retrievedUser = (await getUserByUsername(user.username)) as SafeUser;
+
+    expect(retrievedUser.reputation).toEqual(42);
+  });
+
   it('should return error if user is not found', async () => {
     mockingoose(UserModel).toReturn(null, 'findOne');
 
@@ -70,18 +110,62 @@ describe('loginUser', () => {
     mockingoose.resetAll();
   });
 
-  it('should return the user if authentication succeeds', async () => {
-    mockingoose(UserModel).toReturn(safeUser, 'findOne');
+  const credentials: UserCredentials = {
+    username: user.username,
+    password: user.password,
+  };
 
-    const credentials: UserCredentials = {
-      username: user.username,
-      password: user.password,
-    };
+  it('should return the user if authentication succeeds', async () => {
+    mockingoose(UserModel).toReturn(
+      { ...user, password: await hashPassword(user.password) },
+      'findOne',
+    );
+    const updateOneSpy = jest.spyOn(UserModel, 'updateOne');
 
     const loggedInUser = (await loginUser(credentials)) as SafeUser;
 
     expect(loggedInUser.username).toEqual(user.username);
     expect(loggedInUser.dateJoined).toEqual(user.dateJoined);
+    expect(loggedInUser).not.toHaveProperty('password');
+    expect(updateOneSpy).not.toHaveBeenCalled();
+
+    jest.restoreAllMocks();
+  });
+
+  it('should rehash a plain text password after a successful login', async () => {
+    mockingoose(UserModel).toReturn(user, 'findOne');
+    const updateOneSpy = jest.spyOn(UserModel, 'updateOne');
+
+    const loggedInUser = (await loginUser(credentials)) as SafeUser;
+
+    expect(loggedInUser.username).toEqual(user.username);
+    expect(updateOneSpy).toHaveBeenCalledTimes(1);
+    expect(updateOneSpy).toHaveBeenCalledWith(expect.anything(), {
+      password: expect.stringMatching(/^scrypt\$/),
+    });
+
+    jest.restoreAllMocks();
+  });
+
+  it('should return error if the password does not match the stored hash', async () => {
+    mockingoose(UserModel).toReturn(
+      { ...user, password: await hashPassword(user.password) },
+      'findOne',
+    );
+
+    const result = await loginUser({ username: user.username, password: 'wrong' });
+    expect('error' in result).toBe(true);
+  });
+
+  it('should return error if a plain text password does not match', async () => {
+    mockingoose(UserModel).toReturn(user, 'findOne');
+    const updateOneSpy = jest.spyOn(UserModel, 'updateOne');
+
+    const result = await loginUser({ username: user.username, password: 'wrong' });
+    expect('error' in result).toBe(true);
+    expect(updateOneSpy).not.toHaveBeenCalled();
+
+    jest.restoreAllMocks();
   });
 
   it('should return error if credentials are wrong', async () => {
@@ -168,6 +252,20 @@ describe('resetPassword', () => {
     expect(result.dateJoined).toEqual(user.dateJoined);
   });
 
+  it('should store a hash of the new password', async () => {
+    const findOneAndUpdateSpy = jest.spyOn(UserModel, 'findOneAndUpdate');
+
+    await resetPassword(user.username, newPassword);
+
+    expect(findOneAndUpdateSpy).toHaveBeenCalledWith(
+      { username: user.username },
+      { password: expect.stringMatching(/^scrypt\$/) },
+      { new: true },
+    );
+
+    jest.restoreAllMocks();
+  });
+
   it('should return error if user is not found during password reset', async () => {
     mockingoose(UserModel).toReturn(null, 'findOneAndUpdate');
 
@@ -176,3 +274,279 @@ describe('resetPassword', () => {
     expect('error' in result).toBe(true);
   });
 });
+
+describe('getTagPreferences', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+  });
+
+  it('should return the watched and ignored tags of the user', async () => {
+    mockingoose(UserModel).toReturn(
+      { ...safeUser, watchedTags: ['react'], ignoredTags: ['android'] },
+      'findOne',
+    );
+
+    const result = await getTagPreferences(user.username);
+
+    expect(result).toEqual({ watchedTags: ['react'], ignoredTags: ['android'] });
+  });
+
+  it('should return empty lists for a user without preferences', async () => {
+    mockingoose(UserModel).toReturn(safeUser, 'findOne');
+
+    const result = await getTagPreferences(user.username);
+
+    expect(result).toEqual({ watchedTags: [], ignoredTags: [] });
+  });
+
+  it('should return error if the user is not found', async () => {
+    mockingoose(UserModel).toReturn(null, 'findOne');
+
+    const result = await getTagPreferences('nouser');
+
+    expect(result).toEqual({ error: 'User not found' });
+  });
+});
+
+describe('setTagPreference', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should watch the tag and stop ignoring it', async () => {
+    const findOneAndUpdateSpy = jest.spyOn(UserModel, 'findOneAndUpdate');
+    mockingoose(UserModel).toReturn(
+      { ...safeUser, watchedTags: ['react'], ignoredTags: [] },
+      'findOneAndUpdate',
+    );
+
+    const result = await setTagPreference(user.username, 'react', 'watched');
+
+    expect(result).toEqual({ watchedTags: ['react'], ignoredTags: [] });
+    expect(findOneAndUpdateSpy).toHaveBeenCalledWith(
+      { username: user.username },
+      { $addToSet: { watchedTags: 'react' }, $pull: { ignoredTags: 'react' } },
+      { new: true },
+    );
+  });
+
+  it('should ignore the tag and stop watching it', async () => {
+    const findOneAndUpdateSpy = jest.spyOn(UserModel, 'findOneAndUpdate');
+    mockingoose(UserModel).toReturn(
+      { ...safeUser, watchedTags: [], ignoredTags: ['react'] },
+      'findOneAndUpdate',
+    );
+
+    await setTagPreference(user.username, 'react', 'ignored');
+
+    expect(findOneAndUpdateSpy).toHaveBeenCalledWith(
+      { username: user.username },
+      { $addToSet: { ignoredTags: 'react' }, $pull: { watchedTags: 'react' } },
+      { new: true },
+    );
+  });
+
+  it('should remove the tag from both lists when clearing it', async () => {
+    const findOneAndUpdateSpy = jest.spyOn(UserModel, 'findOneAndUpdate');
+    mockingoose(UserModel).toReturn(safeUser, 'findOneAndUpdate');
+
+    const result = await setTagPreference(user.username, 'react', 'none');
+
+    expect(result).toEqual({ watchedTags: [], ignoredTags: [] });
+    expect(findOneAndUpdateSpy).toHaveBeenCalledWith(
+      { username: user.username },
+      { $pull: { watchedTags: 'react', ignoredTags: 'react' } },
+      { new: true },
+    );
+  });
+
+  it('should return error if the user is not found', async () => {
+    mockingoose(UserModel).toReturn(null, 'findOneAndUpdate');
+
+    const result = await setTagPreference('nouser', 'react', 'watched');
+
+    expect(result).toEqual({ error: 'User not found' });
+  });
+});
+
+describe('getVotesReceived', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+  });
+
+  it('should add up the votes on the questions, answers and comments of the user', async () => {
+    mockingoose(QuestionModel).toReturn([{ _id: null, upVotes: 3, downVotes: 1 }], 'aggregate');
+    mockingoose(AnswerModel).toReturn([{ _id: null, upVotes: 2, downVotes: 2 }], 'aggregate');
+    mockingoose(CommentModel).toReturn([{ _id: null, upVotes: 4, downVotes: 0 }], 'aggregate');
+
+    const result = await getVotesReceived(user.username);
+
+    expect(result).toEqual({ upVotes: 9, downVotes: 3 });
+  });
+
+  it('should return no votes for a user without posts', async () => {
+    mockingoose(QuestionModel).toReturn([], 'aggregate');
+    mockingoose(AnswerModel).toReturn([], 'aggregate');
+    mockingoose(CommentModel).toReturn([], 'aggregate');
+
+    const result = await getVotesReceived('nouser');
+
+    expect(result).toEqual({ upVotes: 0, downVotes: 0 });
+  });
+
+  it('should return error if counting the votes fails', async () => {
+    mockingoose(QuestionModel).toReturn(new Error('error'), 'aggregate');
+
+    const result = await getVotesReceived(user.username);
+
+    expect(result).toEqual({ error: 'Error fetching votes received' });
+  });
+});
+
+describe('getReputations', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+  });
+
+  it('should return the reputation of each user by username', async () => {
+    mockingoose(UserModel).toReturn(
+      [
+        { ...safeUser, reputation: 42 },
+        { ...safeUser, username: 'other', reputation: 1 },
+      ],
+      'find',
+    );
+
+    const result = await getReputations([user.username, 'other', 'nouser']);
+
+    expect(result).toEqual({ [user.username]: 42, other: 1 });
+  });
+
+  it('should return error if fetching the users fails', async () => {
+    mockingoose(UserModel).toReturn(new Error('error'), 'find');
+
+    const result = await getReputations([user.username]);
+
+    expect(result).toEqual({ error: 'Error fetching reputations' });
+  });
+});
+
+describe('getLeaderboard', () => {
+  const entry = { username: user.username, reputation: 42, dateJoined: user.dateJoined, score: 42 };
+  const facetResult = [{ users: [entry], total: [{ count: 21 }] }];
+
+  beforeEach(() => {
+    mockingoose.resetAll();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should rank users by the reputation they hold over all time', async () => {
+    mockingoose(UserModel).toReturn(facetResult, 'aggregate');
+    const ledgerSpy = jest.spyOn(ReputationEventModel, 'aggregate');
+
+    const result = await getLeaderboard({ sort: 'reputation', period: 'all', page: 2, limit: 20 });
+
+    expect(result).toEqual({ users: [entry], total: 21, page: 2, limit: 20 });
+    expect(ledgerSpy).not.toHaveBeenCalled();
+  });
+
+  it('should rank users by the reputation recorded in the ledger during the period', async () => {
+    mockingoose(ReputationEventModel).toReturn(facetResult, 'aggregate');
+    const ledgerSpy = jest.spyOn(ReputationEventModel, 'aggregate');
+
+    const result = await getLeaderboard({ sort: 'reputation', period: 'week', page: 1, limit: 20 });
+
+    expect(result).toEqual({ users: [entry], total: 21, page: 1, limit: 20 });
+    const [match] = ledgerSpy.mock.calls[0][0] as PipelineStage.Match[];
+    const since: Date = match.$match.createdAt.$gte;
+    expect(Date.now() - since.getTime()).toBeGreaterThanOrEqual(7 * 24 * 60 * 60 * 1000);
+    expect(Date.now() - since.getTime()).toBeLessThan(8 * 24 * 60 * 60 * 1000);
+  });
+
+  it('should only count the reputation earned from the questions of the tag and their answers', async () => {
+    mockingoose(QuestionModel).toReturn([QUESTIONS[0]], 'find');
+    mockingoose(ReputationEventModel).toReturn(facetResult, 'aggregate');
+    const ledgerSpy = jest.spyOn(ReputationEventModel, 'aggregate');
+
+    await getLeaderboard({
+      sort: 'reputation',
+      period: 'all',
+      tagId: tag1._id,
+      page: 1,
+      limit: 20,
+    });
+
+    const [match] = ledgerSpy.mock.calls[0][0] as PipelineStage.Match[];
+    expect(match.$match.createdAt).toBeUndefined();
+    expect(match.$match.postId.$in.map(String)).toEqual(
+      [QUESTIONS[0]._id, ...QUESTIONS[0].answers.map(a => (a as { _id: unknown })._id)].map(String),
+    );
+  });
+
+  it('should count the accepted answers to the questions of the tag', async () => {
+    mockingoose(QuestionModel).toReturn(facetResult, 'aggregate');
+    const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+
+    const result = await getLeaderboard({
+      sort: 'accepted',
+      period: 'month',
+      tagId: tag1._id,
+      page: 1,
+      limit: 20,
+    });
+
+    expect(result).toEqual({ users: [entry], total: 21, page: 1, limit: 20 });
+    const pipeline = aggregateSpy.mock.calls[0][0];
+    expect(pipeline[0]).toEqual({ $match: { tags: tag1._id } });
+    expect(pipeline[1]).toMatchObject({ $lookup: { localField: 'acceptedAnswer' } });
+    expect(pipeline[3]).toMatchObject({
+      $match: { 'answer.ansDateTime': { $gte: expect.any(Date) } },
+    });
+  });
+
+  it('should count the answers of every user over all time', async () => {
+    mockingoose(QuestionModel).toReturn(facetResult, 'aggregate');
+    const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+
+    await getLeaderboard({ sort: 'answers', period: 'all', page: 1, limit: 20 });
+
+    const pipeline = aggregateSpy.mock.calls[0][0];
+    expect(pipeline[0]).toEqual({ $match: {} });
+    expect(pipeline[1]).toMatchObject({ $lookup: { localField: 'answers' } });
+    expect(pipeline[3]).toEqual({ $group: { _id: '$answer.ansBy', score: { $sum: 1 } } });
+  });
+
+  it('should list the users who joined during the period, newest first', async () => {
+    mockingoose(UserModel).toReturn(facetResult, 'aggregate');
+    const aggregateSpy = jest.spyOn(UserModel, 'aggregate');
+
+    await getLeaderboard({ sort: 'newest', period: 'month', page: 1, limit: 20 });
+
+    const pipeline = aggregateSpy.mock.calls[0][0];
+    expect(pipeline[0]).toEqual({ $match: { dateJoined: { $gte: expect.any(Date) } } });
+    expect(pipeline[2]).toEqual({ $sort: { dateJoined: -1, username: 1 } });
+  });
+
+  it('should return an empty page if there are no users', async () => {
+    mockingoose(UserModel).toReturn([], 'aggregate');
+
+    const result = await getLeaderboard({ sort: 'reputation', period: 'all', page: 1, limit: 20 });
+
+    expect(result).toEqual({ users: [], total: 0, page: 1, limit: 20 });
+  });
+
+  it('should return error if the aggregation fails', async () => {
+    mockingoose(QuestionModel).toReturn(new Error('error'), 'aggregate');
+
+    const result = await getLeaderboard({ sort: 'answers', period: 'week', page: 1, limit: 20 });
+
+    expect(result).toEqual({ error: 'Error fetching the leaderboard' });
+  });
+});
@@ -1,6 +1,12 @@
 import { Request } from 'express';
 import { ObjectId } from 'mongodb';
 import { Comment } from './comment';
+
+/**
+ * Type representing the possible ordering options for the answers to a question.
+ */
+export type AnswerOrderType = 'votes' | 'newest' | 'oldest';
+
 /**
  * Interface representing an Answer document, which contains:
  * - _id - The unique identifier for the answer. Optional field
@@ -8,6 +14,8 @@ import { Comment } from './comment';
  * - ansBy - The username of the user who wrote the answer
  * - ansDateTime - The date and time when the answer was created
  * - comments - Object IDs of comments that have been added to the answer by users, or comments themselves if populated
+ * - upVotes - An array of usernames that have upvoted the answer
+ * - downVotes - An array of usernames that have downvoted the answer
  */
 export interface Answer {
   _id?: ObjectId;
@@ -15,12 +23,14 @@ export interface Answer {
   ansBy: string;
   ansDateTime: Date;
   comments: Comment[] | ObjectId[];
+  upVotes: string[];
+  downVotes: string[];
 }
 
 /**
  * Interface extending the request body when adding an answer to a question, which contains:
  * - qid - The unique identifier of the question being answered
- * - ans - The answer being added
+ * - ans - The answer being added. Its `ansBy` is replaced with the logged-in user.
  */
 export interface AnswerRequest extends Request {
   body: {
@@ -29,11 +39,44 @@ export interface AnswerRequest extends Request {
   };
 }
 
+/**
+ * Interface for the request body when upvoting or downvoting an answer.
+ * The vote is cast by the logged-in user.
+ * - body - The answer ID.
+ *  - aid - The unique identifier of the answer.
+ */
+export interface AnswerVoteRequest extends Request {
+  body: {
+    aid: string;
+  };
+}
+
 /**
  * Type representing the possible responses for an Answer-related operation.
  */
 export type AnswerResponse = Answer | { error: string };
 
+/**
+ * Interface representing an answer listed on the profile of its author, which contains:
+ * - _id - The unique identifier of the answer
+ * - text - The content of the answer
+ * - ansDateTime - The date and time when the answer was created
+ * - score - The number of upvotes minus the number of downvotes
+ * - question - The question that was answered
+ */
+export interface AuthoredAnswer {
+  _id: ObjectId;
+  text: string;
+  ansDateTime: Date;
+  score: number;
+  question: { _id: ObjectId; title: string };
+}
+
+/**
+ * Type representing the possible responses for fetching the answers of a user.
+ */
+export type AuthoredAnswersResponse = AuthoredAnswer[] | { error: string };
+
 /**
  * Interface representing the payload for an answer update event, which contains:
  * - qid - The unique identifier of the question.
@@ -43,3 +86,23 @@ export interface AnswerUpdatePayload {
   qid: string;
   answer: AnswerResponse;
 }
+
+/**
+ * Interface for the request parameters when deleting an answer.
+ * - aid - The unique identifier of the answer.
+ */
+export interface DeleteAnswerRequest extends Request {
+  params: {
+    aid: string;
+  };
+}
+
+/**
+ * Interface representing the payload for an answer delete event, which contains:
+ * - qid - The unique identifier of the question the answer belonged to.
+ * - aid - The unique identifier of the deleted answer.
+ */
+export interface AnswerDeletePayload {
+  qid: string;
+  aid: string;
+}
@@ -0,0 +1,99 @@
+import { ObjectId } from 'mongodb';
+import { Answer } from './answer';
+import { Question } from './question';
+
+/**
+ * Type representing the events after which badges are checked: a user asked a question,
+ * answered one, received a vote on one of their posts, or had one of their questions viewed.
+ */
+export type BadgeEvent = 'question' | 'answer' | 'vote' | 'view';
+
+/**
+ * Type representing what a user must have done to earn a badge:
+ * - questionCount - Asked at least `min` questions
+ * - answerCount - Answered at least `min` questions, only counting questions with `tag` if given
+ * - questionUpvotes - Asked a question with at least `min` upvotes
+ * - answerUpvotes - Wrote an answer with at least `min` upvotes
+ * - questionViews - Asked a question viewed by at least `min` users
+ */
+export type BadgeCondition =
+  | { type: 'questionCount'; min: number }
+  | { type: 'answerCount'; min: number; tag?: string }
+  | { type: 'questionUpvotes'; min: number }
+  | { type: 'answerUpvotes'; min: number }
+  | { type: 'questionViews'; min: number };
+
+/**
+ * Interface representing a rule awarding a badge, which contains:
+ * - key - The unique key of the badge
+ * - name - The name of the badge, shown to users
+ * - description - What users did to earn the badge
+ * - events - The events after which the rule is checked
+ * - condition - What users must have done to earn the badge
+ */
+export interface BadgeRule {
+  key: string;
+  name: string;
+  description: string;
+  events: BadgeEvent[];
+  condition: BadgeCondition;
+}
+
+/**
+ * Interface representing a Badge document, which contains:
+ * - _id - The unique identifier for the badge. Optional field
+ * - key - The unique key of the rule awarding the badge
+ * - name - The name of the badge
+ * - description - What users did to earn the badge
+ */
+export interface Badge {
+  _id?: ObjectId;
+  key: string;
+  name: string;
+  description: string;
+}
+
+/**
+ * Interface representing a UserBadge document, recording that a user earned a badge, which
+ * contains:
+ * - _id - The unique identifier for the award. Optional field
+ * - username - The username of the user who earned the badge
+ * - badge - The ID of the badge
+ * - awardedAt - The date and time the badge was earned
+ */
+export interface UserBadge {
+  _id?: ObjectId;
+  username: string;
+  badge: ObjectId;
+  awardedAt: Date;
+}
+
+/**
+ * Interface representing a badge earned by a user, as sent to clients, which contains:
+ * - username - The username of the user who earned the badge
+ * - badge - The badge
+ * - awardedAt - The date and time the badge was earned
+ */
+export interface BadgeAward {
+  username: string;
+  badge: Badge;
+  awardedAt: Date;
+}
+
+/**
+ * Interface representing what a user has done, as far as badges are concerned, which contains:
+ * - questions - The questions the user asked, with their tags
+ * - answers - The answers the user wrote
+ * - answeredQuestions - The questions the user answered, with their tags
+ */
+export interface BadgeActivity {
+  questions: Question[];
+  answers: Answer[];
+  answeredQuestions: Question[];
+}
+
+/**
+ * Type representing the response for awarding or fetching badges, either the badges or an
+ * error message.
+ */
+export type BadgeAwardsResponse = BadgeAward[] | { error: string };
@@ -6,19 +6,32 @@ import { ObjectId } from 'mongodb';
  * - text - The content of the comment.
  * - commentBy - The username of the user who commented.
  * - commentDateTime - The date and time when the comment was posted.
+ * - upVotes - An array of usernames that have upvoted the comment.
  */
 export interface Comment {
   _id?: ObjectId;
   text: string;
   commentBy: string;
   commentDateTime: Date;
+  upVotes: string[];
+}
+
+/**
+ * Interface for the request body when upvoting a comment. The vote is cast by the logged-in user.
+ * - body - The comment ID.
+ *  - cid - The unique identifier of the comment.
+ */
+export interface CommentVoteRequest extends Request {
+  body: {
+    cid: string;
+  };
 }
 
 /**
  * Interface extending the request body when adding a comment to a question or an answer, which contains:
  * - id - The unique identifier of the question or answer being commented on.
  * - type - The type of the comment, either 'question' or 'answer'.
- * - comment - The comment being added.
+ * - comment - The comment being added. Its `commentBy` is replaced with the logged-in user.
  */
 export interface AddCommentRequest extends Request {
   body: {
@@ -33,6 +46,27 @@ export interface AddCommentRequest extends Request {
  */
 export type CommentResponse = Comment | { error: string };
 
+/**
+ * Interface representing a comment listed on the profile of its author, which contains:
+ * - _id - The unique identifier of the comment.
+ * - text - The content of the comment.
+ * - commentDateTime - The date and time when the comment was posted.
+ * - score - The number of upvotes.
+ * - question - The question the comment was posted on, directly or on one of its answers.
+ */
+export interface AuthoredComment {
+  _id: ObjectId;
+  text: string;
+  commentDateTime: Date;
+  score: number;
+  question: { _id: ObjectId; title: string };
+}
+
+/**
+ * Type representing the possible responses for fetching the comments of a user.
+ */
+export type AuthoredCommentsResponse = AuthoredComment[] | { error: string };
+
 /**
  * Interface representing the payload for a comment update event, which contains:
  * - result - The updated question or answer.
@@ -42,3 +76,25 @@ export interface CommentUpdatePayload {
   result: AnswerResponse | QuestionResponse | null;
   type: 'question' | 'answer';
 }
+
+/**
+ * Interface for the request parameters when deleting a comment.
+ * - cid - The unique identifier of the comment.
+ */
+export interface DeleteCommentRequest extends Request {
+  params: {
+    cid: string;
+  };
+}
+
+/**
+ * Interface representing the payload for a comment delete event, which contains:
+ * - cid - The unique identifier of the deleted comment.
+ * - parentId - The unique identifier of the question or answer the comment belonged to.
+ * - type - The type of the parent, either 'question' or 'answer'.
+ */
+export interface CommentDeletePayload {
+  cid: string;
+  parentId: string;
+  type: 'question' | 'answer';
+}
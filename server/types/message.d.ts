@@ -22,7 +22,7 @@ export type MessageResponse = Message | { error: string };
 
 /**
  * Interface extending the request body when adding a message to a chat, which contains:
- * - messageToAdd - The message being added.
+ * - messageToAdd - The message being added. Its `msgFrom` is replaced with the logged-in user.
  */
 export interface AddMessageRequest extends Request {
   body: {
@@ -1,12 +1,15 @@
 import { ObjectId } from 'mongodb';
 import { Request } from 'express';
-import { Answer } from './answer';
+import { Answer, AnswerOrderType } from './answer';
 import { Tag } from './tag';
 import { Comment } from './comment';
+import { SearchQuery } from './search';
 /**
- * Type representing the possible ordering options for questions.
+ * Type representing the possible ordering options for questions. `relevance` orders the
+ * results of a keyword search by their text search score.
  */
-export type OrderType = 'newest' | 'unanswered' | 'active' | 'mostViewed';
+export type OrderType =
+  'newest' | 'unanswered' | 'unresolved' | 'active' | 'mostViewed' | 'relevance';
 /**
  * Interface representing a Question document, which contains:
  * - _id - The unique identifier for the question. Optional field.
@@ -20,6 +23,7 @@ export type OrderType = 'newest' | 'unanswered' | 'active' | 'mostViewed';
  * - upVotes - An array of usernames that have upvoted the question.
  * - downVotes - An array of usernames that have downvoted the question.
  * - comments - Object IDs of comments that have been added to the question by users, or comments themselves if populated.
+ * - acceptedAnswer - The Object ID of the answer accepted by the asker, or null if there is none. Optional field.
  */
 export interface Question {
   _id?: ObjectId;
@@ -33,6 +37,7 @@ export interface Question {
   upVotes: string[];
   downVotes: string[];
   comments: Comment[] | ObjectId[];
+  acceptedAnswer?: ObjectId | null;
 }
 
 /**
@@ -45,18 +50,73 @@ export type QuestionResponse = Question | { error: string };
  * - order - The order in which to sort the questions
  * - search - The search string used to find questions
  * - askedBy - The username of the user who asked the question
+ * - page - The 1-based number of the page of questions to return. Optional, defaults to 1.
+ * - limit - The maximum number of questions per page. Optional, defaults to 20.
  */
 export interface FindQuestionRequest extends Request {
   query: {
     order: OrderType;
     search: string;
     askedBy: string;
+    page?: string;
+    limit?: string;
   };
 }
 
+/**
+ * Interface for the request query to fetch one page of the logged-in user's question feed.
+ * - page - The 1-based number of the page. Optional, defaults to 1.
+ * - limit - The maximum number of questions per page. Optional, defaults to 20.
+ */
+export interface QuestionFeedRequest extends Request {
+  query: {
+    page?: string;
+    limit?: string;
+  };
+}
+
+/**
+ * Interface representing the criteria for fetching a page of questions, which contains:
+ * - order - The order in which to sort the questions.
+ * - search - The parsed search query. Optional.
+ * - askedBy - The username of the user who asked the questions. Optional.
+ * - page - The 1-based number of the page to fetch.
+ * - limit - The maximum number of questions on the page.
+ */
+export interface QuestionPageQuery {
+  order: OrderType;
+  search?: SearchQuery;
+  askedBy?: string;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Interface representing one page of questions, which contains:
+ * - questions - The questions on the page, with their tags populated.
+ * - total - The total number of questions matching the criteria, across all pages.
+ * - page - The 1-based number of the page.
+ * - limit - The maximum number of questions per page.
+ */
+export interface QuestionPage {
+  questions: Question[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Type representing the possible responses for fetching a page of questions.
+ */
+export type QuestionPageResponse = QuestionPage | { error: string };
+
 /**
  * Interface for the request parameters when finding a question by its ID.
- * - qid - The unique identifier of the question.
+ * - params - The question ID.
+ *  - qid - The unique identifier of the question.
+ * - query - The viewer and the answer order.
+ *  - username - The username of the user viewing the question.
+ *  - sort - The order of the answers. Optional, defaults to newest first.
  */
 export interface FindQuestionByIdRequest extends Request {
   params: {
@@ -64,12 +124,13 @@ export interface FindQuestionByIdRequest extends Request {
   };
   query: {
     username: string;
+    sort?: AnswerOrderType;
   };
 }
 
 /**
  * Interface for the request body when adding a new question.
- * - body - The question being added.
+ * - body - The question being added. Its `askedBy` is replaced with the logged-in user.
  */
 export interface AddQuestionRequest extends Request {
   body: Question;
@@ -77,25 +138,138 @@ export interface AddQuestionRequest extends Request {
 
 /**
  * Interface for the request body when upvoting or downvoting a question.
- * - body - The question ID and the username of the user voting.
+ * The vote is cast by the logged-in user.
+ * - body - The question ID.
  *  - qid - The unique identifier of the question.
- *  - username - The username of the user voting.
  */
 export interface VoteRequest extends Request {
   body: {
     qid: string;
-    username: string;
   };
 }
 
 /**
- * Interface representing the payload for a vote update event, which contains:
+ * Interface for the request when accepting an answer to a question. The answer is accepted
+ * by the logged-in user, who must have asked the question.
+ * - params - The question ID.
+ *  - qid - The unique identifier of the question.
+ * - body - The answer ID.
+ *  - aid - The unique identifier of the answer to accept.
+ */
+export interface AcceptAnswerRequest extends Request {
+  params: {
+    qid: string;
+  };
+  body: {
+    aid: string;
+  };
+}
+
+/**
+ * Interface for the request parameters when removing the accepted answer from a question.
  * - qid - The unique identifier of the question.
- * - upVotes - An array of usernames who upvoted the question.
- * - downVotes - An array of usernames who downvoted the question.
  */
-export interface VoteUpdatePayload {
+export interface UnacceptAnswerRequest extends Request {
+  params: {
+    qid: string;
+  };
+}
+
+/**
+ * Interface for the request parameters when deleting a question.
+ * - qid - The unique identifier of the question.
+ */
+export interface DeleteQuestionRequest extends Request {
+  params: {
+    qid: string;
+  };
+}
+
+/**
+ * Interface representing the payload for a question delete event, which contains:
+ * - qid - The unique identifier of the deleted question.
+ */
+export interface QuestionDeletePayload {
   qid: string;
+}
+
+/**
+ * Interface representing the fields of a question that can be edited, which contains:
+ * - title - The new title of the question.
+ * - text - The new content of the question.
+ * - tags - The new tags of the question.
+ */
+export interface QuestionEdit {
+  title: string;
+  text: string;
+  tags: Tag[];
+}
+
+/**
+ * Interface for the request when editing a question. The edit is made by the logged-in user.
+ * - params - The question ID.
+ *  - qid - The unique identifier of the question.
+ * - body - The new title, text and tags of the question.
+ */
+export interface EditQuestionRequest extends Request {
+  params: {
+    qid: string;
+  };
+  body: QuestionEdit;
+}
+
+/**
+ * Interface for the request parameters when fetching the revisions of a question.
+ * - qid - The unique identifier of the question.
+ */
+export interface QuestionRevisionsRequest extends Request {
+  params: {
+    qid: string;
+  };
+}
+
+/**
+ * Interface representing a QuestionRevision document, a snapshot of a question taken right
+ * before it was edited, which contains:
+ * - _id - The unique identifier for the revision. Optional field.
+ * - qid - The unique identifier of the question that was edited.
+ * - title - The title of the question before the edit.
+ * - text - The content of the question before the edit.
+ * - tags - The names of the question's tags before the edit.
+ * - editedBy - The username of the user who made the edit.
+ * - editDateTime - The date and time when the edit was made.
+ */
+export interface QuestionRevision {
+  _id?: ObjectId;
+  qid: ObjectId;
+  title: string;
+  text: string;
+  tags: string[];
+  editedBy: string;
+  editDateTime: Date;
+}
+
+/**
+ * Type representing the possible responses for a QuestionRevision-related operation.
+ */
+export type QuestionRevisionResponse = QuestionRevision | { error: string };
+
+/**
+ * Type representing the kinds of documents that can be voted on.
+ */
+export type VoteTargetType = 'question' | 'answer' | 'comment';
+
+/**
+ * Interface representing the payload for a vote update event, which contains:
+ * - id - The unique identifier of the question, answer or comment that was voted on.
+ * - type - The type of the document that was voted on.
+ * - upVotes - An array of usernames who upvoted the document.
+ * - downVotes - An array of usernames who downvoted the document. Not set for comments,
+ *   which can only be upvoted.
+ */
+export interface VoteUpdatePayload {
+  id: string;
+  type: VoteTargetType;
   upVotes: string[];
-  downVotes: string[];
+  downVotes?: string[];
 }
@@ -0,0 +1,87 @@
+import { ObjectId } from 'mongodb';
+import { Request } from 'express';
+
+/**
+ * Type representing why a user gained or lost reputation: someone voted on one of their posts,
+ * or the author of a question accepted one of their answers.
+ */
+export type ReputationReason = 'vote' | 'accept';
+
+/**
+ * Interface representing a ReputationEvent document, one entry of the reputation ledger,
+ * which contains:
+ * - _id - The unique identifier for the entry. Optional field.
+ * - username - The username of the user whose reputation changed
+ * - delta - The change in reputation, which is negative when reputation is lost
+ * - reason - Whether the change comes from a vote or an accepted answer
+ * - postType - Whether the post is a question or an answer
+ * - postId - The ID of the post
+ * - actor - The username of the user who voted, or who accepted the answer
+ * - createdAt - The date and time of the change
+ */
+export interface ReputationEvent {
+  _id?: ObjectId;
+  username: string;
+  delta: number;
+  reason: ReputationReason;
+  postType: 'question' | 'answer';
+  postId: ObjectId;
+  actor: string;
+  createdAt: Date;
+}
+
+/**
+ * Interface representing the reputation a user should hold for what one actor did to one
+ * post, which contains:
+ * - username - The username of the author of the post
+ * - reason - Whether the reputation comes from a vote or an accepted answer
+ * - postType - Whether the post is a question or an answer
+ * - postId - The ID of the post
+ * - actor - The username of the user who voted, or who accepted the answer
+ * - total - The reputation the author should hold, given the current state of the post
+ */
+export interface ReputationTarget {
+  username: string;
+  reason: ReputationReason;
+  postType: 'question' | 'answer';
+  postId: ObjectId;
+  actor: string;
+  total: number;
+}
+
+/**
+ * Type representing the response for recording changes in reputation, either the new
+ * ledger entries or an error message.
+ */
+export type ReputationEventsResponse = ReputationEvent[] | { error: string };
+
+/**
+ * Interface representing the outcome of recomputing reputation from scratch, which contains:
+ * - events - The number of ledger entries created
+ * - users - The number of users whose reputation was reset
+ */
+export interface ReputationRecomputeResult {
+  events: number;
+  users: number;
+}
+
+/**
+ * Type representing the response for recomputing reputation from scratch.
+ */
+export type ReputationRecomputeResponse = ReputationRecomputeResult | { error: string };
+
+/**
+ * Interface extending Express Request for routes fetching the reputation of several users.
+ * Ensures that the request query contains:
+ * - usernames - The usernames, separated by commas
+ */
+export interface ReputationsRequest extends Request {
+  query: {
+    usernames?: string;
+  };
+}
+
+/**
+ * Type representing the response for fetching the reputation of several users, by username.
+ */
+export type ReputationsResponse = Record<string, number> | { error: string };
@@ -0,0 +1,109 @@
+import { ObjectId } from 'mongodb';
+import { Request } from 'express';
+
+/**
+ * Type representing the comparison operators of a numeric search filter.
+ */
+export type ComparisonOperator = '=' | '>' | '>=' | '<' | '<=';
+
+/**
+ * Interface representing a numeric search filter, such as `score:>5`, which contains:
+ * - op - The comparison operator.
+ * - value - The number to compare against.
+ */
+export interface NumericFilter {
+  op: ComparisonOperator;
+  value: number;
+}
+
+/**
+ * Interface representing a date range search filter, such as `created:2025-01..2025-03`,
+ * which contains:
+ * - from - The start of the range, inclusive. Optional, unbounded if not set.
+ * - to - The end of the range, exclusive. Optional, unbounded if not set.
+ */
+export interface DateRangeFilter {
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Interface representing a parsed search query. All of its parts must match for a question
+ * to match. It contains:
+ * - keywords - Words to search for in the title and text.
+ * - phrases - Exact phrases that must appear in the title or text.
+ * - excluded - Words or phrases that must not appear in the title or text.
+ * - tags - Names of tags the question must all have.
+ * - excludedTags - Names of tags the question must not have.
+ * - askedBy - The username of the user who asked the question. Optional.
+ * - answers - A filter on the number of answers. Optional.
+ * - score - A filter on the number of upvotes minus downvotes. Optional.
+ * - accepted - Whether the question must have an accepted answer. Optional.
+ * - created - The range of dates the question must have been asked in. Optional.
+ */
+export interface SearchQuery {
+  keywords: string[];
+  phrases: string[];
+  excluded: string[];
+  tags: string[];
+  excludedTags: string[];
+  askedBy?: string;
+  answers?: NumericFilter;
+  score?: NumericFilter;
+  accepted?: boolean;
+  created?: DateRangeFilter;
+}
+
+/**
+ * Interface representing an error in a search string, which contains:
+ * - message - A description of the error.
+ * - token - The part of the search string the error is about.
+ * - position - The index of the token in the search string.
+ */
+export interface SearchParseError {
+  message: string;
+  token: string;
+  position: number;
+}
+
+/**
+ * Type representing the result of parsing a search string.
+ */
+export type SearchParseResult = SearchQuery | { errors: SearchParseError[] };
+
+/**
+ * Interface for the request query when checking a search string for errors.
+ * - search - The search string to check.
+ */
+export interface CheckSearchRequest extends Request {
+  query: {
+    search: string;
+  };
+}
+
+/**
+ * Interface for the request query when fetching search suggestions.
+ * - q - The text typed so far in the search bar.
+ */
+export interface SuggestRequest extends Request {
+  query: {
+    q: string;
+  };
+}
+
+/**
+ * Interface representing the suggestions for text typed in the search bar, which contains:
+ * - questions - The IDs and titles of questions whose title contains the text.
+ * - tags - The names of tags starting with the text.
+ * - users - The usernames of users starting with the text.
+ */
+export interface SearchSuggestions {
+  questions: { _id: ObjectId; title: string }[];
+  tags: string[];
+  users: string[];
+}
+
+/**
+ * Type representing the possible responses for fetching search suggestions.
+ */
+export type SearchSuggestionsResponse = SearchSuggestions | { error: string };
@@ -0,0 +1,24 @@
+import { SafeUser } from './user';
+
+/**
+ * Interface representing the payload signed into a session token, which contains:
+ * - username - The username of the authenticated user.
+ * - exp - The time at which the session expires, in milliseconds since the epoch.
+ */
+export interface SessionPayload {
+  username: string;
+  exp: number;
+}
+
+declare global {
+  namespace Express {
+    /**
+     * Extends every Express Request with the logged-in user, which contains:
+     * - user - The user resolved from the request's session token. It is only set on routes
+     *   protected by the authentication middleware, which rejects requests without a session.
+     */
+    interface Request {
+      user?: SafeUser;
+    }
+  }
+}
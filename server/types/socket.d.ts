@@ -1,10 +1,28 @@
-import { Server } from 'socket.io';
-import { AnswerUpdatePayload } from './answer';
-import { CommentUpdatePayload } from './comment';
-import { QuestionResponse, VoteUpdatePayload } from './question';
+import { Server, Socket } from 'socket.io';
+import { AnswerDeletePayload, AnswerUpdatePayload } from './answer';
+import { CommentDeletePayload, CommentUpdatePayload } from './comment';
+import { QuestionDeletePayload, QuestionResponse, VoteUpdatePayload } from './question';
 import { MessageUpdatePayload } from './message';
+import { SafeUser } from './user';
+import { BadgeAward } from './badge';
+
+export type FakeSOSocket = Server<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  Record<string, never>,
+  SocketData
+>;
+
+/**
+ * Type representing a single client connection to the FakeSOSocket server.
+ */
+export type FakeSOConnection = Socket<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  Record<string, never>,
+  SocketData
+>;
 
-export type FakeSOSocket = Server<ServerToClientEvents>;
 /**
  * Interface representing the possible events that the server can emit to the client.
  */
@@ -15,4 +33,22 @@ export interface ServerToClientEvents {
   voteUpdate: (vote: VoteUpdatePayload) => void;
   commentUpdate: (comment: CommentUpdatePayload) => void;
   messageUpdate: (message: MessageUpdatePayload) => void;
+  questionDelete: (payload: QuestionDeletePayload) => void;
+  answerDelete: (payload: AnswerDeletePayload) => void;
+  commentDelete: (payload: CommentDeletePayload) => void;
+  badgeAwarded: (award: BadgeAward) => void;
+}
+
+/**
+ * Interface representing the events that the client can emit to the server.
+ * The client does not emit any events yet; updates are sent through the REST API.
+ */
+export interface ClientToServerEvents {}
+
+/**
+ * Interface representing the data attached to each socket connection.
+ * - user - The user authenticated during the handshake.
+ */
+export interface SocketData {
+  user: SafeUser;
 }
@@ -1,11 +1,235 @@
 import { ObjectId } from 'mongodb';
+import { Request } from 'express';
 /**
  * Interface representing a Tag document, which contains:
  * - _id - The unique identifier for the tag. Optional field.
  * - name - Name of the tag
+ * - description - A short excerpt describing the tag
+ * - wiki - The long-form description of the tag. Optional field.
+ * - lastEditedBy - The username of the user who last edited the excerpt or wiki. Optional field.
+ * - lastEditDateTime - The date and time of the last edit. Optional field.
  */
 export interface Tag {
   _id?: ObjectId;
   name: string;
   description: string;
+  wiki?: string;
+  lastEditedBy?: string;
+  lastEditDateTime?: Date;
 }
+
+/**
+ * Type representing the possible orders of the tag list: most questions first, alphabetical,
+ * or most recently created first.
+ */
+export type TagOrderType = 'popular' | 'name' | 'new';
+
+/**
+ * Interface representing the statistics of a tag shown in the tag list, which contains:
+ * - name - Name of the tag
+ * - description - A short excerpt describing the tag
+ * - qcnt - The number of questions with the tag
+ * - askedThisWeek - The number of questions with the tag asked in the last 7 days
+ * - askedThisMonth - The number of questions with the tag asked in the last 30 days
+ * - unansweredCount - The number of questions with the tag without answers
+ * - lastActivity - When a question with the tag was last asked or answered, `null` if there are none
+ */
+export interface TagStats {
+  name: string;
+  description: string;
+  qcnt: number;
+  askedThisWeek: number;
+  askedThisMonth: number;
+  unansweredCount: number;
+  lastActivity: Date | null;
+}
+
+/**
+ * Type representing the possible responses for fetching the tag list statistics.
+ */
+export type TagStatsResponse = TagStats[] | { error: string };
+
+/**
+ * Interface for the request query when fetching the tag list statistics.
+ * - sort - The order of the tags, `popular` by default.
+ * - filter - Only tags whose name contains this text, ignoring case, are returned. Optional.
+ */
+export interface TagStatsRequest extends Request {
+  query: {
+    sort?: TagOrderType;
+    filter?: string;
+  };
+}
+
+/**
+ * Interface representing a tag suggested while typing tags, which contains:
+ * - name - Name of the tag
+ * - description - Description of the tag
+ * - qcnt - The number of questions with the tag
+ */
+export interface TagSuggestion {
+  name: string;
+  description: string;
+  qcnt: number;
+}
+
+/**
+ * Type representing the possible responses for fetching tag suggestions.
+ */
+export type TagSuggestionsResponse = TagSuggestion[] | { error: string };
+
+/**
+ * Interface for the request query when fetching tag suggestions.
+ * - prefix - The start of the tag name typed so far. Optional, all tags match if not set.
+ */
+export interface TagSuggestRequest extends Request {
+  query: {
+    prefix?: string;
+  };
+}
+
+/**
+ * Interface representing a TagSynonym document, an alternative name of a tag, which contains:
+ * - _id - The unique identifier for the synonym. Optional field.
+ * - name - The alternative name, in lowercase
+ * - tag - The ID of the tag the name stands for
+ */
+export interface TagSynonym {
+  _id?: ObjectId;
+  name: string;
+  tag: ObjectId;
+}
+
+/**
+ * Type representing the possible responses for a tag synonym operation.
+ */
+export type TagSynonymResponse = TagSynonym | { error: string };
+
+/**
+ * Type representing the possible responses for a Tag-related operation.
+ */
+export type TagResponse = Tag | { error: string };
+
+/**
+ * Interface for the request body when adding a synonym for a tag.
+ * - synonym - The alternative name.
+ * - tag - The name of the tag the synonym stands for.
+ */
+export interface AddTagSynonymRequest extends Request {
+  body: {
+    synonym: string;
+    tag: string;
+  };
+}
+
+/**
+ * Interface for the request body when merging one tag into another.
+ * - source - The name of the tag to merge, which is deleted.
+ * - target - The name of the tag to merge into, which is kept.
+ */
+export interface MergeTagsRequest extends Request {
+  body: {
+    source: string;
+    target: string;
+  };
+}
+
+/**
+ * Interface representing an edit to the wiki of a tag, which contains:
+ * - description - The new excerpt of the tag.
+ * - wiki - The new long-form description of the tag.
+ */
+export interface TagWikiEdit {
+  description: string;
+  wiki: string;
+}
+
+/**
+ * Interface for the request when editing the wiki of a tag.
+ * - name - The name of the tag, in the URL parameters.
+ * - body - The new excerpt and wiki of the tag.
+ */
+export interface EditTagWikiRequest extends Request {
+  params: {
+    name: string;
+  };
+  body: TagWikiEdit;
+}
+
+/**
+ * Interface for the request parameters when resolving a tag name, or fetching the details or
+ * revisions of a tag.
+ * - name - The name of the tag.
+ */
+export interface TagNameRequest extends Request {
+  params: {
+    name: string;
+  };
+}
+
+/**
+ * Interface representing a TagRevision document, a snapshot of the wiki of a tag taken right
+ * before it was edited, which contains:
+ * - _id - The unique identifier for the revision. Optional field.
+ * - tid - The unique identifier of the tag that was edited.
+ * - description - The excerpt of the tag before the edit.
+ * - wiki - The wiki of the tag before the edit.
+ * - editedBy - The username of the user who made the edit.
+ * - editDateTime - The date and time when the edit was made.
+ */
+export interface TagRevision {
+  _id?: ObjectId;
+  tid: ObjectId;
+  description: string;
+  wiki: string;
+  editedBy: string;
+  editDateTime: Date;
+}
+
+/**
+ * Interface representing one of the top questions of a tag, which contains:
+ * - _id - The unique identifier of the question.
+ * - title - The title of the question.
+ * - score - The number of upvotes minus the number of downvotes.
+ * - answerCount - The number of answers to the question.
+ * - askDateTime - The date and time when the question was asked.
+ */
+export interface TagTopQuestion {
+  _id: ObjectId;
+  title: string;
+  score: number;
+  answerCount: number;
+  askDateTime: Date;
+}
+
+/**
+ * Interface representing the details shown on the page of a tag, which contains:
+ * - tag - The tag, with its excerpt and wiki.
+ * - qcnt - The number of questions with the tag.
+ * - topQuestions - The highest scored questions with the tag.
+ */
+export interface TagDetail {
+  tag: Tag;
+  qcnt: number;
+  topQuestions: TagTopQuestion[];
+}
+
+/**
+ * Type representing the possible responses for fetching the details of a tag.
+ */
+export type TagDetailResponse = TagDetail | { error: string };
+
+/**
+ * Interface representing a tag used alongside another tag, which contains:
+ * - name - Name of the related tag
+ * - count - The number of questions with both tags
+ */
+export interface RelatedTag {
+  name: string;
+  count: number;
+}
+
+/**
+ * Type representing the possible responses for fetching the related tags of a tag.
+ */
+export type RelatedTagsResponse = RelatedTag[] | { error: string };
@@ -5,3 +5,7 @@ export * from './tag';
 export * from './socket';
 export * from './user';
 export * from './message';
+export * from './session';
+export * from './search';
+export * from './reputation';
+export * from './badge';
@@ -4,7 +4,7 @@ import { ObjectId } from 'mongodb';
 /**
  * Interface representing user credentials, which contain:
  * - username - The unique username of the user
- * - password - The user's password (stored in plain text)
+ * - password - The user's password (stored as a salted scrypt hash)
  */
 export interface UserCredentials {
   username: string;
@@ -17,10 +17,51 @@ export interface UserCredentials {
  * - username - The unique username of the user
  * - password - The user's password
  * - dateJoined - The date when the user registered
+ * - bio - A few words the user wrote about themselves. Optional field
+ * - watchedTags - The names of the tags the user watches. Optional field
+ * - ignoredTags - The names of the tags the user ignores. Optional field
+ * - reputation - The reputation the user earned from votes and accepted answers. Optional field
+ * - role - What the user is allowed to moderate. Optional field, defaults to `user`
  */
 export interface User extends UserCredentials {
   _id?: ObjectId;
   dateJoined: Date;
+  bio?: string;
+  watchedTags?: string[];
+  ignoredTags?: string[];
+  reputation?: number;
+  role?: UserRole;
+}
+
+/**
+ * Type representing the role of a user, from least to most trusted:
+ * - user - Every user who signs up
+ * - moderator - Can also merge tags and add tag synonyms
+ * - admin - Can also delete other users and change the roles of users
+ */
+export type UserRole = 'user' | 'moderator' | 'admin';
+
+/**
+ * Type representing the moderation actions that need a role:
+ * - mergeTags - Merge tags and add tag synonyms
+ * - deleteUsers - Delete the accounts of other users
+ * - manageRoles - Change the roles of other users
+ */
+export type Permission = 'mergeTags' | 'deleteUsers' | 'manageRoles';
+
+/**
+ * Interface extending Express Request for routes that change the role of a user.
+ * Ensures that the request params and body contain:
+ * - username - The username of the user, as a route parameter
+ * - role - The new role of the user, in the body
+ */
+export interface SetRoleRequest extends Request {
+  params: {
+    username: string;
+  };
+  body: {
+    role: UserRole;
+  };
 }
 
 /**
@@ -36,6 +77,17 @@ export interface UserRequest extends Request {
   };
 }
 
+/**
+ * Interface extending Express Request for routes that change the logged-in user's password.
+ * Ensures that the request body contains:
+ * - password - The new password submitted in the request
+ */
+export interface ResetPasswordRequest extends Request {
+  body: {
+    password: string;
+  };
+}
+
 /**
  * Interface extending Express Request for routes querying a user by username.
  * Ensures that the request params include:
@@ -47,6 +99,88 @@ export interface UserByUsernameRequest extends Request {
   };
 }
 
+/**
+ * Interface extending Express Request for routes that change the logged-in user's bio.
+ * Ensures that the request body contains:
+ * - bio - The new bio submitted in the request
+ */
+export interface UpdateBioRequest extends Request {
+  body: {
+    bio: string;
+  };
+}
+
+/**
+ * Interface representing the votes cast on the posts of a user, which contains:
+ * - upVotes - The number of upvotes on their questions, answers and comments
+ * - downVotes - The number of downvotes on their questions and answers
+ */
+export interface VotesReceived {
+  upVotes: number;
+  downVotes: number;
+}
+
+/**
+ * Type representing the response for fetching the votes cast on the posts of a user.
+ */
+export type VotesReceivedResponse = VotesReceived | { error: string };
+
+/**
+ * Type representing how a user feels about a tag: questions with watched tags come first in
+ * their feed, questions with ignored tags are left out of it, and `none` clears either.
+ */
+export type TagPreference = 'watched' | 'ignored' | 'none';
+
+/**
+ * Interface representing the tags a user watches and ignores, which contains:
+ * - watchedTags - The names of the watched tags
+ * - ignoredTags - The names of the ignored tags
+ */
+export interface TagPreferences {
+  watchedTags: string[];
+  ignoredTags: string[];
+}
+
+/**
+ * Type representing the response for fetching or updating the tag preferences of a user.
+ */
+export type TagPreferencesResponse = TagPreferences | { error: string };
+
+/**
+ * Interface extending Express Request for routes that change how the logged-in user feels
+ * about a tag. Ensures that the request body contains:
+ * - tag - The name of the tag
+ * - preference - Whether to watch, ignore or clear the tag
+ */
+export interface TagPreferenceRequest extends Request {
+  body: {
+    tag: string;
+    preference: TagPreference;
+  };
+}
+
+/**
+ * Type representing the actions that users can only take once they have enough reputation:
+ * - comment - Comment on posts written by other users
+ * - upvote - Upvote questions, answers and comments
+ * - downvote - Downvote questions and answers
+ * - createTag - Create new tags when asking or editing a question
+ * - editPosts - Edit questions written by other users
+ */
+export type Privilege = 'comment' | 'upvote' | 'downvote' | 'createTag' | 'editPosts';
+
+/**
+ * Interface representing what the logged-in user is allowed to do, which contains:
+ * - reputation - The reputation of the user
+ * - privileges - Whether the user holds each privilege
+ * - thresholds - The reputation needed for each privilege
+ */
+export interface UserPrivileges {
+  reputation: number;
+  privileges: Record<Privilege, boolean>;
+  thresholds: Record<Privilege, number>;
+}
+
 /**
  * Type representing a "safe" user object, which excludes sensitive fields like `password`.
  * This is used for responses where exposing the password is not allowed.
@@ -59,3 +193,88 @@ export type SafeUser = Omit<User, 'password'>;
  * - error - An object containing an error message (if the operation fails)
  */
 export type UserResponse = SafeUser | { error: string };
+
+/**
+ * Type representing how users are ranked on the leaderboard:
+ * - reputation - By the reputation they hold, or earned during the period or in the tag
+ * - answers - By the number of answers they wrote
+ * - accepted - By the number of their answers that were accepted
+ * - newest - By when they joined, newest first
+ */
+export type LeaderboardSortType = 'reputation' | 'answers' | 'accepted' | 'newest';
+
+/**
+ * Type representing the period the leaderboard covers: the last 7 days, the last 30 days,
+ * or all time.
+ */
+export type LeaderboardPeriod = 'week' | 'month' | 'all';
+
+/**
+ * Interface representing the criteria for fetching one page of the leaderboard, which contains:
+ * - sort - How the users are ranked
+ * - period - The period the leaderboard covers
+ * - tagId - The ID of the tag whose questions the leaderboard covers. Optional field
+ * - page - The 1-based number of the page
+ * - limit - The maximum number of users on the page
+ */
+export interface LeaderboardQuery {
+  sort: LeaderboardSortType;
+  period: LeaderboardPeriod;
+  tagId?: ObjectId;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Interface representing a user on the leaderboard, which contains:
+ * - username - The username of the user
+ * - reputation - The reputation the user holds
+ * - dateJoined - The date when the user registered
+ * - score - What the user is ranked by: the reputation earned, or the number of answers or
+ *   accepted answers, during the period and in the tag. For the newest members, the
+ *   reputation they hold
+ */
+export interface LeaderboardEntry {
+  username: string;
+  reputation: number;
+  dateJoined: Date;
+  score: number;
+}
+
+/**
+ * Interface representing one page of the leaderboard, which contains:
+ * - users - The users on the page, best ranked first
+ * - total - The total number of users on the leaderboard, across all pages
+ * - page - The 1-based number of the page
+ * - limit - The maximum number of users per page
+ */
+export interface LeaderboardPage {
+  users: LeaderboardEntry[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Type representing the response for fetching a page of the leaderboard.
+ */
+export type LeaderboardResponse = LeaderboardPage | { error: string };
+
+/**
+ * Interface extending Express Request for routes fetching one page of the leaderboard.
+ * Ensures that the request query contains:
+ * - sort - How the users are ranked. Optional, defaults to `reputation`
+ * - period - The period the leaderboard covers. Optional, defaults to `all`
+ * - tag - The name of the tag whose questions the leaderboard covers. Optional field
+ * - page - The 1-based number of the page. Optional, defaults to 1
+ * - limit - The maximum number of users per page. Optional, defaults to 20
+ */
+export interface LeaderboardRequest extends Request {
+  query: {
+    sort?: LeaderboardSortType;
+    period?: LeaderboardPeriod;
+    tag?: string;
+    page?: string;
+    limit?: string;
+  };
+}
@@ -0,0 +1,100 @@
+import { Answer, BadgeActivity, BadgeRule, Question } from '../types/types';
+
+// The badges users can earn. Each rule is checked after the events it lists, and a user earns
+// its badge once they meet its condition. Badges are never taken back. Rules checked on 'view'
+// only see the question that was viewed
+export const BADGE_RULES: BadgeRule[] = [
+  {
+    key: 'student',
+    name: 'Student',
+    description: 'Asked a first question',
+    events: ['question'],
+    condition: { type: 'questionCount', min: 1 },
+  },
+  {
+    key: 'teacher',
+    name: 'Teacher',
+    description: 'Answered a first question',
+    events: ['answer'],
+    condition: { type: 'answerCount', min: 1 },
+  },
+  {
+    key: 'nice-question',
+    name: 'Nice Question',
+    description: 'Asked a question with 10 upvotes',
+    events: ['vote'],
+    condition: { type: 'questionUpvotes', min: 10 },
+  },
+  {
+    key: 'nice-answer',
+    name: 'Nice Answer',
+    description: 'Wrote an answer with 10 upvotes',
+    events: ['vote'],
+    condition: { type: 'answerUpvotes', min: 10 },
+  },
+  {
+    key: 'popular-question',
+    name: 'Popular Question',
+    description: 'Asked a question with 100 views',
+    events: ['view'],
+    condition: { type: 'questionViews', min: 100 },
+  },
+  {
+    key: 'react-helper',
+    name: 'React Helper',
+    description: 'Answered 5 questions tagged react',
+    events: ['answer'],
+    condition: { type: 'answerCount', min: 5, tag: 'react' },
+  },
+];
+
+/**
+ * Gathers what a user has done from a list of questions with their tags and answers
+ * populated, which must include every question the user asked or answered.
+ *
+ * @param {string} username - The username of the user.
+ * @param {Question[]} questions - The questions, with their tags and answers populated.
+ *
+ * @returns {BadgeActivity} - The questions the user asked and answered, and their answers.
+ */
+export const buildBadgeActivity = (username: string, questions: Question[]): BadgeActivity => {
+  const answersByUser = (q: Question) =>
+    (q.answers as Answer[]).filter(a => a && a.ansBy === username);
+
+  return {
+    questions: questions.filter(q => q.askedBy === username),
+    answers: questions.flatMap(answersByUser),
+    answeredQuestions: questions.filter(q => answersByUser(q).length > 0),
+  };
+};
+
+/**
+ * Checks whether a user meets the condition of a badge rule.
+ *
+ * @param {BadgeRule} rule - The badge rule.
+ * @param {BadgeActivity} activity - What the user has done.
+ *
+ * @returns {boolean} - `true` if the user earns the badge, otherwise `false`.
+ */
+export const meetsBadgeRule = (rule: BadgeRule, activity: BadgeActivity): boolean => {
+  const { condition } = rule;
+
+  switch (condition.type) {
+    case 'questionCount':
+      return activity.questions.length >= condition.min;
+    case 'answerCount':
+      return (
+        activity.answeredQuestions.filter(
+          q => !condition.tag || q.tags.some(t => t.name === condition.tag),
+        ).length >= condition.min
+      );
+    case 'questionUpvotes':
+      return activity.questions.some(q => q.upVotes.length >= condition.min);
+    case 'answerUpvotes':
+      return activity.answers.some(a => a.upVotes.length >= condition.min);
+    case 'questionViews':
+      return activity.questions.some(q => q.views.length >= condition.min);
+    default:
+      return false;
+  }
+};
@@ -1,19 +1,228 @@
+import {
+  ComparisonOperator,
+  DateRangeFilter,
+  NumericFilter,
+  SearchParseError,
+  SearchParseResult,
+  SearchQuery,
+} from '../types/types';
+
+/**
+ * Matches one token of a search string: an optional `-` prefix, followed by a quoted phrase,
+ * a tag in square brackets, or a word. Unterminated phrases and tags match up to the end of
+ * the search string, so that they can be reported.
+ */
+const tokenRegex = /(-?)(?:"([^"]*)("?)|\[([^\]]*)(\]?)|([^\s"[]+))/g;
+
+/**
+ * The search filters written as `key:value`.
+ */
+const FILTER_KEYS = ['user', 'answers', 'score', 'is', 'created'] as const;
+
+type FilterKey = (typeof FILTER_KEYS)[number];
+
+/**
+ * Parses the value of a numeric filter, such as `5`, `>5` or `<=-2`.
+ *
+ * @param {string} value - The value of the filter
+ *
+ * @returns {NumericFilter | null} - The parsed filter, or `null` if the value is not valid
+ */
+const parseNumericFilter = (value: string): NumericFilter | null => {
+  const match = value.match(/^(>=|<=|>|<)?(-?\d+)$/);
+
+  if (!match) {
+    return null;
+  }
+
+  return { op: (match[1] || '=') as ComparisonOperator, value: Number(match[2]) };
+};
+
 /**
- * Parses tags from a search string.
+ * Parses a year, month or day written as `YYYY`, `YYYY-MM` or `YYYY-MM-DD` into the period it
+ * covers, in UTC.
  *
- * @param {string} search - Search string containing tags in square brackets (e.g., "[tag1][tag2]")
+ * @param {string} value - The date to parse
  *
- * @returns {string[]} - An array of tags found in the search string
+ * @returns {{ start: Date; end: Date } | null} - The start of the period and the start of the
+ *          next one, or `null` if the date is not valid
  */
-export const parseTags = (search: string): string[] =>
-  (search.match(/\[([^\]]+)\]/g) || []).map(word => word.slice(1, -1));
+const parseDatePeriod = (value: string): { start: Date; end: Date } | null => {
+  const match = value.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/);
+
+  if (!match) {
+    return null;
+  }
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : 0;
+  const day = match[3] ? Number(match[3]) : 1;
+  const start = new Date(Date.UTC(year, month, day));
+
+  if (start.getUTCMonth() !== month || start.getUTCDate() !== day) {
+    return null;
+  }
+
+  if (match[3]) {
+    return { start, end: new Date(Date.UTC(year, month, day + 1)) };
+  }
+
+  if (match[2]) {
+    return { start, end: new Date(Date.UTC(year, month + 1, 1)) };
+  }
+
+  return { start, end: new Date(Date.UTC(year + 1, 0, 1)) };
+};
+
+/**
+ * Parses the value of a date filter: a single date, or a range of dates written as
+ * `from..to`, where either end may be left out.
+ *
+ * @param {string} value - The value of the filter
+ *
+ * @returns {DateRangeFilter | null} - The parsed range, or `null` if the value is not valid
+ */
+const parseDateRangeFilter = (value: string): DateRangeFilter | null => {
+  if (!value.includes('..')) {
+    const period = parseDatePeriod(value);
+    return period && { from: period.start, to: period.end };
+  }
+
+  const [fromValue, toValue, ...rest] = value.split('..');
+
+  if (rest.length > 0 || (!fromValue && !toValue)) {
+    return null;
+  }
+
+  const from = fromValue ? parseDatePeriod(fromValue) : undefined;
+  const to = toValue ? parseDatePeriod(toValue) : undefined;
+
+  if (from === null || to === null || (from && to && from.start >= to.end)) {
+    return null;
+  }
+
+  return { from: from?.start, to: to?.end };
+};
+
+/**
+ * Applies a `key:value` filter to a search query.
+ *
+ * @param {SearchQuery} query - The search query to update
+ * @param {FilterKey} key - The filter to apply
+ * @param {string} value - The value of the filter
+ *
+ * @returns {string | null} - A description of the error if the value is not valid, or `null`
+ */
+const applyFilter = (query: SearchQuery, key: FilterKey, value: string): string | null => {
+  switch (key) {
+    case 'user':
+      query.askedBy = value;
+      return null;
+    case 'answers':
+    case 'score': {
+      const filter = parseNumericFilter(value);
+      if (!filter) {
+        return `Expected a number such as 5, >5 or <=5 after "${key}:"`;
+      }
+      query[key] = filter;
+      return null;
+    }
+    case 'is':
+      if (value !== 'accepted') {
+        return `Unknown value "${value}" for "is:", expected "accepted"`;
+      }
+      query.accepted = true;
+      return null;
+    default: {
+      const created = parseDateRangeFilter(value);
+      if (!created) {
+        return 'Expected a date such as 2025-01 or a range such as 2025-01..2025-03 after "created:"';
+      }
+      query.created = created;
+      return null;
+    }
+  }
+};
+
+/**
+ * Parses a search string into a search query. The search string is made of:
+ * - words, which are searched for in the title and text of questions;
+ * - `"exact phrases"`, which must appear in the title or text;
+ * - `[tags]`, which questions must all have;
+ * - `-word`, `-"phrase"` and `-[tag]`, which questions must not have;
+ * - filters: `user:name`, `answers:0`, `score:>5`, `is:accepted` and
+ *   `created:2025-01..2025-03`. Number filters accept `>`, `>=`, `<` and `<=`, and either
+ *   end of a date range may be left out.
+ *
+ * All parts must match for a question to match.
+ *
+ * @param {string} search - The search string to parse
+ *
+ * @returns {SearchParseResult} - The parsed query, or the errors found in the search string
+ */
+export const parseSearchQuery = (search: string): SearchParseResult => {
+  const query: SearchQuery = {
+    keywords: [],
+    phrases: [],
+    excluded: [],
+    tags: [],
+    excludedTags: [],
+  };
+  const errors: SearchParseError[] = [];
+  const seenFilters = new Set<FilterKey>();
+
+  for (const match of search.matchAll(tokenRegex)) {
+    const [token, negated, phrase, phraseEnd, tag, tagEnd, word] = match;
+    const error = (message: string) => errors.push({ message, token, position: match.index ?? 0 });
+
+    if (phrase !== undefined) {
+      if (!phraseEnd) {
+        error('Missing closing quote');
+      } else if (phrase.trim()) {
+        (negated ? query.excluded : query.phrases).push(phrase.trim());
+      }
+    } else if (tag !== undefined) {
+      if (!tagEnd) {
+        error('Missing closing bracket');
+      } else if (!tag.trim()) {
+        error('Empty tag');
+      } else {
+        (negated ? query.excludedTags : query.tags).push(tag.trim());
+      }
+    } else {
+      const separator = word.indexOf(':');
+      const key = word.slice(0, separator) as FilterKey;
+
+      if (separator > 0 && FILTER_KEYS.includes(key)) {
+        const value = word.slice(separator + 1);
+
+        if (negated) {
+          error(`The "${key}:" filter cannot be excluded`);
+        } else if (!value) {
+          error(`Missing value after "${key}:"`);
+        } else if (seenFilters.has(key)) {
+          error(`The "${key}:" filter can only be used once`);
+        } else {
+          seenFilters.add(key);
+          const message = applyFilter(query, key, value);
+          if (message) {
+            error(message);
+          }
+        }
+      } else if (/[\p{L}\p{N}]/u.test(word)) {
+        (negated ? query.excluded : query.keywords).push(word);
+      }
+    }
+  }
+
+  return errors.length > 0 ? { errors } : query;
+};
 
 /**
- * Parses keywords from a search string by removing tags and extracting individual words.
+ * Escapes the characters of a string that have a special meaning in regular expressions.
  *
- * @param {string} search - The search string containing keywords and possibly tags
+ * @param {string} text - The string to escape
  *
- * @returns {string[]} - An array of keywords found in the search string
+ * @returns {string} - The escaped string, which matches the original string literally
  */
-export const parseKeyword = (search: string): string[] =>
-  search.replace(/\[([^\]]+)\]/g, ' ').match(/\b\w+\b/g) || [];
+export const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
@@ -0,0 +1,82 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+
+const HASH_PREFIX = 'scrypt';
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 64;
+
+/**
+ * Derives a key from a password and salt using scrypt.
+ *
+ * @param {string} password - The plain text password.
+ * @param {Buffer} salt - The salt to derive the key with.
+ *
+ * @returns {Promise<Buffer>} - Promise that resolves to the derived key.
+ */
+const deriveKey = (password: string, salt: Buffer): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (err, derivedKey) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(derivedKey);
+      }
+    });
+  });
+
+/**
+ * Checks whether a stored password has already been hashed by `hashPassword`. Accounts
+ * created before passwords were hashed still hold their password in plain text.
+ *
+ * @param {string} storedPassword - The password value stored on the user document.
+ *
+ * @returns {boolean} - `true` if the stored value is a hash, `false` if it is plain text.
+ */
+export const isPasswordHashed = (storedPassword: string): boolean =>
+  storedPassword.startsWith(`${HASH_PREFIX}$`);
+
+/**
+ * Hashes a password with a random salt. The result has the form `scrypt$<salt>$<key>`,
+ * with the salt and key hex encoded.
+ *
+ * @param {string} password - The plain text password to hash.
+ *
+ * @returns {Promise<string>} - Promise that resolves to the encoded hash.
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt);
+
+  return `${HASH_PREFIX}$${salt.toString('hex')}$${key.toString('hex')}`;
+};
+
+/**
+ * Verifies a password against the value stored for a user, in constant time. Plain text
+ * values left over from before hashing was introduced are still accepted so that those
+ * accounts can log in and be migrated.
+ *
+ * @param {string} password - The plain text password submitted by the user.
+ * @param {string} storedPassword - The hashed (or legacy plain text) password stored for the user.
+ *
+ * @returns {Promise<boolean>} - Promise that resolves to `true` if the password matches.
+ */
+export const verifyPassword = async (
+  password: string,
+  storedPassword: string,
+): Promise<boolean> => {
+  if (!isPasswordHashed(storedPassword)) {
+    // Compare digests so both buffers have the same length regardless of the inputs
+    const given = createHash('sha256').update(password).digest();
+    const stored = createHash('sha256').update(storedPassword).digest();
+    return timingSafeEqual(given, stored);
+  }
+
+  const [, saltHex, keyHex] = storedPassword.split('$');
+  const storedKey = Buffer.from(keyHex ?? '', 'hex');
+
+  if (!saltHex || storedKey.length !== KEY_LENGTH) {
+    return false;
+  }
+
+  const key = await deriveKey(password, Buffer.from(saltHex, 'hex'));
+  return timingSafeEqual(key, storedKey);
+};
@@ -0,0 +1,92 @@
+import { Privilege, SafeUser, UserPrivileges } from '../types/types';
+import { REPUTATION_BASE } from './reputation.util';
+import { isModerator } from './role.util';
+
+// The reputation needed for each privilege, and what the privilege lets users do, as shown in
+// the error sent to users who lack it
+const defaultPrivileges: Record<Privilege, { reputation: number; action: string }> = {
+  upvote: { reputation: 15, action: 'upvote' },
+  comment: { reputation: 50, action: 'comment on posts by other users' },
+  downvote: { reputation: 125, action: 'downvote' },
+  createTag: { reputation: 300, action: 'create new tags' },
+  editPosts: { reputation: 1000, action: 'edit posts by other users' },
+};
+
+/**
+ * Reads the reputation thresholds set in the `PRIVILEGE_THRESHOLDS` environment variable, a
+ * JSON object such as `{"createTag": 0}`. Privileges it leaves out keep their default
+ * threshold, and a variable that cannot be parsed is ignored.
+ *
+ * @returns {Partial<Record<Privilege, number>>} - The thresholds set in the environment.
+ */
+const readThresholdOverrides = (): Partial<Record<Privilege, number>> => {
+  try {
+    const overrides = JSON.parse(process.env.PRIVILEGE_THRESHOLDS || '{}');
+
+    return Object.fromEntries(
+      Object.entries(overrides).filter(
+        ([privilege, reputation]) => privilege in defaultPrivileges && Number.isFinite(reputation),
+      ),
+    );
+  } catch (error) {
+    return {};
+  }
+};
+
+const thresholdOverrides = readThresholdOverrides();
+
+/**
+ * Gets the reputation needed for a privilege.
+ *
+ * @param {Privilege} privilege - The privilege.
+ *
+ * @returns {number} - The reputation needed.
+ */
+export const getPrivilegeThreshold = (privilege: Privilege): number =>
+  thresholdOverrides[privilege] ?? defaultPrivileges[privilege].reputation;
+
+/**
+ * Checks whether a user has enough reputation for a privilege. Moderators and admins hold every
+ * privilege whatever their reputation, so that a fresh database has users who can vote,
+ * comment and create tags.
+ *
+ * @param {SafeUser} user - The user.
+ * @param {Privilege} privilege - The privilege.
+ *
+ * @returns {boolean} - `true` if the user holds the privilege, otherwise `false`.
+ */
+export const hasPrivilege = (user: SafeUser, privilege: Privilege): boolean =>
+  isModerator(user) || (user.reputation ?? REPUTATION_BASE) >= getPrivilegeThreshold(privilege);
+
+/**
+ * Builds the message sent to a user who lacks a privilege, saying how much reputation it needs.
+ *
+ * @param {Privilege} privilege - The privilege.
+ *
+ * @returns {string} - The message.
+ */
+export const privilegeError = (privilege: Privilege): string =>
+  `You need ${getPrivilegeThreshold(privilege)} reputation to ${defaultPrivileges[privilege].action}`;
+
+/**
+ * Lists which privileges a user holds, along with the reputation each one needs.
+ *
+ * @param {SafeUser} user - The user.
+ *
+ * @returns {UserPrivileges} - The user's reputation, privileges and the thresholds.
+ */
+export const getUserPrivileges = (user: SafeUser): UserPrivileges => {
+  const privileges = Object.keys(defaultPrivileges) as Privilege[];
+
+  return {
+    reputation: user.reputation ?? REPUTATION_BASE,
+    privileges: Object.fromEntries(privileges.map(p => [p, hasPrivilege(user, p)])) as Record<
+      Privilege,
+      boolean
+    >,
+    thresholds: Object.fromEntries(privileges.map(p => [p, getPrivilegeThreshold(p)])) as Record<
+      Privilege,
+      number
+    >,
+  };
+};
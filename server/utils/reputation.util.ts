@@ -0,0 +1,68 @@
+import { ObjectId } from 'mongodb';
+import { ReputationTarget } from '../types/types';
+
+// Every user starts with some reputation, so that a few downvotes do not leave a new user
+// below zero
+export const REPUTATION_BASE = 1;
+
+// How much reputation the author of a post earns from a vote on it, or from it being accepted.
+// Comments can be upvoted, but, as on Stack Overflow, comment votes earn no reputation
+export const UPVOTE_REPUTATION = 10;
+export const DOWNVOTE_REPUTATION = -2;
+export const ACCEPT_REPUTATION = 15;
+
+/**
+ * Builds the reputation the author of a question or answer should hold for one user's vote on
+ * it, given the current votes on the post. Users earn nothing from voting on their own posts.
+ *
+ * @param {'question' | 'answer'} postType - Whether the post is a question or an answer.
+ * @param {object} post - The post, with its ID and its current votes.
+ * @param {string} author - The username of the author of the post.
+ * @param {string} voter - The username of the user who voted.
+ *
+ * @returns {ReputationTarget} - The reputation the author should hold for the vote.
+ */
+export const buildVoteTarget = (
+  postType: 'question' | 'answer',
+  post: { _id?: ObjectId; upVotes?: string[]; downVotes?: string[] },
+  author: string,
+  voter: string,
+): ReputationTarget => {
+  let total = 0;
+
+  if (voter !== author) {
+    if ((post.upVotes ?? []).includes(voter)) {
+      total = UPVOTE_REPUTATION;
+    } else if ((post.downVotes ?? []).includes(voter)) {
+      total = DOWNVOTE_REPUTATION;
+    }
+  }
+
+  return { username: author, reason: 'vote', postType, postId: post._id!, actor: voter, total };
+};
+
+/**
+ * Builds the reputation the authors of the answers to a question should hold for the
+ * question's accepted answer. Only the author of the accepted answer earns reputation, and
+ * not when they accepted their own answer.
+ *
+ * @param {string} asker - The username of the author of the question.
+ * @param {object[]} answers - The answers to the question, with their IDs and authors.
+ * @param {ObjectId | null | undefined} acceptedAnswer - The ID of the accepted answer, if any.
+ *
+ * @returns {ReputationTarget[]} - The reputation each answer's author should hold.
+ */
+export const buildAcceptTargets = (
+  asker: string,
+  answers: { _id?: ObjectId; ansBy: string }[],
+  acceptedAnswer: ObjectId | null | undefined,
+): ReputationTarget[] =>
+  answers.map(a => ({
+    username: a.ansBy,
+    reason: 'accept',
+    postType: 'answer',
+    postId: a._id!,
+    actor: asker,
+    total:
+      acceptedAnswer?.toString() === a._id?.toString() && a.ansBy !== asker ? ACCEPT_REPUTATION : 0,
+  }));
@@ -0,0 +1,57 @@
+import { Permission, SafeUser, UserRole } from '../types/types';
+
+// The roles, from least to most trusted. Each role can do everything the roles before it can
+const ROLES: UserRole[] = ['user', 'moderator', 'admin'];
+
+// The least trusted role allowed to take each moderation action, and what the action lets
+// users do, as shown in the error sent to users who are not allowed to
+const permissions: Record<Permission, { role: UserRole; action: string }> = {
+  mergeTags: { role: 'moderator', action: 'merge tags and add tag synonyms' },
+  deleteUsers: { role: 'admin', action: 'delete other users' },
+  manageRoles: { role: 'admin', action: 'change the roles of users' },
+};
+
+/**
+ * Checks whether a string is one of the roles.
+ *
+ * @param {unknown} role - The value to check.
+ *
+ * @returns {boolean} - `true` if the value is a role, otherwise `false`.
+ */
+export const isUserRole = (role: unknown): role is UserRole => ROLES.includes(role as UserRole);
+
+/**
+ * Checks whether a user's role allows a moderation action. Users without a role are regular users.
+ *
+ * @param {SafeUser} user - The user.
+ * @param {Permission} permission - The moderation action.
+ *
+ * @returns {boolean} - `true` if the user is allowed to take the action, otherwise `false`.
+ */
+export const hasPermission = (user: SafeUser, permission: Permission): boolean =>
+  ROLES.indexOf(user.role ?? 'user') >= ROLES.indexOf(permissions[permission].role);
+
+/**
+ * Checks whether a user is a moderator or an admin. Users without a role are regular users.
+ *
+ * @param {SafeUser} user - The user.
+ *
+ * @returns {boolean} - `true` if the user is a moderator or an admin, otherwise `false`.
+ */
+export const isModerator = (user: SafeUser): boolean =>
+  ROLES.indexOf(user.role ?? 'user') >= ROLES.indexOf('moderator');
+
+/**
+ * Builds the message sent to a user who is not allowed to take a moderation action, saying
+ * which roles are.
+ *
+ * @param {Permission} permission - The moderation action.
+ *
+ * @returns {string} - The message.
+ */
+export const permissionError = (permission: Permission): string => {
+  const { role, action } = permissions[permission];
+  const allowed = ROLES.slice(ROLES.indexOf(role)).map(r => `${r}s`);
+
+  return `Only ${allowed.join(' and ')} can ${action}`;
+};
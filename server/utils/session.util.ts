@@ -0,0 +1,96 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { SessionPayload } from '../types/types';
+
+export const SESSION_COOKIE_NAME = 'fakeso_session';
+export const SESSION_DURATION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Used when SESSION_SECRET is not configured, so sessions do not survive a server restart
+const FALLBACK_SECRET = randomBytes(32).toString('hex');
+
+/**
+ * Signs the given data with the session secret.
+ *
+ * @param {string} data - The data to sign.
+ *
+ * @returns {Buffer} - The HMAC-SHA256 signature of the data.
+ */
+const sign = (data: string): Buffer =>
+  createHmac('sha256', process.env.SESSION_SECRET || FALLBACK_SECRET)
+    .update(data)
+    .digest();
+
+/**
+ * Creates a signed session token for a user. The token has the form `<payload>.<signature>`,
+ * where the payload is the base64url encoded JSON of a `SessionPayload`.
+ *
+ * @param {string} username - The username of the authenticated user.
+ * @param {number} now - The current time in milliseconds, used to compute the expiry.
+ *
+ * @returns {string} - The signed session token.
+ */
+export const createSessionToken = (username: string, now: number = Date.now()): string => {
+  const payload: SessionPayload = { username, exp: now + SESSION_DURATION_MS };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return `${encoded}.${sign(encoded).toString('base64url')}`;
+};
+
+/**
+ * Verifies the signature and expiry of a session token.
+ *
+ * @param {string} token - The session token to verify.
+ *
+ * @returns {SessionPayload | null} - The payload of the token, or `null` if the token is
+ *          malformed, has been tampered with, or has expired.
+ */
+export const verifySessionToken = (token: string): SessionPayload | null => {
+  const [encoded, signature, ...rest] = token.split('.');
+
+  if (!encoded || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = sign(encoded);
+  const given = Buffer.from(signature, 'base64url');
+
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString());
+
+    if (typeof payload.username !== 'string' || typeof payload.exp !== 'number') {
+      return null;
+    }
+
+    return payload.exp > Date.now() ? payload : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Extracts the session token sent with a request, either as a bearer token in the
+ * `Authorization` header or as the session cookie.
+ *
+ * @param {string | undefined} authorization - The value of the `Authorization` header.
+ * @param {string | undefined} cookieHeader - The value of the `Cookie` header.
+ *
+ * @returns {string | undefined} - The session token, or `undefined` if none was sent.
+ */
+export const extractSessionToken = (
+  authorization: string | undefined,
+  cookieHeader: string | undefined,
+): string | undefined => {
+  if (authorization && authorization.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  const cookie = (cookieHeader || '')
+    .split(';')
+    .map(c => c.trim())
+    .find(c => c.startsWith(`${SESSION_COOKIE_NAME}=`));
+
+  return cookie ? decodeURIComponent(cookie.slice(SESSION_COOKIE_NAME.length + 1)) : undefined;
+};
@@ -0,0 +1,31 @@
+import { BadgeAwardsResponse, FakeSOSocket } from '../types/types';
+
+/**
+ * Names the room that every socket connection of a user joins, so that events meant for one
+ * user, such as the badges they earn, reach each of their open tabs and no one else.
+ *
+ * @param username The username of the user.
+ *
+ * @returns The name of the room.
+ */
+export const userRoom = (username: string): string => `user:${username}`;
+
+/**
+ * Notifies users of the badges they earn, on each of their open connections, once a badge check
+ * finishes. Badges never hold up the action that earned them, so the check is not awaited and
+ * errors when checking them are ignored.
+ *
+ * @param socket The socket server to send the notifications through.
+ * @param check The pending badge check, resolving to the badges earned or an error message.
+ */
+export const notifyBadges = (socket: FakeSOSocket, check: Promise<BadgeAwardsResponse>): void => {
+  check
+    .then(awards => {
+      if ('error' in awards) {
+        return;
+      }
+
+      awards.forEach(award => socket.to(userRoom(award.username)).emit('badgeAwarded', award));
+    })
+    .catch(() => {});
+};
@@ -1,75 +1,110 @@
-import { Question } from '../types/types';
-import { getMostRecentAnswerTime } from '../services/answer.service';
+import { ObjectId } from 'mongodb';
+import { PipelineStage } from 'mongoose';
+import { Answer, AnswerOrderType, OrderType, TagOrderType } from '../types/types';
+
 /**
- * Gets the newest questions from a list, sorted by the asking date in descending order.
+ * Builds the aggregation stages that order questions, and drop the ones that do not belong,
+ * for the given order type. Questions with the same sort key are sorted newest first.
+ *
+ * - `newest`: all questions, by asking date.
+ * - `unanswered`: questions without answers, by asking date.
+ * - `unresolved`: questions without an accepted answer, by asking date.
+ * - `active`: all questions, by the date of their most recent answer. Questions without
+ *   answers come last.
+ * - `mostViewed`: all questions, by number of views.
+ * - `relevance`: all questions, by their text search score. The stages must run after a
+ *   `$match` stage with a `$text` query.
  *
- * @param {Question[]} qlist - The list of questions to sort
+ * @param {OrderType} order - The order type to build the stages for
  *
- * @returns {Question[]} - The sorted list of questions
+ * @returns {PipelineStage[]} - The stages, to run on the `Question` collection
  */
-export const sortQuestionsByNewest = (qlist: Question[]): Question[] =>
-  qlist.sort((a, b) => {
-    if (a.askDateTime > b.askDateTime) {
-      return -1;
-    }
-
-    if (a.askDateTime < b.askDateTime) {
-      return 1;
-    }
+export const buildQuestionOrderStages = (order: OrderType): PipelineStage[] => {
+  const newestFirst = { askDateTime: -1, _id: -1 } as const;
 
-    return 0;
-  });
+  switch (order) {
+    case 'unanswered':
+      return [{ $match: { answers: { $size: 0 } } }, { $sort: newestFirst }];
+    case 'unresolved':
+      return [{ $match: { acceptedAnswer: null } }, { $sort: newestFirst }];
+    case 'active':
+      return [
+        {
+          $lookup: {
+            from: 'Answer',
+            localField: 'answers',
+            foreignField: '_id',
+            as: 'answerDocs',
+          },
+        },
+        { $addFields: { lastAnswerTime: { $max: '$answerDocs.ansDateTime' } } },
+        { $sort: { lastAnswerTime: -1, ...newestFirst } },
+        { $project: { answerDocs: 0, lastAnswerTime: 0 } },
+      ];
+    case 'mostViewed':
+      return [
+        { $addFields: { viewCount: { $size: { $ifNull: ['$views', []] } } } },
+        { $sort: { viewCount: -1, ...newestFirst } },
+        { $project: { viewCount: 0 } },
+      ];
+    case 'relevance':
+      return [{ $sort: { score: { $meta: 'textScore' }, ...newestFirst } }];
+    default:
+      return [{ $sort: newestFirst }];
+  }
+};
 
 /**
- * Gets unanswered questions from a list, sorted by the asking date in descending order.
+ * Builds the aggregation stage that orders the tag list for the given order type.
+ *
+ * - `popular`: by number of questions, then by name.
+ * - `name`: alphabetically.
+ * - `new`: the most recently created tags first.
  *
- * @param {Question[]} qlist - The list of questions to filter and sort
+ * @param {TagOrderType} order - The order type to build the stage for
  *
- * @returns {Question[]} - The filtered and sorted list of unanswered questions
+ * @returns {PipelineStage.Sort} - The stage, to run on the `Tag` collection
  */
-export const sortQuestionsByUnanswered = (qlist: Question[]): Question[] =>
-  sortQuestionsByNewest(qlist).filter(q => q.answers.length === 0);
+export const buildTagOrderStage = (order: TagOrderType): PipelineStage.Sort => {
+  switch (order) {
+    case 'name':
+      return { $sort: { name: 1 } };
+    case 'new':
+      return { $sort: { _id: -1 } };
+    default:
+      return { $sort: { qcnt: -1, name: 1 } };
+  }
+};
 
 /**
- * Gets active questions from a list, sorted by the most recent answer date in descending order.
+ * Sorts the answers to a question in the given order. The accepted answer, if any, always
+ * comes first. Answers with the same score are sorted newest first.
  *
- * @param {Question[]} qlist - The list of questions to filter and sort
+ * @param {Answer[]} answers - The answers to sort
+ * @param {AnswerOrderType} order - The order to sort the answers in: by score, newest or oldest first
+ * @param {ObjectId | null} acceptedAnswer - The ID of the accepted answer, if any
  *
- * @returns {Question[]} - The filtered and sorted list of active questions
+ * @returns {Answer[]} - A new array with the sorted answers
  */
-export const sortQuestionsByActive = (qlist: Question[]): Question[] => {
-  const mp = new Map();
-  qlist.forEach(q => {
-    getMostRecentAnswerTime(q, mp);
-  });
+export const sortAnswers = (
+  answers: Answer[],
+  order: AnswerOrderType,
+  acceptedAnswer?: ObjectId | null,
+): Answer[] => {
+  const isAccepted = (a: Answer) =>
+    !!acceptedAnswer && a._id?.toString() === acceptedAnswer.toString();
+  const score = (a: Answer) => (a.upVotes || []).length - (a.downVotes || []).length;
+  const time = (a: Answer) => new Date(a.ansDateTime).getTime();
 
-  return sortQuestionsByNewest(qlist).sort((a, b) => {
-    const adate = mp.get(a._id?.toString());
-    const bdate = mp.get(b._id?.toString());
-    if (!adate) {
-      return 1;
+  return [...answers].sort((a, b) => {
+    if (isAccepted(a) !== isAccepted(b)) {
+      return isAccepted(a) ? -1 : 1;
     }
-    if (!bdate) {
-      return -1;
-    }
-    if (adate > bdate) {
-      return -1;
-    }
-    if (adate < bdate) {
-      return 1;
+
+    if (order === 'votes' && score(a) !== score(b)) {
+      return score(b) - score(a);
     }
-    return 0;
+
+    return order === 'oldest' ? time(a) - time(b) : time(b) - time(a);
   });
 };
-
-/**
- * Sorts a list of questions by the number of views in descending order. First, the questions are
- * sorted by creation date (newest first), then by number of views, from highest to lowest.
- * If questions have the same number of views, the newer question will be before the older question.
- *
- * @param qlist The array of Question objects to be sorted.
- *
- * @returns A new array of Question objects sorted by the number of views.
- */
-export const sortQuestionsByMostViews = (qlist: Question[]): Question[] =>
-  sortQuestionsByNewest(qlist).sort((a, b) => b.views.length - a.views.length);
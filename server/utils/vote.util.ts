@@ -0,0 +1,84 @@
+import { QueryOptions } from 'mongoose';
+
+// Answers and comments saved before votes existed have no vote arrays, so missing ones are
+// treated as empty
+const upVotesOrEmpty = { $ifNull: ['$upVotes', []] };
+const downVotesOrEmpty = { $ifNull: ['$downVotes', []] };
+
+/**
+ * Builds the aggregation-pipeline update that toggles a user's vote on a document with
+ * `upVotes` and `downVotes` arrays. Casting a vote the user has already cast removes it, and
+ * casting the opposite vote moves the user from one array to the other.
+ *
+ * @param {string} username - The username of the user who voted.
+ * @param {'upvote' | 'downvote'} type - The type of vote to toggle.
+ *
+ * @returns {QueryOptions} - The update pipeline to pass to `findOneAndUpdate`.
+ */
+export const buildVoteUpdate = (username: string, type: 'upvote' | 'downvote'): QueryOptions => {
+  if (type === 'upvote') {
+    return [
+      {
+        $set: {
+          upVotes: {
+            $cond: [
+              { $in: [username, upVotesOrEmpty] },
+              { $filter: { input: upVotesOrEmpty, as: 'u', cond: { $ne: ['$$u', username] } } },
+              { $concatArrays: [upVotesOrEmpty, [username]] },
+            ],
+          },
+          downVotes: {
+            $cond: [
+              { $in: [username, upVotesOrEmpty] },
+              downVotesOrEmpty,
+              { $filter: { input: downVotesOrEmpty, as: 'd', cond: { $ne: ['$$d', username] } } },
+            ],
+          },
+        },
+      },
+    ];
+  }
+
+  return [
+    {
+      $set: {
+        downVotes: {
+          $cond: [
+            { $in: [username, downVotesOrEmpty] },
+            { $filter: { input: downVotesOrEmpty, as: 'd', cond: { $ne: ['$$d', username] } } },
+            { $concatArrays: [downVotesOrEmpty, [username]] },
+          ],
+        },
+        upVotes: {
+          $cond: [
+            { $in: [username, downVotesOrEmpty] },
+            upVotesOrEmpty,
+            { $filter: { input: upVotesOrEmpty, as: 'u', cond: { $ne: ['$$u', username] } } },
+          ],
+        },
+      },
+    },
+  ];
+};
+
+/**
+ * Builds the aggregation-pipeline update that toggles a user's upvote on a document that can
+ * only be upvoted, such as a comment.
+ *
+ * @param {string} username - The username of the user who voted.
+ *
+ * @returns {QueryOptions} - The update pipeline to pass to `findOneAndUpdate`.
+ */
+export const buildUpvoteUpdate = (username: string): QueryOptions => [
+  {
+    $set: {
+      upVotes: {
+        $cond: [
+          { $in: [username, upVotesOrEmpty] },
+          { $filter: { input: upVotesOrEmpty, as: 'u', cond: { $ne: ['$$u', username] } } },
+          { $concatArrays: [upVotesOrEmpty, [username]] },
+        ],
+      },
+    },
+  },
+];
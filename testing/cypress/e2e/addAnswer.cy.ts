@@ -19,7 +19,10 @@ describe("Cypress Tests to verify adding new answers", () => {
     ];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains(Q1_DESC).click();
     cy.contains("Answer Question").click();
@@ -36,7 +39,10 @@ describe("Cypress Tests to verify adding new answers", () => {
   it("5.3 | Answer is mandatory when creating a new answer", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains(Q1_DESC).click();
     cy.contains("Answer Question").click();
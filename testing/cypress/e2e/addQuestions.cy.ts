@@ -11,7 +11,10 @@ describe("Cypress Tests to verify asking new questions", () => {
   it("2.1 | Ask a Question creates and displays expected meta data", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains("Ask a Question").click();
     cy.get("#formTitleInput").type("Test Question Q1");
@@ -47,7 +50,10 @@ describe("Cypress Tests to verify asking new questions", () => {
   it("2.2 | Ask a Question with empty title shows error", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains("Ask a Question").click();
     cy.get("#formTextInput").type("Test Question 1 Text Q1");
@@ -10,7 +10,10 @@ describe("Cypress Tests to verify order of questions displayed", () => {
   it('1.1 | Adds three questions and one answer, then click "Questions", then click unanswered button, verifies the sequence', () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
 
     // add a question
@@ -61,7 +64,10 @@ describe("Cypress Tests to verify order of questions displayed", () => {
 
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.get(".postTitle").each(($el, index, $list) => {
       cy.wrap($el).should("contain", qTitles[index]);
@@ -77,7 +83,10 @@ describe("Cypress Tests to verify order of questions displayed", () => {
     ];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains("Active").click();
     cy.get(".postTitle").each(($el, index, $list) => {
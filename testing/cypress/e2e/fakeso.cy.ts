@@ -15,7 +15,10 @@ describe("Cypress Tests repeated from React assignment", () => {
   it('1.1 | Adds three questions and one answer, then click "Questions", then click unanswered button, verifies the sequence', () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
 
 
@@ -62,7 +65,10 @@ describe("Cypress Tests repeated from React assignment", () => {
 
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.get(".postTitle").each(($el, index, $list) => {
       cy.wrap($el).should("contain", qTitles[index]);
@@ -73,7 +79,10 @@ describe("Cypress Tests repeated from React assignment", () => {
     const qTitles = [Q1_DESC, Q2_DESC, Q4_DESC, Q3_DESC];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains("Active").click();
     cy.get(".postTitle").each(($el, index, $list) => {
@@ -84,7 +93,10 @@ describe("Cypress Tests repeated from React assignment", () => {
   it("2.1 | Adds multiple questions one by one and displays them in All Questions", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
 
     // Add multiple questions
@@ -136,7 +148,10 @@ describe("Cypress Tests repeated from React assignment", () => {
   it("2.2 | Ask a Question creates and displays expected meta data", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains("Ask a Question").click();
     cy.get("#formTitleInput").type("Test Question Q1");
@@ -172,7 +187,10 @@ describe("Cypress Tests repeated from React assignment", () => {
   it("2.3 | Ask a Question with empty title shows error", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains("Ask a Question").click();
     cy.get("#formTextInput").type("Test Question 1 Text Q1");
@@ -186,7 +204,10 @@ describe("Cypress Tests repeated from React assignment", () => {
 
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.get("#searchBar").type(`${searchText}{enter}`);
     cy.get(".postTitle").should("have.length", 0);
@@ -197,7 +218,10 @@ describe("Cypress Tests repeated from React assignment", () => {
     const qTitles = [Q4_DESC];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.get("#searchBar").type("data remains{enter}");
     cy.get(".postTitle").each(($el, index, $list) => {
@@ -209,7 +233,10 @@ describe("Cypress Tests repeated from React assignment", () => {
     const qTitles = [Q1_DESC];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.get("#searchBar").type("[react]{enter}");
     cy.get(".postTitle").each(($el, index, $list) => {
@@ -221,7 +248,10 @@ describe("Cypress Tests repeated from React assignment", () => {
     const qTitles = [Q2_DESC, Q1_DESC];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.get("#searchBar").type("[javascript]{enter}");
     cy.get(".postTitle").each(($el, index, $list) => {
@@ -233,7 +263,10 @@ describe("Cypress Tests repeated from React assignment", () => {
     const qTitles = [Q4_DESC, Q2_DESC];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.get("#searchBar").type("[android-studio]{enter}");
     cy.get(".postTitle").each(($el, index, $list) => {
@@ -245,7 +278,10 @@ describe("Cypress Tests repeated from React assignment", () => {
     const qTitles = [Q4_DESC, Q2_DESC];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.get("#searchBar").type("[shared-preferences]{enter}");
     cy.get(".postTitle").each(($el, index, $list) => {
@@ -256,7 +292,10 @@ describe("Cypress Tests repeated from React assignment", () => {
   it("4.5 | Search for a question using a tag that does not exist", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.get("#searchBar").type("[nonExistentTag]{enter}");
     cy.get(".postTitle").should("have.length", 0);
@@ -266,7 +305,10 @@ describe("Cypress Tests repeated from React assignment", () => {
     const answers = ["Test Answer 1", A1_TXT, A2_TXT];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains(Q1_DESC).click();
     cy.contains("Answer Question").click();
@@ -283,7 +325,10 @@ describe("Cypress Tests repeated from React assignment", () => {
   it("5.3 | Answer is mandatory when creating a new answer", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains(Q1_DESC).click();
     cy.contains("Answer Question").click();
@@ -294,7 +339,10 @@ describe("Cypress Tests repeated from React assignment", () => {
   it("6.1 | Adds a question, click active button, verifies the sequence", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     // add a question
     cy.contains("Ask a Question").click();
@@ -346,7 +394,10 @@ describe("Cypress Tests repeated from React assignment", () => {
     ];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains(Q3_DESC).click();
     cy.get(".answerText").each(($el, index) => {
@@ -357,7 +408,10 @@ describe("Cypress Tests repeated from React assignment", () => {
   it("6.3 | Checks if a8 exist in q4 answers page", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains(Q4_DESC).click();
     cy.contains("Store data in a SQLLite database.");
@@ -366,7 +420,10 @@ describe("Cypress Tests repeated from React assignment", () => {
   it("7.1 | Adds a question with tags, checks the tags existied", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
 
     // add a question with tags
@@ -386,7 +443,10 @@ describe("Cypress Tests repeated from React assignment", () => {
   it("7.2 | Checks if all tags exist", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     // all tags exist in the page
     cy.contains("Tags").click();
@@ -401,7 +461,10 @@ describe("Cypress Tests repeated from React assignment", () => {
   it("7.3 | Checks if all questions exist inside tags", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     // all question no. should be in the page
     cy.contains("Tags").click();
@@ -413,7 +476,10 @@ describe("Cypress Tests repeated from React assignment", () => {
   it("8.1 | go to question in tag react", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     // all question no. should be in the page
     cy.contains("Tags").click();
@@ -424,7 +490,10 @@ describe("Cypress Tests repeated from React assignment", () => {
   it("8.3 | create a new question with a new tag and finds the question through tag", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
 
     // add a question with tags
@@ -443,7 +512,10 @@ describe("Cypress Tests repeated from React assignment", () => {
   it("9.1 | Adds a question with a hyperlink and verifies", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains("Ask a Question").click();
     cy.get("#formTitleInput").type("How to add a hyperlink in Markdown?");
@@ -466,7 +538,10 @@ describe("Cypress Tests repeated from React assignment", () => {
     ];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains(Q1_DESC).click();
     cy.contains("Answer Question").click();
@@ -507,7 +582,10 @@ describe("Cypress Tests repeated from React assignment", () => {
     ];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains("Ask a Question").click();
     cy.get("#formTitleInput").type(
@@ -521,7 +599,8 @@ describe("Cypress Tests repeated from React assignment", () => {
     });
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains("How to add an invalid hyperlink in Markdown?").should(
       "not.exist",
@@ -531,7 +610,10 @@ describe("Cypress Tests repeated from React assignment", () => {
   it("9.4 | Attempts to add an answer with an invalid hyperlink and verifies failure", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains(Q1_DESC).click();
     cy.contains("Answer Question").click();
@@ -542,7 +624,8 @@ describe("Cypress Tests repeated from React assignment", () => {
     cy.contains("Invalid hyperlink");
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains(Q1_DESC).click();
     cy.get(".answerText").should("not.contain", "https://wrong.url");
@@ -551,7 +634,10 @@ describe("Cypress Tests repeated from React assignment", () => {
   it("9.5 | Adds multiple questions with valid hyperlinks and verify", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
 
     // List of question data
@@ -598,7 +684,10 @@ describe("Cypress Tests repeated from React assignment", () => {
 
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains("Tags").click();
 
@@ -613,7 +702,10 @@ describe("Cypress Tests repeated from React assignment", () => {
 
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
 
     //clicks the 3rd tag associated with the question.
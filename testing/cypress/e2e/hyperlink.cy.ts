@@ -11,7 +11,10 @@ describe("Cypress Tests repeated to verify adding hyperlinks to text", () => {
   it("9.1 | Adds a question with a hyperlink and verifies", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains("Ask a Question").click();
     cy.get("#formTitleInput").type("How to add a hyperlink in Markdown?");
@@ -34,7 +37,10 @@ describe("Cypress Tests repeated to verify adding hyperlinks to text", () => {
     ];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains(Q1_DESC).click();
     cy.contains("Answer Question").click();
@@ -75,7 +81,10 @@ describe("Cypress Tests repeated to verify adding hyperlinks to text", () => {
     ];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains("Ask a Question").click();
     cy.get("#formTitleInput").type(
@@ -89,7 +98,8 @@ describe("Cypress Tests repeated to verify adding hyperlinks to text", () => {
     });
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains("How to add an invalid hyperlink in Markdown?").should(
       "not.exist"
@@ -99,7 +109,10 @@ describe("Cypress Tests repeated to verify adding hyperlinks to text", () => {
   it("9.4 | Attempts to add an answer with an invalid hyperlink and verifies failure", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains(Q1_DESC).click();
     cy.contains("Answer Question").click();
@@ -110,7 +123,8 @@ describe("Cypress Tests repeated to verify adding hyperlinks to text", () => {
     cy.contains("Invalid hyperlink");
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
     cy.contains("Submit").click();
     cy.contains(Q1_DESC).click();
     cy.get(".answerText").should("not.contain", "https://wrong.url");
@@ -119,7 +133,10 @@ describe("Cypress Tests repeated to verify adding hyperlinks to text", () => {
   it("9.5 | Adds multiple questions with valid hyperlinks and verify", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
 
     // List of question data
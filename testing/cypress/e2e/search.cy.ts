@@ -12,7 +12,10 @@ describe("Cypress Tests tp verify searching questions", () => {
 
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.get("#searchBar").type(`${searchText}{enter}`);
     cy.get(".postTitle").should("have.length", 0);
@@ -22,7 +25,10 @@ describe("Cypress Tests tp verify searching questions", () => {
     const qTitles = [Q3_DESC];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.get("#searchBar").type("40 million{enter}");
     cy.get(".postTitle").each(($el, index, $list) => {
@@ -34,7 +40,10 @@ describe("Cypress Tests tp verify searching questions", () => {
     const qTitles = [Q4_DESC];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.get("#searchBar").type("data remains{enter}");
     cy.get(".postTitle").each(($el, index, $list) => {
@@ -46,7 +55,10 @@ describe("Cypress Tests tp verify searching questions", () => {
     const qTitles = [Q1_DESC];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.get("#searchBar").type("[react]{enter}");
     cy.get(".postTitle").each(($el, index, $list) => {
@@ -61,7 +73,10 @@ describe("Cypress Tests tp verify searching questions", () => {
     ];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.get("#searchBar").type("[javascript]{enter}");
     cy.get(".postTitle").each(($el, index, $list) => {
@@ -76,7 +91,10 @@ describe("Cypress Tests tp verify searching questions", () => {
     ];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.get("#searchBar").type("[android-studio]{enter}");
     cy.get(".postTitle").each(($el, index, $list) => {
@@ -91,7 +109,10 @@ describe("Cypress Tests tp verify searching questions", () => {
     ];
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.get("#searchBar").type("[shared-preferences]{enter}");
     cy.get(".postTitle").each(($el, index, $list) => {
@@ -102,7 +123,10 @@ describe("Cypress Tests tp verify searching questions", () => {
   it("4.5 | Search for a question using a tag that does not exist", () => {
     cy.visit("http://localhost:3000");
     cy.contains('Welcome to FakeStackOverflow!');
-    cy.get("#usernameInput").type("testuser")
+    cy.contains("Sign up").click();
+    cy.get("#usernameInput").type("testuser");
+    cy.get("#passwordInput").type("testpassword");
+    cy.get("#passwordConfirmationInput").type("testpassword");
     cy.contains("Submit").click();
     cy.get("#searchBar").type("[nonExistentTag]{enter}");
     cy.get(".postTitle").should("have.length", 0);